@@ -4,10 +4,16 @@ import './styles/App.css';
 
 import PatientRegistration from './components/PatientRegistration';
 import VitalsForm from './components/VitalsForm';
-import OverweightAssessmentForm from './components/OverweightAssessmentForm';
-import GeneralAssessmentForm from './components/GeneralAssessmentForm';
+import NewAssessment from './components/NewAssessment';
 import PatientListing from './components/PatientListing';
 import PatientDetails from './components/PatientDetails';
+import PatientMerge from './components/PatientMerge';
+import PatientImport from './components/PatientImport';
+import VitalsImport from './components/VitalsImport';
+import Login from './components/Login';
+import RequireAuth from './components/RequireAuth';
+import RequirePermission from './components/RequirePermission';
+import AppHeader from './components/AppHeader';
 
 /*
 This is the root component of the application that sets up the routing structure.
@@ -15,33 +21,71 @@ This is the root component of the application that sets up the routing structure
 ROUTE STRUCTURE:
 1. / (root) -> PatientRegistration (default landing page)
 2. /register-patient -> PatientRegistration (patient registration form)
-3. /vitals-form -> VitalsForm (form to record patient vitals and calculate BMI)
-4. /overweight-assessment -> OverweightAssessmentForm (assessment form for patients with BMI > 25)
-5. /general-assessment -> GeneralAssessmentForm (assessment form for patients with BMI ≤ 25)
-6. /patient-listing -> PatientListing (displays all patients with their vitals and assessment data)
-7. /patient-details -> PatientDetails (detailed view of individual patient records)
+3. /patient-listing -> PatientListing (displays all patients with their vitals and assessment data)
+4. /patients/:patientId -> PatientDetails (detailed view of individual patient records)
+5. /patients/:patientId/edit -> PatientRegistration in edit mode (correct the patient's demographics)
+6. /patients/:patientId/merge?with=:otherId -> PatientMerge (combine two records of the same person)
+7. /patients/:patientId/vitals/new -> VitalsForm (form to record patient vitals and calculate BMI)
+8. /patients/:patientId/assessments/new?type=overweight|general -> NewAssessment
+   (whichever the clinic's assessment rules call for, see services/assessmentRules;
+   by default OverweightAssessmentForm for BMI > 25, GeneralAssessmentForm for BMI ≤ 25)
+9. /import-patients -> PatientImport (register many patients from a CSV file)
+10. /import-vitals -> VitalsImport (load past height and weight measurements from a CSV file)
+11. /login -> Login (the only route available without signing in)
+
+Patient screens load the patient from the URL, so they can be bookmarked and
+reloaded. URL builders live in src/routes.ts.
+
+Every route except /login is wrapped in RequireAuth, which sends signed-out
+users to the login screen and brings them back afterwards. RequirePermission
+then limits screens by role (services/permissions): registration, imports and edits for all staff,
+vitals and vitals imports for nurses and clinicians, assessments and merges for clinicians only.
+
+The header shows the clinic name from the runtime configuration (services/config)
+and, once signed in, the username and a logout control.
 
 */
 const App: React.FC = () => {
   return (
     <Router>
+      <AppHeader />
       <div className="container">
         <Routes>
-          <Route path="/" element={<Navigate to="/patient-listing" replace />} />
-          
-          <Route path="/register-patient" element={<PatientRegistration />} />
-          
-          <Route path="/vitals-form" element={<VitalsForm />} />
-          
-          <Route path="/overweight-assessment" element={<OverweightAssessmentForm />} />
-          
-          <Route path="/general-assessment" element={<GeneralAssessmentForm />} />
-          
-          <Route path="/patient-listing" element={<PatientListing />} />
-          
-          <Route path="/patient-details" element={<PatientDetails />} />
+          <Route path="/login" element={<Login />} />
           
-          <Route path="*" element={<Navigate to="/patient-listing" replace />} />
+          <Route element={<RequireAuth />}>
+            <Route path="/" element={<Navigate to="/patient-listing" replace />} />
+            
+            <Route element={<RequirePermission permission="patients:register" />}>
+              <Route path="/register-patient" element={<PatientRegistration />} />
+              
+              <Route path="/patients/:patientId/edit" element={<PatientRegistration />} />
+              
+              <Route path="/import-patients" element={<PatientImport />} />
+            </Route>
+            
+            <Route element={<RequirePermission permission="patients:view" />}>
+              <Route path="/patient-listing" element={<PatientListing />} />
+              
+              <Route path="/patients/:patientId" element={<PatientDetails />} />
+            </Route>
+            
+            <Route element={<RequirePermission permission="patients:merge" />}>
+              <Route path="/patients/:patientId/merge" element={<PatientMerge />} />
+            </Route>
+            
+            <Route element={<RequirePermission permission="vitals:record" />}>
+              <Route path="/patients/:patientId/vitals/new" element={<VitalsForm />} />
+              
+              <Route path="/import-vitals" element={<VitalsImport />} />
+            </Route>
+            
+            <Route element={<RequirePermission permission="assessments:create" />}>
+              <Route path="/patients/:patientId/assessments/new" element={<NewAssessment />} />
+            </Route>
+            
+            <Route path="*" element={<Navigate to="/patient-listing" replace />} />
+          </Route>
         </Routes>
       </div>
     </Router>
@@ -0,0 +1,37 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import useAuth from '../hooks/useAuth';
+import { routes } from '../routes';
+import { authApi } from '../services/auth';
+import { getConfig } from '../services/config';
+import { ROLE_LABELS } from '../services/permissions';
+
+/*
+Top bar shown on every screen: the clinic name from the runtime configuration,
+and for signed-in users their username, role and a logout control.
+*/
+const AppHeader: React.FC = () => {
+  const navigate = useNavigate();
+  const { session } = useAuth();
+
+  const handleLogout = () => {
+    authApi.logout();
+    navigate(routes.login, { replace: true });
+  };
+
+  return (
+    <header className="app-header">
+      <span className="app-header-title">{getConfig().clinicName}</span>
+      {session && (
+        <div className="app-header-user">
+          <span>{session.username} · {ROLE_LABELS[session.role]}</span>
+          <button type="button" className="app-header-logout" onClick={handleLogout}>
+            Log out
+          </button>
+        </div>
+      )}
+    </header>
+  );
+};
+
+export default AppHeader;
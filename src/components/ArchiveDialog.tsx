@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { getApiErrorMessage } from '../services/api';
+import { ArchiveAction, validateArchiveReason } from '../services/archiving';
+
+/*
+Confirmation dialog for archiving or restoring a record.
+
+Lists exactly what will be hidden (or shown again), asks for the required
+reason and runs the action. The dialog stays open with the error if the
+action fails, so the reason does not have to be typed again.
+*/
+
+interface ArchiveDialogProps {
+  action: ArchiveAction;
+  title: string;
+  effects: string[];
+  onConfirm: (reason: string) => Promise<unknown>;
+  onClose: () => void;
+}
+
+const ArchiveDialog: React.FC<ArchiveDialogProps> = ({ action, title, effects, onConfirm, onClose }) => {
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const reasonError = validateArchiveReason(reason);
+    if (reasonError) {
+      setError(reasonError);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onConfirm(reason);
+      onClose();
+    } catch (err) {
+      setError(getApiErrorMessage(err, action === 'archive' ? 'Failed to archive.' : 'Failed to restore.'));
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="archive-dialog-title"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(17, 24, 39, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000
+      }}
+    >
+      <form
+        onSubmit={handleSubmit}
+        style={{
+          background: 'white',
+          borderRadius: '8px',
+          padding: '1.5rem',
+          width: '100%',
+          maxWidth: '520px',
+          boxShadow: '0 10px 25px rgba(0,0,0,0.2)'
+        }}
+      >
+        <h2 id="archive-dialog-title" style={{ fontSize: '1.25rem', fontWeight: 600, marginBottom: '1rem' }}>
+          {title}
+        </h2>
+
+        <p style={{ fontWeight: 500, marginBottom: '0.5rem' }}>
+          {action === 'archive' ? 'This will hide:' : 'This will show again:'}
+        </p>
+        <ul style={{ paddingLeft: '1.25rem', marginBottom: '1rem', color: '#374151' }}>
+          {effects.map(effect => <li key={effect}>{effect}</li>)}
+        </ul>
+
+        <div className="form-group">
+          <label className="form-label" htmlFor="archive-reason">Reason *</label>
+          <textarea
+            id="archive-reason"
+            className="form-input"
+            rows={3}
+            value={reason}
+            onChange={(e) => {
+              setReason(e.target.value);
+              if (error) setError(null);
+            }}
+            placeholder={action === 'archive' ? 'e.g. Entered for the wrong patient' : 'e.g. Archived by mistake'}
+            disabled={submitting}
+            autoFocus
+          />
+        </div>
+
+        {error && (
+          <div className="alert-box alert-error">
+            <p>{error}</p>
+          </div>
+        )}
+
+        <div className="button-group" style={{ marginTop: '1rem' }}>
+          <button type="button" className="btn btn-secondary" onClick={onClose} disabled={submitting}>
+            Cancel
+          </button>
+          <button type="submit" className="btn btn-primary" disabled={submitting}>
+            {submitting
+              ? (action === 'archive' ? 'Archiving...' : 'Restoring...')
+              : (action === 'archive' ? 'Archive' : 'Restore')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ArchiveDialog;
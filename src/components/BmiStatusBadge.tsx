@@ -0,0 +1,65 @@
+import React from 'react';
+import { BmiCategory } from '../services/bmiClassification';
+
+/*
+The BMI status pill (services/bmiStatus) and its colours, the same everywhere a
+status is shown. Records without a status (no vitals, archived) are grey.
+*/
+
+export interface BmiStatusColors {
+  bg: string;
+  text: string;
+  border: string;
+}
+
+const CATEGORY_COLORS: Record<BmiCategory, BmiStatusColors> = {
+  underweight: { bg: '#fef3c7', text: '#92400e', border: '#fde68a' },
+  normal: { bg: '#d1fae5', text: '#065f46', border: '#a7f3d0' },
+  overweight: { bg: '#ffedd5', text: '#9a3412', border: '#fed7aa' },
+  'obese-1': { bg: '#fee2e2', text: '#991b1b', border: '#fecaca' },
+  'obese-2': { bg: '#fecaca', text: '#7f1d1d', border: '#fca5a5' },
+  'obese-3': { bg: '#fca5a5', text: '#450a0a', border: '#f87171' },
+};
+
+const NO_STATUS_COLORS: BmiStatusColors = { bg: '#f3f4f6', text: '#6b7280', border: '#e5e7eb' };
+
+export const bmiStatusColors = (category?: BmiCategory): BmiStatusColors =>
+  category ? CATEGORY_COLORS[category] : NO_STATUS_COLORS;
+
+interface BmiStatusBadgeProps {
+  label: string;
+  category?: BmiCategory;
+  large?: boolean;
+  title?: string;
+  style?: React.CSSProperties;
+  children?: React.ReactNode;
+}
+
+const BmiStatusBadge: React.FC<BmiStatusBadgeProps> = ({ label, category, large, title, style, children }) => {
+  const colors = bmiStatusColors(category);
+
+  return (
+    <span
+      title={title}
+      style={{
+        display: 'inline-flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: large ? '0.5rem 1rem' : '0.25rem 0.75rem',
+        borderRadius: '9999px',
+        fontSize: large ? '0.875rem' : '0.75rem',
+        fontWeight: 600,
+        color: colors.text,
+        backgroundColor: colors.bg,
+        border: `1px solid ${colors.border}`,
+        whiteSpace: 'nowrap',
+        ...style
+      }}
+    >
+      {label}
+      {children}
+    </span>
+  );
+};
+
+export default BmiStatusBadge;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { BODY_RISK_LABELS, BodyRatio, BodyRisk } from '../services/bodyComposition';
+
+/*
+A waist ratio with its risk category (services/bodyComposition), shown next to
+the BMI status wherever a patient's latest measurements appear.
+*/
+
+const RISK_COLORS: Record<BodyRisk, { bg: string; text: string }> = {
+  low: { bg: '#fef3c7', text: '#92400e' },
+  healthy: { bg: '#d1fae5', text: '#065f46' },
+  increased: { bg: '#ffedd5', text: '#9a3412' },
+  high: { bg: '#fee2e2', text: '#991b1b' },
+};
+
+interface BodyRatioBadgeProps {
+  label?: string;
+  value: BodyRatio;
+}
+
+const BodyRatioBadge: React.FC<BodyRatioBadgeProps> = ({ label, value }) => {
+  const colors = value.risk ? RISK_COLORS[value.risk] : { bg: '#f3f4f6', text: '#374151' };
+
+  return (
+    <span
+      style={{
+        display: 'inline-block',
+        padding: '0.125rem 0.5rem',
+        borderRadius: '9999px',
+        fontSize: '0.75rem',
+        fontWeight: 600,
+        color: colors.text,
+        backgroundColor: colors.bg,
+        whiteSpace: 'nowrap'
+      }}
+      title={value.risk ? undefined : 'No risk category: sex not recorded as female or male'}
+    >
+      {label && `${label} `}{value.ratio.toFixed(2)}
+      {value.risk && ` · ${BODY_RISK_LABELS[value.risk]}`}
+    </span>
+  );
+};
+
+export default BodyRatioBadge;
@@ -1,14 +1,27 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate, useLocation } from 'react-router-dom';
-import { assessmentApi } from '../services/api';
+import { useNavigate, useParams } from 'react-router-dom';
+import { assessmentApi, getApiErrorMessage } from '../services/api';
+import { recordGeneralAssessment } from '../services/queries';
+import { createLogger } from '../services/logger';
+import { formatBmiForAge } from '../services/bmiForAge';
+import { formatAssessments, nextAssessment, routeVisit } from '../services/assessmentRules';
+import { getConfig } from '../services/config';
+import { GeneralHealth } from '../types';
+import usePatient from '../hooks/usePatient';
+import useLatestVitals from '../hooks/useLatestVitals';
+import { routes } from '../routes';
+import { bmiStatusColors } from './BmiStatusBadge';
 
 
 /*
 The general assessing form is for assessing patients with normal or underweight BMI (BMI ≤ 25) with health and drug use questions.
 
 Eligibility Check:
-   - Only accessible for patients with BMI ≤ 25
-   - Blocks overweight patients (redirects them)
+   - Only accessible when the clinic's assessment rules call for a general
+     assessment after the latest vitals (services/assessmentRules); by default
+     BMI ≤ 25, or below the 85th BMI-for-age percentile under 20
+   - Blocks other patients (redirects them)
+   - When the rules call for another assessment after this one, saving opens it
 
 Health Assessment:
    - General health status (Good/Poor)
@@ -21,15 +34,16 @@ Duplicate Prevention:
 
 BMI Status Calculation:
    - Dynamically calculates BMI category
-   - Displays appropriate status (Underweight/Normal)
+   - Displays appropriate status (Underweight/Normal, or Healthy weight and the
+     percentile for patients under 20)
 
 KEY FLOW:
-1. Receives patient data and BMI from vitals form
-2. Calculates BMI status (Underweight/Normal)
+1. Loads the patient from the URL and the BMI from their latest vitals
+2. Calculates BMI status and checks the assessment rules
 3. Fetches existing assessment dates
 4. Validates form inputs
 5. Submits assessment to API
-6. Returns to patient details page
+6. Opens the next assessment the rules call for, or returns to patient details page
 
 */
 
@@ -40,11 +54,14 @@ interface GeneralAssessmentData {
   comments: string;       
 }
 
+const log = createLogger('GeneralAssessmentForm');
+
 const GeneralAssessmentForm: React.FC = () => {
   const navigate = useNavigate();
-  const location = useLocation();
-  
-  const { patient, bmi, bmiStatus } = location.state || {};
+  const { patientId } = useParams<{ patientId: string }>();
+  const { patient, loading: patientLoading } = usePatient(patientId);
+  const { latestVitals, loading: vitalsLoading } = useLatestVitals(patientId);
+  const bmi = latestVitals?.bmi;
   
   const [formData, setFormData] = useState<GeneralAssessmentData>({
     visit_date: new Date().toISOString().split('T')[0],
@@ -57,45 +74,31 @@ const GeneralAssessmentForm: React.FC = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const getBmiStatusText = (bmiValue: number): string => {
-    if (bmiValue < 18.5) return 'Underweight';
-    if (bmiValue < 25) return 'Normal';
-    return 'Overweight';
-  };
-
-  const displayBmiStatus = bmi !== undefined ? getBmiStatusText(bmi) : bmiStatus;
+  const { bmiScheme, assessmentRules } = getConfig();
+  const routing = latestVitals ? routeVisit(assessmentRules, bmiScheme, latestVitals, patient) : undefined;
+  const bmiStatus = routing?.status;
+  const displayBmiStatus = bmiStatus?.label;
 
   useEffect(() => {
     const fetchExistingAssessments = async () => {
       if (!patient?.id) return;
       
       try {
-        const response = await assessmentApi.getPatientGeneralAssessments(patient.id);
-        console.log('Existing general assessments:', response.data);
-        
-        let assessmentsArray: any[] = [];
+        const assessments = await assessmentApi.getPatientGeneralAssessments(patient.id);
         
-        if (Array.isArray(response.data)) {
-          assessmentsArray = response.data;
-        } else if (response.data?.results && Array.isArray(response.data.results)) {
-          assessmentsArray = response.data.results;
-        } else if (response.data?.data && Array.isArray(response.data.data)) {
-          assessmentsArray = response.data.data;
-        }
-        
-        const dates = assessmentsArray.map(assessment => {
+        const dates = assessments.map(assessment => {
           try {
-            const date = new Date(assessment.visit_date);
+            const date = new Date(assessment.visitDate);
             return date.toISOString().split('T')[0];
           } catch (e) {
-            return assessment.visit_date;
+            return assessment.visitDate;
           }
         }).filter(date => date);
         
-        console.log('Existing general assessment dates:', dates);
+        log.debug('Loaded existing assessment dates', { count: dates.length });
         setExistingDates(dates);
       } catch (error) {
-        console.log('No existing general assessments found');
+        log.info('No existing general assessments found', error);
         setExistingDates([]);
       }
     };
@@ -107,8 +110,6 @@ const GeneralAssessmentForm: React.FC = () => {
     e.preventDefault();
     setError(null);
     
-    console.log('Form data before submission:', formData);
-    
     if (!patient?.id) {
       setError('Patient data not found');
       return;
@@ -138,34 +139,23 @@ const GeneralAssessmentForm: React.FC = () => {
     
     try {
       const assessmentData = {
-        patient_id: patient.id,          
-        visit_date: formData.visit_date,
-        general_health: formData.general_health.trim(),
-        currently_using_drugs: formData.currently_using_drugs.trim(),
-        comments: formData.comments ? formData.comments.trim() : '',
+        patientId: patient.id,
+        visitDate: formData.visit_date,
+        generalHealth: formData.general_health as GeneralHealth,
+        usingDrugs: formData.currently_using_drugs === 'Yes',
+        comments: formData.comments,
       };
       
-      console.log('Submitting general assessment:', assessmentData);
-      
-      const response = await assessmentApi.createGeneralAssessment(assessmentData);
-      console.log('General assessment saved:', response.data);
+      await recordGeneralAssessment(assessmentData);
+      log.info('General assessment saved');
       
-      navigate('/patient-listing');
+      const next = routing && nextAssessment(routing, 'general');
+      navigate(next ? routes.newAssessment(patient.id, next) : routes.patientDetails(patient.id));
       
-    } catch (err: any) {
-      console.error('Error saving assessment:', err);
+    } catch (err) {
+      log.error('Saving assessment failed', err);
       
-      let errorMsg = 'Failed to save assessment';
-      if (err.response?.data) {
-        console.log('Error response data:', err.response.data);
-        if (typeof err.response.data === 'object') {
-          errorMsg = Object.entries(err.response.data)
-            .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : value}`)
-            .join('. ');
-        } else {
-          errorMsg = err.response.data;
-        }
-      }
+      const errorMsg = getApiErrorMessage(err, 'Failed to save assessment');
       
       setError(errorMsg);
     } finally {
@@ -181,12 +171,20 @@ const GeneralAssessmentForm: React.FC = () => {
     }));
   };
 
-  if (!patient || bmi === undefined) {
+  if (patientLoading || vitalsLoading) {
+    return (
+      <div style={{ textAlign: 'center', padding: '4rem' }}>
+        <p>Loading patient data...</p>
+      </div>
+    );
+  }
+
+  if (!patient || bmi === undefined || !routing || !bmiStatus) {
     return (
       <div style={{ textAlign: 'center', padding: '4rem' }}>
         <p>No patient data found. Please start with vitals.</p>
         <button 
-          onClick={() => navigate('/patient-listing')}
+          onClick={() => navigate(routes.patientListing)}
           style={{
             padding: '0.5rem 1rem',
             background: '#3b82f6',
@@ -203,15 +201,15 @@ const GeneralAssessmentForm: React.FC = () => {
     );
   }
 
-  const calculatedStatus = getBmiStatusText(bmi);
-  if (calculatedStatus === 'Overweight') {
+  if (!routing.assessments.includes('general')) {
     return (
       <div style={{ textAlign: 'center', padding: '4rem' }}>
         <h2>Access Denied</h2>
-        <p>General Assessment Form is only available for patients with BMI ≤ 25.</p>
-        <p>This patient's BMI is {bmi.toFixed(1)} ({calculatedStatus}).</p>
+        <p>The clinic's assessment rules do not call for a General Assessment after this patient's latest vitals.</p>
+        <p>This patient's BMI is {bmi.toFixed(1)} ({bmiStatus.bmiForAge ? `${bmiStatus.label}, ${formatBmiForAge(bmiStatus.bmiForAge)}` : bmiStatus.label}).</p>
+        <p>{routing.rule ? `Rule "${routing.rule.name}": ${formatAssessments(routing.assessments)}.` : 'No rule applies.'}</p>
         <button 
-          onClick={() => navigate('/patient-listing')}
+          onClick={() => navigate(routes.patientListing)}
           style={{
             padding: '0.5rem 1rem',
             background: '#3b82f6',
@@ -236,7 +234,7 @@ const GeneralAssessmentForm: React.FC = () => {
           General Health Assessment
         </h1>
         <p style={{ color: '#6b7280' }}>
-          Complete assessment for patients with normal or underweight BMI (BMI ≤ 25)
+          Called for by the rule "{routing.rule?.name}"
         </p>
       </div>
       
@@ -251,28 +249,32 @@ const GeneralAssessmentForm: React.FC = () => {
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
           <div>
             <h2 style={{ fontSize: '1.25rem', fontWeight: '600', marginBottom: '0.5rem' }}>
-              {patient.first_name} {patient.last_name}
+              {patient.firstName} {patient.lastName}
             </h2>
             <div style={{ display: 'flex', gap: '2rem', alignItems: 'center' }}>
               <div>
                 <span style={{ color: '#6b7280', fontSize: '0.875rem' }}>BMI</span>
                 <div style={{ fontSize: '1.125rem', fontWeight: '600' }}>
                   {bmi.toFixed(1)} <span style={{ 
-                    color: displayBmiStatus === 'Underweight' ? '#f59e0b' : 
-                           displayBmiStatus === 'Normal' ? '#10b981' : '#6b7280',
+                    color: bmiStatusColors(bmiStatus.category).text,
                     fontSize: '0.875rem' 
                   }}>({displayBmiStatus})</span>
                 </div>
+                {bmiStatus.bmiForAge && (
+                  <div style={{ color: '#6b7280', fontSize: '0.75rem' }}>
+                    BMI-for-age {formatBmiForAge(bmiStatus.bmiForAge)}
+                  </div>
+                )}
               </div>
             </div>
           </div>
           <div style={{ 
-            background: displayBmiStatus === 'Underweight' ? '#fef3c7' : '#d1fae5',
+            background: bmiStatusColors(bmiStatus.category).bg,
             padding: '0.5rem 1rem', 
             borderRadius: '20px',
             fontSize: '0.875rem',
             fontWeight: '500',
-            color: displayBmiStatus === 'Underweight' ? '#92400e' : '#065f46'
+            color: bmiStatusColors(bmiStatus.category).text
           }}>
             {displayBmiStatus} Assessment Required
           </div>
@@ -552,7 +554,7 @@ const GeneralAssessmentForm: React.FC = () => {
         }}>
           <button
             type="button"
-            onClick={() => navigate('/patient-listing')}
+            onClick={() => navigate(routes.patientListing)}
             style={{
               padding: '0.875rem 1.75rem',
               background: 'white',
@@ -573,7 +575,7 @@ const GeneralAssessmentForm: React.FC = () => {
           <div style={{ display: 'flex', gap: '1rem' }}>
             <button
               type="button"
-              onClick={() => navigate('/patient-listing')}
+              onClick={() => navigate(routes.patientListing)}
               style={{
                 padding: '0.875rem 1.75rem',
                 background: '#6b7280',
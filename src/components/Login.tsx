@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Location, Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { authApi } from '../services/auth';
+import { getApiErrorMessage } from '../services/api';
+import useAuth from '../hooks/useAuth';
+import { routes } from '../routes';
+
+/*
+Login Component
+
+Sign-in screen shown to every signed-out user.
+
+Features:
+  - Username and password form
+  - Shows why the user landed here when their session expired
+  - Returns the user to the page they originally asked for
+
+Flow:
+  1. RequireAuth redirects here with the requested location in router state
+  2. authApi.login exchanges the credentials for tokens
+  3. Navigate back to the requested page (or the patient listing)
+*/
+
+interface LoginState {
+  from?: Location;
+  expired?: boolean;
+}
+
+const Login: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { isAuthenticated } = useAuth();
+  const { from, expired } = (location.state || {}) as LoginState;
+  const destination = from ? `${from.pathname}${from.search}` : routes.patientListing;
+
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /*
+  Function: Handle form submission
+  Purpose: Sign in and continue to the requested page
+  */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await authApi.login(username, password);
+      navigate(destination, { replace: true });
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Sign in failed. Please check your username and password.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isAuthenticated && !isSubmitting) {
+    return <Navigate to={destination} replace />;
+  }
+
+  return (
+    <div style={{ maxWidth: '400px', margin: '0 auto' }}>
+      <h1 className="form-title">Sign In</h1>
+
+      {expired && !error && (
+        <div className="alert-box" style={{ backgroundColor: '#eff6ff', border: '1px solid #bfdbfe', color: '#1e40af' }}>
+          <p>Your session has expired. Please sign in again.</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="alert-box alert-error">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit}>
+        <div className="form-group">
+          <label className="form-label" htmlFor="username">Username</label>
+          <input
+            id="username"
+            type="text"
+            name="username"
+            required
+            autoComplete="username"
+            className="form-input"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            disabled={isSubmitting}
+          />
+        </div>
+
+        <div className="form-group">
+          <label className="form-label" htmlFor="password">Password</label>
+          <input
+            id="password"
+            type="password"
+            name="password"
+            required
+            autoComplete="current-password"
+            className="form-input"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            disabled={isSubmitting}
+          />
+        </div>
+
+        <div className="button-group">
+          <button type="submit" className="btn btn-primary" disabled={isSubmitting}>
+            {isSubmitting ? 'Signing in...' : 'Sign In'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default Login;
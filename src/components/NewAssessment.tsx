@@ -0,0 +1,29 @@
+import React from 'react';
+import { Navigate, useParams, useSearchParams } from 'react-router-dom';
+import OverweightAssessmentForm from './OverweightAssessmentForm';
+import GeneralAssessmentForm from './GeneralAssessmentForm';
+import { routes } from '../routes';
+
+/*
+Picks the assessment form for /patients/:patientId/assessments/new?type=<type>.
+
+   - type=overweight -> OverweightAssessmentForm
+   - type=general    -> GeneralAssessmentForm
+   - anything else   -> back to the patient's details page
+
+Each form still checks the patient's latest vitals against the clinic's
+assessment rules itself (services/assessmentRules), so editing the type in the
+URL cannot bypass them.
+*/
+const NewAssessment: React.FC = () => {
+  const { patientId = '' } = useParams<{ patientId: string }>();
+  const [searchParams] = useSearchParams();
+  const type = searchParams.get('type');
+
+  if (type === 'overweight') return <OverweightAssessmentForm />;
+  if (type === 'general') return <GeneralAssessmentForm />;
+
+  return <Navigate to={routes.patientDetails(patientId)} replace />;
+};
+
+export default NewAssessment;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import usePermissions from '../hooks/usePermissions';
+import { ROLE_LABELS } from '../services/permissions';
+import { routes } from '../routes';
+
+/*
+Shown in place of a screen the signed-in user's role does not allow.
+*/
+const NotPermitted: React.FC = () => {
+  const navigate = useNavigate();
+  const { role } = usePermissions();
+
+  return (
+    <div style={{ textAlign: 'center', padding: '4rem' }}>
+      <h2>Not permitted</h2>
+      <p style={{ color: '#6b7280', marginTop: '0.5rem' }}>
+        {role ? `Your role (${ROLE_LABELS[role]}) does not allow access to this page.` : 'You do not have access to this page.'}
+      </p>
+      <button
+        onClick={() => navigate(routes.patientListing)}
+        style={{
+          padding: '0.5rem 1rem',
+          backgroundColor: '#3b82f6',
+          color: 'white',
+          border: 'none',
+          borderRadius: '6px',
+          cursor: 'pointer',
+          marginTop: '1rem'
+        }}
+      >
+        Back to Patient Listing
+      </button>
+    </div>
+  );
+};
+
+export default NotPermitted;
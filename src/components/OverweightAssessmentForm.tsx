@@ -1,14 +1,25 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate, useLocation } from 'react-router-dom';
-import { assessmentApi } from '../services/api';
+import { useNavigate, useParams } from 'react-router-dom';
+import { assessmentApi, getApiErrorMessage } from '../services/api';
+import { recordOverweightAssessment } from '../services/queries';
+import { createLogger } from '../services/logger';
+import { formatBmiForAge } from '../services/bmiForAge';
+import { formatAssessments, nextAssessment, routeVisit } from '../services/assessmentRules';
+import { getConfig } from '../services/config';
+import { GeneralHealth } from '../types';
+import usePatient from '../hooks/usePatient';
+import useLatestVitals from '../hooks/useLatestVitals';
+import { routes } from '../routes';
 
 
 /*
 The overweight assesement form is for assessing overweight patients (BMI > 25) with specific health and diet questions.
 
 Eligibility Check:
-   - Only accessible for patients with BMI > 25
-   - Redirects users if BMI is 25 or lower
+   - Only accessible when the clinic's assessment rules call for an overweight
+     assessment after the latest vitals (services/assessmentRules); by default
+     BMI > 25, or from the 85th BMI-for-age percentile under 20
+   - Blocks other patients (redirects them)
 
 Assessment Questions:
    - General health status (Good/Poor)
@@ -22,15 +33,16 @@ Duplicate Prevention:
 Data Management:
    - Validates all required fields
    - Saves assessment to API
-   - Navigates back to patient details on success
+   - Navigates back to patient details on success, or to the next assessment
+     the rules call for
 
 KEY FLOW:
-1. Receives patient data and BMI from vitals form
-2. Verifies patient eligibility (BMI > 25)
+1. Loads the patient from the URL and the BMI from their latest vitals
+2. Verifies patient eligibility (assessment rules)
 3. Fetches existing assessment dates
 4. Validates form inputs
 5. Submits assessment data
-6. Returns to patient details page
+6. Opens the next assessment the rules call for, or returns to patient details page
 
 */
 
@@ -41,11 +53,18 @@ interface OverweightAssessmentData {
   comments: string;        
 }
 
+const log = createLogger('OverweightAssessmentForm');
+
 const OverweightAssessmentForm: React.FC = () => {
   const navigate = useNavigate();
-  const location = useLocation();
-  
-  const { patient, bmi, bmiStatus } = location.state || {};
+  const { patientId } = useParams<{ patientId: string }>();
+  const { patient, loading: patientLoading } = usePatient(patientId);
+  const { latestVitals, loading: vitalsLoading } = useLatestVitals(patientId);
+  const bmi = latestVitals?.bmi;
+  const { bmiScheme, assessmentRules } = getConfig();
+  const routing = latestVitals ? routeVisit(assessmentRules, bmiScheme, latestVitals, patient) : undefined;
+  const status = routing?.status;
+  const bmiStatus = status?.bmiForAge ? `${status.label}, ${formatBmiForAge(status.bmiForAge)}` : status?.label;
   
   const [formData, setFormData] = useState<OverweightAssessmentData>({
     visit_date: new Date().toISOString().split('T')[0],
@@ -63,32 +82,21 @@ const OverweightAssessmentForm: React.FC = () => {
       if (!patient?.id) return;
       
       try {
-        const response = await assessmentApi.getPatientOverweightAssessments(patient.id);
-        console.log('Existing overweight assessments:', response.data);
-        
-        let assessmentsArray: any[] = [];
-        
-        if (Array.isArray(response.data)) {
-          assessmentsArray = response.data;
-        } else if (response.data?.results && Array.isArray(response.data.results)) {
-          assessmentsArray = response.data.results;
-        } else if (response.data?.data && Array.isArray(response.data.data)) {
-          assessmentsArray = response.data.data;
-        }
+        const assessments = await assessmentApi.getPatientOverweightAssessments(patient.id);
         
-        const dates = assessmentsArray.map(assessment => {
+        const dates = assessments.map(assessment => {
           try {
-            const date = new Date(assessment.visit_date);
+            const date = new Date(assessment.visitDate);
             return date.toISOString().split('T')[0];
           } catch (e) {
-            return assessment.visit_date;
+            return assessment.visitDate;
           }
         }).filter(date => date);
         
-        console.log('Existing overweight assessment dates:', dates);
+        log.debug('Loaded existing assessment dates', { count: dates.length });
         setExistingDates(dates);
       } catch (error) {
-        console.log('No existing overweight assessments found');
+        log.info('No existing overweight assessments found', error);
         setExistingDates([]);
       }
     };
@@ -100,8 +108,6 @@ const OverweightAssessmentForm: React.FC = () => {
     e.preventDefault();
     setError(null);
     
-    console.log('Form data before submission:', formData);
-    
     if (!patient?.id) {
       setError('Patient data not found');
       return;
@@ -131,33 +137,23 @@ const OverweightAssessmentForm: React.FC = () => {
     
     try {
       const assessmentData = {
-        patient_id: patient.id,           
-        visit_date: formData.visit_date,  
-        general_health: formData.general_health.trim(), 
-        been_on_diet: formData.been_on_diet.trim(),     
-        comments: formData.comments ? formData.comments.trim() : '',      
+        patientId: patient.id,
+        visitDate: formData.visit_date,
+        generalHealth: formData.general_health as GeneralHealth,
+        beenOnDiet: formData.been_on_diet === 'Yes',
+        comments: formData.comments,
       };
       
-      console.log('Submitting overweight assessment:', assessmentData);
-      
-      const response = await assessmentApi.createOverweightAssessment(assessmentData);
-      console.log('Overweight assessment saved:', response.data);
+      await recordOverweightAssessment(assessmentData);
+      log.info('Overweight assessment saved');
       
-      navigate('/patient-listing');
+      const next = routing && nextAssessment(routing, 'overweight');
+      navigate(next ? routes.newAssessment(patient.id, next) : routes.patientDetails(patient.id));
       
-    } catch (err: any) {
-      console.error('Error saving assessment:', err);
+    } catch (err) {
+      log.error('Saving assessment failed', err);
       
-      let errorMsg = 'Failed to save assessment';
-      if (err.response?.data) {
-        if (typeof err.response.data === 'object') {
-          errorMsg = Object.entries(err.response.data)
-            .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : value}`)
-            .join('. ');
-        } else {
-          errorMsg = err.response.data;
-        }
-      }
+      const errorMsg = getApiErrorMessage(err, 'Failed to save assessment');
       
       setError(errorMsg);
     } finally {
@@ -173,12 +169,20 @@ const OverweightAssessmentForm: React.FC = () => {
     }));
   };
 
-  if (!patient || bmi === undefined) {
+  if (patientLoading || vitalsLoading) {
+    return (
+      <div style={{ textAlign: 'center', padding: '4rem' }}>
+        <p>Loading patient data...</p>
+      </div>
+    );
+  }
+
+  if (!patient || bmi === undefined || !routing || !status) {
     return (
       <div style={{ textAlign: 'center', padding: '4rem' }}>
         <p>No patient data found. Please start with vitals.</p>
         <button 
-          onClick={() => navigate('/patient-listing')}
+          onClick={() => navigate(routes.patientListing)}
           style={{
             padding: '0.5rem 1rem',
             background: '#3b82f6',
@@ -195,14 +199,15 @@ const OverweightAssessmentForm: React.FC = () => {
     );
   }
 
-  if (bmi <= 25) {
+  if (!routing.assessments.includes('overweight')) {
     return (
       <div style={{ textAlign: 'center', padding: '4rem' }}>
         <h2>Access Denied</h2>
-        <p>Overweight Assessment Form is only available for patients with BMI &gt; 25.</p>
+        <p>The clinic's assessment rules do not call for an Overweight Assessment after this patient's latest vitals.</p>
         <p>This patient's BMI is {bmi.toFixed(1)} ({bmiStatus}).</p>
+        <p>{routing.rule ? `Rule "${routing.rule.name}": ${formatAssessments(routing.assessments)}.` : 'No rule applies.'}</p>
         <button 
-          onClick={() => navigate('/patient-listing')}
+          onClick={() => navigate(routes.patientListing)}
           style={{
             padding: '0.5rem 1rem',
             background: '#3b82f6',
@@ -229,7 +234,7 @@ const OverweightAssessmentForm: React.FC = () => {
         borderRadius: '8px',
         marginBottom: '1.5rem'
       }}>
-        <p><strong>Patient:</strong> {patient.first_name} {patient.last_name}</p>
+        <p><strong>Patient:</strong> {patient.firstName} {patient.lastName}</p>
         <p><strong>BMI:</strong> {bmi.toFixed(1)} ({bmiStatus})</p>
         {existingDates.length > 0 && (
           <p style={{ color: '#6b7280', fontSize: '0.875rem', marginTop: '0.5rem' }}>
@@ -371,7 +376,7 @@ const OverweightAssessmentForm: React.FC = () => {
         <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem' }}>
           <button
             type="button"
-            onClick={() => navigate('/patient-listing')}
+            onClick={() => navigate(routes.patientListing)}
             style={{
               padding: '0.75rem 1.5rem',
               background: '#6b7280',
@@ -1,6 +1,45 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { useLocation, useNavigate } from 'react-router-dom';
-import { assessmentApi } from '../services/api';
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { getApiErrorMessage } from '../services/api';
+import {
+  ArchiveAction,
+  describeAssessmentArchive,
+  describePatientArchive,
+  describeVitalsArchive,
+  isArchived,
+} from '../services/archiving';
+import {
+  archiveAssessment,
+  archivePatient,
+  archiveVitals,
+  fetchPatientAssessments,
+  fetchPatientVitals,
+  queryKeys,
+  recordGeneralAssessment,
+  recordOverweightAssessment,
+  restoreAssessment,
+  restorePatient,
+  restoreVitals,
+} from '../services/queries';
+import { createLogger } from '../services/logger';
+import { formatSexAndGender } from '../services/sexGender';
+import { waistToHeightRatio, waistToHipRatio } from '../services/bodyComposition';
+import { formatBmiForAge } from '../services/bmiForAge';
+import { classifyBmi } from '../services/bmiStatus';
+import { formatAssessments, routeVisit } from '../services/assessmentRules';
+import { getConfig } from '../services/config';
+import { describeBmiCategory } from '../services/bmiClassification';
+import { formatHeightDual, formatWeightDual } from '../services/units';
+import { bloodPressureFlag, formatBloodPressure, VITAL_SIGNS, vitalSignFlag, VitalSignFlag } from '../services/vitalSigns';
+import { Assessment, GeneralHealth, VitalSign, Vitals } from '../types';
+import usePatient from '../hooks/usePatient';
+import useQuery from '../hooks/useQuery';
+import usePermissions from '../hooks/usePermissions';
+import useUnitPreference from '../hooks/useUnitPreference';
+import { routes } from '../routes';
+import ArchiveDialog from './ArchiveDialog';
+import BodyRatioBadge from './BodyRatioBadge';
+import BmiStatusBadge from './BmiStatusBadge';
 
 
 /*
@@ -8,11 +47,23 @@ This PatientDetails component is a comprehensive patient management dashboard th
 a patient's medical records.
 
 DISPLAYS PATIENT INFORMATION:
-   - Shows patient's full name with BMI status badge
+   - Shows patient's full name with BMI status badge, under the clinic's BMI
+     classification scheme (services/bmiClassification); under 20 the status is the
+     BMI-for-age category and the percentile is shown (services/bmiStatus)
    - Displays key statistics: total vitals, total assessments, latest BMI, and last visit date
+   - Without assessments, names the ones the clinic's rules call for after the
+     latest vitals (services/assessmentRules)
+   - Overview lists contact details, national ID, preferred language and next of kin
+   - Heights and weights are shown in metric and imperial, the user's preferred units first
+   - The vitals tab lists blood pressure, pulse, temperature, respiratory rate, SpO2,
+     waist and hip circumference and body fat, with values outside the reference range flagged
+   - Waist-to-height and waist-to-hip ratios with their risk categories are shown next to
+     the BMI status (services/bodyComposition)
 
 DATA FETCHING AND MANAGEMENT:
-   - Fetches patient vitals history from API endpoint
+   - Loads the patient from the :patientId route parameter, so the page survives reloads
+   - Reads vitals history and assessments through the shared query cache
+     (services/queries), refreshed automatically when new records are saved
    - Fetches both general and overweight assessments from separate APIs
    - Combines and sorts all assessments by date (newest first)
    - Tracks the latest vitals record for BMI calculation
@@ -20,57 +71,51 @@ DATA FETCHING AND MANAGEMENT:
 NAVIGATION AND ACTIONS:
    - Back button to return to patient listing
    - Refresh button to reload patient data
-   - "Record Vitals" button to navigate to vitals form
+   - "Edit Details" button to correct the patient's demographics
+   - "Merge Duplicate" button to fold another record of the same person into this one (clinicians only)
+   - Archive / restore the patient and single vitals or assessments, with a reason and a
+     confirmation listing what will be hidden (clinicians only); archived records can be
+     shown in the history tables with "Show archived records"
+   - "Record Vitals" button to navigate to vitals form (nurses and clinicians only)
+   - Assessment comments are hidden from roles without access to them
    - Patient name in listing table is clickable for details view
 
 */
 
-interface Patient {
-  id: string;
-  patient_id: string;
-  first_name: string;
-  last_name: string;
-  middle_name?: string;
-  date_of_birth: string;
-  gender: string;
-  registration_date: string;
-  created_at?: string;
-}
+const log = createLogger('PatientDetails');
 
-interface VitalsRecord {
-  id: string;
-  patient_id: string;
-  visit_date: string;
-  height_cm: number;
-  weight_kg: number;
-  bmi: number;
-  created_at: string;
-}
+const archiveLinkStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  padding: 0,
+  color: '#3b82f6',
+  cursor: 'pointer',
+  fontSize: '0.875rem'
+};
+
+const SIGN_COLUMNS: VitalSign[] = ['pulse', 'temperature', 'respiratoryRate', 'spo2', 'waist', 'hip', 'bodyFat'];
 
-interface AssessmentRecord {
-  id: string;
-  patient_id: string;
-  visit_date: string;
-  type: 'general' | 'overweight';
-  general_health?: string;
-  using_drugs?: string | boolean;
-  been_on_diet?: boolean | string;
-  comments?: string;
-  created_at: string;
-}
+const renderFlaggedValue = (value: string | number | undefined, flag: VitalSignFlag | null) => {
+  if (value === undefined) return <span style={{ color: '#9ca3af' }}>—</span>;
+  if (!flag) return value;
+  return (
+    <span
+      style={{ color: flag === 'high' ? '#b91c1c' : '#1d4ed8', fontWeight: 600 }}
+      title={flag === 'high' ? 'Above the reference range' : 'Below the reference range'}
+    >
+      {value} {flag === 'high' ? '↑' : '↓'}
+    </span>
+  );
+};
 
 const PatientDetails: React.FC = () => {
-  const location = useLocation();
   const navigate = useNavigate();
-  const patientData = location.state?.patient as Patient;
-  const forceRefresh = location.state?.forceRefresh;
+  const { patientId } = useParams<{ patientId: string }>();
+  const { patient, loading: patientLoading, error: patientError } = usePatient(patientId);
+  const { can } = usePermissions();
+  const { units } = useUnitPreference();
   
-  const [patient] = useState<Patient | null>(patientData);
-  const [vitalsHistory, setVitalsHistory] = useState<VitalsRecord[]>([]);
-  const [assessmentsHistory, setAssessmentsHistory] = useState<AssessmentRecord[]>([]);
-  const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'overview' | 'vitals' | 'assessments' | 'new-assessment'>('overview');
-  const [latestVitals, setLatestVitals] = useState<VitalsRecord | null>(null);
   
   const [newAssessment, setNewAssessment] = useState({
     visit_date: new Date().toISOString().split('T')[0],
@@ -80,123 +125,57 @@ const PatientDetails: React.FC = () => {
     comments: '',
   });
 
-  const extractArrayFromResponse = useCallback((data: any): any[] => {
-    if (Array.isArray(data)) return data;
-    if (data?.results && Array.isArray(data.results)) return data.results;
-    if (data?.data && Array.isArray(data.data)) return data.data;
-    return [];
-  }, []);
-
-  const fetchPatientDetails = useCallback(async () => {
-    if (!patient) return;
-    
-    try {
-      setLoading(true);
-      
-      console.log('Fetching details for patient:', patient.id);
-      console.log('Patient display ID:', patient.patient_id);
-      
-      try {
-        const vitalsResponse = await fetch(`http://localhost:8000/api/vitals/?patient=${patient.id}`);
-        if (vitalsResponse.ok) {
-          const vitalsData = await vitalsResponse.json();
-          const vitalsArray = extractArrayFromResponse(vitalsData);
-          
-          const formattedVitals: VitalsRecord[] = vitalsArray.map((v: any) => ({
-            id: v.id,
-            patient_id: v.patient_id || v.patient,
-            visit_date: v.visit_date || v.created_at,
-            height_cm: parseFloat(v.height_cm),
-            weight_kg: parseFloat(v.weight_kg),
-            bmi: typeof v.bmi === 'string' ? parseFloat(v.bmi) : v.bmi,
-            created_at: v.created_at
-          }));
-          
-          formattedVitals.sort((a, b) => new Date(b.visit_date).getTime() - new Date(a.visit_date).getTime());
-          
-          setVitalsHistory(formattedVitals);
-          setLatestVitals(formattedVitals[0] || null);
-          console.log(`Fetched ${formattedVitals.length} vitals records`);
-          console.log('Latest vitals BMI:', formattedVitals[0]?.bmi);
-        }
-      } catch (vitalsError) {
-        console.error('Error fetching vitals:', vitalsError);
-      }
-      
-      try {
-        const [overweightResponse, generalResponse] = await Promise.all([
-          assessmentApi.getPatientOverweightAssessments(patient.id),
-          assessmentApi.getPatientGeneralAssessments(patient.id)
-        ]);
-        
-        const overweightArray = extractArrayFromResponse(overweightResponse.data);
-        const generalArray = extractArrayFromResponse(generalResponse.data);
-        
-        console.log('Overweight assessments raw data:', overweightArray);
-        console.log('General assessments raw data:', generalArray);
-        
-        const allAssessments: AssessmentRecord[] = [
-          ...overweightArray.map((a: any) => ({
-            id: a.id,
-            patient_id: a.patient_id || a.patient,
-            visit_date: a.visit_date || a.created_at,
-            type: 'overweight' as const,
-            general_health: a.general_health,
-            been_on_diet: a.diet_history !== undefined ? a.diet_history : a.been_on_diet,
-            comments: a.comments,
-            created_at: a.created_at
-          })),
-          ...generalArray.map((a: any) => ({
-            id: a.id,
-            patient_id: a.patient_id || a.patient,
-            visit_date: a.visit_date || a.created_at,
-            type: 'general' as const,
-            general_health: a.general_health,
-            using_drugs: a.currently_using_drugs !== undefined ? 
-              (typeof a.currently_using_drugs === 'boolean' ? 
-                (a.currently_using_drugs ? 'Yes' : 'No') : 
-                a.currently_using_drugs) : 
-              a.using_drugs,
-            comments: a.comments,
-            created_at: a.created_at
-          }))
-        ];
-        
-        allAssessments.sort((a, b) => new Date(b.visit_date).getTime() - new Date(a.visit_date).getTime());
-        
-        setAssessmentsHistory(allAssessments);
-        console.log(`Fetched ${allAssessments.length} assessments (${overweightArray.length} overweight, ${generalArray.length} general)`);
-        
-        if (allAssessments.length > 0) {
-          console.log('Latest assessment details:', allAssessments[0]);
-          console.log('Assessment type:', allAssessments[0].type);
-          console.log('Assessment fields:', {
-            general_health: allAssessments[0].general_health,
-            been_on_diet: allAssessments[0].been_on_diet,
-            using_drugs: allAssessments[0].using_drugs,
-            comments: allAssessments[0].comments
-          });
-        }
-        
-      } catch (assessmentError) {
-        console.error('Error fetching assessments:', assessmentError);
-        setAssessmentsHistory([]);
-      }
-      
-    } catch (error) {
-      console.error('Error fetching patient details:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, [patient, extractArrayFromResponse]);
-
+  /*
+  Vitals and assessments come from the shared query cache: revisiting the page
+  shows them immediately, and saving new vitals or an assessment anywhere in
+  the app invalidates exactly this patient's entries.
+  */
+  const vitalsQuery = useQuery(
+    patientId ? queryKeys.vitals(patientId) : null,
+    () => fetchPatientVitals(patientId as string)
+  );
+  const assessmentsQuery = useQuery(
+    patientId ? queryKeys.assessments(patientId) : null,
+    () => fetchPatientAssessments(patientId as string)
+  );
+  
+  const vitalsHistory: Vitals[] = vitalsQuery.data || [];
+  const assessmentsHistory: Assessment[] = assessmentsQuery.data || [];
+  const latestVitals: Vitals | null = vitalsHistory[0] || null;
+  const { bmiScheme, assessmentRules } = getConfig();
+  const latestRouting = latestVitals ? routeVisit(assessmentRules, bmiScheme, latestVitals, patient) : null;
+  const latestStatus = latestRouting ? latestRouting.status : null;
+  const loading = vitalsQuery.loading || assessmentsQuery.loading;
+  
+  /*
+  Archived records are only fetched while "Show archived records" is ticked;
+  the overview, latest BMI and counts always use the records in use.
+  */
+  const [showArchived, setShowArchived] = useState(false);
+  const archivedVitalsQuery = useQuery(
+    patientId && showArchived ? queryKeys.vitals(patientId, true) : null,
+    () => fetchPatientVitals(patientId as string, true)
+  );
+  const archivedAssessmentsQuery = useQuery(
+    patientId && showArchived ? queryKeys.assessments(patientId, true) : null,
+    () => fetchPatientAssessments(patientId as string, true)
+  );
+  const vitalsRows: Vitals[] = showArchived ? archivedVitalsQuery.data || vitalsHistory : vitalsHistory;
+  const assessmentRows: Assessment[] = showArchived
+    ? archivedAssessmentsQuery.data || assessmentsHistory
+    : assessmentsHistory;
+  
+  const [archiveRequest, setArchiveRequest] = useState<{
+    action: ArchiveAction;
+    title: string;
+    effects: string[];
+    run: (reason: string) => Promise<unknown>;
+  } | null>(null);
+  
   useEffect(() => {
-    if (patient) {
-      fetchPatientDetails();
-    } else {
-      navigate('/patient-listing');
-    }
-  }, [patient, navigate, fetchPatientDetails, forceRefresh]);
+    if (vitalsQuery.error) log.error('Loading vitals failed', vitalsQuery.error);
+    if (assessmentsQuery.error) log.error('Loading assessments failed', assessmentsQuery.error);
+  }, [vitalsQuery.error, assessmentsQuery.error]);
   
   const calculateAge = (dateOfBirth: string): number => {
     if (!dateOfBirth) return 0;
@@ -225,87 +204,14 @@ const PatientDetails: React.FC = () => {
     }
   };
   
-  const getBmiStatus = (bmi: number): string => {
-    if (bmi < 18.5) return 'Underweight';
-    if (bmi < 25) return 'Normal';
-    return 'Overweight';
-  };
-  
-  const getStatusColor = (status: string): string => {
-    switch (status.toLowerCase()) {
-      case 'underweight': return '#fef3c7';
-      case 'normal': return '#d1fae5';
-      case 'overweight': return '#fee2e2';
-      default: return '#f3f4f6';
-    }
-  };
-  
-  const getStatusTextColor = (status: string): string => {
-    switch (status.toLowerCase()) {
-      case 'underweight': return '#92400e';
-      case 'normal': return '#065f46';
-      case 'overweight': return '#991b1b';
-      default: return '#6b7280';
-    }
-  };
-  
-  const formatDietHistory = (dietHistory: boolean | string | undefined): string => {
-    if (dietHistory === undefined) return 'Not specified';
-    
-    if (typeof dietHistory === 'boolean') {
-      return dietHistory ? 'Yes' : 'No';
-    }
-    
-    if (typeof dietHistory === 'string') {
-      if (dietHistory.toLowerCase() === 'true' || dietHistory === 'Yes') return 'Yes';
-      if (dietHistory.toLowerCase() === 'false' || dietHistory === 'No') return 'No';
-      return dietHistory;
-    }
-    
-    return 'Not specified';
-  };
-  
-  const formatDrugUsage = (drugUsage: string | boolean | undefined): string => {
-    if (drugUsage === undefined) return 'Not specified';
-    
-    if (typeof drugUsage === 'boolean') {
-      return drugUsage ? 'Yes' : 'No';
-    }
-    
-    if (typeof drugUsage === 'string') {
-      if (drugUsage.toLowerCase() === 'true' || drugUsage === 'Yes') return 'Yes';
-      if (drugUsage.toLowerCase() === 'false' || drugUsage === 'No') return 'No';
-      return drugUsage;
-    }
-    
-    return 'Not specified';
-  };
-  
-  const formatGender = (gender: string = ''): string => {
-    if (!gender) return 'Unknown';
-    switch (gender.toUpperCase()) {
-      case 'M': return 'Male';
-      case 'F': return 'Female';
-      case 'O': return 'Other';
-      default: return gender;
-    }
+  const formatYesNo = (answer: boolean | undefined): string => {
+    if (answer === undefined) return 'Not specified';
+    return answer ? 'Yes' : 'No';
   };
   
   const handleAddVitals = () => {
-    navigate('/vitals-form', { 
-      state: { 
-        patient: {
-          id: patient?.id,
-          patient_id: patient?.patient_id,
-          first_name: patient?.first_name,
-          last_name: patient?.last_name,
-          middle_name: patient?.middle_name,
-          date_of_birth: patient?.date_of_birth,
-          gender: patient?.gender
-        },
-        redirectBack: true
-      } 
-    });
+    if (!patient) return;
+    navigate(routes.newVitals(patient.id), { state: { redirectBack: true } });
   };
   
   const handleCreateAssessment = (type: 'general' | 'overweight') => {
@@ -333,77 +239,104 @@ const PatientDetails: React.FC = () => {
       return;
     }
     
-    if (latestVitals.bmi > 25 && !newAssessment.been_on_diet) {
+    const overweight = latestRouting?.assessments[0] === 'overweight';
+    
+    if (overweight && !newAssessment.been_on_diet) {
       alert('Please fill in diet history for overweight assessment');
       return;
     }
     
-    if (latestVitals.bmi <= 25 && !newAssessment.using_drugs) {
+    if (!overweight && !newAssessment.using_drugs) {
       alert('Please fill in drug usage information for general assessment');
       return;
     }
     
     try {
-      if (latestVitals.bmi > 25) {
+      if (overweight) {
         const assessmentData = {
-          patient_id: patient.id,
-          visit_date: newAssessment.visit_date,
-          general_health: newAssessment.general_health,
-          diet_history: newAssessment.been_on_diet === 'Yes' || newAssessment.been_on_diet === 'true',
+          patientId: patient.id,
+          visitDate: newAssessment.visit_date,
+          generalHealth: newAssessment.general_health as GeneralHealth,
+          beenOnDiet: newAssessment.been_on_diet === 'Yes' || newAssessment.been_on_diet === 'true',
           comments: newAssessment.comments,
         };
         
-        console.log('Submitting overweight assessment:', assessmentData);
-        
-        const response = await assessmentApi.createOverweightAssessment(assessmentData);
-        console.log('Overweight assessment saved:', response.data);
+        await recordOverweightAssessment(assessmentData);
+        log.info('Overweight assessment saved');
         
       } else {
         const assessmentData = {
-          patient_id: patient.id,
-          visit_date: newAssessment.visit_date,
-          general_health: newAssessment.general_health,
-          currently_using_drugs: newAssessment.using_drugs === 'Yes' || newAssessment.using_drugs === 'true',
+          patientId: patient.id,
+          visitDate: newAssessment.visit_date,
+          generalHealth: newAssessment.general_health as GeneralHealth,
+          usingDrugs: newAssessment.using_drugs === 'Yes' || newAssessment.using_drugs === 'true',
           comments: newAssessment.comments,
         };
         
-        console.log('Submitting general assessment:', assessmentData);
-        
-        const response = await assessmentApi.createGeneralAssessment(assessmentData);
-        console.log('General assessment saved:', response.data);
+        await recordGeneralAssessment(assessmentData);
+        log.info('General assessment saved');
       }
       
-      fetchPatientDetails();
       setActiveTab('assessments');
       alert('Assessment created successfully!');
       
-    } catch (error: any) {
-      console.error('Error creating assessment:', error);
-      console.error('Error details:', error.response?.data);
-      
-      let errorMessage = 'Failed to create assessment. ';
-      if (error.response?.data) {
-        if (typeof error.response.data === 'object') {
-          Object.entries(error.response.data).forEach(([key, value]) => {
-            errorMessage += `${key}: ${Array.isArray(value) ? value.join(', ') : value}. `;
-          });
-        } else {
-          errorMessage += error.response.data;
-        }
-      }
-      alert(errorMessage);
+    } catch (error) {
+      log.error('Creating assessment failed', error);
+      alert(getApiErrorMessage(error, 'Failed to create assessment.'));
     }
   };
   
+  /*
+  Function: Open the archive / restore dialog
+  Purpose: One per kind of record; each describes exactly what changes and
+  passes the matching mutation from services/queries.
+  */
+  const openPatientArchive = () => {
+    if (!patient) return;
+    const action: ArchiveAction = isArchived(patient) ? 'restore' : 'archive';
+    setArchiveRequest({
+      action,
+      title: action === 'archive' ? 'Archive patient' : 'Restore patient',
+      effects: describePatientArchive(action, patient, {
+        vitals: vitalsHistory.length,
+        assessments: assessmentsHistory.length,
+      }),
+      run: reason => (action === 'archive' ? archivePatient(patient, reason) : restorePatient(patient, reason)),
+    });
+  };
+  
+  const openVitalsArchive = (vitals: Vitals) => {
+    const action: ArchiveAction = isArchived(vitals) ? 'restore' : 'archive';
+    setArchiveRequest({
+      action,
+      title: action === 'archive' ? 'Archive vitals record' : 'Restore vitals record',
+      effects: describeVitalsArchive(action, vitals, vitalsHistory),
+      run: reason => (action === 'archive' ? archiveVitals(vitals, reason) : restoreVitals(vitals, reason)),
+    });
+  };
+  
+  const openAssessmentArchive = (assessment: Assessment) => {
+    const action: ArchiveAction = isArchived(assessment) ? 'restore' : 'archive';
+    setArchiveRequest({
+      action,
+      title: action === 'archive' ? 'Archive assessment' : 'Restore assessment',
+      effects: describeAssessmentArchive(action, assessment),
+      run: reason => (action === 'archive'
+        ? archiveAssessment(assessment, reason)
+        : restoreAssessment(assessment, reason)),
+    });
+  };
+  
   const handleBack = () => {
-    navigate('/patient-listing');
+    navigate(routes.patientListing);
   };
   
   const handleRefresh = () => {
-    fetchPatientDetails();
+    vitalsQuery.refetch();
+    assessmentsQuery.refetch();
   };
   
-  if (loading) {
+  if (patientLoading || (patient && loading)) {
     return (
       <div style={{ textAlign: 'center', padding: '4rem' }}>
         <div style={{
@@ -424,7 +357,7 @@ const PatientDetails: React.FC = () => {
   if (!patient) {
     return (
       <div style={{ textAlign: 'center', padding: '4rem' }}>
-        <p>Patient not found</p>
+        <p>{patientError || 'Patient not found'}</p>
         <button
           onClick={handleBack}
           style={{
@@ -443,8 +376,10 @@ const PatientDetails: React.FC = () => {
     );
   }
   
-  const age = calculateAge(patient.date_of_birth);
-  const latestBmiStatus = latestVitals ? getBmiStatus(latestVitals.bmi) : 'No Data';
+  const age = calculateAge(patient.dateOfBirth);
+  const latestBmiStatus = latestStatus ? latestStatus.label : 'No Data';
+  const latestWaistToHeight = latestVitals && waistToHeightRatio(latestVitals.height, latestVitals.waist);
+  const latestWaistToHip = latestVitals && waistToHipRatio(latestVitals.waist, latestVitals.hip, patient.sex);
   
   return (
     <div style={{ padding: '2rem', maxWidth: '1200px', margin: '0 auto' }}>
@@ -503,27 +438,105 @@ const PatientDetails: React.FC = () => {
           >
             ↻ Refresh
           </button>
-          <button
-            onClick={handleAddVitals}
-            style={{
-              padding: '0.5rem 1rem',
-              backgroundColor: '#10b981',
-              color: 'white',
-              border: 'none',
-              borderRadius: '6px',
-              cursor: 'pointer',
-              fontSize: '0.875rem',
-              display: 'flex',
-              alignItems: 'center',
-              gap: '0.5rem',
-              fontWeight: 500
-            }}
-          >
-            + Record Vitals
-          </button>
+          {can('patients:register') && (
+            <button
+              onClick={() => navigate(routes.editPatient(patient.id))}
+              style={{
+                padding: '0.5rem 1rem',
+                backgroundColor: 'white',
+                color: '#374151',
+                border: '1px solid #d1d5db',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '0.5rem'
+              }}
+            >
+              ✎ Edit Details
+            </button>
+          )}
+          {can('patients:merge') && (
+            <button
+              onClick={() => navigate(routes.mergePatient(patient.id))}
+              style={{
+                padding: '0.5rem 1rem',
+                backgroundColor: 'white',
+                color: '#374151',
+                border: '1px solid #d1d5db',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '0.5rem'
+              }}
+            >
+              ⇄ Merge Duplicate
+            </button>
+          )}
+          {can('records:archive') && (
+            <button
+              onClick={openPatientArchive}
+              style={{
+                padding: '0.5rem 1rem',
+                backgroundColor: 'white',
+                color: isArchived(patient) ? '#374151' : '#b91c1c',
+                border: '1px solid #d1d5db',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '0.5rem'
+              }}
+            >
+              {isArchived(patient) ? '↺ Restore Patient' : '🗄 Archive Patient'}
+            </button>
+          )}
+          {can('vitals:record') && (
+            <button
+              onClick={handleAddVitals}
+              style={{
+                padding: '0.5rem 1rem',
+                backgroundColor: '#10b981',
+                color: 'white',
+                border: 'none',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '0.5rem',
+                fontWeight: 500
+              }}
+            >
+              + Record Vitals
+            </button>
+          )}
         </div>
       </div>
       
+      {isArchived(patient) && (
+        <div className="alert-box alert-warning">
+          <p>
+            This patient was archived on {formatDate(patient.archivedAt as string)} and is hidden from the
+            patient listing.{patient.archiveReason && ` Reason: ${patient.archiveReason}`}
+          </p>
+        </div>
+      )}
+      
+      {archiveRequest && (
+        <ArchiveDialog
+          action={archiveRequest.action}
+          title={archiveRequest.title}
+          effects={archiveRequest.effects}
+          onConfirm={archiveRequest.run}
+          onClose={() => setArchiveRequest(null)}
+        />
+      )}
+      
       {/* Patient Info Card - REMOVED all patient demographic information */}
       <div style={{ 
         background: 'white',
@@ -535,33 +548,44 @@ const PatientDetails: React.FC = () => {
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
           <div>
             <h2 style={{ fontSize: '1.25rem', fontWeight: 600, marginBottom: '0.5rem' }}>
-              {patient.first_name} {patient.last_name}
-              {patient.middle_name && ` ${patient.middle_name}`}
+              {patient.firstName} {patient.lastName}
+              {patient.middleName && ` ${patient.middleName}`}
             </h2>
-            {/* Removed all patient demographic fields */}
+            <p style={{ fontSize: '0.875rem', color: '#6b7280' }}>
+              {age} years · {formatSexAndGender(patient)}
+            </p>
           </div>
           
           {/* BMI Status Badge */}
-          <div style={{
-            display: 'inline-flex',
-            alignItems: 'center',
-            justifyContent: 'center',
-            padding: '0.5rem 1rem',
-            borderRadius: '9999px',
-            fontSize: '0.875rem',
-            fontWeight: 600,
-            color: getStatusTextColor(latestBmiStatus),
-            backgroundColor: getStatusColor(latestBmiStatus),
-            minWidth: '120px',
-            height: '32px'
-          }}>
-            {latestBmiStatus}
+          <BmiStatusBadge
+            label={latestBmiStatus}
+            category={latestStatus?.category}
+            large
+            title={latestStatus && !latestStatus.bmiForAge ? describeBmiCategory(latestStatus.category, bmiScheme) : undefined}
+            style={{ minWidth: '120px', height: '32px' }}
+          >
             {latestVitals && (
               <span style={{ marginLeft: '0.5rem', fontSize: '0.75rem' }}>
                 (BMI: {latestVitals.bmi.toFixed(1)})
               </span>
             )}
-          </div>
+          </BmiStatusBadge>
+          {latestStatus?.bmiForAge && (
+            <div style={{ fontSize: '0.75rem', color: '#6b7280', marginTop: '0.25rem', textAlign: 'right' }}>
+              BMI-for-age {formatBmiForAge(latestStatus.bmiForAge)}
+            </div>
+          )}
+          {latestStatus?.note && (
+            <div style={{ fontSize: '0.75rem', color: '#92400e', marginTop: '0.25rem', textAlign: 'right' }}>
+              {latestStatus.note}
+            </div>
+          )}
+          {(latestWaistToHeight || latestWaistToHip) && (
+            <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end', gap: '0.25rem', marginTop: '0.5rem' }}>
+              {latestWaistToHeight && <BodyRatioBadge label="Waist/height" value={latestWaistToHeight} />}
+              {latestWaistToHip && <BodyRatioBadge label="Waist/hip" value={latestWaistToHip} />}
+            </div>
+          )}
         </div>
       </div>
       
@@ -612,8 +636,8 @@ const PatientDetails: React.FC = () => {
         }}>
           <p style={{ fontSize: '0.875rem', color: '#6b7280', marginBottom: '0.5rem' }}>Last Visit</p>
           <p style={{ fontSize: '1.125rem', fontWeight: 600, color: '#1f2937' }}>
-            {assessmentsHistory[0] ? formatDate(assessmentsHistory[0].visit_date) : 
-             vitalsHistory[0] ? formatDate(vitalsHistory[0].visit_date) : 'No visits'}
+            {assessmentsHistory[0] ? formatDate(assessmentsHistory[0].visitDate) : 
+             vitalsHistory[0] ? formatDate(vitalsHistory[0].visitDate) : 'No visits'}
           </p>
         </div>
       </div>
@@ -637,21 +661,23 @@ const PatientDetails: React.FC = () => {
                 To create an assessment, you need to record the patient's vitals first. 
                 This will calculate their BMI, which determines the type of assessment needed.
               </p>
-              <button
-                onClick={handleAddVitals}
-                style={{
-                  padding: '0.5rem 1rem',
-                  backgroundColor: 'white',
-                  color: '#764ba2',
-                  border: 'none',
-                  borderRadius: '6px',
-                  cursor: 'pointer',
-                  fontSize: '0.875rem',
-                  fontWeight: 600
-                }}
-              >
-                Record Vitals Now →
-              </button>
+              {can('vitals:record') && (
+                <button
+                  onClick={handleAddVitals}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    backgroundColor: 'white',
+                    color: '#764ba2',
+                    border: 'none',
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                    fontSize: '0.875rem',
+                    fontWeight: 600
+                  }}
+                >
+                  Record Vitals Now →
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -711,6 +737,24 @@ const PatientDetails: React.FC = () => {
         </button>
       </div>
       
+      {(activeTab === 'vitals' || activeTab === 'assessments') && (
+        <label style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.5rem',
+          fontSize: '0.875rem',
+          color: '#6b7280',
+          marginBottom: '1rem'
+        }}>
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+          />
+          Show archived records
+        </label>
+      )}
+      
       {/* Tab Content */}
       {activeTab === 'overview' && (
         <div style={{ 
@@ -723,6 +767,41 @@ const PatientDetails: React.FC = () => {
             <h3 style={{ fontSize: '1.125rem', fontWeight: 600 }}>Patient Overview</h3>
           </div>
           
+          <div style={{ marginBottom: '2rem' }}>
+            <h4 style={{ fontSize: '1rem', fontWeight: 500, marginBottom: '0.5rem' }}>Contact Details</h4>
+            <div style={{ 
+              display: 'grid', 
+              gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', 
+              gap: '1rem',
+              background: '#f9fafb',
+              padding: '1rem',
+              borderRadius: '6px'
+            }}>
+              {[
+                { label: 'Phone', value: patient.phone },
+                { label: 'Email', value: patient.email },
+                { label: 'Address', value: patient.address },
+                { label: 'National ID', value: patient.nationalId },
+                { label: 'Preferred Language', value: patient.preferredLanguage },
+                {
+                  label: 'Next of Kin',
+                  value: patient.nextOfKinName && [
+                    patient.nextOfKinName,
+                    patient.nextOfKinRelationship && `(${patient.nextOfKinRelationship})`,
+                    patient.nextOfKinPhone && `· ${patient.nextOfKinPhone}`,
+                  ].filter(Boolean).join(' '),
+                },
+              ].map(({ label, value }) => (
+                <div key={label}>
+                  <p style={{ fontSize: '0.875rem', color: '#6b7280' }}>{label}</p>
+                  <p style={{ fontWeight: 500, whiteSpace: 'pre-line', color: value ? undefined : '#9ca3af' }}>
+                    {value || 'Not recorded'}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+          
           {latestVitals ? (
             <>
               <div style={{ marginBottom: '2rem' }}>
@@ -737,20 +816,32 @@ const PatientDetails: React.FC = () => {
                 }}>
                   <div>
                     <p style={{ fontSize: '0.875rem', color: '#6b7280' }}>Visit Date</p>
-                    <p style={{ fontWeight: 500 }}>{formatDate(latestVitals.visit_date)}</p>
+                    <p style={{ fontWeight: 500 }}>{formatDate(latestVitals.visitDate)}</p>
                   </div>
                   <div>
                     <p style={{ fontSize: '0.875rem', color: '#6b7280' }}>Height</p>
-                    <p style={{ fontWeight: 500 }}>{latestVitals.height_cm} cm</p>
+                    <p style={{ fontWeight: 500 }}>{formatHeightDual(latestVitals.height, units).join(' · ')}</p>
                   </div>
                   <div>
                     <p style={{ fontSize: '0.875rem', color: '#6b7280' }}>Weight</p>
-                    <p style={{ fontWeight: 500 }}>{latestVitals.weight_kg} kg</p>
+                    <p style={{ fontWeight: 500 }}>{formatWeightDual(latestVitals.weight, units).join(' · ')}</p>
                   </div>
                   <div>
                     <p style={{ fontSize: '0.875rem', color: '#6b7280' }}>BMI</p>
                     <p style={{ fontWeight: 500 }}>{latestVitals.bmi.toFixed(1)}</p>
                   </div>
+                  {latestWaistToHeight && (
+                    <div>
+                      <p style={{ fontSize: '0.875rem', color: '#6b7280' }}>Waist-to-height ratio</p>
+                      <BodyRatioBadge value={latestWaistToHeight} />
+                    </div>
+                  )}
+                  {latestWaistToHip && (
+                    <div>
+                      <p style={{ fontSize: '0.875rem', color: '#6b7280' }}>Waist-to-hip ratio</p>
+                      <BodyRatioBadge value={latestWaistToHip} />
+                    </div>
+                  )}
                 </div>
               </div>
               
@@ -777,26 +868,26 @@ const PatientDetails: React.FC = () => {
                         {assessmentsHistory[0].type === 'overweight' ? 'Overweight Assessment' : 'General Assessment'}
                       </span>
                       <span style={{ fontSize: '0.875rem', color: '#6b7280' }}>
-                        {formatDate(assessmentsHistory[0].visit_date)}
+                        {formatDate(assessmentsHistory[0].visitDate)}
                       </span>
                     </div>
                     <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem', marginBottom: '0.5rem' }}>
                       <div>
                         <p style={{ fontSize: '0.875rem', color: '#6b7280' }}>General Health</p>
-                        <p style={{ fontWeight: 500 }}>{assessmentsHistory[0].general_health}</p>
+                        <p style={{ fontWeight: 500 }}>{assessmentsHistory[0].generalHealth}</p>
                       </div>
                       <div>
                         <p style={{ fontSize: '0.875rem', color: '#6b7280' }}>
                           {assessmentsHistory[0].type === 'overweight' ? 'Has been on diet before' : 'Currently Using Drugs'}
                         </p>
                         <p style={{ fontWeight: 500 }}>
-                          {assessmentsHistory[0].type === 'overweight' 
-                            ? formatDietHistory(assessmentsHistory[0].been_on_diet)
-                            : formatDrugUsage(assessmentsHistory[0].using_drugs)}
+                          {formatYesNo(assessmentsHistory[0].type === 'overweight' 
+                            ? assessmentsHistory[0].beenOnDiet
+                            : assessmentsHistory[0].usingDrugs)}
                         </p>
                       </div>
                     </div>
-                    {assessmentsHistory[0].comments && (
+                    {assessmentsHistory[0].comments && can('assessments:view-comments') && (
                       <div>
                         <p style={{ fontSize: '0.875rem', color: '#6b7280', marginBottom: '0.25rem' }}>Comments</p>
                         <p style={{ fontSize: '0.875rem' }}>{assessmentsHistory[0].comments}</p>
@@ -816,10 +907,11 @@ const PatientDetails: React.FC = () => {
                     No assessments recorded yet
                   </p>
                   <p style={{ color: '#9ca3af', marginBottom: '1.5rem', fontSize: '0.875rem' }}>
-                    Based on the patient's BMI of {latestVitals.bmi.toFixed(1)}, 
-                    {latestVitals.bmi > 25 
-                      ? ' an Overweight Assessment should be created.' 
-                      : ' a General Assessment should be created.'}
+                    Based on the patient's BMI of {latestVitals.bmi.toFixed(1)}
+                    {latestStatus?.bmiForAge && ` (${formatBmiForAge(latestStatus.bmiForAge)})`},
+                    {latestRouting && latestRouting.assessments.length > 0
+                      ? ` the clinic's rules call for: ${formatAssessments(latestRouting.assessments)}.`
+                      : ' the clinic\'s rules call for no assessment.'}
                   </p>
                   <div style={{ color: '#6b7280', fontSize: '0.875rem' }}>
                     <p>Assessments should be created through the Vitals Form workflow.</p>
@@ -842,21 +934,23 @@ const PatientDetails: React.FC = () => {
               <p style={{ color: '#9ca3af', marginBottom: '1.5rem', fontSize: '0.875rem' }}>
                 Record the patient's height and weight to calculate BMI and determine which assessment to create.
               </p>
-              <button
-                onClick={handleAddVitals}
-                style={{
-                  padding: '0.75rem 1.5rem',
-                  backgroundColor: '#10b981',
-                  color: 'white',
-                  border: 'none',
-                  borderRadius: '6px',
-                  cursor: 'pointer',
-                  fontSize: '0.875rem',
-                  fontWeight: 500
-                }}
-              >
-                Record Vitals First
-              </button>
+              {can('vitals:record') && (
+                <button
+                  onClick={handleAddVitals}
+                  style={{
+                    padding: '0.75rem 1.5rem',
+                    backgroundColor: '#10b981',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                    fontSize: '0.875rem',
+                    fontWeight: 500
+                  }}
+                >
+                  Record Vitals First
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -869,22 +963,24 @@ const PatientDetails: React.FC = () => {
           overflow: 'hidden',
           boxShadow: '0 1px 3px rgba(0,0,0,0.1)'
         }}>
-          {vitalsHistory.length === 0 ? (
+          {vitalsRows.length === 0 ? (
             <div style={{ textAlign: 'center', padding: '3rem' }}>
               <p style={{ color: '#6b7280', marginBottom: '1rem' }}>No vitals history found</p>
-              <button
-                onClick={handleAddVitals}
-                style={{
-                  padding: '0.5rem 1rem',
-                  backgroundColor: '#10b981',
-                  color: 'white',
-                  border: 'none',
-                  borderRadius: '6px',
-                  cursor: 'pointer'
-                }}
-              >
-                Add First Vitals
-              </button>
+              {can('vitals:record') && (
+                <button
+                  onClick={handleAddVitals}
+                  style={{
+                    padding: '0.5rem 1rem',
+                    backgroundColor: '#10b981',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '6px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  Add First Vitals
+                </button>
+              )}
             </div>
           ) : (
             <div style={{ overflowX: 'auto' }}>
@@ -895,45 +991,100 @@ const PatientDetails: React.FC = () => {
                       Visit Date
                     </th>
                     <th style={{ padding: '1rem', textAlign: 'left', fontWeight: 600, fontSize: '0.875rem' }}>
-                      Height (cm)
+                      Height
                     </th>
                     <th style={{ padding: '1rem', textAlign: 'left', fontWeight: 600, fontSize: '0.875rem' }}>
-                      Weight (kg)
+                      Weight
                     </th>
                     <th style={{ padding: '1rem', textAlign: 'left', fontWeight: 600, fontSize: '0.875rem' }}>
                       BMI
                     </th>
+                    <th style={{ padding: '1rem', textAlign: 'left', fontWeight: 600, fontSize: '0.875rem' }}>
+                      BP (mmHg)
+                    </th>
+                    {SIGN_COLUMNS.map(sign => (
+                      <th key={sign} style={{ padding: '1rem', textAlign: 'left', fontWeight: 600, fontSize: '0.875rem' }}>
+                        {VITAL_SIGNS[sign].shortLabel} ({VITAL_SIGNS[sign].unit})
+                      </th>
+                    ))}
                     <th style={{ padding: '1rem', textAlign: 'left', fontWeight: 600, fontSize: '0.875rem' }}>
                       Status
                     </th>
+                    <th style={{ padding: '1rem', textAlign: 'left', fontWeight: 600, fontSize: '0.875rem' }}>
+                      Waist Ratios
+                    </th>
+                    {can('records:archive') && (
+                      <th style={{ padding: '1rem', textAlign: 'left', fontWeight: 600, fontSize: '0.875rem' }}>
+                        Actions
+                      </th>
+                    )}
                   </tr>
                 </thead>
                 <tbody>
-                  {vitalsHistory.map((vitals, index) => {
-                    const status = getBmiStatus(vitals.bmi);
+                  {vitalsRows.map((vitals, index) => {
+                    const bmiStatus = classifyBmi(vitals.bmi, bmiScheme, patient, vitals.visitDate);
+                    const status = isArchived(vitals) ? 'Archived' : bmiStatus.label;
+                    const [height, heightOther] = formatHeightDual(vitals.height, units);
+                    const [weight, weightOther] = formatWeightDual(vitals.weight, units);
+                    const waistToHeight = waistToHeightRatio(vitals.height, vitals.waist);
+                    const waistToHip = waistToHipRatio(vitals.waist, vitals.hip, patient.sex);
                     return (
                       <tr key={vitals.id} style={{ 
                         borderBottom: '1px solid #f3f4f6',
-                        backgroundColor: index % 2 === 0 ? 'white' : '#f9fafb'
-                      }}>
-                        <td style={{ padding: '1rem' }}>{formatDate(vitals.visit_date)}</td>
-                        <td style={{ padding: '1rem' }}>{vitals.height_cm}</td>
-                        <td style={{ padding: '1rem' }}>{vitals.weight_kg}</td>
-                        <td style={{ padding: '1rem', fontWeight: 500 }}>{vitals.bmi.toFixed(1)}</td>
+                        backgroundColor: index % 2 === 0 ? 'white' : '#f9fafb',
+                        color: isArchived(vitals) ? '#9ca3af' : undefined
+                      }} title={vitals.archiveReason ? `Archived: ${vitals.archiveReason}` : undefined}>
+                        <td style={{ padding: '1rem' }}>{formatDate(vitals.visitDate)}</td>
+                        <td style={{ padding: '1rem' }}>
+                          {height}
+                          <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>{heightOther}</div>
+                        </td>
+                        <td style={{ padding: '1rem' }}>
+                          {weight}
+                          <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>{weightOther}</div>
+                        </td>
+                        <td style={{ padding: '1rem', fontWeight: 500 }}>
+                          {vitals.bmi.toFixed(1)}
+                          {bmiStatus.bmiForAge && (
+                            <div style={{ fontSize: '0.75rem', fontWeight: 400, color: '#6b7280' }}>
+                              {formatBmiForAge(bmiStatus.bmiForAge)}
+                            </div>
+                          )}
+                        </td>
+                        <td style={{ padding: '1rem' }}>
+                          {renderFlaggedValue(
+                            vitals.systolic === undefined ? undefined : formatBloodPressure(vitals),
+                            bloodPressureFlag(vitals)
+                          )}
+                        </td>
+                        {SIGN_COLUMNS.map(sign => (
+                          <td key={sign} style={{ padding: '1rem' }}>
+                            {renderFlaggedValue(vitals[sign], vitalSignFlag(sign, vitals[sign], patient.sex))}
+                          </td>
+                        ))}
                         <td style={{ padding: '1rem' }}>
-                          <span style={{
-                            display: 'inline-flex',
-                            alignItems: 'center',
-                            padding: '0.25rem 0.75rem',
-                            borderRadius: '9999px',
-                            fontSize: '0.75rem',
-                            fontWeight: 600,
-                            color: getStatusTextColor(status),
-                            backgroundColor: getStatusColor(status)
-                          }}>
-                            {status}
-                          </span>
+                          <BmiStatusBadge label={status} category={isArchived(vitals) ? undefined : bmiStatus.category} />
                         </td>
+                        <td style={{ padding: '1rem' }}>
+                          {waistToHeight || waistToHip ? (
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                              {waistToHeight && <BodyRatioBadge label="W/Ht" value={waistToHeight} />}
+                              {waistToHip && <BodyRatioBadge label="W/H" value={waistToHip} />}
+                            </div>
+                          ) : (
+                            <span style={{ color: '#9ca3af' }}>—</span>
+                          )}
+                        </td>
+                        {can('records:archive') && (
+                          <td style={{ padding: '1rem' }}>
+                            <button
+                              onClick={() => openVitalsArchive(vitals)}
+                              style={archiveLinkStyle}
+                            >
+                              {isArchived(vitals) ? 'Restore' : 'Archive'}
+                            </button>
+                          </td>
+                        )}
                       </tr>
                     );
                   })}
@@ -951,7 +1102,7 @@ const PatientDetails: React.FC = () => {
           overflow: 'hidden',
           boxShadow: '0 1px 3px rgba(0,0,0,0.1)'
         }}>
-          {assessmentsHistory.length === 0 ? (
+          {assessmentRows.length === 0 ? (
             <div style={{ textAlign: 'center', padding: '3rem' }}>
               <p style={{ color: '#6b7280' }}>No assessments found</p>
             </div>
@@ -969,18 +1120,26 @@ const PatientDetails: React.FC = () => {
                     <th style={{ padding: '1rem', textAlign: 'left', fontWeight: 600, fontSize: '0.875rem' }}>
                       General Health
                     </th>
-                    <th style={{ padding: '1rem', textAlign: 'left', fontWeight: 600, fontSize: '0.875rem' }}>
-                      Comments
-                    </th>
+                    {can('assessments:view-comments') && (
+                      <th style={{ padding: '1rem', textAlign: 'left', fontWeight: 600, fontSize: '0.875rem' }}>
+                        Comments
+                      </th>
+                    )}
+                    {can('records:archive') && (
+                      <th style={{ padding: '1rem', textAlign: 'left', fontWeight: 600, fontSize: '0.875rem' }}>
+                        Actions
+                      </th>
+                    )}
                   </tr>
                 </thead>
                 <tbody>
-                  {assessmentsHistory.map((assessment, index) => (
-                    <tr key={assessment.id} style={{ 
+                  {assessmentRows.map((assessment, index) => (
+                    <tr key={`${assessment.type}-${assessment.id}`} style={{ 
                       borderBottom: '1px solid #f3f4f6',
-                      backgroundColor: index % 2 === 0 ? 'white' : '#f9fafb'
-                    }}>
-                      <td style={{ padding: '1rem' }}>{formatDate(assessment.visit_date)}</td>
+                      backgroundColor: index % 2 === 0 ? 'white' : '#f9fafb',
+                      color: isArchived(assessment) ? '#9ca3af' : undefined
+                    }} title={assessment.archiveReason ? `Archived: ${assessment.archiveReason}` : undefined}>
+                      <td style={{ padding: '1rem' }}>{formatDate(assessment.visitDate)}</td>
                       <td style={{ padding: '1rem' }}>
                         <span style={{
                           display: 'inline-block',
@@ -993,9 +1152,24 @@ const PatientDetails: React.FC = () => {
                         }}>
                           {assessment.type === 'overweight' ? 'Overweight' : 'General'}
                         </span>
+                        {isArchived(assessment) && (
+                          <span style={{ marginLeft: '0.5rem', fontSize: '0.75rem' }}>Archived</span>
+                        )}
                       </td>
-                      <td style={{ padding: '1rem' }}>{assessment.general_health || 'N/A'}</td>
-                      <td style={{ padding: '1rem' }}>{assessment.comments || 'No comments'}</td>
+                      <td style={{ padding: '1rem' }}>{assessment.generalHealth || 'N/A'}</td>
+                      {can('assessments:view-comments') && (
+                        <td style={{ padding: '1rem' }}>{assessment.comments || 'No comments'}</td>
+                      )}
+                      {can('records:archive') && (
+                        <td style={{ padding: '1rem' }}>
+                          <button
+                            onClick={() => openAssessmentArchive(assessment)}
+                            style={archiveLinkStyle}
+                          >
+                            {isArchived(assessment) ? 'Restore' : 'Archive'}
+                          </button>
+                        </td>
+                      )}
                     </tr>
                   ))}
                 </tbody>
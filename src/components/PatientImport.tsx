@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { getApiErrorMessage } from '../services/api';
+import { buildErrorReport, CsvRecord, downloadCsv, parseCsv, toCsv } from '../services/csv';
+import { createLogger } from '../services/logger';
+import { PATIENT_FIELD_LABELS, PATIENT_FIELDS } from '../services/patientEdits';
+import {
+  ColumnMapping,
+  guessColumnMapping,
+  ImportRow,
+  isReadyToImport,
+  missingRequiredFields,
+  REQUIRED_IMPORT_FIELDS,
+} from '../services/patientImport';
+import { importPatients, previewPatientImport } from '../services/queries';
+import { PatientField } from '../types';
+import { routes } from '../routes';
+
+/*
+PatientImport Component
+
+Registers many patients at once from a CSV file exported from a spreadsheet,
+for clinics moving their existing patient lists into the app.
+
+Key Features:
+1. Reads the CSV file in the browser; the first row must hold the column names
+2. Guesses which column holds which patient field and lets the user correct it
+3. Dry run: every row is checked with the registration rules and against the
+   patient numbers already registered, and nothing is saved
+4. Registers only the rows that passed, showing progress
+5. Rejected rows (by the checks or by the server) can be downloaded as a CSV
+   error report, fixed and imported again
+
+Rows without a patient number get the next numbers in the configured format;
+rows without a registration date are registered today.
+*/
+
+type Stage = 'mapping' | 'preview' | 'importing' | 'done';
+
+const log = createLogger('PatientImport');
+
+const cardStyle: React.CSSProperties = {
+  background: 'white',
+  padding: '1.5rem',
+  borderRadius: '8px',
+  marginBottom: '1.5rem',
+  boxShadow: '0 1px 3px rgba(0,0,0,0.1)'
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '0.5rem 0.75rem',
+  borderBottom: '1px solid #e5e7eb',
+  textAlign: 'left',
+  verticalAlign: 'top',
+  fontSize: '0.875rem'
+};
+
+const FIELD_HINTS: Partial<Record<PatientField, string>> = {
+  patientNumber: 'Empty cells get the next patient numbers',
+  registrationDate: 'Empty cells mean today',
+  dateOfBirth: 'YYYY-MM-DD or DD/MM/YYYY',
+  sex: 'Female, Male, Other, Prefer not to say (or F, M, O, U)',
+};
+
+const PatientImport: React.FC = () => {
+  const navigate = useNavigate();
+
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<CsvRecord[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [stage, setStage] = useState<Stage>('mapping');
+  const [progress, setProgress] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /*
+  Function: Read the chosen file
+  Purpose: Parses the CSV, takes the first row as the column names and
+  pre-selects the columns whose names match patient fields.
+  */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setRows(null);
+    setStage('mapping');
+    setError(null);
+    if (!file) return;
+
+    try {
+      const [headerRow, ...records] = parseCsv(await file.text());
+      if (!headerRow || records.length === 0) {
+        setError('The file has no patient rows. The first row must hold the column names.');
+        setHeaders([]);
+        setDataRows([]);
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(headerRow.values.map(header => header.trim()));
+      setDataRows(records);
+      setMapping(guessColumnMapping(headerRow.values));
+    } catch (err) {
+      log.error('Reading import file failed', err);
+      setError('The file could not be read. Please choose a CSV file.');
+    }
+  };
+
+  const handleMappingChange = (field: PatientField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === '' ? undefined : Number(value) }));
+    setRows(null);
+    setStage('mapping');
+  };
+
+  const handlePreview = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setRows(await previewPatientImport(dataRows, mapping));
+      setStage('preview');
+    } catch (err) {
+      log.error('Import preview failed', err);
+      setError(getApiErrorMessage(err, 'Could not check the file against registered patients.'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!rows) return;
+    setStage('importing');
+    setProgress(0);
+    setError(null);
+    try {
+      setRows(await importPatients(rows, setProgress));
+      setStage('done');
+    } catch (err) {
+      log.error('Patient import failed', err);
+      setError(getApiErrorMessage(err, 'The import stopped unexpectedly.'));
+      setStage('preview');
+    }
+  };
+
+  const handleDownloadReport = () => {
+    if (!rows) return;
+    const baseName = fileName.replace(/\.csv$/i, '') || 'patients';
+    downloadCsv(`${baseName}-errors.csv`, toCsv(buildErrorReport(headers, rows)));
+  };
+
+  const missingFields = missingRequiredFields(mapping);
+  const readyCount = rows ? rows.filter(isReadyToImport).length : 0;
+  const rejectedCount = rows ? rows.filter(row => row.errors.length > 0).length : 0;
+  const registeredCount = rows ? rows.filter(row => row.registeredId).length : 0;
+
+  return (
+    <div>
+      <button
+        onClick={() => navigate(routes.patientListing)}
+        style={{
+          padding: '0.5rem 1rem',
+          backgroundColor: 'transparent',
+          color: '#6b7280',
+          border: '1px solid #d1d5db',
+          borderRadius: '6px',
+          cursor: 'pointer',
+          marginBottom: '1rem'
+        }}
+      >
+        ← Back
+      </button>
+      <h1 className="form-title">Import Patients from CSV</h1>
+
+      {error && (
+        <div className="alert-box alert-error">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div style={cardStyle}>
+        <label className="form-label" htmlFor="import-file">CSV file</label>
+        <input
+          id="import-file"
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          disabled={busy || stage === 'importing'}
+        />
+        {dataRows.length > 0 && (
+          <p style={{ color: '#6b7280', fontSize: '0.875rem', marginTop: '0.5rem' }}>
+            {fileName}: {dataRows.length} {dataRows.length === 1 ? 'row' : 'rows'}, {headers.length} columns
+          </p>
+        )}
+      </div>
+
+      {dataRows.length > 0 && (
+        <div style={cardStyle}>
+          <h2 style={{ fontSize: '1.125rem', fontWeight: 600, marginBottom: '1rem' }}>Match columns</h2>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>Patient field</th>
+                <th style={cellStyle}>Column in the file</th>
+                <th style={cellStyle}>First row</th>
+              </tr>
+            </thead>
+            <tbody>
+              {PATIENT_FIELDS.map(field => {
+                const column = mapping[field];
+                return (
+                  <tr key={field}>
+                    <td style={{ ...cellStyle, fontWeight: 500 }}>
+                      {PATIENT_FIELD_LABELS[field]}
+                      {REQUIRED_IMPORT_FIELDS.includes(field) && ' *'}
+                      {FIELD_HINTS[field] && (
+                        <div style={{ fontWeight: 400, color: '#6b7280', fontSize: '0.75rem' }}>{FIELD_HINTS[field]}</div>
+                      )}
+                    </td>
+                    <td style={cellStyle}>
+                      <select
+                        className="form-input"
+                        value={column === undefined ? '' : String(column)}
+                        onChange={(e) => handleMappingChange(field, e.target.value)}
+                        disabled={busy || stage === 'importing'}
+                        aria-label={`Column for ${PATIENT_FIELD_LABELS[field]}`}
+                      >
+                        <option value="">— Not in the file —</option>
+                        {headers.map((header, index) => (
+                          <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td style={{ ...cellStyle, color: '#6b7280' }}>
+                      {column === undefined ? '' : dataRows[0].values[column]}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {missingFields.length > 0 && (
+            <p style={{ color: '#dc2626', fontSize: '0.875rem', marginTop: '1rem' }}>
+              Choose a column for: {missingFields.map(field => PATIENT_FIELD_LABELS[field]).join(', ')}
+            </p>
+          )}
+
+          {stage === 'mapping' && (
+            <div className="button-group" style={{ marginTop: '1rem' }}>
+              <button
+                type="button"
+                className="btn btn-primary"
+                onClick={handlePreview}
+                disabled={busy || missingFields.length > 0}
+              >
+                {busy ? 'Checking...' : 'Preview Import'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {rows && (
+        <div style={cardStyle}>
+          <h2 style={{ fontSize: '1.125rem', fontWeight: 600, marginBottom: '0.5rem' }}>
+            {stage === 'done' ? 'Import finished' : 'Preview (nothing has been saved yet)'}
+          </h2>
+          <p style={{ color: '#374151', marginBottom: '1rem' }}>
+            {stage === 'done'
+              ? `${registeredCount} registered, ${rejectedCount} rejected.`
+              : `${readyCount} ready to import, ${rejectedCount} rejected.`}
+            {stage === 'importing' && ` Registering ${progress} of ${readyCount}...`}
+          </p>
+
+          <div style={{ maxHeight: '420px', overflowY: 'auto', marginBottom: '1rem' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  <th style={cellStyle}>Row</th>
+                  <th style={cellStyle}>Patient number</th>
+                  <th style={cellStyle}>Name</th>
+                  <th style={cellStyle}>Date of birth</th>
+                  <th style={cellStyle}>Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.rowNumber} style={{ backgroundColor: row.errors.length > 0 ? '#fef2f2' : undefined }}>
+                    <td style={cellStyle}>{row.rowNumber}</td>
+                    <td style={cellStyle}>{row.patient?.patientNumber}</td>
+                    <td style={cellStyle}>{row.patient && `${row.patient.firstName} ${row.patient.lastName}`}</td>
+                    <td style={cellStyle}>{row.patient?.dateOfBirth}</td>
+                    <td style={cellStyle}>
+                      {row.errors.length > 0 ? (
+                        <ul style={{ margin: 0, paddingLeft: '1rem', color: '#b91c1c' }}>
+                          {row.errors.map(message => <li key={message}>{message}</li>)}
+                        </ul>
+                      ) : row.registeredId ? (
+                        <button
+                          type="button"
+                          onClick={() => navigate(routes.patientDetails(row.registeredId as string))}
+                          style={{ background: 'none', border: 'none', padding: 0, color: '#3b82f6', cursor: 'pointer' }}
+                        >
+                          Registered
+                        </button>
+                      ) : (
+                        <span style={{ color: '#047857' }}>Ready</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="button-group">
+            {rejectedCount > 0 && (
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={handleDownloadReport}
+                disabled={stage === 'importing'}
+              >
+                Download Error Report
+              </button>
+            )}
+            {stage === 'done' ? (
+              <button type="button" className="btn btn-primary" onClick={() => navigate(routes.patientListing)}>
+                Go to Patient Listing
+              </button>
+            ) : (
+              <button
+                type="button"
+                className="btn btn-primary"
+                onClick={handleImport}
+                disabled={stage === 'importing' || readyCount === 0}
+              >
+                {stage === 'importing'
+                  ? 'Importing...'
+                  : `Import ${readyCount} ${readyCount === 1 ? 'Patient' : 'Patients'}`}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PatientImport;
@@ -1,79 +1,115 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { patientApi, vitalsApi, assessmentApi } from '../services/api';
+import { getApiErrorMessage, isRequestCancelled } from '../services/api';
+import { fetchPatientListingPage, PatientListingPage, queryKeys } from '../services/queries';
+import { Patient, PatientListQuery, PatientSortField } from '../types';
+import useDebouncedValue from '../hooks/useDebouncedValue';
+import useQuery from '../hooks/useQuery';
+import usePermissions from '../hooks/usePermissions';
+import { routes } from '../routes';
+import { isArchived } from '../services/archiving';
+import { formatSexAndGender } from '../services/sexGender';
+import { BodyRatio, waistToHeightRisk, waistToHipRisk } from '../services/bodyComposition';
+import { classifyBmi, BmiStatus } from '../services/bmiStatus';
+import { getConfig } from '../services/config';
+import BodyRatioBadge from './BodyRatioBadge';
+import BmiStatusBadge from './BmiStatusBadge';
 
 /*
 This React component serves as a comprehensive patient management interface that:
 1. Displays a searchable and filterable list of patients
-2. Shows key patient metrics (BMI status, last visits, age)
+2. Shows key patient metrics (BMI status and waist ratios, last visits, age)
 3. Allows navigation to patient details, registration, and vitals recording
 4. Integrates with multiple API endpoints to fetch and display patient data
 5. Includes pagination for better data management
 
 DATA FETCHING & PROCESSING:
-   - Fetches patient data from patientApi
-   - Enriches patient records with:
-     * Latest vitals (BMI calculations and status)
-     * Assessment history (overweight/general assessments)
-   - Handles different API response structures via extractArrayFromResponse()
+   - Fetches only the current page from patientApi; search, date filter, sorting
+     and paging are all sent to the server as query parameters
+   - Pages are cached (services/queryCache); a newer query aborts the in-flight
+     request of the previous one
+   - Recording vitals or an assessment updates the cached rows optimistically
+   - Enriches the page with one summary request (latest BMI and waist ratios, last
+     vitals and last assessment per patient), see services/patientSummaries
    - Calculates age from date of birth
+   - BMI status follows the clinic's classification scheme
+     (services/bmiClassification); for patients under 20 it is their BMI-for-age
+     category at the last visit (services/bmiStatus)
 
-FILTERING & SEARCH:
-   - Real-time search by name or patient ID
-   - Date filtering by last visit/assessment date
-   - Combined filter logic for search + date criteria
+FILTERING, SEARCH & SORTING:
+   - Search by name or patient ID, debounced so typing does not fire a request per key
+   - Date filtering by visit date
+   - Sort by name or age by clicking the column header
+   - Any filter or sort change goes back to page 1
    - Clear filters functionality
+   - "Include archived patients" adds archived patients back, greyed out and
+     marked as archived (they are hidden by default)
 
 USER INTERACTIONS:
    - Click patient row to view detailed patient information
-   - "Record Vitals" button for quick vitals entry
-   - Register new patient via dedicated button
+   - "Record Vitals" button for quick vitals entry (nurses and clinicians)
+   - Register new patient via dedicated button, or import many from a CSV file
+   - Import past vitals from a CSV file (nurses and clinicians)
+   - Buttons are only shown to roles allowed to use them (usePermissions)
    - Refresh data functionality
    - Clear individual or all filters
 
 KEY DATA FLOWS:
-  1. On mount → fetchPatients() → calls multiple APIs → processes data → updates state
-  2. User interactions → update filters → filteredPatients recalculation → re-render
+  1. query changes → useQuery → cached page or one page from the server → rows
+  2. User interactions → update query (page reset to 1 for filters and sorting) → refetch
   3. Navigation actions → route to appropriate pages with patient data in state
 */
 
-interface Patient {
-  id: string;
-  patient_id: string;
-  first_name: string;
-  last_name: string;
-  middle_name?: string;
-  date_of_birth: string;
-  gender?: string;
-  registration_date?: string;
-  created_at?: string;
+interface PatientRow extends Patient {
   age?: number;
-  last_bmi?: number;
-  last_bmi_status?: string;
-  last_vitals_date?: string;
-  last_assessment_date?: string;
-  last_assessment_type?: string;
+  lastBmi?: number;
+  lastBmiStatus?: BmiStatus;
+  lastWaistToHeight?: BodyRatio;
+  lastWaistToHip?: BodyRatio;
+  lastVitalsDate?: string;
+  lastAssessmentDate?: string;
+  lastAssessmentType?: string;
 }
 
+const SEARCH_DEBOUNCE_MS = 300;
+
 const PatientListing: React.FC = () => {
   const navigate = useNavigate();
-  const [patients, setPatients] = useState<Patient[]>([]);
-  const [filteredPatients, setFilteredPatients] = useState<Patient[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { can } = usePermissions();
   const [searchTerm, setSearchTerm] = useState('');
-  const [dateFilter, setDateFilter] = useState('');
   
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage, setItemsPerPage] = useState(10);
-  const [paginatedPatients, setPaginatedPatients] = useState<Patient[]>([]);
+  const [query, setQuery] = useState<PatientListQuery>({
+    page: 1,
+    pageSize: 10,
+    search: '',
+    visitDate: '',
+    sortBy: 'name',
+    sortDirection: 'asc',
+  });
+  
+  const debouncedSearch = useDebouncedValue(searchTerm, SEARCH_DEBOUNCE_MS);
+  const currentPage = query.page;
+  const itemsPerPage = query.pageSize;
+  const dateFilter = query.visitDate || '';
+  
+  /*
+  The current page comes from the shared query cache, keyed by the full query.
+  Pages already seen are shown instantly and revalidated in the background;
+  a superseded request is aborted, so a slow response for an old search can
+  never overwrite the results of the latest one.
+  */
+  const {
+    data: listing,
+    error: listingError,
+    loading: firstLoad,
+    isFetching,
+    refetch,
+  } = useQuery(
+    queryKeys.patientPage(query),
+    (signal) => fetchPatientListingPage(query, signal),
+    { keepPreviousData: true }
+  );
   
-  const extractArrayFromResponse = (data: any): any[] => {
-    if (Array.isArray(data)) return data;
-    if (data?.results && Array.isArray(data.results)) return data.results;
-    if (data?.data && Array.isArray(data.data)) return data.data;
-    return [];
-  };
-
   const calculateAge = (dateOfBirth: string): number => {
     if (!dateOfBirth) return 0;
     const birthDate = new Date(dateOfBirth);
@@ -86,200 +122,84 @@ const PatientListing: React.FC = () => {
     return age;
   };
 
-  const getBmiStatus = (bmi: number): string => {
-    if (bmi < 18.5) return 'Underweight';
-    if (bmi < 25) return 'Normal';
-    return 'Overweight';
-  };
-
-  const formatGender = (gender: string = ''): string => {
-    if (!gender) return 'Unknown';
-    switch (gender.toUpperCase()) {
-      case 'M': return 'Male';
-      case 'F': return 'Female';
-      case 'O': return 'Other';
-      default: return gender;
-    }
-  };
-
-  const fetchPatients = async () => {
-    try {
-      setLoading(true);
-      console.log('Fetching patients from API...');
-      
-      const response = await patientApi.getPatients();
-      console.log('Patients API response:', response.data);
-      
-      const patientsArray = extractArrayFromResponse(response.data);
-      console.log(`Extracted ${patientsArray.length} patients`);
-      
-      const basicPatients: Patient[] = patientsArray.map((p: any) => ({
-        id: p.id,
-        patient_id: p.patient_id || `PAT${p.id.substring(0, 8).toUpperCase()}`,
-        first_name: p.first_name,
-        last_name: p.last_name,
-        middle_name: p.middle_name,
-        date_of_birth: p.date_of_birth,
-        gender: p.gender,
-        registration_date: p.registration_date || p.created_at,
-        age: p.age || calculateAge(p.date_of_birth),
-        created_at: p.created_at,
-        last_bmi: undefined,
-        last_bmi_status: undefined,
-        last_vitals_date: undefined,
-        last_assessment_date: undefined,
-        last_assessment_type: undefined,
-      }));
-      
-      const patientsWithDetails = await Promise.all(
-        basicPatients.map(async (patient) => {
-          try {
-            const vitalsResponse = await vitalsApi.getVitals(patient.id);
-            const vitalsArray = extractArrayFromResponse(vitalsResponse.data);
-            
-            if (vitalsArray.length > 0) {
-              vitalsArray.sort((a: any, b: any) => 
-                new Date(b.visit_date || b.created_at).getTime() - 
-                new Date(a.visit_date || a.created_at).getTime()
-              );
-              
-              const latestVital = vitalsArray[0];
-              patient.last_bmi = typeof latestVital.bmi === 'string' ? 
-                parseFloat(latestVital.bmi) : latestVital.bmi;
-              patient.last_bmi_status = getBmiStatus(patient.last_bmi || 0);
-              patient.last_vitals_date = latestVital.visit_date || latestVital.created_at;
-            }
-            
-            try {
-              const overweightResponse = await assessmentApi.getPatientOverweightAssessments(patient.id);
-              const overweightArray = extractArrayFromResponse(overweightResponse.data);
-              
-              if (overweightArray.length > 0) {
-                overweightArray.sort((a: any, b: any) => 
-                  new Date(b.visit_date || b.created_at).getTime() - 
-                  new Date(a.visit_date || a.created_at).getTime()
-                );
-                
-                const latestAssessment = overweightArray[0];
-                patient.last_assessment_date = latestAssessment.visit_date || latestAssessment.created_at;
-                patient.last_assessment_type = 'Overweight';
-              } else {
-                const generalResponse = await assessmentApi.getPatientGeneralAssessments(patient.id);
-                const generalArray = extractArrayFromResponse(generalResponse.data);
-                
-                if (generalArray.length > 0) {
-                  generalArray.sort((a: any, b: any) => 
-                    new Date(b.visit_date || b.created_at).getTime() - 
-                    new Date(a.visit_date || a.created_at).getTime()
-                  );
-                  
-                  const latestAssessment = generalArray[0];
-                  patient.last_assessment_date = latestAssessment.visit_date || latestAssessment.created_at;
-                  patient.last_assessment_type = 'General';
-                }
-              }
-            } catch (assessmentError) {
-              console.log(`No assessments found for patient ${patient.patient_id}`);
-            }
-            
-          } catch (error) {
-            console.error(`Error fetching details for patient ${patient.patient_id}:`, error);
-          }
-          
-          return patient;
-        })
-      );
-      
-      setPatients(patientsWithDetails);
-      setFilteredPatients(patientsWithDetails);
-      
-      if (patientsWithDetails.length > 0) {
-        console.log('First patient with details:', patientsWithDetails[0]);
-      }
-      
-    } catch (error) {
-      console.error('Error fetching patients:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-  
-  useEffect(() => {
-    fetchPatients();
-  }, []);
-  
-  useEffect(() => {
-    if (!searchTerm.trim() && !dateFilter) {
-      setFilteredPatients(patients);
-      setCurrentPage(1);
-      return;
-    }
-    
-    const term = searchTerm.toLowerCase();
-    
-    const filtered = patients.filter(patient => {
-      const matchesSearch = !searchTerm.trim() || 
-        patient.first_name?.toLowerCase().includes(term) ||
-        patient.last_name?.toLowerCase().includes(term) ||
-        patient.patient_id?.toLowerCase().includes(term) ||
-        `${patient.first_name} ${patient.last_name}`.toLowerCase().includes(term);
-      
-      let matchesDate = true;
-      if (dateFilter) {
-        const filterDate = new Date(dateFilter);
-        let hasMatchingDate = false;
-        
-        if (patient.last_vitals_date) {
-          const vitalsDate = new Date(patient.last_vitals_date);
-          if (
-            vitalsDate.getFullYear() === filterDate.getFullYear() &&
-            vitalsDate.getMonth() === filterDate.getMonth() &&
-            vitalsDate.getDate() === filterDate.getDate()
-          ) {
-            hasMatchingDate = true;
-          }
-        }
-        
-        if (patient.last_assessment_date) {
-          const assessmentDate = new Date(patient.last_assessment_date);
-          if (
-            assessmentDate.getFullYear() === filterDate.getFullYear() &&
-            assessmentDate.getMonth() === filterDate.getMonth() &&
-            assessmentDate.getDate() === filterDate.getDate()
-          ) {
-            hasMatchingDate = true;
-          }
-        }
-        
-        matchesDate = hasMatchingDate;
-      }
-      
-      return matchesSearch && matchesDate;
+  /*
+  Function: Build the table rows
+  Purpose: Adds age, latest BMI and last visit information to each patient of
+  the page. All summaries for the page are loaded together by
+  services/patientSummaries instead of three requests per patient.
+  */
+  const toRows = ({ page, summaries }: PatientListingPage): PatientRow[] =>
+    page.results.map(p => {
+      const summary = summaries[p.id];
+      return {
+        ...p,
+        age: calculateAge(p.dateOfBirth),
+        lastBmi: summary?.lastBmi,
+        lastBmiStatus: summary?.lastBmi !== undefined
+          ? classifyBmi(summary.lastBmi, getConfig().bmiScheme, p, summary.lastVitalsDate)
+          : undefined,
+        lastWaistToHeight: summary?.lastWaistToHeight !== undefined
+          ? { ratio: summary.lastWaistToHeight, risk: waistToHeightRisk(summary.lastWaistToHeight) }
+          : undefined,
+        lastWaistToHip: summary?.lastWaistToHip !== undefined
+          ? { ratio: summary.lastWaistToHip, risk: waistToHipRisk(summary.lastWaistToHip, p.sex) }
+          : undefined,
+        lastVitalsDate: summary?.lastVitalsDate,
+        lastAssessmentDate: summary?.lastAssessmentDate,
+        lastAssessmentType: summary?.lastAssessmentType === 'overweight' ? 'Overweight'
+          : summary?.lastAssessmentType === 'general' ? 'General' : undefined,
+      };
     });
-    
-    setFilteredPatients(filtered);
-    setCurrentPage(1);
-  }, [searchTerm, dateFilter, patients]);
+  
+  const loading = firstLoad || isFetching;
+  const patients = listing ? toRows(listing) : [];
+  const totalPatients = listing?.page.count || 0;
+  const loadError = listingError && !isRequestCancelled(listingError)
+    ? getApiErrorMessage(listingError, 'Failed to load patients.')
+    : null;
   
   useEffect(() => {
-    const indexOfLastItem = currentPage * itemsPerPage;
-    const indexOfFirstItem = indexOfLastItem - itemsPerPage;
-    const currentItems = filteredPatients.slice(indexOfFirstItem, indexOfLastItem);
-    setPaginatedPatients(currentItems);
-  }, [filteredPatients, currentPage, itemsPerPage]);
+    setQuery(prev => prev.search === debouncedSearch ? prev : { ...prev, search: debouncedSearch, page: 1 });
+  }, [debouncedSearch]);
   
-  const totalPages = Math.ceil(filteredPatients.length / itemsPerPage);
+  const totalPages = Math.max(1, Math.ceil(totalPatients / itemsPerPage));
   
   const handlePageChange = (pageNumber: number) => {
     if (pageNumber < 1 || pageNumber > totalPages) return;
-    setCurrentPage(pageNumber);
+    setQuery(prev => ({ ...prev, page: pageNumber }));
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
   
   const handleItemsPerPageChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const newItemsPerPage = parseInt(e.target.value);
-    setItemsPerPage(newItemsPerPage);
-    setCurrentPage(1);
+    setQuery(prev => ({ ...prev, pageSize: newItemsPerPage, page: 1 }));
+  };
+  
+  const handleDateFilterChange = (visitDate: string) => {
+    setQuery(prev => ({ ...prev, visitDate, page: 1 }));
+  };
+
+  const handleIncludeArchivedChange = (includeArchived: boolean) => {
+    setQuery(prev => ({ ...prev, includeArchived, page: 1 }));
+  };
+  
+  /*
+  Function: Toggle sorting on a column
+  Purpose: Clicking the active column flips the direction, clicking another
+  column sorts by it ascending. Sorting is applied by the server.
+  */
+  const handleSort = (sortBy: PatientSortField) => {
+    setQuery(prev => ({
+      ...prev,
+      sortBy,
+      sortDirection: prev.sortBy === sortBy && prev.sortDirection === 'asc' ? 'desc' : 'asc',
+      page: 1,
+    }));
+  };
+  
+  const getSortIndicator = (field: PatientSortField): string => {
+    if (query.sortBy !== field) return '↕';
+    return query.sortDirection === 'asc' ? '▲' : '▼';
   };
   
   const getPageNumbers = () => {
@@ -317,75 +237,21 @@ const PatientListing: React.FC = () => {
     return pageNumbers;
   };
   
-  const handlePatientClick = (patient: Patient) => {
-    console.log('Patient clicked:', patient);
-    navigate('/patient-details', { 
-      state: { 
-        patient: {
-          id: patient.id,
-          patient_id: patient.patient_id,
-          first_name: patient.first_name,
-          last_name: patient.last_name,
-          middle_name: patient.middle_name,
-          date_of_birth: patient.date_of_birth,
-          gender: patient.gender,
-          registration_date: patient.registration_date,
-          age: patient.age,
-          created_at: patient.created_at,
-        }
-      } 
-    });
+  const handlePatientClick = (patient: PatientRow) => {
+    navigate(routes.patientDetails(patient.id));
   };
   
-  const handleRecordVitals = (patient: Patient, e: React.MouseEvent) => {
+  const handleRecordVitals = (patient: PatientRow, e: React.MouseEvent) => {
     e.stopPropagation();
-    console.log('Recording vitals for:', patient);
-    navigate('/vitals-form', { 
-      state: { 
-        patient: {
-          id: patient.id,
-          patient_id: patient.patient_id,
-          first_name: patient.first_name,
-          last_name: patient.last_name,
-          middle_name: patient.middle_name,
-          date_of_birth: patient.date_of_birth,
-          gender: patient.gender
-        },
-        redirectBack: true
-      } 
-    });
+    navigate(routes.newVitals(patient.id), { state: { redirectBack: true } });
   };
   
   const navigateToRegistration = () => {
-    navigate('/register-patient');
+    navigate(routes.registerPatient);
   };
   
-  const handleRefresh = async () => {
-    await fetchPatients();
-    setSearchTerm('');
-    setDateFilter('');
-    setCurrentPage(1);
-    console.log(`Refreshed! Loaded ${patients.length} patients.`);
-  };
-  
-  const getStatusColor = (status: string = ''): string => {
-    if (!status || status === 'No Data') return '#f3f4f6';
-    switch (status.toLowerCase()) {
-      case 'underweight': return '#fef3c7';
-      case 'normal': return '#d1fae5';
-      case 'overweight': return '#fee2e2';
-      default: return '#f3f4f6';
-    }
-  };
-  
-  const getStatusTextColor = (status: string = ''): string => {
-    if (!status || status === 'No Data') return '#6b7280';
-    switch (status.toLowerCase()) {
-      case 'underweight': return '#92400e';
-      case 'normal': return '#065f46';
-      case 'overweight': return '#991b1b';
-      default: return '#6b7280'; 
-    }
+  const handleRefresh = () => {
+    refetch();
   };
   
   const formatDate = (dateString: string = ''): string => {
@@ -405,28 +271,9 @@ const PatientListing: React.FC = () => {
   
   const clearFilters = () => {
     setSearchTerm('');
-    setDateFilter('');
-    setCurrentPage(1);
+    setQuery(prev => ({ ...prev, search: '', visitDate: '', page: 1 }));
   };
   
-  if (loading) {
-    return (
-      <div style={{ textAlign: 'center', padding: '4rem' }}>
-        <div style={{
-          display: 'inline-block',
-          width: '40px',
-          height: '40px',
-          border: '3px solid #3b82f6',
-          borderTop: '3px solid transparent',
-          borderRadius: '50%',
-          animation: 'spin 1s linear infinite',
-          marginBottom: '1rem'
-        }}></div>
-        <p>Loading patient data...</p>
-      </div>
-    );
-  }
-  
   return (
     <div style={{ padding: '2rem' }}>
       <div style={{ 
@@ -447,28 +294,66 @@ const PatientListing: React.FC = () => {
         </h1>
         <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
           <span style={{ fontSize: '0.875rem', color: '#6b7280' }}>
-            Showing {filteredPatients.length} of {patients.length} patients
+            {totalPatients} {totalPatients === 1 ? 'patient' : 'patients'}
           </span>
-          <button
-            onClick={navigateToRegistration}
-            style={{
-              padding: '0.5rem 1rem',
-              backgroundColor: '#10b981',
-              color: 'white',
-              border: 'none',
-              borderRadius: '6px',
-              cursor: 'pointer',
-              fontSize: '0.875rem',
-              display: 'flex',
-              alignItems: 'center',
-              gap: '0.5rem',
-              fontWeight: 500
-            }}
-            title="Register new patient"
-          >
-            <span style={{ fontSize: '1.125rem' }}>+</span>
-            Register Patient
-          </button>
+          {can('patients:register') && (
+            <button
+              onClick={navigateToRegistration}
+              style={{
+                padding: '0.5rem 1rem',
+                backgroundColor: '#10b981',
+                color: 'white',
+                border: 'none',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '0.5rem',
+                fontWeight: 500
+              }}
+              title="Register new patient"
+            >
+              <span style={{ fontSize: '1.125rem' }}>+</span>
+              Register Patient
+            </button>
+          )}
+          {can('patients:register') && (
+            <button
+              onClick={() => navigate(routes.importPatients)}
+              style={{
+                padding: '0.5rem 1rem',
+                backgroundColor: 'white',
+                color: '#374151',
+                border: '1px solid #d1d5db',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+                fontWeight: 500
+              }}
+              title="Register many patients from a CSV file"
+            >
+              Import CSV
+            </button>
+          )}
+          {can('vitals:record') && (
+            <button
+              onClick={() => navigate(routes.importVitals)}
+              style={{
+                padding: '0.5rem 1rem',
+                backgroundColor: 'white',
+                color: '#374151',
+                border: '1px solid #d1d5db',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+                fontWeight: 500
+              }}
+              title="Load past height and weight measurements from a CSV file"
+            >
+              Import Vitals
+            </button>
+          )}
           <button
             onClick={handleRefresh}
             disabled={loading}
@@ -581,7 +466,7 @@ const PatientListing: React.FC = () => {
           <input
             type="date"
             value={dateFilter}
-            onChange={(e) => setDateFilter(e.target.value)}
+            onChange={(e) => handleDateFilterChange(e.target.value)}
             style={{
               width: '100%',
               padding: '0.75rem 1rem',
@@ -613,6 +498,15 @@ const PatientListing: React.FC = () => {
             Clear Filters
           </button>
         </div>
+
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.875rem', color: '#374151', height: '46px' }}>
+          <input
+            type="checkbox"
+            checked={Boolean(query.includeArchived)}
+            onChange={(e) => handleIncludeArchivedChange(e.target.checked)}
+          />
+          Include archived patients
+        </label>
       </div>
       
       {/* Active Filters Display */}
@@ -679,7 +573,7 @@ const PatientListing: React.FC = () => {
                   year: 'numeric'
                 })}
                 <button
-                  onClick={() => setDateFilter('')}
+                  onClick={() => handleDateFilterChange('')}
                   style={{
                     background: 'none',
                     border: 'none',
@@ -702,8 +596,29 @@ const PatientListing: React.FC = () => {
         borderRadius: '8px',
         overflow: 'hidden',
         boxShadow: '0 1px 3px rgba(0,0,0,0.1)',
-        marginBottom: '2rem'
+        marginBottom: '2rem',
+        position: 'relative'
       }}>
+        {loading && patients.length > 0 && (
+          <div style={{
+            position: 'absolute',
+            inset: 0,
+            backgroundColor: 'rgba(255, 255, 255, 0.6)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            zIndex: 1
+          }}>
+            <div style={{
+              width: '32px',
+              height: '32px',
+              border: '3px solid #3b82f6',
+              borderTop: '3px solid transparent',
+              borderRadius: '50%',
+              animation: 'spin 1s linear infinite'
+            }}></div>
+          </div>
+        )}
         <div style={{ overflowX: 'auto' }}>
           <table style={{ width: '100%', borderCollapse: 'collapse', minWidth: '600px' }}>
             <thead style={{ background: '#f9fafb' }}>
@@ -714,9 +629,14 @@ const PatientListing: React.FC = () => {
                   fontWeight: 600,
                   fontSize: '0.875rem',
                   color: '#374151',
-                  borderBottom: '2px solid #e5e7eb'
-                }}>
-                  Patient Name
+                  borderBottom: '2px solid #e5e7eb',
+                  cursor: 'pointer',
+                  userSelect: 'none'
+                }}
+                onClick={() => handleSort('name')}
+                aria-sort={query.sortBy === 'name' ? (query.sortDirection === 'asc' ? 'ascending' : 'descending') : 'none'}
+                >
+                  Patient Name <span style={{ color: '#9ca3af', fontSize: '0.75rem' }}>{getSortIndicator('name')}</span>
                 </th>
                 <th style={{ 
                   padding: '1rem',
@@ -724,9 +644,14 @@ const PatientListing: React.FC = () => {
                   fontWeight: 600,
                   fontSize: '0.875rem',
                   color: '#374151',
-                  borderBottom: '2px solid #e5e7eb'
-                }}>
-                  Age
+                  borderBottom: '2px solid #e5e7eb',
+                  cursor: 'pointer',
+                  userSelect: 'none'
+                }}
+                onClick={() => handleSort('age')}
+                aria-sort={query.sortBy === 'age' ? (query.sortDirection === 'asc' ? 'ascending' : 'descending') : 'none'}
+                >
+                  Age <span style={{ color: '#9ca3af', fontSize: '0.75rem' }}>{getSortIndicator('age')}</span>
                 </th>
                 <th style={{ 
                   padding: '1rem',
@@ -761,19 +686,23 @@ const PatientListing: React.FC = () => {
               </tr>
             </thead>
             <tbody>
-              {paginatedPatients.length === 0 ? (
+              {loadError ? (
+                <tr>
+                  <td colSpan={5} style={{ padding: '3rem', textAlign: 'center', color: '#b91c1c' }}>
+                    {loadError}
+                  </td>
+                </tr>
+              ) : patients.length === 0 ? (
                 <tr>
                   <td colSpan={5} style={{ padding: '3rem', textAlign: 'center', color: '#6b7280' }}>
-                    {searchTerm || dateFilter ? 
+                    {loading ? 'Loading patient data...' : searchTerm || dateFilter ? 
                       `No patients found matching the selected filters` : 
                       'No patients found'}
                   </td>
                 </tr>
               ) : (
-                paginatedPatients.map((patient, index) => {
-                  const status = patient.last_bmi_status || 'No Data';
-                  const statusColor = getStatusColor(status);
-                  const textColor = getStatusTextColor(status);
+                patients.map((patient, index) => {
+                  const status = patient.lastBmiStatus;
                   
                   return (
                     <tr 
@@ -781,6 +710,7 @@ const PatientListing: React.FC = () => {
                       style={{ 
                         borderBottom: '1px solid #f3f4f6',
                         backgroundColor: index % 2 === 0 ? 'white' : '#f9fafb',
+                        opacity: isArchived(patient) ? 0.6 : 1,
                       }}
                     >
                       <td style={{ padding: '1rem', cursor: 'pointer' }} onClick={() => handlePatientClick(patient)}>
@@ -789,14 +719,30 @@ const PatientListing: React.FC = () => {
                           fontSize: '1rem', 
                           color: '#111827'
                         }}>
-                          {patient.first_name} {patient.last_name}
+                          {patient.firstName} {patient.lastName}
+                          {isArchived(patient) && (
+                            <span
+                              title={patient.archiveReason}
+                              style={{
+                                marginLeft: '0.5rem',
+                                fontSize: '0.75rem',
+                                fontWeight: 600,
+                                color: '#92400e',
+                                backgroundColor: '#fef3c7',
+                                padding: '0.125rem 0.5rem',
+                                borderRadius: '9999px'
+                              }}
+                            >
+                              Archived
+                            </span>
+                          )}
                         </div>
-                        {patient.date_of_birth && (
+                        {patient.dateOfBirth && (
                           <div style={{ fontSize: '0.75rem', color: '#9ca3af', marginTop: '0.25rem' }}>
-                            DOB: {formatDate(patient.date_of_birth)}
-                            {patient.gender && (
+                            DOB: {formatDate(patient.dateOfBirth)}
+                            {patient.sex && (
                               <span style={{ marginLeft: '0.75rem' }}>
-                                • {formatGender(patient.gender)}
+                                • {formatSexAndGender(patient)}
                               </span>
                             )}
                           </div>
@@ -812,7 +758,7 @@ const PatientListing: React.FC = () => {
                           alignItems: 'center',
                           gap: '0.5rem'
                         }}>
-                          {patient.age || calculateAge(patient.date_of_birth) || 'N/A'}
+                          {patient.age || calculateAge(patient.dateOfBirth) || 'N/A'}
                           {patient.age && patient.age > 0 && (
                             <span style={{ fontSize: '0.75rem', color: '#6b7280' }}>years</span>
                           )}
@@ -821,22 +767,12 @@ const PatientListing: React.FC = () => {
                       
                       <td style={{ padding: '1rem', cursor: 'pointer' }} onClick={() => handlePatientClick(patient)}>
                         <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' }}>
-                          <span style={{
-                            display: 'inline-flex',
-                            alignItems: 'center',
-                            justifyContent: 'center',
-                            padding: '0.25rem 0.75rem',
-                            borderRadius: '9999px',
-                            fontSize: '0.75rem',
-                            fontWeight: 600,
-                            color: textColor,
-                            backgroundColor: statusColor,
-                            minWidth: '100px',
-                            height: '24px'
-                          }}>
-                            {status}
-                          </span>
-                          {patient.last_bmi !== undefined ? (
+                          <BmiStatusBadge
+                            label={status ? status.label : 'No Data'}
+                            category={status?.category}
+                            style={{ minWidth: '100px', height: '24px' }}
+                          />
+                          {patient.lastBmi !== undefined ? (
                             <div style={{ 
                               fontSize: '0.875rem', 
                               color: '#6b7280',
@@ -844,7 +780,7 @@ const PatientListing: React.FC = () => {
                               padding: '0.25rem 0.5rem',
                               borderRadius: '4px'
                             }}>
-                              BMI: {patient.last_bmi.toFixed(1)}
+                              BMI: {patient.lastBmi.toFixed(1)}
                             </div>
                           ) : (
                             <div style={{ 
@@ -855,20 +791,22 @@ const PatientListing: React.FC = () => {
                               No vitals recorded
                             </div>
                           )}
+                          {patient.lastWaistToHeight && <BodyRatioBadge label="W/Ht" value={patient.lastWaistToHeight} />}
+                          {patient.lastWaistToHip && <BodyRatioBadge label="W/H" value={patient.lastWaistToHip} />}
                         </div>
                       </td>
                       
                       <td style={{ padding: '1rem', cursor: 'pointer' }} onClick={() => handlePatientClick(patient)}>
-                        {patient.last_assessment_date ? (
+                        {patient.lastAssessmentDate ? (
                           <>
                             <div style={{ 
                               fontWeight: 500, 
                               color: '#1f2937',
                               fontSize: '0.875rem'
                             }}>
-                              {formatDate(patient.last_assessment_date)}
+                              {formatDate(patient.lastAssessmentDate)}
                             </div>
-                            {patient.last_assessment_type && (
+                            {patient.lastAssessmentType && (
                               <div style={{ 
                                 fontSize: '0.75rem', 
                                 color: '#3b82f6',
@@ -878,13 +816,13 @@ const PatientListing: React.FC = () => {
                                 borderRadius: '4px',
                                 display: 'inline-block'
                               }}>
-                                {patient.last_assessment_type}
+                                {patient.lastAssessmentType}
                               </div>
                             )}
                           </>
-                        ) : patient.last_vitals_date ? (
+                        ) : patient.lastVitalsDate ? (
                           <div style={{ color: '#6b7280', fontSize: '0.875rem' }}>
-                            {formatDate(patient.last_vitals_date)}
+                            {formatDate(patient.lastVitalsDate)}
                             <div style={{ 
                               fontSize: '0.75rem', 
                               color: '#10b981',
@@ -909,22 +847,24 @@ const PatientListing: React.FC = () => {
                       </td>
                       
                       <td style={{ padding: '1rem' }}>
-                        <button
-                          onClick={(e) => handleRecordVitals(patient, e)}
-                          style={{
-                            padding: '0.375rem 0.75rem',
-                            backgroundColor: '#10b981',
-                            color: 'white',
-                            border: 'none',
-                            borderRadius: '4px',
-                            cursor: 'pointer',
-                            fontSize: '0.75rem',
-                            fontWeight: 500
-                          }}
-                          title="Record vitals for this patient"
-                        >
-                          Record Vitals
-                        </button>
+                        {can('vitals:record') && (
+                          <button
+                            onClick={(e) => handleRecordVitals(patient, e)}
+                            style={{
+                              padding: '0.375rem 0.75rem',
+                              backgroundColor: '#10b981',
+                              color: 'white',
+                              border: 'none',
+                              borderRadius: '4px',
+                              cursor: 'pointer',
+                              fontSize: '0.75rem',
+                              fontWeight: 500
+                            }}
+                            title="Record vitals for this patient"
+                          >
+                            Record Vitals
+                          </button>
+                        )}
                       </td>
                     </tr>
                   );
@@ -936,7 +876,7 @@ const PatientListing: React.FC = () => {
       </div>
       
       {/* Pagination Controls */}
-      {filteredPatients.length > 0 && (
+      {totalPatients > 0 && (
         <div style={{
           display: 'flex',
           justifyContent: 'space-between',
@@ -977,9 +917,9 @@ const PatientListing: React.FC = () => {
               Showing <span style={{ fontWeight: 600, color: '#1f2937' }}>
                 {((currentPage - 1) * itemsPerPage) + 1}
               </span> to <span style={{ fontWeight: 600, color: '#1f2937' }}>
-                {Math.min(currentPage * itemsPerPage, filteredPatients.length)}
+                {Math.min(currentPage * itemsPerPage, totalPatients)}
               </span> of <span style={{ fontWeight: 600, color: '#1f2937' }}>
-                {filteredPatients.length}
+                {totalPatients}
               </span> patients
             </div>
           </div>
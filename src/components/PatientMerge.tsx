@@ -0,0 +1,452 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { getApiErrorMessage, PatientEditConflictError } from '../services/api';
+import { createLogger } from '../services/logger';
+import {
+  PATIENT_FIELD_LABELS,
+  PATIENT_FIELDS,
+  formatPatientFieldValue,
+  toEditablePatient,
+} from '../services/patientEdits';
+import {
+  buildMergedPatient,
+  defaultMergeChoices,
+  differingFields,
+  MergeChoices,
+  MergeSide,
+  PatientMergeAuditError,
+} from '../services/patientMerge';
+import {
+  fetchPatientAssessments,
+  fetchPatientListingPage,
+  fetchPatientVitals,
+  mergePatients,
+  queryKeys,
+  retryMergeAudit,
+} from '../services/queries';
+import { Patient, PatientField, PatientListQuery } from '../types';
+import useDebouncedValue from '../hooks/useDebouncedValue';
+import usePatient from '../hooks/usePatient';
+import useQuery from '../hooks/useQuery';
+import { routes } from '../routes';
+
+/*
+PatientMerge Component
+
+Combines two records that turned out to be the same person.
+Reached from PatientDetails at /patients/:patientId/merge; the second record
+is picked on this screen and kept in the URL as ?with=<patientId>.
+
+Key Features:
+1. Search for the duplicate record (the current patient is excluded)
+2. Side-by-side comparison of demographics, vitals history and both kinds of assessment
+3. Choice of the record to keep and, per differing field, of the surviving value
+4. Runs the merge (services/queries#mergePatients): every vital and assessment
+   moves to the kept record, the other record is archived with the merge as the
+   reason, and the merge is written to the patient's change history
+5. If the history entry cannot be written, says so and offers to retry it; the
+   merge is only done once it is recorded
+6. Opens the kept patient's details when done
+
+*/
+
+type Column = 'current' | 'other';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const SEARCH_PAGE_SIZE = 10;
+
+const log = createLogger('PatientMerge');
+
+const formatDate = (dateString?: string): string => {
+  if (!dateString) return '—';
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return dateString;
+  return date.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+};
+
+const formatField = (patient: Patient, field: PatientField): string => {
+  const value = toEditablePatient(patient)[field];
+  if (!value) return '—';
+  return field === 'dateOfBirth' || field === 'registrationDate'
+    ? formatDate(value)
+    : formatPatientFieldValue(field, value) || '—';
+};
+
+const cardStyle: React.CSSProperties = {
+  background: 'white',
+  padding: '1.5rem',
+  borderRadius: '8px',
+  marginBottom: '1.5rem',
+  boxShadow: '0 1px 3px rgba(0,0,0,0.1)'
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '0.75rem',
+  borderBottom: '1px solid #e5e7eb',
+  textAlign: 'left',
+  verticalAlign: 'top'
+};
+
+/*
+Search box listing patients that could be the duplicate.
+*/
+const DuplicatePicker: React.FC<{ excludeId: string; onPick: (patient: Patient) => void }> = ({ excludeId, onPick }) => {
+  const [search, setSearch] = useState('');
+  const debouncedSearch = useDebouncedValue(search.trim(), SEARCH_DEBOUNCE_MS);
+  const query: PatientListQuery = { page: 1, pageSize: SEARCH_PAGE_SIZE, search: debouncedSearch };
+
+  const { data, loading } = useQuery(
+    debouncedSearch.length >= 2 ? queryKeys.patientPage(query) : null,
+    signal => fetchPatientListingPage(query, signal)
+  );
+  const candidates = (data?.page.results || []).filter(patient => patient.id !== excludeId);
+
+  return (
+    <div style={cardStyle}>
+      <h2 style={{ fontSize: '1.125rem', fontWeight: 600, marginBottom: '1rem' }}>
+        Find the duplicate record
+      </h2>
+      <input
+        type="text"
+        className="form-input"
+        placeholder="Search by name or patient number..."
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        autoFocus
+      />
+      {loading && <p style={{ color: '#6b7280', marginTop: '1rem' }}>Searching...</p>}
+      {data && candidates.length === 0 && (
+        <p style={{ color: '#6b7280', marginTop: '1rem' }}>No other patients match.</p>
+      )}
+      {candidates.map(patient => (
+        <div
+          key={patient.id}
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            padding: '0.75rem 0',
+            borderBottom: '1px solid #e5e7eb'
+          }}
+        >
+          <div>
+            <div style={{ fontWeight: 500 }}>{patient.firstName} {patient.lastName}</div>
+            <div style={{ fontSize: '0.875rem', color: '#6b7280' }}>
+              {patient.patientNumber || 'No patient number'} · Born {formatDate(patient.dateOfBirth)}
+            </div>
+          </div>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            style={{ padding: '0.5rem 1rem', fontSize: '0.875rem' }}
+            onClick={() => onPick(patient)}
+          >
+            Compare
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/*
+One patient's vitals and assessments, for the side-by-side history.
+*/
+const PatientHistory: React.FC<{ patient: Patient }> = ({ patient }) => {
+  const { data: vitals } = useQuery(queryKeys.vitals(patient.id), () => fetchPatientVitals(patient.id));
+  const { data: assessments } = useQuery(
+    queryKeys.assessments(patient.id),
+    () => fetchPatientAssessments(patient.id)
+  );
+
+  return (
+    <div>
+      <h3 style={{ fontSize: '1rem', fontWeight: 600, marginBottom: '0.5rem' }}>
+        {patient.patientNumber || patient.lastName}
+      </h3>
+      <p style={{ fontSize: '0.875rem', fontWeight: 500, margin: '0.75rem 0 0.25rem' }}>
+        Vitals ({vitals ? vitals.length : '…'})
+      </p>
+      {vitals?.map(v => (
+        <div key={v.id} style={{ fontSize: '0.875rem', color: '#374151' }}>
+          {formatDate(v.visitDate)} · {v.height} cm · {v.weight} kg · BMI {v.bmi.toFixed(1)}
+        </div>
+      ))}
+      <p style={{ fontSize: '0.875rem', fontWeight: 500, margin: '0.75rem 0 0.25rem' }}>
+        Assessments ({assessments ? assessments.length : '…'})
+      </p>
+      {assessments?.map(a => (
+        <div key={`${a.type}-${a.id}`} style={{ fontSize: '0.875rem', color: '#374151' }}>
+          {formatDate(a.visitDate)} · {a.type === 'overweight' ? 'Overweight' : 'General'} · {a.generalHealth} health
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const PatientMerge: React.FC = () => {
+  const navigate = useNavigate();
+  const { patientId } = useParams<{ patientId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const otherId = searchParams.get('with') || undefined;
+
+  const { patient: current, loading, error: loadError, reload: reloadCurrent } = usePatient(patientId);
+  const { patient: other, error: otherError, reload: reloadOther } = usePatient(otherId);
+
+  const [keptColumn, setKeptColumn] = useState<Column>('current');
+  const [choiceState, setChoiceState] = useState<{ pair: string; choices: MergeChoices } | null>(null);
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [auditError, setAuditError] = useState<PatientMergeAuditError | null>(null);
+
+  const survivor = keptColumn === 'current' ? current : other;
+  const duplicate = keptColumn === 'current' ? other : current;
+
+  /*
+  Field choices belong to one survivor/duplicate pair; picking another record
+  or swapping which one is kept starts again from the defaults.
+  */
+  const pair = survivor && duplicate ? `${survivor.id}:${duplicate.id}` : '';
+  const choices = survivor && duplicate
+    ? (choiceState?.pair === pair ? choiceState.choices : defaultMergeChoices(survivor, duplicate))
+    : null;
+
+  const sideOf = (column: Column): MergeSide => (column === keptColumn ? 'survivor' : 'duplicate');
+
+  const chooseValue = (field: PatientField, column: Column) => {
+    if (!choices) return;
+    setChoiceState({ pair, choices: { ...choices, [field]: sideOf(column) } });
+  };
+
+  const pickDuplicate = (patient: Patient) => {
+    setError(null);
+    setKeptColumn('current');
+    setSearchParams({ with: patient.id });
+  };
+
+  /*
+  Function: Run the merge
+  Purpose: Asks for confirmation (the duplicate is archived), then merges and
+  opens the surviving patient. A conflicting edit reloads both records so the
+  user reviews the latest versions before trying again.
+  */
+  const handleMerge = async () => {
+    if (!survivor || !duplicate || !choices) return;
+
+    const confirmed = window.confirm(
+      `Move all vitals and assessments of ${duplicate.patientNumber || 'the duplicate'} to ` +
+      `${survivor.patientNumber || 'the kept record'} and archive the duplicate? The records cannot be split again.`
+    );
+    if (!confirmed) return;
+
+    setMerging(true);
+    setError(null);
+
+    try {
+      const saved = await mergePatients(survivor, duplicate, buildMergedPatient(survivor, duplicate, choices));
+      log.info('Patients merged');
+      navigate(routes.patientDetails(saved.id), { replace: true });
+    } catch (err) {
+      if (err instanceof PatientMergeAuditError) {
+        setAuditError(err);
+      } else if (err instanceof PatientEditConflictError) {
+        log.warn('Patient merge conflicted with a newer version');
+        setError('One of the records was changed while you were reviewing it. The latest versions are shown below; please check them and merge again.');
+        reloadCurrent();
+        reloadOther();
+      } else {
+        log.error('Merging patients failed', err);
+        setError(
+          `${getApiErrorMessage(err, 'The merge stopped before it finished.')} ` +
+          'Records already moved stay with the kept patient; run the merge again to finish.'
+        );
+      }
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  /*
+  Function: Retry writing the merge to the change history
+  Purpose: The records are already merged; only the audit entry is missing.
+  */
+  const handleRetryAudit = async () => {
+    if (!auditError) return;
+    setMerging(true);
+    try {
+      const saved = await retryMergeAudit(auditError);
+      log.info('Patient merge recorded');
+      navigate(routes.patientDetails(saved.id), { replace: true });
+    } catch (err) {
+      setAuditError(err instanceof PatientMergeAuditError ? err : auditError);
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  if (loading) {
+    return <div style={{ padding: '2rem', textAlign: 'center' }}>Loading patient...</div>;
+  }
+
+  if (!current) {
+    return (
+      <div style={{ padding: '2rem' }}>
+        <div className="alert-box alert-error"><p>{loadError || 'Patient not found'}</p></div>
+      </div>
+    );
+  }
+
+  const differing = survivor && duplicate ? differingFields(survivor, duplicate) : [];
+
+  const renderValueCell = (patient: Patient, column: Column, field: PatientField) => {
+    if (!differing.includes(field) || !choices) {
+      return <td style={cellStyle}>{formatField(patient, field)}</td>;
+    }
+    const selected = choices[field] === sideOf(column);
+    return (
+      <td style={{ ...cellStyle, backgroundColor: selected ? '#eff6ff' : undefined }}>
+        <label style={{ display: 'flex', gap: '0.5rem', cursor: 'pointer' }}>
+          <input
+            type="radio"
+            name={`field-${field}`}
+            checked={selected}
+            onChange={() => chooseValue(field, column)}
+            disabled={merging}
+          />
+          {formatField(patient, field)}
+        </label>
+      </td>
+    );
+  };
+
+  return (
+    <div style={{ padding: '2rem', maxWidth: '1200px', margin: '0 auto' }}>
+      <button
+        onClick={() => navigate(routes.patientDetails(current.id))}
+        style={{
+          padding: '0.5rem 1rem',
+          backgroundColor: 'transparent',
+          color: '#6b7280',
+          border: '1px solid #d1d5db',
+          borderRadius: '6px',
+          cursor: 'pointer',
+          marginBottom: '1rem'
+        }}
+      >
+        ← Back
+      </button>
+      <h1 className="form-title">Merge Duplicate Patients</h1>
+
+      {error && (
+        <div className="alert-box alert-error">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {auditError && (
+        <div className="alert-box alert-error">
+          <p>
+            {auditError.message} The merge is not complete until it is recorded; do not merge these
+            records again.
+          </p>
+          <button
+            onClick={handleRetryAudit}
+            disabled={merging}
+            style={{
+              marginTop: '0.5rem',
+              padding: '0.5rem 1rem',
+              backgroundColor: '#dc2626',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: merging ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {merging ? 'Recording...' : 'Retry recording the merge'}
+          </button>
+        </div>
+      )}
+
+      {!otherId && <DuplicatePicker excludeId={current.id} onPick={pickDuplicate} />}
+
+      {otherId === current.id && (
+        <div className="alert-box alert-error">
+          <p>A patient cannot be merged with itself. Choose a different patient.</p>
+        </div>
+      )}
+
+      {otherId && !other && (otherError
+        ? <div className="alert-box alert-error"><p>{otherError}</p></div>
+        : <p style={{ color: '#6b7280' }}>Loading the second patient...</p>
+      )}
+
+      {otherId && otherId !== current.id && other && survivor && duplicate && choices && (
+        <>
+          <div style={cardStyle}>
+            <p style={{ color: '#6b7280', marginBottom: '1rem' }}>
+              Choose the record to keep and, where the records differ, which value it should keep.
+              {differing.length === 0 && ' The demographics of both records are identical.'}
+            </p>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  <th style={cellStyle}>Keep record</th>
+                  {([['current', current], ['other', other]] as [Column, Patient][]).map(([column, patient]) => (
+                    <th key={column} style={cellStyle}>
+                      <label style={{ display: 'flex', gap: '0.5rem', cursor: 'pointer' }}>
+                        <input
+                          type="radio"
+                          name="kept-record"
+                          checked={keptColumn === column}
+                          onChange={() => setKeptColumn(column)}
+                          disabled={merging}
+                        />
+                        {patient.patientNumber || `${patient.firstName} ${patient.lastName}`}
+                        {keptColumn === column ? ' (kept)' : ' (merged and archived)'}
+                      </label>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {PATIENT_FIELDS.map(field => (
+                  <tr key={field}>
+                    <td style={{ ...cellStyle, fontWeight: 500 }}>{PATIENT_FIELD_LABELS[field]}</td>
+                    {renderValueCell(current, 'current', field)}
+                    {renderValueCell(other, 'other', field)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div style={{ ...cardStyle, display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '2rem' }}>
+            <PatientHistory patient={current} />
+            <PatientHistory patient={other} />
+          </div>
+
+          <div className="button-group">
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => setSearchParams({})}
+              disabled={merging}
+            >
+              Choose a Different Patient
+            </button>
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={handleMerge}
+              disabled={merging || auditError !== null}
+            >
+              {merging ? 'Merging...' : 'Merge Records'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PatientMerge;
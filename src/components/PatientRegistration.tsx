@@ -1,6 +1,29 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { patientApi } from '../services/api';
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { getApiErrorMessage, getApiFieldErrors } from '../services/api';
+import { getConfig } from '../services/config';
+import { ContactField, PREFERRED_LANGUAGES, validateContactDetails } from '../services/contactDetails';
+import { createLogger } from '../services/logger';
+import {
+  PATIENT_FIELD_LABELS,
+  PatientEditConflictError,
+  PatientHistoryAuditError,
+  diffPatient,
+  formatPatientFieldValue,
+  rebaseEdits,
+  toEditablePatient,
+  validatePatient,
+} from '../services/patientEdits';
+import { formatPatientNumber, validatePatientNumber } from '../services/patientNumbers';
+import { queryKeys, registerPatient, retryPatientHistory, savePatientEdits, suggestPatientNumber } from '../services/queries';
+import { GENDER_IDENTITY_LABELS, GENDER_IDENTITY_OPTIONS, SEX_LABELS, SEX_OPTIONS } from '../services/sexGender';
+import { GenderIdentity, NewPatient, Patient, Sex } from '../types';
+import usePatient from '../hooks/usePatient';
+import usePermissions from '../hooks/usePermissions';
+import usePossibleDuplicates from '../hooks/usePossibleDuplicates';
+import useQuery from '../hooks/useQuery';
+import PossibleDuplicates from './PossibleDuplicates';
+import { routes } from '../routes';
 
 /*
 PatientRegistration Component
@@ -8,30 +31,193 @@ PatientRegistration Component
 This is the entry point of the application where new patients are registered.
 It collects basic patient information before proceeding to vitals measurement.
 
+The same form corrects an existing patient at /patients/:patientId/edit. It is
+pre-filled from the patient record, only the changed fields are saved, and if
+someone else saved the patient in the meantime the form shows what they changed
+and lets the user take their version or keep their own edits.
+
 Key Features:
-1. Collects required patient demographic information
-2. Generates or accepts a unique patient identifier
+1. Collects required patient demographic information; administrative sex and
+   self-identified gender are separate fields (services/sexGender)
+2. Suggests the next patient number in the configured format (services/patientNumbers)
+   and checks typed numbers, including their check digit
 3. Validates form data before submission
 4. Creates patient record in the database
-5. Navigates to VitalsForm with patient data
+5. Navigates to VitalsForm with patient data (patient details for roles that cannot record vitals)
+6. Edit mode: saves changes with a concurrency check and a change history record
+7. Warns about existing patients with a similar name and date of birth while the
+   form is filled in, offering to continue with the existing record instead
+8. Optional contact details, national ID, next of kin and preferred language,
+   each checked as it is left (services/contactDetails)
 
 */
 
+interface RegistrationFormData {
+  patient_number: string;
+  first_name: string;
+  last_name: string;
+  middle_name: string;
+  date_of_birth: string;
+  sex: Sex;
+  gender_identity: GenderIdentity | '';
+  registration_date: string;
+  phone: string;
+  email: string;
+  address: string;
+  national_id: string;
+  next_of_kin_name: string;
+  next_of_kin_relationship: string;
+  next_of_kin_phone: string;
+  preferred_language: string;
+}
+
+const EMPTY_CONTACT_DETAILS = {
+  phone: '',
+  email: '',
+  address: '',
+  national_id: '',
+  next_of_kin_name: '',
+  next_of_kin_relationship: '',
+  next_of_kin_phone: '',
+  preferred_language: '',
+};
+
+const CONTACT_FORM_FIELDS: Record<ContactField, keyof RegistrationFormData> = {
+  phone: 'phone',
+  email: 'email',
+  address: 'address',
+  nationalId: 'national_id',
+  nextOfKinName: 'next_of_kin_name',
+  nextOfKinRelationship: 'next_of_kin_relationship',
+  nextOfKinPhone: 'next_of_kin_phone',
+  preferredLanguage: 'preferred_language',
+};
+
+const log = createLogger('PatientRegistration');
+
+const toFormData = (patient: Patient): RegistrationFormData => ({
+  patient_number: patient.patientNumber,
+  first_name: patient.firstName,
+  last_name: patient.lastName,
+  middle_name: patient.middleName || '',
+  date_of_birth: patient.dateOfBirth,
+  sex: patient.sex,
+  gender_identity: patient.genderIdentity || '',
+  registration_date: patient.registrationDate,
+  phone: patient.phone || '',
+  email: patient.email || '',
+  address: patient.address || '',
+  national_id: patient.nationalId || '',
+  next_of_kin_name: patient.nextOfKinName || '',
+  next_of_kin_relationship: patient.nextOfKinRelationship || '',
+  next_of_kin_phone: patient.nextOfKinPhone || '',
+  preferred_language: patient.preferredLanguage || '',
+});
+
+const toNewPatient = (formData: RegistrationFormData): NewPatient => ({
+  patientNumber: formData.patient_number,
+  firstName: formData.first_name,
+  lastName: formData.last_name,
+  middleName: formData.middle_name || undefined,
+  dateOfBirth: formData.date_of_birth,
+  sex: formData.sex,
+  genderIdentity: formData.gender_identity || undefined,
+  registrationDate: formData.registration_date,
+  phone: formData.phone || undefined,
+  email: formData.email || undefined,
+  address: formData.address || undefined,
+  nationalId: formData.national_id || undefined,
+  nextOfKinName: formData.next_of_kin_name || undefined,
+  nextOfKinRelationship: formData.next_of_kin_relationship || undefined,
+  nextOfKinPhone: formData.next_of_kin_phone || undefined,
+  preferredLanguage: formData.preferred_language || undefined,
+});
+
 const PatientRegistration: React.FC = () => {
   const navigate = useNavigate();
+  const { patientId } = useParams<{ patientId: string }>();
+  const isEditing = Boolean(patientId);
+  const { patient, loading: patientLoading, error: patientError } = usePatient(patientId);
   
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<RegistrationFormData>({
     patient_number: '',       
     first_name: '',           
     last_name: '',        
     middle_name: '', 
     date_of_birth: '',     
-    gender: 'M',          
+    sex: 'Male',
+    gender_identity: '',
     registration_date: new Date().toISOString().split('T')[0], 
+    ...EMPTY_CONTACT_DETAILS,
   });
   
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  
+  /*
+  Contact field errors are shown once the user has left the field (or tried
+  to submit), not while the first characters are being typed.
+  */
+  const [touched, setTouched] = useState<Partial<Record<keyof RegistrationFormData, boolean>>>({});
+  const contactErrors = validateContactDetails(toNewPatient(formData), getConfig().nationalIdPattern);
+  const contactError = (field: ContactField) =>
+    touched[CONTACT_FORM_FIELDS[field]] ? contactErrors[field] : undefined;
+  
+  /*
+  Edit mode state:
+  - original: the version of the patient the form was filled from
+  - conflict: the newer version someone else saved while this form was open
+  */
+  const [original, setOriginal] = useState<Patient | null>(null);
+  const [conflict, setConflict] = useState<Patient | null>(null);
+  const [historyError, setHistoryError] = useState<PatientHistoryAuditError | null>(null);
+  
+  const { can } = usePermissions();
+  const { matches: possibleDuplicates } = usePossibleDuplicates(
+    { firstName: formData.first_name, lastName: formData.last_name, dateOfBirth: formData.date_of_birth },
+    !isEditing
+  );
+
+  const numberFormat = getConfig().patientNumberFormat;
+  const { data: suggestedNumber, refetch: refreshSuggestedNumber } = useQuery(
+    isEditing ? null : queryKeys.nextPatientNumber(),
+    suggestPatientNumber
+  );
+  const lastSuggestionRef = useRef('');
+
+  /*
+  Function: Offer the suggested patient number
+  Purpose: Fills the field while it is empty or still holds the previous
+  suggestion; a number the user typed is never replaced.
+  */
+  useEffect(() => {
+    if (!suggestedNumber) return;
+    const previousSuggestion = lastSuggestionRef.current;
+    lastSuggestionRef.current = suggestedNumber;
+    setFormData(prev => (!prev.patient_number || prev.patient_number === previousSuggestion)
+      ? { ...prev, patient_number: suggestedNumber }
+      : prev);
+  }, [suggestedNumber]);
+
+  /*
+  Numbers are only checked against the format when they are new; existing
+  patients may keep numbers issued before the format was introduced.
+  */
+  const patientNumberChanged = !isEditing || formData.patient_number.trim() !== original?.patientNumber;
+  const patientNumberError = formData.patient_number && patientNumberChanged
+    ? validatePatientNumber(numberFormat, formData.patient_number)
+    : null;
+
+  /*
+  Function: Pre-fill the form in edit mode
+  Purpose: Fills the form once, from the first copy of the patient that loads,
+  so a background refresh never overwrites what the user is typing.
+  */
+  useEffect(() => {
+    if (!patient || original) return;
+    setOriginal(patient);
+    setFormData(toFormData(patient));
+  }, [patient, original]);
 
   /*
   Function: Handle form submission
@@ -40,82 +226,151 @@ const PatientRegistration: React.FC = () => {
   1. Validate all required fields are filled
   2. Prepare data for API submission
   3. Submit to patient creation endpoint
-  4. Navigate to VitalsForm with patient data
+  4. Navigate to VitalsForm, or to patient details without vitals:record
   5. Handle errors with user-friendly messages
   */
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
     
-    if (!formData.first_name || !formData.last_name || !formData.date_of_birth || 
-        !formData.gender || !formData.patient_number) {
-      setError('Please fill in all required fields');
+    const newPatient = toNewPatient(formData);
+    const validationError = validatePatient(newPatient) || patientNumberError;
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    
+    if (Object.keys(contactErrors).length > 0) {
+      const allContactFields = Object.fromEntries(Object.values(CONTACT_FORM_FIELDS).map(name => [name, true]));
+      setTouched(prev => ({ ...prev, ...allContactFields }));
+      setError('Please correct the highlighted contact details');
+      return;
+    }
+    
+    if (isEditing) {
+      await saveChanges(newPatient);
       return;
     }
     
     setIsSubmitting(true);
     
     try {
-      const patientData = {
-        patient_number: formData.patient_number,
-        first_name: formData.first_name,
-        last_name: formData.last_name,
-        middle_name: formData.middle_name || undefined,
-        date_of_birth: formData.date_of_birth,
-        gender: formData.gender,
-        registration_date: formData.registration_date,
-      };
-      
-      console.log('Creating patient:', patientData);
-      
-      const response = await patientApi.createPatient(patientData);
-      console.log('Patient created:', response.data);
+      const patient = await registerPatient(newPatient);
+      log.info('Patient registered');
       
       /*
-      Navigate to VitalsForm with patient data
-      The state object passed will be available in the VitalsForm component
-      via React Router's location state
+      Navigate to VitalsForm for the new patient, or to their details for roles
+      that cannot record vitals (front desk)
+      The patient id travels in the URL, VitalsForm loads the record itself
       */
-      navigate('/vitals-form', { 
-        state: { 
-          patient: {
-            id: response.data.id,                   
-            patient_id: response.data.patient_number || response.data.patient_id,
-            first_name: response.data.first_name,   
-            last_name: response.data.last_name,   
-          }
-        } 
-      });
-    } catch (err: any) {
-      console.error('Error:', err);
+      navigate(can('vitals:record') ? routes.newVitals(patient.id) : routes.patientDetails(patient.id));
+    } catch (err) {
+      log.error('Registering patient failed', err);
       
-      if (err.response?.data) {
-        const errorData = err.response.data;
+      if (getApiFieldErrors(err).patient_number && newPatient.patientNumber === suggestedNumber) {
+        setError('That patient number was just taken. The next free number has been filled in.');
+        refreshSuggestedNumber();
+      } else if (getApiFieldErrors(err).patient_number) {
+        setError('Patient number already exists. Please use a different number.');
+      } else {
+        setError(getApiErrorMessage(err, 'Failed to register patient. Please check the form data.'));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /*
+  Function: Save changes to an existing patient
+  Purpose: Saves only when something changed; a PatientEditConflictError opens
+  the conflict panel instead of an error message, a PatientHistoryAuditError the
+  retry for the change history.
+  */
+  const saveChanges = async (edited: NewPatient) => {
+    if (!original) return;
+    
+    if (diffPatient(toEditablePatient(original), edited).length === 0) {
+      setError('No changes to save');
+      return;
+    }
+    
+    setIsSubmitting(true);
+    
+    try {
+      await savePatientEdits(original, edited);
+      log.info('Patient details updated');
+      navigate(routes.patientDetails(original.id));
+    } catch (err) {
+      if (err instanceof PatientHistoryAuditError) {
+        setHistoryError(err);
+      } else if (err instanceof PatientEditConflictError) {
+        log.warn('Patient edit conflicted with a newer version');
+        setConflict(err.current);
+      } else {
+        log.error('Updating patient failed', err);
         
-        if (errorData.patient_number) {
+        if (getApiFieldErrors(err).patient_number) {
           setError('Patient number already exists. Please use a different number.');
-        } 
-        else if (errorData.detail) {
-          setError(errorData.detail);
-        } 
-        else {
-          setError('Failed to register patient. Please check the form data.');
+        } else {
+          setError(getApiErrorMessage(err, 'Failed to update patient. Please check the form data.'));
         }
-      } else {
-        setError('Failed to register patient. Please check your connection.');
       }
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  /*
+  Function: Retry writing the edit to the change history
+  Purpose: The changes are already saved; only the history entry is missing.
+  */
+  const handleRetryHistory = async () => {
+    if (!historyError) return;
+    setIsSubmitting(true);
+    try {
+      const saved = await retryPatientHistory(historyError);
+      log.info('Patient change history recorded');
+      navigate(routes.patientDetails(saved.id));
+    } catch (err) {
+      setHistoryError(err instanceof PatientHistoryAuditError ? err : historyError);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /*
+  Function: Resolve an edit conflict
+  Purpose: Either replace the form with the other user's version, or keep the
+  user's edits and save them on top of that version with the next submit. Only
+  the fields this user changed are kept; the rest take the other user's values.
+  */
+  const resolveConflict = (keepMyChanges: boolean) => {
+    if (!conflict || !original) return;
+    const current = toEditablePatient(conflict);
+    setFormData(keepMyChanges
+      ? toFormData({ ...conflict, ...rebaseEdits(toEditablePatient(original), toNewPatient(formData), current) })
+      : toFormData(conflict));
+    setOriginal(conflict);
+    setConflict(null);
+  };
+
+  /*
+  Function: Continue with an existing patient
+  Purpose: Used when a possible duplicate is the patient at the desk; goes on to
+  their vitals, or to their details for roles that cannot record vitals.
+  */
+  const handleUseExisting = (existing: Patient) => {
+    log.info('Continuing with an existing patient instead of registering');
+    navigate(can('vitals:record') ? routes.newVitals(existing.id) : routes.patientDetails(existing.id));
+  };
+
   /*
   Function: Handle input changes
   Purpose: Update form state and clear any existing error messages
   Parameters: 
     - e: Change event from input/select elements
   */
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
@@ -125,17 +380,100 @@ const PatientRegistration: React.FC = () => {
     if (error) setError(null);
   };
 
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const name = e.target.name as keyof RegistrationFormData;
+    setTouched(prev => prev[name] ? prev : { ...prev, [name]: true });
+  };
+
+  const renderContactError = (field: ContactField) => {
+    const message = contactError(field);
+    return message ? (
+      <small style={{ color: '#dc2626', fontSize: '0.875rem' }}>{message}</small>
+    ) : null;
+  };
+
   /*
   Function: Handle Cancel button click
   Purpose: Navigate back to home page or previous page
   */
   const handleCancel = () => {
-    navigate('/');
+    navigate(patientId ? routes.patientDetails(patientId) : '/');
   };
 
+  if (isEditing && !original) {
+    return (
+      <div>
+        <h1 className="form-title">Edit Patient Details</h1>
+        {patientLoading ? (
+          <p style={{ color: '#6b7280' }}>Loading patient...</p>
+        ) : (
+          <div className="alert-box alert-error">
+            <p>{patientError || 'Failed to load patient.'}</p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const conflictChanges = conflict && original
+    ? diffPatient(toEditablePatient(original), toEditablePatient(conflict))
+    : [];
+
   return (
     <div>
-      <h1 className="form-title">Patient Registration</h1>
+      <h1 className="form-title">{isEditing ? 'Edit Patient Details' : 'Patient Registration'}</h1>
+      
+      {conflict && (
+        <div className="alert-box alert-warning">
+          <p style={{ fontWeight: 600 }}>
+            This patient was changed by someone else while you were editing.
+          </p>
+          {conflictChanges.length > 0 && (
+            <ul style={{ margin: '0.5rem 0', paddingLeft: '1.25rem' }}>
+              {conflictChanges.map(change => (
+                <li key={change.field}>
+                  {PATIENT_FIELD_LABELS[change.field]}:{' '}
+                  {formatPatientFieldValue(change.field, change.from) || '(empty)'} →{' '}
+                  {formatPatientFieldValue(change.field, change.to) || '(empty)'}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+            <button type="button" className="btn btn-secondary" onClick={() => resolveConflict(false)}>
+              Use Their Version
+            </button>
+            <button type="button" className="btn btn-primary" onClick={() => resolveConflict(true)}>
+              Keep My Changes
+            </button>
+          </div>
+        </div>
+      )}
+      
+      {historyError && (
+        <div className="alert-box alert-error">
+          <p>
+            {historyError.message} The edit is not complete until it is recorded; do not save the
+            same changes again.
+          </p>
+          <button
+            type="button"
+            onClick={handleRetryHistory}
+            disabled={isSubmitting}
+            style={{
+              marginTop: '0.5rem',
+              padding: '0.5rem 1rem',
+              backgroundColor: '#dc2626',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: isSubmitting ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {isSubmitting ? 'Recording...' : 'Retry recording the changes'}
+          </button>
+        </div>
+      )}
       
       {error && (
         <div className="alert-box alert-error">
@@ -203,22 +541,47 @@ const PatientRegistration: React.FC = () => {
           </div>
           
           <div className="form-group">
-            <label className="form-label">Gender *</label>
+            <label className="form-label" htmlFor="sex">Sex *</label>
             <select
-              name="gender"
+              id="sex"
+              name="sex"
               required
               className="form-input"
-              value={formData.gender}
+              value={formData.sex}
               onChange={handleChange}
               disabled={isSubmitting}
             >
-              <option value="M">Male</option>
-              <option value="F">Female</option>
-              <option value="O">Other</option>
+              {SEX_OPTIONS.map(sex => <option key={sex} value={sex}>{SEX_LABELS[sex]}</option>)}
             </select>
+            <small style={{ color: '#6b7280', fontSize: '0.875rem' }}>
+              As on official records; used for growth charts
+            </small>
           </div>
         </div>
         
+        <div className="form-group">
+          <label className="form-label" htmlFor="gender_identity">Gender Identity (Optional)</label>
+          <select
+            id="gender_identity"
+            name="gender_identity"
+            className="form-input"
+            value={formData.gender_identity}
+            onChange={handleChange}
+            disabled={isSubmitting}
+          >
+            <option value="">Not asked</option>
+            {GENDER_IDENTITY_OPTIONS.map(identity => (
+              <option key={identity} value={identity}>{GENDER_IDENTITY_LABELS[identity]}</option>
+            ))}
+          </select>
+        </div>
+        
+        <PossibleDuplicates
+          matches={possibleDuplicates}
+          useLabel={can('vitals:record') ? 'Use This Patient' : 'View This Patient'}
+          onUse={handleUseExisting}
+        />
+        
         <div className="form-grid">
           <div className="form-group">
             <label className="form-label">Registration Date *</label>
@@ -243,15 +606,182 @@ const PatientRegistration: React.FC = () => {
               className="form-input"
               value={formData.patient_number}
               onChange={handleChange}
-              placeholder="PAT001"
+              placeholder={formatPatientNumber(numberFormat, 1)}
               disabled={isSubmitting}
             />
-            <small style={{ color: '#6b7280', fontSize: '0.875rem' }}>
-              Unique identifier for the patient
-            </small>
+            {patientNumberError ? (
+              <small style={{ color: '#dc2626', fontSize: '0.875rem' }}>
+                {patientNumberError}
+              </small>
+            ) : (
+              <small style={{ color: '#6b7280', fontSize: '0.875rem' }}>
+                Unique identifier for the patient
+                {!isEditing && suggestedNumber && formData.patient_number !== suggestedNumber && (
+                  <>
+                    {' · '}
+                    <button
+                      type="button"
+                      onClick={() => setFormData(prev => ({ ...prev, patient_number: suggestedNumber }))}
+                      style={{
+                        background: 'none',
+                        border: 'none',
+                        padding: 0,
+                        color: '#3b82f6',
+                        cursor: 'pointer',
+                        fontSize: '0.875rem'
+                      }}
+                    >
+                      Use next number ({suggestedNumber})
+                    </button>
+                  </>
+                )}
+              </small>
+            )}
           </div>
         </div>
         
+        <h2 style={{ fontSize: '1.125rem', fontWeight: 600, margin: '1.5rem 0 1rem' }}>Contact Details</h2>
+        
+        <div className="form-grid">
+          <div className="form-group">
+            <label className="form-label" htmlFor="phone">Phone</label>
+            <input
+              id="phone"
+              type="tel"
+              name="phone"
+              className="form-input"
+              value={formData.phone}
+              onChange={handleChange}
+              onBlur={handleBlur}
+              placeholder="+44 20 7946 0958"
+              aria-invalid={Boolean(contactError('phone'))}
+              disabled={isSubmitting}
+            />
+            {renderContactError('phone')}
+          </div>
+          
+          <div className="form-group">
+            <label className="form-label" htmlFor="email">Email</label>
+            <input
+              id="email"
+              type="email"
+              name="email"
+              className="form-input"
+              value={formData.email}
+              onChange={handleChange}
+              onBlur={handleBlur}
+              placeholder="john.doe@example.com"
+              aria-invalid={Boolean(contactError('email'))}
+              disabled={isSubmitting}
+            />
+            {renderContactError('email')}
+          </div>
+        </div>
+        
+        <div className="form-group">
+          <label className="form-label" htmlFor="address">Address</label>
+          <textarea
+            id="address"
+            name="address"
+            className="form-input"
+            rows={2}
+            value={formData.address}
+            onChange={handleChange}
+            onBlur={handleBlur}
+            placeholder="12 High Street, Springfield"
+            disabled={isSubmitting}
+          />
+        </div>
+        
+        <div className="form-grid">
+          <div className="form-group">
+            <label className="form-label" htmlFor="national_id">National ID</label>
+            <input
+              id="national_id"
+              type="text"
+              name="national_id"
+              className="form-input"
+              value={formData.national_id}
+              onChange={handleChange}
+              onBlur={handleBlur}
+              aria-invalid={Boolean(contactError('nationalId'))}
+              disabled={isSubmitting}
+            />
+            {renderContactError('nationalId')}
+          </div>
+          
+          <div className="form-group">
+            <label className="form-label" htmlFor="preferred_language">Preferred Language</label>
+            <input
+              id="preferred_language"
+              type="text"
+              name="preferred_language"
+              list="preferred-languages"
+              className="form-input"
+              value={formData.preferred_language}
+              onChange={handleChange}
+              onBlur={handleBlur}
+              placeholder="English"
+              disabled={isSubmitting}
+            />
+            <datalist id="preferred-languages">
+              {PREFERRED_LANGUAGES.map(language => <option key={language} value={language} />)}
+            </datalist>
+          </div>
+        </div>
+        
+        <h2 style={{ fontSize: '1.125rem', fontWeight: 600, margin: '1.5rem 0 1rem' }}>Next of Kin</h2>
+        
+        <div className="form-grid">
+          <div className="form-group">
+            <label className="form-label" htmlFor="next_of_kin_name">Name</label>
+            <input
+              id="next_of_kin_name"
+              type="text"
+              name="next_of_kin_name"
+              className="form-input"
+              value={formData.next_of_kin_name}
+              onChange={handleChange}
+              onBlur={handleBlur}
+              placeholder="Jane Doe"
+              aria-invalid={Boolean(contactError('nextOfKinName'))}
+              disabled={isSubmitting}
+            />
+            {renderContactError('nextOfKinName')}
+          </div>
+          
+          <div className="form-group">
+            <label className="form-label" htmlFor="next_of_kin_relationship">Relationship</label>
+            <input
+              id="next_of_kin_relationship"
+              type="text"
+              name="next_of_kin_relationship"
+              className="form-input"
+              value={formData.next_of_kin_relationship}
+              onChange={handleChange}
+              onBlur={handleBlur}
+              placeholder="Spouse"
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+        
+        <div className="form-group">
+          <label className="form-label" htmlFor="next_of_kin_phone">Next of Kin Phone</label>
+          <input
+            id="next_of_kin_phone"
+            type="tel"
+            name="next_of_kin_phone"
+            className="form-input"
+            value={formData.next_of_kin_phone}
+            onChange={handleChange}
+            onBlur={handleBlur}
+            aria-invalid={Boolean(contactError('nextOfKinPhone'))}
+            disabled={isSubmitting}
+          />
+          {renderContactError('nextOfKinPhone')}
+        </div>
+        
         <div className="button-group">
           <button
             type="button"
@@ -265,9 +795,11 @@ const PatientRegistration: React.FC = () => {
           <button
             type="submit"
             className="btn btn-primary"
-            disabled={isSubmitting}
+            disabled={isSubmitting || Boolean(conflict) || Boolean(historyError)}
           >
-            {isSubmitting ? 'Registering...' : 'Register Patient'}
+            {isEditing
+              ? (isSubmitting ? 'Saving...' : 'Save Changes')
+              : (isSubmitting ? 'Registering...' : 'Register Patient')}
           </button>
         </div>
       </form>
@@ -0,0 +1,66 @@
+import React from 'react';
+import { DuplicateMatch, MatchReason } from '../services/duplicateMatching';
+import { Patient } from '../types';
+
+/*
+Lists existing patients that resemble the one being registered, with what
+they have in common, so the user can pick the existing record instead of
+registering the same person twice.
+*/
+
+const REASON_LABELS: Record<MatchReason, string> = {
+  'same-name': 'Same name',
+  'similar-name': 'Similar name',
+  'same-date-of-birth': 'Same date of birth',
+  'similar-date-of-birth': 'Similar date of birth',
+};
+
+interface PossibleDuplicatesProps {
+  matches: DuplicateMatch[];
+  useLabel: string;
+  onUse: (patient: Patient) => void;
+}
+
+const PossibleDuplicates: React.FC<PossibleDuplicatesProps> = ({ matches, useLabel, onUse }) => {
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="alert-box alert-warning">
+      <p style={{ fontWeight: 600, marginBottom: '0.5rem' }}>
+        {matches.length === 1 ? 'This patient may already be registered:' : 'These existing patients look similar:'}
+      </p>
+      {matches.map(({ patient, reasons }) => (
+        <div
+          key={patient.id}
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            gap: '1rem',
+            padding: '0.5rem 0',
+            borderTop: '1px solid #fcd34d'
+          }}
+        >
+          <div>
+            <div style={{ fontWeight: 500 }}>
+              {patient.firstName} {patient.middleName ? `${patient.middleName} ` : ''}{patient.lastName}
+            </div>
+            <div style={{ fontSize: '0.875rem' }}>
+              {patient.patientNumber} · Born {patient.dateOfBirth} · {reasons.map(reason => REASON_LABELS[reason]).join(', ')}
+            </div>
+          </div>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            style={{ padding: '0.5rem 1rem', fontSize: '0.875rem', whiteSpace: 'nowrap' }}
+            onClick={() => onUse(patient)}
+          >
+            {useLabel}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PossibleDuplicates;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import useAuth from '../hooks/useAuth';
+import { routes } from '../routes';
+import { getSessionEndReason } from '../services/auth';
+
+/*
+Layout route that guards every screen except /login.
+
+Signed-out users are sent to /login; the page they asked for travels in the
+router state so Login can return them there after signing in.
+*/
+const RequireAuth: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const location = useLocation();
+
+  if (!isAuthenticated) {
+    return (
+      <Navigate
+        to={routes.login}
+        replace
+        state={{ from: location, expired: getSessionEndReason() === 'expired' }}
+      />
+    );
+  }
+
+  return <Outlet />;
+};
+
+export default RequireAuth;
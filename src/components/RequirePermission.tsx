@@ -0,0 +1,16 @@
+import React from 'react';
+import { Outlet } from 'react-router-dom';
+import { Permission } from '../types';
+import usePermissions from '../hooks/usePermissions';
+import NotPermitted from './NotPermitted';
+
+/*
+Layout route that shows the nested routes only to roles holding `permission`,
+and the "not permitted" screen to everyone else. Used inside RequireAuth.
+*/
+const RequirePermission: React.FC<{ permission: Permission }> = ({ permission }) => {
+  const { can } = usePermissions();
+  return can(permission) ? <Outlet /> : <NotPermitted />;
+};
+
+export default RequirePermission;
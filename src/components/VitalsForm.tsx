@@ -1,116 +1,104 @@
 import React, { useState, useEffect } from 'react';
-import { useLocation, useNavigate } from 'react-router-dom';
-import { vitalsApi, patientApi } from '../services/api';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { vitalsApi, getApiErrorMessage } from '../services/api';
+import { recordVitals } from '../services/queries';
+import { hasPermission } from '../services/permissions';
+import { createLogger } from '../services/logger';
+import { calculateBMI, getTodayDate, validateHeight, validateWeight, visitDay } from '../services/vitals';
+import {
+  cmToHeightInput,
+  EMPTY_HEIGHT_INPUT,
+  EMPTY_WEIGHT_INPUT,
+  formatHeightDual,
+  formatWeightDual,
+  HEIGHT_UNIT_LABELS,
+  HEIGHT_UNITS,
+  heightInputToCm,
+  HeightInput,
+  HeightUnit,
+  kgToWeightInput,
+  WEIGHT_UNIT_LABELS,
+  WEIGHT_UNITS,
+  weightInputToKg,
+  WeightInput,
+  WeightUnit,
+} from '../services/units';
+import {
+  EMPTY_VITAL_SIGN_INPUTS,
+  readVitalSignInputs,
+  validateVitalSigns,
+  VITAL_SIGN_FIELDS,
+  VITAL_SIGNS,
+  VitalSignErrors,
+  vitalSignFlag,
+  VitalSignInputs,
+} from '../services/vitalSigns';
+import { waistToHeightRatio, waistToHipRatio } from '../services/bodyComposition';
+import { formatBmiForAge } from '../services/bmiForAge';
+import { classifyBmi } from '../services/bmiStatus';
+import { ASSESSMENT_LABELS, routeVisit } from '../services/assessmentRules';
+import { getConfig } from '../services/config';
+import { describeBmiCategory } from '../services/bmiClassification';
+import { Vitals } from '../types';
+import usePatient from '../hooks/usePatient';
+import useUnitPreference from '../hooks/useUnitPreference';
+import BodyRatioBadge from './BodyRatioBadge';
+import BmiStatusBadge, { bmiStatusColors } from './BmiStatusBadge';
+import { routes } from '../routes';
 
 /*
 The Vitals form is for recording patient vitals (height, weight, BMI) with automatic routing to the appropriate 
 assessment form based on BMI calculation.
 
 Patient Verification: 
-   - Searches for correct patient UUID using patient_id (PAT001)
+   - Loads the patient from the :patientId route parameter
    - Validates patient exists in system before allowing vitals entry
 
 Vitals Recording:
-   - Captures height, weight, and calculates BMI automatically
+   - Captures height, weight, and calculates BMI automatically (services/vitals,
+     the same rules as the vitals import)
    - Prevents duplicate entries for same date
    - Validates data ranges and future dates
+   - Height in cm or feet and inches, weight in kg, pounds or stones and pounds
+     (services/units); always saved in cm and kg. The units chosen become the
+     user's default (services/preferences)
+   - Optional blood pressure, pulse, temperature, respiratory rate, SpO2, waist and
+     hip circumference and body fat (services/vitalSigns): implausible values are
+     refused, values outside the reference range are flagged but saved
+   - Waist-to-height and waist-to-hip ratios are shown with the BMI as soon as the
+     measurements are typed (services/bodyComposition)
 
 Smart Routing:
-   - Routes to General Assessment form if BMI ≤ 25
-   - Routes to Overweight Assessment form if BMI > 25
-   - Includes calculated BMI data in navigation state
+   - The clinic's assessment rules (services/assessmentRules) pick the
+     assessment(s) from the BMI status, age, sex and vital signs of the visit; by
+     default General Assessment if BMI ≤ 25 and Overweight Assessment above, and
+     for patients under 20 from the 85th BMI-for-age percentile
+   - The form shows which rule applies before saving, and routes to the first
+     triggered assessment; visits that trigger none return to patient details
+   - Users who cannot complete assessments (nurses) return to patient details
+   - The assessment forms read the BMI back from the saved vitals
 
 Data Display:
    - Shows patient information and previous vitals records
-   - Color-coded BMI status indicators
+   - Color-coded BMI status indicators (components/BmiStatusBadge) under the
+     clinic's BMI classification scheme (services/bmiClassification)
    - Form validation with user feedback
 
 KEY FLOW:
-1. Receive patient data from navigation state
-2. Search for patient's real UUID in database
-3. Fetch existing vitals to prevent duplicates
-4. Calculate BMI from height/weight inputs
-5. Save vitals to API
-6. Navigate to appropriate assessment form based on BMI
+1. Load the patient named in the URL
+2. Fetch existing vitals to prevent duplicates
+3. Calculate BMI from height/weight inputs
+4. Save vitals to API
+5. Navigate to appropriate assessment form based on BMI
 
 */
 
-interface PatientData {
-  id: string;
-  patient_id: string;
-  first_name: string;
-  last_name: string;
-}
-
-interface VitalsRecord {
-  id: string;
-  patient_id: string;
-  visit_date: string;
-  height_cm: number;
-  weight_kg: number;
-  bmi: number | string;
-  created_at: string;
-}
-
 const isValidUUID = (str: string): boolean => {
   if (!str) return false;
   const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
   return uuidRegex.test(str);
 };
 
-const extractArrayFromResponse = (data: any): any[] => {
-  console.log('Extracting array from:', data);
-  
-  if (Array.isArray(data)) {
-    console.log('Response is already an array');
-    return data;
-  }
-  
-  if (data?.results && Array.isArray(data.results)) {
-    console.log('Found array in results field');
-    return data.results;
-  }
-  
-  if (data?.data && Array.isArray(data.data)) {
-    console.log('Found array in data field');
-    return data.data;
-  }
-  
-  if (typeof data === 'object' && data !== null) {
-    const values = Object.values(data);
-    
-    for (const value of values) {
-      if (Array.isArray(value)) {
-        console.log('Found array in object values');
-        return value;
-      }
-    }
-    
-    for (const value of values) {
-      if (typeof value === 'object' && value !== null) {
-        const nestedValues = Object.values(value);
-        for (const nestedValue of nestedValues) {
-          if (Array.isArray(nestedValue)) {
-            console.log('Found array in nested object');
-            return nestedValue;
-          }
-        }
-      }
-    }
-  }
-  
-  console.log('No array found in response, returning empty array');
-  return [];
-};
-
-const getTodayDate = (): string => {
-  const today = new Date();
-  const year = today.getFullYear();
-  const month = String(today.getMonth() + 1).padStart(2, '0');
-  const day = String(today.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-};
-
 const isFutureDate = (dateString: string): boolean => {
   const inputDate = new Date(dateString);
   const today = new Date();
@@ -121,271 +109,98 @@ const isFutureDate = (dateString: string): boolean => {
   return inputDate > today;
 };
 
+const log = createLogger('VitalsForm');
+
+const measurementInputStyle = (hasError: boolean): React.CSSProperties => ({
+  width: '100%',
+  padding: '0.75rem',
+  border: `1px solid ${hasError ? '#ef4444' : '#d1d5db'}`,
+  borderRadius: '6px',
+  fontSize: '0.875rem'
+});
+
+const unitButtonStyle = (selected: boolean): React.CSSProperties => ({
+  padding: '0.125rem 0.5rem',
+  backgroundColor: selected ? '#3b82f6' : 'white',
+  color: selected ? 'white' : '#374151',
+  border: '1px solid #d1d5db',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '0.75rem'
+});
+
 const VitalsForm: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
-  const { patient: locationPatient, redirectBack } = location.state || {};
+  const { patientId } = useParams<{ patientId: string }>();
+  const { redirectBack } = (location.state || {}) as { redirectBack?: boolean };
+  const { patient, loading: patientLoading, error: patientError } = usePatient(patientId);
+  const patientUUID = patient?.id || '';
+  const { units, setUnits } = useUnitPreference();
   
   const [loading, setLoading] = useState(false);
-  const [patient, setPatient] = useState<PatientData | null>(locationPatient);
-  const [patientUUID, setPatientUUID] = useState<string>('');
-  const [existingVitals, setExistingVitals] = useState<VitalsRecord[]>([]);
+  const [existingVitals, setExistingVitals] = useState<Vitals[]>([]);
   const [existingDates, setExistingDates] = useState<string[]>([]);
   
   const [formData, setFormData] = useState({
     visit_date: getTodayDate(),
-    height_cm: '',
-    weight_kg: '',
-    bmi: 0,
   });
+  const [heightInput, setHeightInput] = useState<HeightInput>(EMPTY_HEIGHT_INPUT);
+  const [weightInput, setWeightInput] = useState<WeightInput>(EMPTY_WEIGHT_INPUT);
+  const [signInputs, setSignInputs] = useState<VitalSignInputs>(EMPTY_VITAL_SIGN_INPUTS);
+  const [signErrors, setSignErrors] = useState<VitalSignErrors>({});
   
   const [errors, setErrors] = useState({
     patient: '',
-    height_cm: '',
-    weight_kg: '',
+    height: '',
+    weight: '',
     visit_date: '',
   });
 
-  useEffect(() => {
-    console.log('=== LOCATION PATIENT DATA ===');
-    console.log('Location patient:', locationPatient);
-    console.log('Location patient id:', locationPatient?.id);
-    console.log('Location patient patient_id:', locationPatient?.patient_id);
-    console.log('Is location patient.id a UUID?', isValidUUID(locationPatient?.id || ''));
-    console.log('Today\'s date:', getTodayDate());
-  }, [locationPatient]);
+  const heightCm = heightInputToCm(units.height, heightInput);
+  const weightKg = weightInputToKg(units.weight, weightInput);
+  const bmi = heightCm > 0 && weightKg > 0 ? calculateBMI(heightCm, weightKg) : 0;
+  const signs = readVitalSignInputs(signInputs);
+  const waistToHeight = waistToHeightRatio(heightCm, signs.waist);
+  const waistToHip = waistToHipRatio(signs.waist, signs.hip, patient?.sex);
+  const { bmiScheme, assessmentRules } = getConfig();
+  const routing = bmi > 0
+    ? routeVisit(assessmentRules, bmiScheme, { bmi, visitDate: formData.visit_date, ...signs }, patient)
+    : null;
+  const bmiStatus = routing?.status;
 
   useEffect(() => {
-    const fetchRealPatientData = async () => {
-      if (!locationPatient) {
-        console.error('No patient data provided');
-        navigate('/patient-listing');
-        return;
-      }
-      
-      try {
-        setLoading(true);
-        console.log('=== FIXED SOLUTION: Getting real patient data ===');
-        
-        console.log(`1. Looking for patient with patient_id: ${locationPatient.patient_id}`);
-        
-        try {
-          console.log('Trying to fetch patients with patient_id query parameter...');
-          const response = await patientApi.getPatientByPatientId(locationPatient.patient_id);
-          console.log('API response for patient search:', response.data);
-          
-          const patientsArray = extractArrayFromResponse(response.data);
-          console.log(`Found ${patientsArray.length} patients with patient_id: ${locationPatient.patient_id}`);
-          
-          if (patientsArray.length > 0) {
-            const foundPatient = patientsArray[0];
-            console.log('✅ Found patient via patient_id query:', foundPatient);
-            console.log('Patient id (UUID):', foundPatient.id);
-            console.log('Patient patient_id:', foundPatient.patient_id);
-            
-            setPatient(foundPatient);
-            if (isValidUUID(foundPatient.id)) {
-              setPatientUUID(foundPatient.id);
-              console.log('✅ Using UUID:', foundPatient.id);
-            } else {
-              console.warn('⚠️ Patient ID is not a UUID:', foundPatient.id);
-              if (isValidUUID(foundPatient.patient_id)) {
-                setPatientUUID(foundPatient.patient_id);
-                console.log('✅ Using patient_id as UUID:', foundPatient.patient_id);
-              }
-            }
-            return;
-          }
-        } catch (directError) {
-          console.log('Direct patient_id query failed:', directError);
-        }
-        
-        console.log('2. Getting all patients from API for search...');
-        const allPatientsResponse = await patientApi.getPatients();
-        console.log('All patients response structure:', {
-          count: allPatientsResponse.data?.count,
-          hasResults: !!allPatientsResponse.data?.results,
-          hasData: !!allPatientsResponse.data?.data,
-          isArray: Array.isArray(allPatientsResponse.data)
-        });
-        
-        const allPatientsArray = extractArrayFromResponse(allPatientsResponse.data);
-        console.log('Extracted patients array length:', allPatientsArray.length);
-        
-        if (allPatientsArray.length === 0) {
-          console.error('No patients found in API response');
-          setErrors(prev => ({ ...prev, patient: 'No patients found in system' }));
-          return;
-        }
-        
-        console.log('First 3 patients structure:');
-        for (let i = 0; i < Math.min(3, allPatientsArray.length); i++) {
-          const p = allPatientsArray[i];
-          console.log(`Patient ${i + 1}:`, {
-            id: p.id,
-            patient_id: p.patient_id,
-            display_id: p.display_id,
-            medical_record_number: p.medical_record_number,
-            first_name: p.first_name,
-            last_name: p.last_name,
-            isIdUUID: isValidUUID(p.id),
-            isPatientIdUUID: isValidUUID(p.patient_id)
-          });
-        }
-        
-        const patientIdToFind = locationPatient.patient_id;
-        console.log(`\n3. Searching for patient with patient_id: "${patientIdToFind}"`);
-        
-        const foundPatient = allPatientsArray.find(p => {
-          if (p.patient_id === patientIdToFind) {
-            console.log(`Found match by patient_id: ${p.patient_id}`);
-            return true;
-          }
-          
-          if (p.display_id === patientIdToFind) {
-            console.log(`Found match by display_id: ${p.display_id}`);
-            return true;
-          }
-          
-          if (p.medical_record_number === patientIdToFind) {
-            console.log(`Found match by medical_record_number: ${p.medical_record_number}`);
-            return true;
-          }
-          
-          if (p.id === locationPatient.id) {
-            console.log(`Found match by id: ${p.id}`);
-            return true;
-          }
-          
-          return false;
-        });
-        
-        if (foundPatient) {
-          console.log('✅ Found patient:', {
-            id: foundPatient.id,
-            patient_id: foundPatient.patient_id,
-            name: `${foundPatient.first_name} ${foundPatient.last_name}`
-          });
-          console.log('Is found patient.id a UUID?', isValidUUID(foundPatient.id));
-          
-          setPatient(foundPatient);
-          
-          if (isValidUUID(foundPatient.id)) {
-            setPatientUUID(foundPatient.id);
-            console.log('✅ Using UUID from found patient:', foundPatient.id);
-          } else {
-            console.error('❌ Found patient but id is not a UUID:', foundPatient.id);
-            console.log('Trying to use patient_id as UUID if it is one...');
-            
-            if (isValidUUID(foundPatient.patient_id)) {
-              setPatientUUID(foundPatient.patient_id);
-              console.log('✅ Using patient_id as UUID:', foundPatient.patient_id);
-            } else {
-              setErrors(prev => ({ ...prev, patient: 'Patient found but ID is not a valid UUID' }));
-            }
-          }
-        } else {
-          console.log(`❌ Patient with patient_id "${patientIdToFind}" not found in patients list`);
-          console.log('Available patient_ids:', allPatientsArray.map(p => p.patient_id).slice(0, 10));
-          
-          console.log('Trying to find by name...');
-          const foundByName = allPatientsArray.find(p => 
-            p.first_name === locationPatient.first_name && 
-            p.last_name === locationPatient.last_name
-          );
-          
-          if (foundByName) {
-            console.log('✅ Found patient by name:', foundByName);
-            setPatient(foundByName);
-            if (isValidUUID(foundByName.id)) {
-              setPatientUUID(foundByName.id);
-            }
-          } else {
-            console.error('❌ Could not find patient by name either');
-            
-            console.log('Trying partial name match...');
-            const partialMatch = allPatientsArray.find(p => 
-              p.first_name?.includes(locationPatient.first_name) || 
-              p.last_name?.includes(locationPatient.last_name)
-            );
-            
-            if (partialMatch) {
-              console.log('✅ Found patient by partial name match:', partialMatch);
-              setPatient(partialMatch);
-              if (isValidUUID(partialMatch.id)) {
-                setPatientUUID(partialMatch.id);
-              }
-            } else {
-              setErrors(prev => ({ 
-                ...prev, 
-                patient: `Patient "${locationPatient.first_name} ${locationPatient.last_name}" (ID: ${patientIdToFind}) not found` 
-              }));
-            }
-          }
-        }
-        
-      } catch (error) {
-        console.error('Error fetching patient data:', error);
-        setErrors(prev => ({ ...prev, patient: 'Failed to load patient data' }));
-        
-        console.log('Using location patient as fallback (will likely fail to save)');
-        setPatient(locationPatient);
-      } finally {
-        setLoading(false);
-      }
-    };
-    
-    fetchRealPatientData();
-  }, [locationPatient, navigate]);
+    if (patientError) {
+      setErrors(prev => ({ ...prev, patient: patientError }));
+    }
+  }, [patientError]);
 
   useEffect(() => {
     const fetchVitals = async () => {
       if (!patientUUID || !isValidUUID(patientUUID)) {
-        console.log('Cannot fetch vitals: no valid UUID');
+        log.debug('Skipping vitals lookup: patient id is not a UUID');
         return;
       }
       
       try {
-        console.log('Fetching existing vitals for UUID:', patientUUID);
-        
-        let response;
+        let vitals: Vitals[];
         try {
-          response = await vitalsApi.getVitals(patientUUID);
+          vitals = await vitalsApi.getVitals(patientUUID);
         } catch (error) {
-          console.log('First attempt failed, trying patient_id param...');
-          response = await vitalsApi.getVitalsByPatientId(patientUUID);
+          log.debug('Vitals lookup by patient failed, retrying with patient_id', error);
+          vitals = await vitalsApi.getVitalsByPatientId(patientUUID);
         }
         
-        console.log('Vitals response:', response.data);
-        const vitalsArray = extractArrayFromResponse(response.data);
-        console.log('Extracted vitals array:', vitalsArray);
+        log.debug('Loaded existing vitals', { count: vitals.length });
         
-        const parsedVitals = vitalsArray.map((v: any): VitalsRecord => ({
-          id: v.id || '',
-          patient_id: v.patient_id || v.patient || '',
-          visit_date: v.visit_date || v.created_at || '',
-          height_cm: parseFloat(v.height_cm) || 0,
-          weight_kg: parseFloat(v.weight_kg) || 0,
-          bmi: typeof v.bmi === 'number' ? v.bmi : parseFloat(v.bmi) || 0,
-          created_at: v.created_at || ''
-        }));
+        setExistingVitals(vitals);
         
-        setExistingVitals(parsedVitals);
-        
-        const dates = parsedVitals.map((v: VitalsRecord) => {
-          if (v.visit_date) {
-            return new Date(v.visit_date).toISOString().split('T')[0];
-          }
-          if (v.created_at) {
-            return new Date(v.created_at).toISOString().split('T')[0];
-          }
-          return '';
-        }).filter(Boolean);
+        const dates = vitals.map(v => visitDay(v.visitDate));
         
         setExistingDates(dates);
         
       } catch (error) {
-        console.error('Error fetching existing vitals:', error);
+        log.error('Loading existing vitals failed', error);
       }
     };
     
@@ -397,8 +212,8 @@ const VitalsForm: React.FC = () => {
   const validateForm = () => {
     const newErrors = {
       patient: '',
-      height_cm: '',
-      weight_kg: '',
+      height: '',
+      weight: '',
       visit_date: '',
     };
     
@@ -407,35 +222,24 @@ const VitalsForm: React.FC = () => {
     if (!patientUUID || !isValidUUID(patientUUID)) {
       newErrors.patient = 'Valid patient UUID is required';
       isValid = false;
-      console.error('Invalid patient UUID:', patientUUID);
+      log.warn('Vitals form has no valid patient id');
     }
     
-    const height = parseFloat(formData.height_cm);
-    if (!formData.height_cm || isNaN(height)) {
-      newErrors.height_cm = 'Please enter a valid height';
-      isValid = false;
-    } else if (height < 50 || height > 250) {
-      newErrors.height_cm = 'Height must be between 50cm and 250cm';
+    const heightError = validateHeight(heightCm);
+    if (heightError) {
+      newErrors.height = heightError;
       isValid = false;
     }
     
-    const weight = parseFloat(formData.weight_kg);
-    if (!formData.weight_kg || isNaN(weight)) {
-      newErrors.weight_kg = 'Please enter a valid weight';
-      isValid = false;
-    } else if (weight < 2 || weight > 300) {
-      newErrors.weight_kg = 'Weight must be between 2kg and 300kg';
+    const weightError = validateWeight(weightKg);
+    if (weightError) {
+      newErrors.weight = weightError;
       isValid = false;
     }
     
     if (isFutureDate(formData.visit_date)) {
       newErrors.visit_date = 'Visit date cannot be in the future';
       isValid = false;
-      console.log('Date validation failed:', {
-        inputDate: formData.visit_date,
-        today: getTodayDate(),
-        isFuture: isFutureDate(formData.visit_date)
-      });
     }
     
     if (existingDates.includes(formData.visit_date)) {
@@ -443,41 +247,59 @@ const VitalsForm: React.FC = () => {
       isValid = false;
     }
     
+    const newSignErrors = validateVitalSigns(signs);
+    if (Object.keys(newSignErrors).length > 0) {
+      isValid = false;
+    }
+    
     setErrors(newErrors);
+    setSignErrors(newSignErrors);
     return isValid;
   };
 
-  const calculateBMI = (height: number, weight: number): number => {
-    const heightInMeters = height / 100;
-    const bmi = weight / (heightInMeters * heightInMeters);
-    return parseFloat(bmi.toFixed(1));
-  };
-
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     
-    setFormData(prev => {
-      const updatedData = { ...prev, [name]: value };
-      
-      if (name === 'height_cm' || name === 'weight_kg') {
-        const height = parseFloat(name === 'height_cm' ? value : prev.height_cm);
-        const weight = parseFloat(name === 'weight_kg' ? value : prev.weight_kg);
-        
-        if (!isNaN(height) && !isNaN(weight) && height > 0 && weight > 0) {
-          updatedData.bmi = calculateBMI(height, weight);
-        } else {
-          updatedData.bmi = 0;
-        }
-      }
-      
-      return updatedData;
-    });
+    setFormData(prev => ({ ...prev, [name]: value }));
     
     if (errors[name as keyof typeof errors]) {
       setErrors(prev => ({ ...prev, [name]: '' }));
     }
   };
 
+  const handleHeightChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setHeightInput(prev => ({ ...prev, [name]: value }));
+    if (errors.height) setErrors(prev => ({ ...prev, height: '' }));
+  };
+
+  const handleWeightChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setWeightInput(prev => ({ ...prev, [name]: value }));
+    if (errors.weight) setErrors(prev => ({ ...prev, weight: '' }));
+  };
+
+  const handleSignChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setSignInputs(prev => ({ ...prev, [name]: value }));
+    setSignErrors(prev => ({ ...prev, [name]: undefined }));
+  };
+
+  /*
+  Function: Switch the unit of height or weight
+  Purpose: Converts what has been typed so far into the new unit and keeps the
+  choice as the user's default for the next time.
+  */
+  const handleHeightUnitChange = (unit: HeightUnit) => {
+    setHeightInput(cmToHeightInput(heightCm));
+    setUnits({ ...units, height: unit });
+  };
+
+  const handleWeightUnitChange = (unit: WeightUnit) => {
+    setWeightInput(kgToWeightInput(weightKg));
+    setUnits({ ...units, weight: unit });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -491,87 +313,34 @@ const VitalsForm: React.FC = () => {
     try {
       setLoading(true);
       
-      console.log('=== SUBMITTING VITALS ===');
-      console.log('Patient UUID to send:', patientUUID);
-      console.log('Is valid UUID?', isValidUUID(patientUUID));
-      console.log('Patient:', patient);
-      
-      const submissionData = {
-        patient_id: patientUUID,
-        visit_date: formData.visit_date,
-        height_cm: parseFloat(formData.height_cm),
-        weight_kg: parseFloat(formData.weight_kg),
-        bmi: formData.bmi,
+      const newVitals = {
+        patientId: patientUUID,
+        visitDate: formData.visit_date,
+        height: heightCm,
+        weight: weightKg,
+        bmi,
+        ...signs,
       };
       
-      console.log('Submission data:', submissionData);
-      
-      const response = await vitalsApi.createVitals(submissionData);
-      console.log('✅ Vitals saved successfully:', response.data);
+      await recordVitals(newVitals);
+      log.info('Vitals saved', { bmi: newVitals.bmi });
       
       alert('Vitals saved successfully!');
       
-      const calculatedBMI = calculateBMI(
-        parseFloat(formData.height_cm),
-        parseFloat(formData.weight_kg)
-      );
-      
-      const bmiStatus = calculatedBMI <= 25 ? 'Normal/Underweight' : 'Overweight';
+      const { status, rule, assessments } = routeVisit(assessmentRules, bmiScheme, newVitals, patient);
       
-      console.log(`BMI: ${calculatedBMI}, Status: ${bmiStatus}`);
+      log.debug('Choosing assessment', { bmi: newVitals.bmi, bmiStatus: status.label, rule: rule?.name, assessments });
       
-      if (calculatedBMI <= 25) {
-        console.log('Navigating to General Assessment Form (BMI ≤ 25)');
-        navigate('/general-assessment', { 
-          state: { 
-            patient: {
-              id: patient?.id,
-              patient_id: patient?.patient_id,
-              first_name: patient?.first_name,
-              last_name: patient?.last_name
-            },
-            bmi: calculatedBMI,
-            bmiStatus: bmiStatus
-          } 
-        });
+      if (!hasPermission('assessments:create') || assessments.length === 0) {
+        navigate(routes.patientDetails(patientUUID));
       } else {
-        console.log('Navigating to Overweight Assessment Form (BMI > 25)');
-        navigate('/overweight-assessment', { 
-          state: { 
-            patient: {
-              id: patient?.id,
-              patient_id: patient?.patient_id,
-              first_name: patient?.first_name,
-              last_name: patient?.last_name
-            },
-            bmi: calculatedBMI,
-            bmiStatus: bmiStatus
-          } 
-        });
+        navigate(routes.newAssessment(patientUUID, assessments[0]));
       }
       
-    } catch (error: any) {
-      console.error('❌ Error saving vitals:', error);
-      console.error('Error response data:', error.response?.data);
-      console.error('Error response status:', error.response?.status);
+    } catch (error) {
+      log.error('Saving vitals failed', error);
       
-      let errorMessage = 'Failed to save vitals. ';
-      
-      if (error.response?.data) {
-        const errorData = error.response.data;
-        
-        if (typeof errorData === 'object') {
-          Object.keys(errorData).forEach(key => {
-            if (Array.isArray(errorData[key])) {
-              errorMessage += `${key}: ${errorData[key].join(', ')}. `;
-            } else if (typeof errorData[key] === 'string') {
-              errorMessage += `${key}: ${errorData[key]}. `;
-            }
-          });
-        } else if (typeof errorData === 'string') {
-          errorMessage += errorData;
-        }
-      }
+      let errorMessage = getApiErrorMessage(error, 'Failed to save vitals.');
       
       if (errorMessage.includes('Must be a valid UUID')) {
         errorMessage += '\n\nERROR: The patient ID is not a valid UUID.';
@@ -587,52 +356,17 @@ const VitalsForm: React.FC = () => {
 
   const handleCancel = () => {
     if (redirectBack && patient) {
-      navigate(`/patient-details`, { state: { patient } });
+      navigate(routes.patientDetails(patient.id));
     } else {
-      navigate('/patient-listing');
+      navigate(routes.patientListing);
     }
   };
 
-  const formatBMI = (bmi: number | string): string => {
-    if (typeof bmi === 'number') {
-      return bmi.toFixed(1);
-    }
-    
-    if (typeof bmi === 'string') {
-      const num = parseFloat(bmi);
-      if (!isNaN(num)) {
-        return num.toFixed(1);
-      }
-    }
-    
-    return 'N/A';
+  const formatBMI = (bmi: number): string => {
+    return isNaN(bmi) ? 'N/A' : bmi.toFixed(1);
   };
 
-  const getBmiStatus = (bmi: number | string): string => {
-    const num = typeof bmi === 'number' ? bmi : parseFloat(bmi);
-    
-    if (isNaN(num)) return 'Unknown';
-    if (num < 18.5) return 'Underweight';
-    if (num < 25) return 'Normal';
-    return 'Overweight';
-  };
-
-  const getBmiStatusColor = (bmi: number | string): { bg: string; text: string } => {
-    const status = getBmiStatus(bmi);
-    
-    switch (status) {
-      case 'Underweight':
-        return { bg: '#fef3c7', text: '#92400e' };
-      case 'Normal':
-        return { bg: '#d1fae5', text: '#065f46' };
-      case 'Overweight':
-        return { bg: '#fee2e2', text: '#991b1b' };
-      default:
-        return { bg: '#f3f4f6', text: '#6b7280' };
-    }
-  };
-
-  if (loading && !patient) {
+  if (patientLoading) {
     return (
       <div style={{ textAlign: 'center', padding: '4rem' }}>
         <div style={{
@@ -647,7 +381,7 @@ const VitalsForm: React.FC = () => {
         }}></div>
         <p>Loading patient data...</p>
         <button
-          onClick={() => navigate('/patient-listing')}
+          onClick={() => navigate(routes.patientListing)}
           style={{
             padding: '0.5rem 1rem',
             backgroundColor: '#3b82f6',
@@ -710,11 +444,11 @@ const VitalsForm: React.FC = () => {
                   fontWeight: 600,
                   fontSize: '1rem'
                 }}>
-                  {patient.first_name?.charAt(0)}{patient.last_name?.charAt(0)}
+                  {patient.firstName.charAt(0)}{patient.lastName.charAt(0)}
                 </div>
                 <div>
                   <p style={{ fontWeight: 600, fontSize: '1rem', color: '#1f2937', margin: 0 }}>
-                    {patient.first_name} {patient.last_name}
+                    {patient.firstName} {patient.lastName}
                   </p>
                   {/* REMOVED Patient ID display */}
                 </div>
@@ -831,63 +565,200 @@ const VitalsForm: React.FC = () => {
 
           <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1.5rem' }}>
             <div>
-              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500 }}>
-                Height (cm) *
-              </label>
-              <input
-                type="number"
-                name="height_cm"
-                value={formData.height_cm}
-                onChange={handleInputChange}
-                step="0.1"
-                min="50"
-                max="250"
-                placeholder="Enter height in cm"
-                style={{
-                  width: '100%',
-                  padding: '0.75rem',
-                  border: `1px solid ${errors.height_cm ? '#ef4444' : '#d1d5db'}`,
-                  borderRadius: '6px',
-                  fontSize: '0.875rem'
-                }}
-              />
-              {errors.height_cm && (
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+                <label style={{ fontWeight: 500 }}>
+                  Height *
+                </label>
+                <div style={{ display: 'flex', gap: '0.25rem' }} role="group" aria-label="Height unit">
+                  {HEIGHT_UNITS.map(unit => (
+                    <button
+                      key={unit}
+                      type="button"
+                      onClick={() => handleHeightUnitChange(unit)}
+                      aria-pressed={units.height === unit}
+                      style={unitButtonStyle(units.height === unit)}
+                    >
+                      {HEIGHT_UNIT_LABELS[unit]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {units.height === 'cm' ? (
+                <input
+                  type="number"
+                  name="cm"
+                  value={heightInput.cm}
+                  onChange={handleHeightChange}
+                  step="0.1"
+                  min="50"
+                  max="250"
+                  placeholder="Enter height in cm"
+                  style={measurementInputStyle(Boolean(errors.height))}
+                />
+              ) : (
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                  <input
+                    type="number"
+                    name="feet"
+                    value={heightInput.feet}
+                    onChange={handleHeightChange}
+                    step="1"
+                    min="0"
+                    placeholder="ft"
+                    aria-label="Height, feet"
+                    style={measurementInputStyle(Boolean(errors.height))}
+                  />
+                  <input
+                    type="number"
+                    name="inches"
+                    value={heightInput.inches}
+                    onChange={handleHeightChange}
+                    step="0.1"
+                    min="0"
+                    placeholder="in"
+                    aria-label="Height, inches"
+                    style={measurementInputStyle(Boolean(errors.height))}
+                  />
+                </div>
+              )}
+              {units.height !== 'cm' && heightCm > 0 && (
+                <p style={{ fontSize: '0.75rem', color: '#6b7280', marginTop: '0.25rem' }}>
+                  Saved as {heightCm} cm
+                </p>
+              )}
+              {errors.height && (
                 <p style={{ color: '#ef4444', fontSize: '0.875rem', marginTop: '0.25rem' }}>
-                  {errors.height_cm}
+                  {errors.height}
                 </p>
               )}
             </div>
 
             <div>
-              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500 }}>
-                Weight (kg) *
-              </label>
-              <input
-                type="number"
-                name="weight_kg"
-                value={formData.weight_kg}
-                onChange={handleInputChange}
-                step="0.1"
-                min="2"
-                max="300"
-                placeholder="Enter weight in kg"
-                style={{
-                  width: '100%',
-                  padding: '0.75rem',
-                  border: `1px solid ${errors.weight_kg ? '#ef4444' : '#d1d5db'}`,
-                  borderRadius: '6px',
-                  fontSize: '0.875rem'
-                }}
-              />
-              {errors.weight_kg && (
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+                <label style={{ fontWeight: 500 }}>
+                  Weight *
+                </label>
+                <div style={{ display: 'flex', gap: '0.25rem' }} role="group" aria-label="Weight unit">
+                  {WEIGHT_UNITS.map(unit => (
+                    <button
+                      key={unit}
+                      type="button"
+                      onClick={() => handleWeightUnitChange(unit)}
+                      aria-pressed={units.weight === unit}
+                      style={unitButtonStyle(units.weight === unit)}
+                    >
+                      {WEIGHT_UNIT_LABELS[unit]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {units.weight === 'st' ? (
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                  <input
+                    type="number"
+                    name="stones"
+                    value={weightInput.stones}
+                    onChange={handleWeightChange}
+                    step="1"
+                    min="0"
+                    placeholder="st"
+                    aria-label="Weight, stones"
+                    style={measurementInputStyle(Boolean(errors.weight))}
+                  />
+                  <input
+                    type="number"
+                    name="stonePounds"
+                    value={weightInput.stonePounds}
+                    onChange={handleWeightChange}
+                    step="0.1"
+                    min="0"
+                    placeholder="lb"
+                    aria-label="Weight, pounds"
+                    style={measurementInputStyle(Boolean(errors.weight))}
+                  />
+                </div>
+              ) : (
+                <input
+                  type="number"
+                  name={units.weight}
+                  value={weightInput[units.weight]}
+                  onChange={handleWeightChange}
+                  step="0.1"
+                  min={units.weight === 'kg' ? '2' : '4.4'}
+                  max={units.weight === 'kg' ? '300' : '661.4'}
+                  placeholder={units.weight === 'kg' ? 'Enter weight in kg' : 'Enter weight in lb'}
+                  style={measurementInputStyle(Boolean(errors.weight))}
+                />
+              )}
+              {units.weight !== 'kg' && weightKg > 0 && (
+                <p style={{ fontSize: '0.75rem', color: '#6b7280', marginTop: '0.25rem' }}>
+                  Saved as {weightKg} kg
+                </p>
+              )}
+              {errors.weight && (
                 <p style={{ color: '#ef4444', fontSize: '0.875rem', marginTop: '0.25rem' }}>
-                  {errors.weight_kg}
+                  {errors.weight}
                 </p>
               )}
             </div>
           </div>
+          <p style={{ fontSize: '0.75rem', color: '#6b7280', marginTop: '0.5rem' }}>
+            The units you pick are remembered for your next visit.
+          </p>
+
+          <h3 style={{ fontSize: '1rem', fontWeight: 600, color: '#1f2937', margin: '1.5rem 0 0.25rem' }}>
+            Other Vital Signs and Body Measurements
+          </h3>
+          <p style={{ fontSize: '0.75rem', color: '#6b7280', marginBottom: '1rem' }}>
+            Optional. Values outside the usual adult range are flagged for review and still saved.
+            Waist and hip circumference give the waist ratios shown with the BMI.
+          </p>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem 1.5rem' }}>
+            {VITAL_SIGN_FIELDS.map(sign => {
+              const { label, unit, step, plausible } = VITAL_SIGNS[sign];
+              const flag = signErrors[sign] ? null : vitalSignFlag(sign, signs[sign], patient?.sex);
+              return (
+                <div key={sign}>
+                  <label
+                    htmlFor={`vital-sign-${sign}`}
+                    style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.5rem', fontWeight: 500 }}
+                  >
+                    <span>{label} ({unit})</span>
+                    {flag && (
+                      <span style={{
+                        padding: '0 0.5rem',
+                        borderRadius: '9999px',
+                        fontSize: '0.75rem',
+                        fontWeight: 600,
+                        backgroundColor: flag === 'high' ? '#fee2e2' : '#dbeafe',
+                        color: flag === 'high' ? '#991b1b' : '#1e40af'
+                      }}>
+                        {flag === 'high' ? 'High' : 'Low'}
+                      </span>
+                    )}
+                  </label>
+                  <input
+                    id={`vital-sign-${sign}`}
+                    type="number"
+                    name={sign}
+                    value={signInputs[sign]}
+                    onChange={handleSignChange}
+                    step={step}
+                    min={plausible.min}
+                    max={plausible.max}
+                    style={measurementInputStyle(Boolean(signErrors[sign]))}
+                  />
+                  {signErrors[sign] && (
+                    <p style={{ color: '#ef4444', fontSize: '0.875rem', marginTop: '0.25rem' }}>
+                      {signErrors[sign]}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
 
-          {formData.bmi > 0 && (
+          {routing && bmiStatus && (
             <div style={{ 
               marginTop: '1.5rem',
               padding: '1rem',
@@ -901,27 +772,32 @@ const VitalsForm: React.FC = () => {
                     Calculated BMI
                   </p>
                   <p style={{ fontSize: '1.5rem', fontWeight: 700, color: '#1f2937' }}>
-                    {formData.bmi.toFixed(1)}
+                    {bmi.toFixed(1)}
                   </p>
                 </div>
-                <div style={{
-                  padding: '0.5rem 1rem',
-                  backgroundColor: formData.bmi < 18.5 ? '#fef3c7' : 
-                                 formData.bmi < 25 ? '#d1fae5' : '#fee2e2',
-                  color: formData.bmi < 18.5 ? '#92400e' : 
-                        formData.bmi < 25 ? '#065f46' : '#991b1b',
-                  borderRadius: '9999px',
-                  fontSize: '0.875rem',
-                  fontWeight: 600,
-                  border: `1px solid ${
-                    formData.bmi < 18.5 ? '#fde68a' : 
-                    formData.bmi < 25 ? '#a7f3d0' : '#fecaca'
-                  }`
-                }}>
-                  {formData.bmi < 18.5 ? 'Underweight' : 
-                   formData.bmi < 25 ? 'Normal' : 'Overweight'}
-                </div>
+                <BmiStatusBadge
+                  label={bmiStatus.label}
+                  category={bmiStatus.category}
+                  large
+                  title={bmiStatus.bmiForAge ? undefined : describeBmiCategory(bmiStatus.category, bmiScheme)}
+                />
               </div>
+              {bmiStatus.bmiForAge && (
+                <p style={{ fontSize: '0.75rem', color: '#6b7280', margin: '0.5rem 0 0' }}>
+                  BMI-for-age {formatBmiForAge(bmiStatus.bmiForAge)}
+                </p>
+              )}
+              {bmiStatus.note && (
+                <p style={{ fontSize: '0.75rem', color: '#92400e', margin: '0.5rem 0 0' }}>
+                  {bmiStatus.note}
+                </p>
+              )}
+              {(waistToHeight || waistToHip) && (
+                <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginTop: '0.75rem' }}>
+                  {waistToHeight && <BodyRatioBadge label="Waist/height" value={waistToHeight} />}
+                  {waistToHip && <BodyRatioBadge label="Waist/hip" value={waistToHip} />}
+                </div>
+              )}
               <div style={{ 
                 marginTop: '1rem', 
                 padding: '0.75rem', 
@@ -933,12 +809,16 @@ const VitalsForm: React.FC = () => {
                   Next Step After Saving:
                 </p>
                 <ul style={{ fontSize: '0.75rem', color: '#1e40af', margin: '0.25rem 0 0 1rem', padding: 0 }}>
-                  {formData.bmi <= 25 ? (
-                    <li>📋 <strong>General Assessment Form</strong> (BMI ≤ 25)</li>
-                  ) : (
-                    <li>⚖️ <strong>Overweight Assessment Form</strong> (BMI &gt; 25)</li>
-                  )}
+                  {routing.assessments.map(type => (
+                    <li key={type}>
+                      {type === 'general' ? '📋' : '⚖️'} <strong>{ASSESSMENT_LABELS[type]} Form</strong>
+                    </li>
+                  ))}
+                  {routing.assessments.length === 0 && <li>No assessment: back to the patient's details</li>}
                 </ul>
+                <p style={{ fontSize: '0.75rem', color: '#1e40af', margin: '0.25rem 0 0' }}>
+                  Rule: {routing.rule ? routing.rule.name : 'no rule applies'}
+                </p>
               </div>
             </div>
           )}
@@ -1042,7 +922,7 @@ const VitalsForm: React.FC = () => {
                       color: '#374151',
                       borderBottom: '1px solid #e5e7eb'
                     }}>
-                      Height (cm)
+                      Height
                     </th>
                     <th style={{ 
                       padding: '1rem', 
@@ -1052,7 +932,7 @@ const VitalsForm: React.FC = () => {
                       color: '#374151',
                       borderBottom: '1px solid #e5e7eb'
                     }}>
-                      Weight (kg)
+                      Weight
                     </th>
                     <th style={{ 
                       padding: '1rem', 
@@ -1068,18 +948,27 @@ const VitalsForm: React.FC = () => {
                 </thead>
                 <tbody>
                   {existingVitals.slice(0, 5).map((vitals, index) => {
-                    const colors = getBmiStatusColor(vitals.bmi);
+                    const colors = bmiStatusColors(
+                      isNaN(vitals.bmi) ? undefined : classifyBmi(vitals.bmi, bmiScheme, patient, vitals.visitDate).category
+                    );
+                    const [height, heightOther] = formatHeightDual(vitals.height, units);
+                    const [weight, weightOther] = formatWeightDual(vitals.weight, units);
                     return (
                       <tr key={vitals.id} style={{ 
                         borderBottom: index === Math.min(4, existingVitals.length - 1) ? 'none' : '1px solid #f3f4f6',
                         backgroundColor: index % 2 === 0 ? 'white' : '#f9fafb'
                       }}>
                         <td style={{ padding: '1rem', fontSize: '0.875rem' }}>
-                          {vitals.visit_date ? new Date(vitals.visit_date).toLocaleDateString() : 
-                           vitals.created_at ? new Date(vitals.created_at).toLocaleDateString() : 'N/A'}
+                          {new Date(vitals.visitDate).toLocaleDateString()}
+                        </td>
+                        <td style={{ padding: '1rem', fontSize: '0.875rem' }}>
+                          {height}
+                          <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>{heightOther}</div>
+                        </td>
+                        <td style={{ padding: '1rem', fontSize: '0.875rem' }}>
+                          {weight}
+                          <div style={{ fontSize: '0.75rem', color: '#6b7280' }}>{weightOther}</div>
                         </td>
-                        <td style={{ padding: '1rem', fontSize: '0.875rem' }}>{vitals.height_cm}</td>
-                        <td style={{ padding: '1rem', fontSize: '0.875rem' }}>{vitals.weight_kg}</td>
                         <td style={{ padding: '1rem' }}>
                           <span style={{
                             display: 'inline-block',
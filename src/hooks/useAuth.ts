@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from 'react';
+import { getSession, subscribeToSession } from '../services/auth';
+
+/*
+The current session from services/auth.
+
+Re-renders whenever the user signs in or out, or when the session expires
+because a token could not be refreshed.
+*/
+const useAuth = () => {
+  const session = useSyncExternalStore(subscribeToSession, getSession);
+  return { session, isAuthenticated: session !== null };
+};
+
+export default useAuth;
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+
+/*
+Returns `value` only after it has stopped changing for `delayMs`.
+
+Used to hold back server requests while the user is still typing, e.g. the
+search box in PatientListing.
+*/
+const useDebouncedValue = <T>(value: T, delayMs: number): T => {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedValue(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debouncedValue;
+};
+
+export default useDebouncedValue;
@@ -0,0 +1,21 @@
+import { fetchPatientVitals, queryKeys } from '../services/queries';
+import useQuery from './useQuery';
+
+/*
+Loads the most recent vitals record of a patient.
+
+The assessment forms take the BMI from here rather than from the screen that
+navigated to them, so they still know the BMI after a reload. The vitals
+history is shared with PatientDetails through the query cache and is
+invalidated whenever new vitals are recorded.
+*/
+const useLatestVitals = (patientId: string | undefined) => {
+  const { data, loading } = useQuery(
+    patientId ? queryKeys.vitals(patientId) : null,
+    () => fetchPatientVitals(patientId as string)
+  );
+
+  return { latestVitals: data?.[0] || null, loading: Boolean(patientId) && loading };
+};
+
+export default useLatestVitals;
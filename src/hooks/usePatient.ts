@@ -0,0 +1,30 @@
+import { patientApi, getApiErrorMessage } from '../services/api';
+import { queryKeys } from '../services/queries';
+import useQuery from './useQuery';
+
+/*
+Loads the patient named by a route parameter.
+
+Every patient screen uses this so the page works the same whether it was
+reached by clicking through the app, by a bookmark or by a browser reload.
+The record comes from the shared query cache, so moving between a patient's
+screens does not refetch it. `reload` fetches the patient again, e.g. after
+it was edited.
+*/
+const usePatient = (patientId: string | undefined) => {
+  const { data, loading, error, refetch } = useQuery(
+    patientId ? queryKeys.patient(patientId) : null,
+    () => patientApi.getPatient(patientId as string)
+  );
+
+  return {
+    patient: data || null,
+    loading,
+    error: !patientId
+      ? 'No patient was specified'
+      : error ? getApiErrorMessage(error, 'Failed to load patient.') : null,
+    reload: refetch,
+  };
+};
+
+export default usePatient;
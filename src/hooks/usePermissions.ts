@@ -0,0 +1,21 @@
+import { Permission } from '../types';
+import { roleHasPermission } from '../services/permissions';
+import useAuth from './useAuth';
+
+/*
+The signed-in user's role and a `can` check for hiding or disabling actions.
+
+   const { can } = usePermissions();
+   {can('vitals:record') && <button>Record Vitals</button>}
+*/
+const usePermissions = () => {
+  const { session } = useAuth();
+  const role = session?.role;
+
+  return {
+    role,
+    can: (permission: Permission) => roleHasPermission(role, permission),
+  };
+};
+
+export default usePermissions;
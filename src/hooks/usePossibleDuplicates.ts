@@ -0,0 +1,34 @@
+import { canSearchDuplicates, DuplicateCriteria } from '../services/duplicateMatching';
+import { fetchDuplicateMatches, queryKeys } from '../services/queries';
+import useDebouncedValue from './useDebouncedValue';
+import useQuery from './useQuery';
+
+const DUPLICATE_SEARCH_DELAY_MS = 400;
+
+/*
+Looks for existing patients resembling the one being typed into the
+registration form.
+
+The search waits until typing pauses and until the form holds enough to
+search on (services/duplicateMatching); passing `enabled = false` turns it off,
+e.g. in edit mode. A failed search only means no warning is shown; registering is
+never blocked by it.
+*/
+const usePossibleDuplicates = (criteria: DuplicateCriteria, enabled = true) => {
+  const firstName = useDebouncedValue(criteria.firstName.trim(), DUPLICATE_SEARCH_DELAY_MS);
+  const lastName = useDebouncedValue(criteria.lastName.trim(), DUPLICATE_SEARCH_DELAY_MS);
+  const dateOfBirth = useDebouncedValue(criteria.dateOfBirth || undefined, DUPLICATE_SEARCH_DELAY_MS);
+
+  const debouncedCriteria: DuplicateCriteria = { firstName, lastName, dateOfBirth };
+  const searchCriteria = enabled && canSearchDuplicates(debouncedCriteria) ? debouncedCriteria : null;
+
+  const { data, isFetching } = useQuery(
+    searchCriteria ? queryKeys.duplicateMatches(searchCriteria) : null,
+    signal => fetchDuplicateMatches(searchCriteria as DuplicateCriteria, signal),
+    { keepPreviousData: true }
+  );
+
+  return { matches: searchCriteria ? data || [] : [], searching: isFetching };
+};
+
+export default usePossibleDuplicates;
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import { QueryFetcher, QueryKey, hashKey, queryCache } from '../services/queryCache';
+
+/*
+Reads a query from the shared cache in services/queryCache and re-renders
+whenever that entry changes (fresh data, invalidation, optimistic update).
+
+   const { data, loading, error, isFetching, refetch } = useQuery(queryKeys.patient(id), () => patientApi.getPatient(id));
+
+   - `loading` is only true while there is nothing to show yet; a background
+     refresh of cached data sets `isFetching` instead
+   - Passing `null` as the key skips the query (e.g. while an id is unknown)
+   - With `keepPreviousData`, the last data stays on screen while a new key
+     loads, so paging through a table does not flash an empty state
+*/
+const useQuery = <T>(
+  key: QueryKey | null,
+  fetcher: QueryFetcher<T>,
+  options: { keepPreviousData?: boolean } = {}
+) => {
+  const [, forceRender] = useReducer((count: number) => count + 1, 0);
+  const hash = key ? hashKey(key) : null;
+
+  const keyRef = useRef(key);
+  const fetcherRef = useRef(fetcher);
+  keyRef.current = key;
+  fetcherRef.current = fetcher;
+
+  useEffect(() => {
+    const currentKey = keyRef.current;
+    if (!currentKey) return;
+
+    const unsubscribe = queryCache.subscribe(currentKey, forceRender);
+    queryCache.fetchQuery(currentKey, (signal) => fetcherRef.current(signal)).catch(() => undefined);
+    return unsubscribe;
+  }, [hash]);
+
+  const refetch = useCallback(() => {
+    const currentKey = keyRef.current;
+    if (!currentKey) return;
+    queryCache.fetchQuery(currentKey, (signal) => fetcherRef.current(signal), true).catch(() => undefined);
+  }, []);
+
+  const state = key
+    ? queryCache.getQueryState<T>(key)
+    : { data: undefined, error: undefined, isFetching: false, isStale: false };
+
+  const previousDataRef = useRef<T | undefined>(undefined);
+  if (state.data !== undefined) previousDataRef.current = state.data;
+  const data = state.data !== undefined || !options.keepPreviousData ? state.data : previousDataRef.current;
+
+  return {
+    data,
+    error: state.error,
+    loading: key !== null && data === undefined && !state.error,
+    isFetching: state.isFetching,
+    refetch,
+  };
+};
+
+export default useQuery;
@@ -0,0 +1,26 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { getUnitPreference, setUnitPreference, subscribeToPreferences } from '../services/preferences';
+import { UnitPreference } from '../services/units';
+import useAuth from './useAuth';
+
+/*
+The signed-in user's preferred height and weight units (services/preferences).
+
+Changing them re-renders every screen that shows measurements.
+*/
+const useUnitPreference = () => {
+  const { session } = useAuth();
+  const username = session?.username;
+
+  const units = useSyncExternalStore(subscribeToPreferences, () => getUnitPreference(username));
+  const setUnits = useCallback(
+    (next: UnitPreference) => {
+      if (username) setUnitPreference(username, next);
+    },
+    [username]
+  );
+
+  return { units, setUnits };
+};
+
+export default useUnitPreference;
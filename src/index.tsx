@@ -2,13 +2,24 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
+import { loadConfig } from './services/config';
+import { configureLogger } from './services/logger';
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
 
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+loadConfig().then((config) => {
+  document.title = config.clinicName;
+  configureLogger({
+    level: config.logLevel,
+    sinkUrl: config.diagnosticsUrl,
+    patientNumberFormat: config.patientNumberFormat,
+  });
+
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+});
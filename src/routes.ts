@@ -0,0 +1,30 @@
+import { AssessmentType } from './types';
+
+/*
+URL builders for every screen.
+
+Patient screens carry the patient id in the path so they can be bookmarked,
+shared and reloaded; each screen loads the patient itself with
+patientApi.getPatient instead of relying on router location state.
+
+   /patients/:patientId                               -> PatientDetails
+   /patients/:patientId/edit                          -> PatientRegistration in edit mode
+   /patients/:patientId/merge?with=<patientId>        -> PatientMerge
+   /patients/:patientId/vitals/new                    -> VitalsForm
+   /patients/:patientId/assessments/new?type=<type>   -> Overweight or General assessment form
+*/
+
+export const routes = {
+  login: '/login',
+  patientListing: '/patient-listing',
+  registerPatient: '/register-patient',
+  importPatients: '/import-patients',
+  importVitals: '/import-vitals',
+  patientDetails: (patientId: string) => `/patients/${encodeURIComponent(patientId)}`,
+  editPatient: (patientId: string) => `/patients/${encodeURIComponent(patientId)}/edit`,
+  mergePatient: (patientId: string, duplicateId?: string) =>
+    `/patients/${encodeURIComponent(patientId)}/merge${duplicateId ? `?with=${encodeURIComponent(duplicateId)}` : ''}`,
+  newVitals: (patientId: string) => `/patients/${encodeURIComponent(patientId)}/vitals/new`,
+  newAssessment: (patientId: string, type: AssessmentType) =>
+    `/patients/${encodeURIComponent(patientId)}/assessments/new?type=${type}`,
+};
@@ -1,18 +1,76 @@
-import axios from 'axios';
+import axios, { AxiosError, isAxiosError, isCancel } from 'axios';
+import {
+  Assessment,
+  AssessmentType,
+  GeneralAssessment,
+  NewGeneralAssessment,
+  NewOverweightAssessment,
+  NewPatient,
+  NewVitals,
+  OverweightAssessment,
+  Patient,
+  PatientChange,
+  PatientListQuery,
+  PatientMergeRecord,
+  PatientSummary,
+  Vitals,
+} from '../types';
+import {
+  toAssessment,
+  toCreateGeneralAssessmentRequest,
+  toCreateOverweightAssessmentRequest,
+  toCreatePatientRequest,
+  toCreateVitalsRequest,
+  toGeneralAssessment,
+  toOverweightAssessment,
+  toPatient,
+  toPatientHistoryRequest,
+  toPatientListParams,
+  toPatientMergeHistoryRequest,
+  toPatientSummary,
+  toUpdatePatientRequest,
+  toVitals,
+} from './mappers';
+import { authApi, getSession } from './auth';
+import { getConfig } from './config';
+import { ArchiveRequest, ReassignPatientRequest } from './dto';
+import { createLogger } from './logger';
+import { PatientEditConflictError } from './patientEdits';
+import { requirePermission } from './permissions';
+import { fetchAllPages, fetchPage, iteratePages, Page, QueryParams } from './pagination';
 
 /*
 Centralized API configuration and service definitions for all backend interactions.
 
 Axios Configuration:
-   - Base URL setup for local development
-   - Request/Response interceptors for debugging
+   - Base URL and timeout come from services/config (env + /config.json)
+   - Every request carries the signed-in user's bearer token (services/auth)
+   - A 401 triggers one token refresh and a retry; if that fails the session
+     ends and protected routes send the user to /login
+   - Request/Response interceptors log method, URL and status through
+     services/logger; payloads are never logged and identifiers in URLs are masked
    - Consistent headers and error handling
 
 API Services:
-   - Patient API: CRUD operations for patient management
+   - Patient API: CRUD operations for patient management, including
+     version-checked updates, merges and their change history
    - Assessment API: Overweight and general assessment endpoints
    - Vitals API: Vital signs recording and retrieval
 
+Permissions:
+   - Methods that create, change or delete records check the signed-in user's
+     role first (services/permissions) and reject with a PermissionDeniedError
+
+Archiving:
+   - Records are archived and restored with a reason instead of being deleted;
+     list methods leave archived records out unless `includeArchived` is set
+
+Typed Contract:
+   - Every method takes and returns domain types from src/types
+   - List methods follow pagination via services/pagination and return complete lists
+   - Requests are built and responses validated by services/mappers
+   - Unexpected response shapes raise an ApiValidationError
+
 Endpoint Organization:
    - Logical grouping by domain (patients, assessments, vitals)
    - Consistent parameter naming
@@ -20,10 +78,13 @@ Endpoint Organization:
 
 */
 
-const API_BASE_URL = 'http://localhost:8000/api';
+const log = createLogger('api');
+
+const DUPLICATE_CANDIDATE_LIMIT = 50;
 
 const api = axios.create({
-  baseURL: API_BASE_URL,
+  baseURL: getConfig().apiBaseUrl,
+  timeout: getConfig().requestTimeoutMs,
   headers: {
     'Content-Type': 'application/json',
   },
@@ -31,98 +92,372 @@ const api = axios.create({
 
 api.interceptors.request.use(
   (config) => {
-    console.log('API Request:', {
-      url: config.url,
-      method: config.method,
-      data: config.data,
-      params: config.params,
-    });
+    const { apiBaseUrl, requestTimeoutMs } = getConfig();
+    config.baseURL = apiBaseUrl;
+    config.timeout = requestTimeoutMs;
+    
+    const accessToken = getSession()?.accessToken;
+    if (accessToken) {
+      config.headers.Authorization = `Bearer ${accessToken}`;
+    }
+    
+    log.debug('Request', { method: config.method, url: config.url });
     return config;
   },
   (error) => {
-    console.error('API Request Error:', error);
+    log.error('Request could not be sent', error);
     return Promise.reject(error);
   }
 );
 
+const retriedRequests = new WeakSet<object>();
+
 api.interceptors.response.use(
   (response) => {
-    console.log('API Response:', {
-      url: response.config.url,
-      status: response.status,
-      data: response.data,
-    });
+    log.debug('Response', { url: response.config.url, status: response.status });
     return response;
   },
-  (error) => {
-    console.error('API Response Error:', {
-      url: error.config?.url,
-      status: error.response?.status,
-      data: error.response?.data,
-      message: error.message,
-    });
-    return Promise.reject(error);
+  async (error: AxiosError) => {
+    if (!isCancel(error)) {
+      log.warn('Request failed', {
+        method: error.config?.method,
+        url: error.config?.url,
+        status: error.response?.status,
+        message: error.message,
+      });
+    }
+    
+    const request = error.config;
+    if (error.response?.status !== 401 || !request || !getSession()) {
+      return Promise.reject(error);
+    }
+    
+    if (retriedRequests.has(request)) {
+      authApi.expireSession();
+      return Promise.reject(error);
+    }
+    
+    retriedRequests.add(request);
+    try {
+      await authApi.refreshSession();
+    } catch (refreshError) {
+      authApi.expireSession();
+      return Promise.reject(error);
+    }
+    return api(request);
   }
 );
 
+/*
+Function: Archive or restore a record
+Purpose: Shared by every resource; both actions require a reason, which the
+backend keeps with the record.
+*/
+const postArchiveAction = async <T>(
+  url: string,
+  action: 'archive' | 'restore',
+  reason: string,
+  mapItem: (item: unknown) => T
+): Promise<T> => {
+  requirePermission('records:archive');
+  const body: ArchiveRequest = { reason: reason.trim() };
+  const response = await api.post<unknown>(`${url}${action}/`, body);
+  return mapItem(response.data);
+};
+
+const archiveParams = (includeArchived: boolean): QueryParams =>
+  includeArchived ? { include_archived: true } : {};
+
+/*
+Function: Fetch every item of a list endpoint
+Purpose: Follows pagination links so callers always receive the complete list,
+whether the backend paginates or not.
+*/
+const listAll = async <T>(
+  url: string,
+  params: QueryParams | undefined,
+  resource: string,
+  mapItem: (item: unknown) => T,
+  signal?: AbortSignal
+): Promise<T[]> => (await fetchAllPages(api, url, params, resource, mapItem, signal)).results;
+
 export const patientApi = {
-  getPatients: () => api.get('/patients/'),
-  createPatient: (data: any) => api.post('/patients/', data),
-  getPatient: (id: string) => api.get(`/patients/${id}/`),
-  updatePatient: (id: string, data: any) => api.put(`/patients/${id}/`, data),
-  deletePatient: (id: string) => api.delete(`/patients/${id}/`),
-  getPatientByPatientId: (patientId: string) => 
-    api.get('/patients/', { params: { patient_id: patientId } }),
-  
-  getPatientWithDetails: (id: string) => 
-    api.get(`/patients/${id}/with-details/`),
+  getPatients: (): Promise<Patient[]> =>
+    listAll('/patients/', undefined, 'patient list', toPatient),
+
+  getPatientPage: (query: PatientListQuery, signal?: AbortSignal): Promise<Page<Patient>> =>
+    fetchPage(api, '/patients/', toPatientListParams(query), 'patient list', toPatient, signal),
+
+  iteratePatientPages: (params?: QueryParams): AsyncGenerator<Page<Patient>> =>
+    iteratePages(api, '/patients/', params, 'patient list', toPatient),
+
+  createPatient: async (patient: NewPatient): Promise<Patient> => {
+    requirePermission('patients:register');
+    const response = await api.post<unknown>('/patients/', toCreatePatientRequest(patient));
+    return toPatient(response.data);
+  },
+
+  getPatient: async (id: string): Promise<Patient> => {
+    const response = await api.get<unknown>(`/patients/${id}/`);
+    return toPatient(response.data);
+  },
+
+  /*
+  Function: Update a patient
+  Purpose: With `version` (the updated_at of the record the user edited) the
+  backend refuses the update if the patient changed since; that answer is
+  raised as a PatientEditConflictError carrying the current record.
+  */
+  updatePatient: async (id: string, patient: NewPatient, version?: string): Promise<Patient> => {
+    requirePermission('patients:register');
+    try {
+      const response = await api.put<unknown>(`/patients/${id}/`, toUpdatePatientRequest(patient), {
+        headers: version ? { 'If-Match': `"${version}"` } : undefined,
+      });
+      return toPatient(response.data);
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 412) {
+        throw new PatientEditConflictError(await patientApi.getPatient(id));
+      }
+      throw error;
+    }
+  },
+
+  recordPatientHistory: async (id: string, changes: PatientChange[]): Promise<void> => {
+    requirePermission('patients:register');
+    await api.post(`/patients/${id}/history/`, toPatientHistoryRequest(changes, getSession()?.username || ''));
+  },
+
+  recordPatientMerge: async (merge: PatientMergeRecord): Promise<void> => {
+    requirePermission('patients:merge');
+    await api.post(
+      `/patients/${merge.survivorId}/history/`,
+      toPatientMergeHistoryRequest(merge, getSession()?.username || '')
+    );
+  },
+
+  archivePatient: (id: string, reason: string): Promise<Patient> =>
+    postArchiveAction(`/patients/${id}/`, 'archive', reason, toPatient),
+
+  restorePatient: (id: string, reason: string): Promise<Patient> =>
+    postArchiveAction(`/patients/${id}/`, 'restore', reason, toPatient),
+
+  deletePatient: async (id: string): Promise<void> => {
+    requirePermission('records:delete');
+    await api.delete(`/patients/${id}/`);
+  },
+
+  getPatientsByPatientNumber: (patientNumber: string): Promise<Patient[]> =>
+    listAll('/patients/', { patient_number: patientNumber }, 'patient list', toPatient),
+
+  /*
+  Function: Every patient number starting with `stem`
+  Purpose: Used to suggest the next patient number (services/patientNumbers).
+  All of them are needed: the backend sorts numbers as text, so PAT-999999-6
+  would come before PAT-1000000-8. Archived patients keep their numbers.
+  */
+  getPatientNumbers: async (stem: string, signal?: AbortSignal): Promise<string[]> => {
+    const numbers: string[] = [];
+    const pages = iteratePages(
+      api,
+      '/patients/',
+      { patient_number__startswith: stem, include_archived: true },
+      'patient list',
+      toPatient,
+      signal
+    );
+    for await (const page of pages) {
+      numbers.push(...page.results.map(patient => patient.patientNumber).filter(Boolean));
+    }
+    return numbers;
+  },
+
+  /*
+  Function: Look patients up by patient number
+  Purpose: Archived patients are included: they keep their numbers.
+  */
+  getPatientsByNumbers: async (patientNumbers: string[], signal?: AbortSignal): Promise<Patient[]> =>
+    (await fetchPage(
+      api,
+      '/patients/',
+      { patient_number__in: patientNumbers.join(','), include_archived: true, page_size: patientNumbers.length },
+      'patient list',
+      toPatient,
+      signal
+    )).results,
+
+  getPatientsByDateOfBirth: async (dateOfBirth: string, signal?: AbortSignal): Promise<Patient[]> =>
+    (await fetchPage(
+      api,
+      '/patients/',
+      { date_of_birth: dateOfBirth, page_size: DUPLICATE_CANDIDATE_LIMIT },
+      'patient list',
+      toPatient,
+      signal
+    )).results,
+
+  getPatientSummaries: async (patientIds: string[], signal?: AbortSignal): Promise<PatientSummary[]> => {
+    const page = await fetchPage(
+      api,
+      '/patients/summary/',
+      { ids: patientIds.join(','), page_size: patientIds.length },
+      'patient summary list',
+      toPatientSummary,
+      signal
+    );
+    return page.results;
+  },
 };
 
 export const assessmentApi = {
-  createOverweightAssessment: (data: any) => 
-    api.post('/overweight-assessments/', data),
-  
-  getPatientOverweightAssessments: (patientId: string) => 
-    api.get(`/overweight-assessments/`, { params: { patient: patientId } }),
-  
-  getAllOverweightAssessments: () => 
-    api.get('/overweight-assessments/'),
-  
-  createGeneralAssessment: (data: any) => 
-    api.post('/general-assessments/', data),
-  
-  getPatientGeneralAssessments: (patientId: string) => 
-    api.get(`/general-assessments/`, { params: { patient: patientId } }),
-  
-  getAllGeneralAssessments: () => 
-    api.get('/general-assessments/'),
-  
-  getAssessment: (id: string, type: 'overweight' | 'general') => 
-    api.get(`/${type}-assessments/${id}/`),
-  
-  updateAssessment: (id: string, data: any, type: 'overweight' | 'general') => 
-    api.put(`/${type}-assessments/${id}/`, data),
-  
-  deleteAssessment: (id: string, type: 'overweight' | 'general') => 
-    api.delete(`/${type}-assessments/${id}/`),
+  createOverweightAssessment: async (assessment: NewOverweightAssessment): Promise<OverweightAssessment> => {
+    requirePermission('assessments:create');
+    const response = await api.post<unknown>(
+      '/overweight-assessments/',
+      toCreateOverweightAssessmentRequest(assessment)
+    );
+    return toOverweightAssessment(response.data);
+  },
+
+  getPatientOverweightAssessments: (
+    patientId: string,
+    includeArchived = false,
+    signal?: AbortSignal
+  ): Promise<OverweightAssessment[]> =>
+    listAll(
+      '/overweight-assessments/',
+      { patient: patientId, ...archiveParams(includeArchived) },
+      'overweight assessment list',
+      toOverweightAssessment,
+      signal
+    ),
+
+  getAllOverweightAssessments: (): Promise<OverweightAssessment[]> =>
+    listAll('/overweight-assessments/', undefined, 'overweight assessment list', toOverweightAssessment),
+
+  createGeneralAssessment: async (assessment: NewGeneralAssessment): Promise<GeneralAssessment> => {
+    requirePermission('assessments:create');
+    const response = await api.post<unknown>(
+      '/general-assessments/',
+      toCreateGeneralAssessmentRequest(assessment)
+    );
+    return toGeneralAssessment(response.data);
+  },
+
+  getPatientGeneralAssessments: (
+    patientId: string,
+    includeArchived = false,
+    signal?: AbortSignal
+  ): Promise<GeneralAssessment[]> =>
+    listAll(
+      '/general-assessments/',
+      { patient: patientId, ...archiveParams(includeArchived) },
+      'general assessment list',
+      toGeneralAssessment,
+      signal
+    ),
+
+  getAllGeneralAssessments: (): Promise<GeneralAssessment[]> =>
+    listAll('/general-assessments/', undefined, 'general assessment list', toGeneralAssessment),
+
+  getAssessment: async (id: string, type: AssessmentType): Promise<Assessment> => {
+    const response = await api.get<unknown>(`/${type}-assessments/${id}/`);
+    return toAssessment(response.data, type);
+  },
+
+  updateOverweightAssessment: async (
+    id: string,
+    assessment: NewOverweightAssessment
+  ): Promise<OverweightAssessment> => {
+    requirePermission('assessments:create');
+    const response = await api.put<unknown>(
+      `/overweight-assessments/${id}/`,
+      toCreateOverweightAssessmentRequest(assessment)
+    );
+    return toOverweightAssessment(response.data);
+  },
+
+  updateGeneralAssessment: async (
+    id: string,
+    assessment: NewGeneralAssessment
+  ): Promise<GeneralAssessment> => {
+    requirePermission('assessments:create');
+    const response = await api.put<unknown>(
+      `/general-assessments/${id}/`,
+      toCreateGeneralAssessmentRequest(assessment)
+    );
+    return toGeneralAssessment(response.data);
+  },
+
+  reassignAssessment: async (id: string, type: AssessmentType, patientId: string): Promise<Assessment> => {
+    requirePermission('patients:merge');
+    const body: ReassignPatientRequest = { patient_id: patientId };
+    const response = await api.patch<unknown>(`/${type}-assessments/${id}/`, body);
+    return toAssessment(response.data, type);
+  },
+
+  archiveAssessment: (id: string, type: AssessmentType, reason: string): Promise<Assessment> =>
+    postArchiveAction(`/${type}-assessments/${id}/`, 'archive', reason, data => toAssessment(data, type)),
+
+  restoreAssessment: (id: string, type: AssessmentType, reason: string): Promise<Assessment> =>
+    postArchiveAction(`/${type}-assessments/${id}/`, 'restore', reason, data => toAssessment(data, type)),
+
+  deleteAssessment: async (id: string, type: AssessmentType): Promise<void> => {
+    requirePermission('records:delete');
+    await api.delete(`/${type}-assessments/${id}/`);
+  },
 };
 
 export const vitalsApi = {
-  createVitals: (data: any) => api.post('/vitals/', data),
-  
-  getVitals: (patientId: string) => 
-    api.get(`/vitals/`, { params: { patient: patientId } }),
-  
-  getVitalsByPatientId: (patientId: string) =>
-    api.get(`/vitals/`, { params: { patient_id: patientId } }),
-  
-  getVital: (id: string) => api.get(`/vitals/${id}/`),
-  
-  updateVital: (id: string, data: any) => api.put(`/vitals/${id}/`, data),
-  
-  deleteVital: (id: string) => api.delete(`/vitals/${id}/`),
-  
-  getAllVitals: () => api.get('/vitals/'),
+  createVitals: async (vitals: NewVitals): Promise<Vitals> => {
+    requirePermission('vitals:record');
+    const response = await api.post<unknown>('/vitals/', toCreateVitalsRequest(vitals));
+    return toVitals(response.data);
+  },
+
+  getVitals: (patientId: string, includeArchived = false, signal?: AbortSignal): Promise<Vitals[]> =>
+    listAll('/vitals/', { patient: patientId, ...archiveParams(includeArchived) }, 'vitals list', toVitals, signal),
+
+  getVitalsByPatientId: (patientId: string): Promise<Vitals[]> =>
+    listAll('/vitals/', { patient_id: patientId }, 'vitals list', toVitals),
+
+  getVital: async (id: string): Promise<Vitals> => {
+    const response = await api.get<unknown>(`/vitals/${id}/`);
+    return toVitals(response.data);
+  },
+
+  updateVital: async (id: string, vitals: NewVitals): Promise<Vitals> => {
+    requirePermission('vitals:record');
+    const response = await api.put<unknown>(`/vitals/${id}/`, toCreateVitalsRequest(vitals));
+    return toVitals(response.data);
+  },
+
+  reassignVital: async (id: string, patientId: string): Promise<Vitals> => {
+    requirePermission('patients:merge');
+    const body: ReassignPatientRequest = { patient_id: patientId };
+    const response = await api.patch<unknown>(`/vitals/${id}/`, body);
+    return toVitals(response.data);
+  },
+
+  archiveVital: (id: string, reason: string): Promise<Vitals> =>
+    postArchiveAction(`/vitals/${id}/`, 'archive', reason, toVitals),
+
+  restoreVital: (id: string, reason: string): Promise<Vitals> =>
+    postArchiveAction(`/vitals/${id}/`, 'restore', reason, toVitals),
+
+  deleteVital: async (id: string): Promise<void> => {
+    requirePermission('records:delete');
+    await api.delete(`/vitals/${id}/`);
+  },
+
+  getAllVitals: (): Promise<Vitals[]> =>
+    listAll('/vitals/', undefined, 'vitals list', toVitals),
 };
 
-export default api;
\ No newline at end of file
+export { ApiValidationError } from './validation';
+export { PermissionDeniedError } from './permissions';
+export { PatientEditConflictError } from './patientEdits';
+export type { Page, QueryParams } from './pagination';
+export { getApiErrorMessage, getApiFieldErrors, isRequestCancelled } from './errors';
+
+export default api;
@@ -0,0 +1,50 @@
+import { describeVitalsArchive, isArchived, validateArchiveReason } from './archiving';
+import { Vitals } from '../types';
+
+const vitals = (id: string, visitDate: string, bmi: number): Vitals => ({
+  id,
+  patientId: 'p1',
+  visitDate,
+  height: 170,
+  weight: 70,
+  bmi,
+});
+
+describe('validateArchiveReason', () => {
+  it('requires a reason of a few characters', () => {
+    expect(validateArchiveReason('')).not.toBeNull();
+    expect(validateArchiveReason('   oops  ')).not.toBeNull();
+    expect(validateArchiveReason('Entered for the wrong patient')).toBeNull();
+  });
+});
+
+describe('isArchived', () => {
+  it('is true only when the record has an archive date', () => {
+    expect(isArchived({})).toBe(false);
+    expect(isArchived({ archivedAt: '2024-03-01T10:00:00Z' })).toBe(true);
+  });
+});
+
+describe('describeVitalsArchive', () => {
+  const latest = vitals('v2', '2024-03-01', 27.1);
+  const previous = vitals('v1', '2024-01-10', 25.4);
+
+  it('says when archiving changes the latest BMI', () => {
+    const lines = describeVitalsArchive('archive', latest, [latest, previous]);
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toContain('25.4');
+  });
+
+  it('does not mention the latest BMI when archiving an older record', () => {
+    expect(describeVitalsArchive('archive', previous, [latest, previous])).toHaveLength(1);
+  });
+
+  it('says when the only record is archived', () => {
+    expect(describeVitalsArchive('archive', latest, [latest])[1]).toBe('The patient will have no BMI on record');
+  });
+
+  it('says when a restored record becomes the latest', () => {
+    expect(describeVitalsArchive('restore', latest, [previous])).toHaveLength(2);
+    expect(describeVitalsArchive('restore', previous, [latest])).toHaveLength(1);
+  });
+});
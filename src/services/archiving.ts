@@ -0,0 +1,86 @@
+import { Assessment, Patient, Vitals } from '../types';
+
+/*
+Wording and rules for archiving and restoring records.
+
+Nothing in the clinical record is deleted: archiving hides a patient, a vitals
+record or an assessment from the everyday views, and restoring brings it back.
+Both need a reason, which the backend stores with the record.
+
+The describe* functions list exactly what the user is about to hide (or show
+again) for the confirmation dialog.
+*/
+
+export type ArchiveAction = 'archive' | 'restore';
+
+export const ARCHIVE_REASON_MIN_LENGTH = 5;
+
+export const isArchived = (record: { archivedAt?: string }): boolean => Boolean(record.archivedAt);
+
+export const validateArchiveReason = (reason: string): string | null =>
+  reason.trim().length < ARCHIVE_REASON_MIN_LENGTH
+    ? `Please give a reason (at least ${ARCHIVE_REASON_MIN_LENGTH} characters)`
+    : null;
+
+const formatDate = (value: string): string => {
+  const date = new Date(value);
+  return isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export const describePatientArchive = (
+  action: ArchiveAction,
+  patient: Patient,
+  counts: { vitals: number; assessments: number }
+): string[] => {
+  const name = `${patient.firstName} ${patient.lastName}${patient.patientNumber ? ` (${patient.patientNumber})` : ''}`;
+  const records = `${plural(counts.vitals, 'vitals record')} and ${plural(counts.assessments, 'assessment')}`;
+  return action === 'archive'
+    ? [
+        `${name} will be hidden from the patient listing, search and duplicate checks`,
+        `Their ${records} stay attached to the patient and are hidden with them`,
+        'The patient can still be opened from a direct link and restored later',
+      ]
+    : [
+        `${name} will appear in the patient listing, search and duplicate checks again`,
+        `Their ${records} will be visible again with them`,
+      ];
+};
+
+/*
+Function: Describe archiving or restoring one vitals record
+Purpose: `activeVitals` is the patient's non-archived history, newest first,
+so the dialog can say when the latest BMI shown for the patient will change.
+*/
+export const describeVitalsArchive = (action: ArchiveAction, vitals: Vitals, activeVitals: Vitals[]): string[] => {
+  const record = `Vitals from ${formatDate(vitals.visitDate)}: ${vitals.height} cm, ${vitals.weight} kg, BMI ${vitals.bmi.toFixed(1)}`;
+  const latest = activeVitals[0];
+
+  if (action === 'archive') {
+    const lines = [`${record} will be hidden from the history and the listing`];
+    if (latest?.id === vitals.id) {
+      const next = activeVitals[1];
+      lines.push(next
+        ? `The latest BMI shown for this patient changes to ${next.bmi.toFixed(1)} (${formatDate(next.visitDate)})`
+        : 'The patient will have no BMI on record');
+    }
+    return lines;
+  }
+
+  const lines = [`${record} will be shown in the history again`];
+  if (!latest || new Date(vitals.visitDate).getTime() >= new Date(latest.visitDate).getTime()) {
+    lines.push('It becomes the latest BMI shown for this patient');
+  }
+  return lines;
+};
+
+export const describeAssessmentArchive = (action: ArchiveAction, assessment: Assessment): string[] => {
+  const record = `${assessment.type === 'overweight' ? 'Overweight' : 'General'} assessment from ` +
+    `${formatDate(assessment.visitDate)} (${assessment.generalHealth} health)`;
+  return [action === 'archive'
+    ? `${record} will be hidden from the assessment history`
+    : `${record} will be shown in the assessment history again`];
+};
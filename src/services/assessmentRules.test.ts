@@ -0,0 +1,73 @@
+import {
+  AssessmentRule,
+  DEFAULT_ASSESSMENT_RULES,
+  formatAssessments,
+  nextAssessment,
+  readAssessmentRules,
+  routeVisit,
+} from './assessmentRules';
+import { Sex } from '../types';
+
+const adult: { dateOfBirth: string; sex: Sex } = { dateOfBirth: '1990-01-01', sex: 'Male' };
+const child: { dateOfBirth: string; sex: Sex } = { dateOfBirth: '2014-03-10', sex: 'Female' };
+const visit = (bmi: number, extra = {}) => ({ bmi, visitDate: '2024-03-10', ...extra });
+
+const route = (bmi: number, patient = adult, rules = DEFAULT_ASSESSMENT_RULES, extra = {}) =>
+  routeVisit(rules, 'who', visit(bmi, extra), patient).assessments;
+
+test('default rules route adults by BMI 25', () => {
+  expect(route(18)).toEqual(['general']);
+  expect(route(25)).toEqual(['general']);
+  expect(route(25.1)).toEqual(['overweight']);
+  expect(routeVisit(DEFAULT_ASSESSMENT_RULES, 'who-asian', visit(24), adult).assessments).toEqual(['general']);
+});
+
+test('default rules route children by percentile instead of raw BMI', () => {
+  expect(route(21, child)).toEqual(['overweight']);
+  expect(route(17, child)).toEqual(['general']);
+  expect(route(21, { ...child, sex: 'Other' })).toEqual(['general']);
+});
+
+test('first matching rule decides, on category, age, sex and vital signs', () => {
+  const rules: AssessmentRule[] = [
+    { name: 'Hypertensive', when: { vitals: { systolic: { min: 140 } } }, assessments: ['general', 'overweight'] },
+    { name: 'Obese men', when: { bmiCategories: ['obese-1', 'obese-2', 'obese-3'], sexes: ['Male'], age: { min: 18 } }, assessments: ['overweight'] },
+  ];
+  expect(route(22, adult, rules, { systolic: 150, diastolic: 95 })).toEqual(['general', 'overweight']);
+  expect(route(32, adult, rules)).toEqual(['overweight']);
+  expect(route(32, { ...adult, sex: 'Female' }, rules)).toEqual([]);
+
+  const routing = routeVisit(rules, 'who', visit(22, { systolic: 150, diastolic: 95 }), adult);
+  expect(routing.rule?.name).toBe('Hypertensive');
+  expect(nextAssessment(routing, 'general')).toBe('overweight');
+  expect(nextAssessment(routing, 'overweight')).toBeUndefined();
+  expect(formatAssessments(routing.assessments)).toBe('General Assessment and Overweight Assessment');
+});
+
+test('reads rules from config and refuses the whole set when one is invalid', () => {
+  const { rules, problems } = readAssessmentRules([
+    { name: 'Low SpO2', when: { vitals: { spo2: { max: 93 } } }, assessments: ['general'] },
+    { name: 'Everyone else', assessments: [] },
+  ]);
+  expect(problems).toEqual([]);
+  expect(rules).toEqual([
+    { name: 'Low SpO2', when: { vitals: { spo2: { max: 93 } } }, assessments: ['general'] },
+    { name: 'Everyone else', when: {}, assessments: [] },
+  ]);
+
+  const invalid = readAssessmentRules([
+    { name: 'Typo', when: { bmii: { min: 30 } }, assessments: ['overweight'] },
+    { name: 'Fine', when: {}, assessments: ['general'] },
+    { name: 'Unknown form', assessments: ['diabetes'] },
+    { name: 'Twice', assessments: ['general', 'general'] },
+    { name: 'Empty range', when: { bmi: { min: 30, max: 25 } }, assessments: ['overweight'] },
+  ]);
+  expect(invalid.rules).toBeUndefined();
+  expect(invalid.problems).toEqual([
+    'rule 1: unknown condition "bmii"',
+    'rule 3: "assessments" must list overweight or general',
+    'rule 4: "assessments" lists the same assessment twice',
+    'rule 5: "bmi" has "min" above "max"',
+  ]);
+  expect(readAssessmentRules([]).problems).toHaveLength(1);
+});
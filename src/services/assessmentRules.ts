@@ -0,0 +1,231 @@
+import { AssessmentType, Sex, VitalSign, VitalSigns } from '../types';
+import { BMI_CATEGORY_LABELS, BmiCategory, BmiScheme } from './bmiClassification';
+import { ageInMonths } from './bmiForAge';
+import { BmiStatus, classifyBmi } from './bmiStatus';
+import { SEX_OPTIONS } from './sexGender';
+import { VITAL_SIGN_FIELDS } from './vitalSigns';
+
+/*
+Rules deciding which assessment(s) a visit leads to.
+
+   - Rules are checked in order and the first one whose conditions all hold
+     decides; a rule may trigger several assessments, or none
+   - A visit no rule matches triggers no assessment
+   - Conditions: BMI category (as shown in the status badge, services/bmiStatus),
+     BMI, BMI-for-age percentile, age in whole years at the visit, sex, and any
+     vital sign recorded with the visit (services/vitalSigns)
+   - Ranges include both ends. A condition on a value the visit does not have
+     (no percentile for an adult, a vital sign not recorded) does not hold
+   - Clinics replace the defaults with "assessmentRules" in config.json
+     (services/config); VitalsForm routes with them and the assessment forms
+     refuse visits the rules did not send there
+
+The default rules keep the original routing: patients under 20 by percentile
+(overweight assessment from the 85th), everyone else by BMI (overweight
+assessment above 25).
+*/
+
+export interface RuleRange {
+  min?: number;
+  max?: number;
+}
+
+export interface AssessmentRuleConditions {
+  bmiCategories?: BmiCategory[];
+  bmi?: RuleRange;
+  percentile?: RuleRange;
+  age?: RuleRange;
+  sexes?: Sex[];
+  vitals?: Partial<Record<VitalSign, RuleRange>>;
+}
+
+export interface AssessmentRule {
+  name: string;
+  when: AssessmentRuleConditions;
+  assessments: AssessmentType[];
+}
+
+export const ASSESSMENT_LABELS: Record<AssessmentType, string> = {
+  overweight: 'Overweight Assessment',
+  general: 'General Assessment',
+};
+
+export const DEFAULT_ASSESSMENT_RULES: AssessmentRule[] = [
+  { name: 'BMI-for-age from the 85th percentile', when: { percentile: { min: 85 } }, assessments: ['overweight'] },
+  { name: 'BMI-for-age below the 85th percentile', when: { percentile: { max: 85 } }, assessments: ['general'] },
+  { name: 'BMI 25 or below', when: { bmi: { max: 25 } }, assessments: ['general'] },
+  { name: 'BMI above 25', when: {}, assessments: ['overweight'] },
+];
+
+export interface RoutedVisit extends VitalSigns {
+  bmi: number;
+  visitDate: string;
+}
+
+interface RoutedPatient {
+  dateOfBirth: string;
+  sex?: Sex;
+}
+
+export interface VisitRouting {
+  status: BmiStatus;
+  rule?: AssessmentRule;
+  assessments: AssessmentType[];
+}
+
+interface RuleFacts {
+  status: BmiStatus;
+  bmi: number;
+  ageYears?: number;
+  sex?: Sex;
+  signs: VitalSigns;
+}
+
+const inRange = (value: number | undefined, range: RuleRange | undefined): boolean => {
+  if (!range) return true;
+  if (value === undefined || isNaN(value)) return false;
+  return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+};
+
+const ruleApplies = ({ when }: AssessmentRule, facts: RuleFacts): boolean =>
+  (!when.bmiCategories || when.bmiCategories.includes(facts.status.category)) &&
+  inRange(facts.bmi, when.bmi) &&
+  inRange(facts.status.bmiForAge?.percentile, when.percentile) &&
+  inRange(facts.ageYears, when.age) &&
+  (!when.sexes || (facts.sex !== undefined && when.sexes.includes(facts.sex))) &&
+  Object.entries(when.vitals || {}).every(([sign, range]) => inRange(facts.signs[sign as VitalSign], range));
+
+/*
+Function: Route a visit
+Purpose: Classifies the BMI (services/bmiStatus) and returns the first rule that
+applies to the visit, with the assessments it triggers.
+*/
+export const routeVisit = (
+  rules: AssessmentRule[],
+  scheme: BmiScheme,
+  visit: RoutedVisit,
+  patient?: RoutedPatient | null
+): VisitRouting => {
+  const status = classifyBmi(visit.bmi, scheme, patient, visit.visitDate);
+  const facts: RuleFacts = {
+    status,
+    bmi: visit.bmi,
+    ageYears: patient?.dateOfBirth ? Math.floor(ageInMonths(patient.dateOfBirth, visit.visitDate) / 12) : undefined,
+    sex: patient?.sex,
+    signs: visit,
+  };
+
+  const rule = rules.find(candidate => ruleApplies(candidate, facts));
+  return { status, rule, assessments: rule ? rule.assessments : [] };
+};
+
+/*
+Function: The assessment to open after another one
+Purpose: When a visit triggers several assessments they are completed in rule
+order; undefined once the last one is done.
+*/
+export const nextAssessment = (routing: VisitRouting, completed: AssessmentType): AssessmentType | undefined => {
+  const index = routing.assessments.indexOf(completed);
+  return index === -1 ? undefined : routing.assessments[index + 1];
+};
+
+export const formatAssessments = (assessments: AssessmentType[]): string =>
+  assessments.length === 0 ? 'No assessment' : assessments.map(type => ASSESSMENT_LABELS[type]).join(' and ');
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readRange = (name: string, value: unknown): RuleRange | string => {
+  const problem = `"${name}" must be { "min": number, "max": number }`;
+  if (!isObject(value)) return problem;
+  const { min, max } = value;
+  const valid = (bound: unknown) => bound === undefined || (typeof bound === 'number' && isFinite(bound));
+  if (!valid(min) || !valid(max) || (min === undefined && max === undefined)) return problem;
+  if (typeof min === 'number' && typeof max === 'number' && min > max) return `"${name}" has "min" above "max"`;
+  return { min: min as number | undefined, max: max as number | undefined };
+};
+
+const readList = <T extends string>(value: unknown, allowed: readonly T[]): T[] | undefined =>
+  Array.isArray(value) && value.length > 0 && value.every(item => allowed.includes(item as T))
+    ? value as T[]
+    : undefined;
+
+const BMI_CATEGORIES = Object.keys(BMI_CATEGORY_LABELS) as BmiCategory[];
+const ASSESSMENT_TYPES = Object.keys(ASSESSMENT_LABELS) as AssessmentType[];
+const RANGE_CONDITIONS = ['bmi', 'percentile', 'age'] as const;
+
+/*
+Function: Read one rule of config.json
+Purpose: Returns the problem instead of the rule when anything in it is not
+understood, so a typo never routes patients differently from what was meant.
+An assessment listed twice or a range that can never hold is refused too.
+*/
+const readRule = (raw: unknown): AssessmentRule | string => {
+  if (!isObject(raw)) return 'not an object';
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return 'missing "name"';
+
+  const assessments = Array.isArray(raw.assessments) && raw.assessments.length === 0
+    ? []
+    : readList(raw.assessments, ASSESSMENT_TYPES);
+  if (!assessments) return `"assessments" must list ${ASSESSMENT_TYPES.join(' or ')}`;
+  if (new Set(assessments).size < assessments.length) return '"assessments" lists the same assessment twice';
+
+  const when: AssessmentRuleConditions = {};
+  const conditions = raw.when === undefined ? {} : raw.when;
+  if (!isObject(conditions)) return '"when" is not an object';
+
+  for (const key of Object.keys(conditions)) {
+    const value = conditions[key];
+    if (key === 'bmiCategories') {
+      const categories = readList(value, BMI_CATEGORIES);
+      if (!categories) return `"bmiCategories" must list ${BMI_CATEGORIES.join(', ')}`;
+      when.bmiCategories = categories;
+    } else if (key === 'sexes') {
+      const sexes = readList(value, SEX_OPTIONS);
+      if (!sexes) return `"sexes" must list ${SEX_OPTIONS.join(', ')}`;
+      when.sexes = sexes;
+    } else if ((RANGE_CONDITIONS as readonly string[]).includes(key)) {
+      const range = readRange(key, value);
+      if (typeof range === 'string') return range;
+      when[key as typeof RANGE_CONDITIONS[number]] = range;
+    } else if (key === 'vitals') {
+      if (!isObject(value)) return '"vitals" is not an object';
+      const vitals: Partial<Record<VitalSign, RuleRange>> = {};
+      for (const [sign, rangeValue] of Object.entries(value)) {
+        const range = readRange(sign, rangeValue);
+        if (!VITAL_SIGN_FIELDS.includes(sign as VitalSign)) return `unknown vital sign "${sign}"`;
+        if (typeof range === 'string') return range;
+        vitals[sign as VitalSign] = range;
+      }
+      when.vitals = vitals;
+    } else {
+      return `unknown condition "${key}"`;
+    }
+  }
+
+  return { name: raw.name.trim(), when, assessments };
+};
+
+/*
+Function: Read "assessmentRules" from config.json
+Purpose: All or nothing: when any rule is invalid the problems are returned and
+the rules are not used, since routing with part of a rule set could send
+patients to the wrong form.
+*/
+export const readAssessmentRules = (raw: unknown): { rules?: AssessmentRule[]; problems: string[] } => {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { problems: ['"assessmentRules" must be a non-empty list of rules'] };
+  }
+
+  const rules: AssessmentRule[] = [];
+  const problems: string[] = [];
+  raw.forEach((item, index) => {
+    const rule = readRule(item);
+    if (typeof rule === 'string') {
+      problems.push(`rule ${index + 1}: ${rule}`);
+    } else {
+      rules.push(rule);
+    }
+  });
+  return problems.length > 0 ? { problems } : { rules, problems };
+};
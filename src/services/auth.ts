@@ -0,0 +1,155 @@
+import axios from 'axios';
+import { AuthSession } from '../types';
+import { getConfig } from './config';
+import { LoginRequest } from './dto';
+import { createLogger } from './logger';
+import { toAuthTokens, toRole } from './mappers';
+import { queryCache } from './queryCache';
+
+/*
+Authentication state for the whole app.
+
+Session storage:
+   - The JWT pair, username and role are kept in localStorage so a reload stays signed in
+   - Components follow the session through useAuth (subscribeToSession/getSession)
+
+Token lifecycle:
+   - login() exchanges username/password for an access and refresh token
+   - refreshSession() trades the refresh token for a new access token; concurrent
+     callers share one request
+   - expireSession() ends the session when refreshing is no longer possible;
+     protected routes then redirect to /login
+
+Auth requests use plain axios rather than the `api` instance, so they never pass
+through its 401 handling and cannot loop.
+
+Signing out (or expiring) also clears the query cache, so no patient data
+from the previous session stays in memory.
+*/
+
+export type SessionEndReason = 'logout' | 'expired';
+
+const STORAGE_KEY = 'patient-app.session';
+
+const log = createLogger('auth');
+
+const readStoredSession = (): AuthSession | null => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<AuthSession>;
+    if (parsed.accessToken && parsed.refreshToken && parsed.username && parsed.role) {
+      return {
+        accessToken: parsed.accessToken,
+        refreshToken: parsed.refreshToken,
+        username: parsed.username,
+        role: toRole(parsed.role),
+      };
+    }
+  } catch (error) {
+    log.warn('Ignoring unreadable stored session');
+  }
+  return null;
+};
+
+let session: AuthSession | null = readStoredSession();
+let sessionEndReason: SessionEndReason | null = null;
+let refreshInFlight: Promise<string> | null = null;
+const listeners = new Set<() => void>();
+
+const setSession = (next: AuthSession | null) => {
+  session = next;
+  if (next) {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } else {
+    window.localStorage.removeItem(STORAGE_KEY);
+  }
+  listeners.forEach(listener => listener());
+};
+
+const endSession = (reason: SessionEndReason) => {
+  if (!session) return;
+  sessionEndReason = reason;
+  refreshInFlight = null;
+  queryCache.clear();
+  setSession(null);
+};
+
+/*
+Function: Read the claims of a JWT
+Purpose: Only used to find the user's role when the login response does not
+carry it. The signature is not checked here; the backend verifies every token.
+*/
+const readTokenClaims = (token: string): Record<string, unknown> => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(window.atob(payload));
+    return typeof claims === 'object' && claims !== null ? claims : {};
+  } catch (error) {
+    return {};
+  }
+};
+
+const readRole = (data: unknown, accessToken: string) => {
+  const fromResponse = typeof data === 'object' && data !== null ? (data as Record<string, unknown>).role : undefined;
+  return toRole(fromResponse ?? readTokenClaims(accessToken).role);
+};
+
+const authUrl = (path: string) => `${getConfig().apiBaseUrl}${path}`;
+
+export const getSession = (): AuthSession | null => session;
+
+export const getSessionEndReason = (): SessionEndReason | null => sessionEndReason;
+
+export const subscribeToSession = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const authApi = {
+  login: async (username: string, password: string): Promise<AuthSession> => {
+    const body: LoginRequest = { username: username.trim(), password };
+    const response = await axios.post<unknown>(authUrl('/auth/token/'), body, {
+      timeout: getConfig().requestTimeoutMs,
+    });
+
+    const tokens = toAuthTokens(response.data);
+    const next: AuthSession = { ...tokens, username: body.username, role: readRole(response.data, tokens.accessToken) };
+    sessionEndReason = null;
+    setSession(next);
+    return next;
+  },
+
+  /*
+  Function: Refresh the access token
+  Purpose: Called by the api interceptor after a 401. Every request that fails
+  while a refresh is running waits for that same refresh.
+  */
+  refreshSession: (): Promise<string> => {
+    const current = session;
+    if (!current) return Promise.reject(new Error('Not signed in'));
+
+    if (!refreshInFlight) {
+      const refresh = axios
+        .post<unknown>(authUrl('/auth/token/refresh/'), { refresh: current.refreshToken }, {
+          timeout: getConfig().requestTimeoutMs,
+        })
+        .then(response => {
+          const tokens = toAuthTokens(response.data, current.refreshToken);
+          if (session === current) setSession({ ...current, ...tokens });
+          return tokens.accessToken;
+        })
+        .finally(() => {
+          if (refreshInFlight === refresh) refreshInFlight = null;
+        });
+      refreshInFlight = refresh;
+    }
+    return refreshInFlight;
+  },
+
+  expireSession: () => endSession('expired'),
+
+  logout: () => endSession('logout'),
+};
@@ -0,0 +1,33 @@
+import { adultBmiCategory, bmiCategoryRange, describeBmiCategory, isBmiScheme } from './bmiClassification';
+
+test('classifies the full WHO obesity classes', () => {
+  expect(adultBmiCategory(18.4, 'who')).toBe('underweight');
+  expect(adultBmiCategory(18.5, 'who')).toBe('normal');
+  expect(adultBmiCategory(29.9, 'who')).toBe('overweight');
+  expect(adultBmiCategory(30, 'who')).toBe('obese-1');
+  expect(adultBmiCategory(35, 'who')).toBe('obese-2');
+  expect(adultBmiCategory(42, 'who')).toBe('obese-3');
+});
+
+test('uses the lower cut-offs of the Asian schemes', () => {
+  expect(adultBmiCategory(23, 'who-asian')).toBe('overweight');
+  expect(adultBmiCategory(27.5, 'who-asian')).toBe('obese-1');
+  expect(adultBmiCategory(37.5, 'who-asian')).toBe('obese-3');
+  expect(adultBmiCategory(25, 'asia-pacific')).toBe('obese-1');
+  expect(adultBmiCategory(45, 'asia-pacific')).toBe('obese-2');
+});
+
+test('describes category ranges', () => {
+  expect(bmiCategoryRange('underweight', 'who')).toBe('below 18.5');
+  expect(bmiCategoryRange('normal', 'who')).toBe('18.5–24.9');
+  expect(bmiCategoryRange('overweight', 'who-asian')).toBe('23–27.4');
+  expect(bmiCategoryRange('obese-3', 'who')).toBe('from 40');
+  expect(bmiCategoryRange('obese-3', 'asia-pacific')).toBeUndefined();
+  expect(describeBmiCategory('obese-1', 'who-asian')).toBe('WHO, Asian populations classification, BMI 27.5–32.4');
+});
+
+test('recognises scheme names', () => {
+  expect(isBmiScheme('who-asian')).toBe(true);
+  expect(isBmiScheme('asian')).toBe(false);
+  expect(isBmiScheme('toString')).toBe(false);
+});
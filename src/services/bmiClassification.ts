@@ -0,0 +1,83 @@
+/*
+Adult BMI categories under the classification scheme a clinic has chosen
+(config "bmiScheme", services/config).
+
+   - who:          WHO classes: Underweight < 18.5, Normal < 25, Overweight < 30,
+                   Obese class I < 35, class II < 40, class III from 40
+   - who-asian:    WHO expert consultation action points for Asian populations:
+                   Normal < 23, Overweight < 27.5, Obese class I < 32.5,
+                   class II < 37.5, class III from 37.5
+   - asia-pacific: WHO Western Pacific cut-offs: Normal < 23, Overweight < 25,
+                   Obese class I < 30, class II from 30
+
+Every scheme starts Underweight below 18.5. The scheme only decides the status
+and its colour; which assessment follows is decided in services/bmiStatus.
+Patients under 20 are classified by BMI-for-age instead (services/bmiForAge).
+*/
+
+export type BmiScheme = 'who' | 'who-asian' | 'asia-pacific';
+
+export type BmiCategory = 'underweight' | 'normal' | 'overweight' | 'obese-1' | 'obese-2' | 'obese-3';
+
+export const BMI_CATEGORY_LABELS: Record<BmiCategory, string> = {
+  underweight: 'Underweight',
+  normal: 'Normal',
+  overweight: 'Overweight',
+  'obese-1': 'Obese class I',
+  'obese-2': 'Obese class II',
+  'obese-3': 'Obese class III',
+};
+
+interface SchemeDefinition {
+  label: string;
+  /* Lowest BMI of each category above underweight, in ascending order. */
+  from: [BmiCategory, number][];
+}
+
+export const BMI_SCHEMES: Record<BmiScheme, SchemeDefinition> = {
+  who: {
+    label: 'WHO',
+    from: [['normal', 18.5], ['overweight', 25], ['obese-1', 30], ['obese-2', 35], ['obese-3', 40]],
+  },
+  'who-asian': {
+    label: 'WHO, Asian populations',
+    from: [['normal', 18.5], ['overweight', 23], ['obese-1', 27.5], ['obese-2', 32.5], ['obese-3', 37.5]],
+  },
+  'asia-pacific': {
+    label: 'Asia-Pacific',
+    from: [['normal', 18.5], ['overweight', 23], ['obese-1', 25], ['obese-2', 30]],
+  },
+};
+
+export const DEFAULT_BMI_SCHEME: BmiScheme = 'who';
+
+export const isBmiScheme = (value: unknown): value is BmiScheme =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(BMI_SCHEMES, value);
+
+export const adultBmiCategory = (bmi: number, scheme: BmiScheme): BmiCategory => {
+  let category: BmiCategory = 'underweight';
+  BMI_SCHEMES[scheme].from.forEach(([next, from]) => {
+    if (bmi >= from) category = next;
+  });
+  return category;
+};
+
+/*
+Function: The BMI range of a category, for legends and tooltips
+Purpose: "25–29.9", "from 40" or "below 18.5"; undefined when the scheme does
+not have the category (Asia-Pacific stops at class II).
+*/
+export const bmiCategoryRange = (category: BmiCategory, scheme: BmiScheme): string | undefined => {
+  const bands = BMI_SCHEMES[scheme].from;
+  if (category === 'underweight') return `below ${bands[0][1]}`;
+
+  const index = bands.findIndex(([name]) => name === category);
+  if (index === -1) return undefined;
+  const next = bands[index + 1];
+  return next ? `${bands[index][1]}–${(next[1] - 0.1).toFixed(1)}` : `from ${bands[index][1]}`;
+};
+
+export const describeBmiCategory = (category: BmiCategory, scheme: BmiScheme): string => {
+  const range = bmiCategoryRange(category, scheme);
+  return `${BMI_SCHEMES[scheme].label} classification${range ? `, BMI ${range}` : ''}`;
+};
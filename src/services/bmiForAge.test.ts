@@ -0,0 +1,79 @@
+import {
+  ageInMonths,
+  calculateBmiForAge,
+  formatBmiForAge,
+  formatPercentile,
+  lmsZScore,
+  normalPercentile,
+  pediatricCategory,
+} from './bmiForAge';
+import { bmiForAgeLms } from './growthReference';
+import { GrowthReferenceSex } from './sexGender';
+
+test('counts age in months up to the visit', () => {
+  expect(ageInMonths('2014-03-10', '2024-03-10')).toBeCloseTo(120, 0);
+  expect(ageInMonths('2014-03-10', '2024-09-10T08:30:00Z')).toBeCloseTo(126, 0);
+});
+
+test('turns z-scores into percentiles', () => {
+  expect(normalPercentile(0)).toBeCloseTo(50, 5);
+  expect(normalPercentile(1.6449)).toBeCloseTo(95, 2);
+  expect(normalPercentile(-1.6449)).toBeCloseTo(5, 2);
+});
+
+test('interpolates the reference between published months', () => {
+  const before = bmiForAgeLms('male', 120.5);
+  const after = bmiForAgeLms('male', 121.5);
+  const between = bmiForAgeLms('male', 121);
+  expect(between?.M).toBeCloseTo(((before?.M ?? 0) + (after?.M ?? 0)) / 2, 5);
+  expect(bmiForAgeLms('female', 23)).toBeUndefined();
+  expect(bmiForAgeLms('female', 241)).toBeUndefined();
+});
+
+test('matches the published CDC 5th, 85th and 95th percentile BMIs', () => {
+  const published: [GrowthReferenceSex, number, number, number, number][] = [
+    ['male', 24, 14.7373, 18.1622, 19.338],
+    ['male', 60.5, 13.8385, 16.8408, 17.9389],
+    ['male', 150.5, 15.2111, 21.4385, 24.7135],
+    ['male', 239.5, 19.1055, 27.0158, 30.5486],
+    ['female', 36.5, 14.0021, 17.1663, 18.2548],
+    ['female', 120.5, 14.0354, 19.984, 22.9826],
+    ['female', 192.5, 16.7879, 24.6637, 28.9098],
+  ];
+  published.forEach(([sex, ageMonths, p5, p85, p95]) => {
+    const lms = bmiForAgeLms(sex, ageMonths);
+    if (!lms) throw new Error(`no reference for ${sex} at ${ageMonths} months`);
+    expect(normalPercentile(lmsZScore(lms, p5))).toBeCloseTo(5, 1);
+    expect(normalPercentile(lmsZScore(lms, p85))).toBeCloseTo(85, 1);
+    expect(normalPercentile(lmsZScore(lms, p95))).toBeCloseTo(95, 1);
+  });
+});
+
+test('places the median BMI at the 50th percentile', () => {
+  const result = calculateBmiForAge(16.62, 'Male', '2014-03-10', '2024-03-10');
+  expect(result?.percentile).toBeCloseTo(50, 0);
+  expect(result?.category).toBe('healthy');
+});
+
+test('categorises children by percentile', () => {
+  expect(calculateBmiForAge(13.5, 'Female', '2014-03-10', '2024-03-10')?.category).toBe('underweight');
+  expect(calculateBmiForAge(21, 'Female', '2014-03-10', '2024-03-10')?.category).toBe('overweight');
+  expect(calculateBmiForAge(25, 'Female', '2014-03-10', '2024-03-10')?.category).toBe('obese');
+  expect(pediatricCategory(84.9)).toBe('healthy');
+  expect(pediatricCategory(85)).toBe('overweight');
+});
+
+test('has no reference under 2 years or for other sexes', () => {
+  expect(calculateBmiForAge(17, 'Male', '2023-06-01', '2024-03-10')).toBeUndefined();
+  expect(calculateBmiForAge(17, 'Undisclosed', '2014-03-10', '2024-03-10')).toBeUndefined();
+});
+
+test('formats percentiles without crossing a category', () => {
+  expect(formatPercentile(84.6)).toBe('84th');
+  expect(formatPercentile(2.2)).toBe('2nd');
+  expect(formatPercentile(11.9)).toBe('11th');
+  expect(formatPercentile(0.4)).toBe('below the 1st');
+  expect(formatPercentile(99.6)).toBe('99th or above');
+  expect(formatBmiForAge({ ageMonths: 120, zScore: 1.234, percentile: 89.1, category: 'overweight' }))
+    .toBe('89th percentile, z +1.23');
+});
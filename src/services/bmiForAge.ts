@@ -0,0 +1,98 @@
+import { Sex } from '../types';
+import { bmiForAgeLms, LmsParameters } from './growthReference';
+import { growthReferenceSex } from './sexGender';
+
+/*
+BMI-for-age for patients under 20, where adult BMI cut-offs do not apply.
+
+   - Age is counted in months from the date of birth to the visit date
+   - The z-score comes from the LMS reference (services/growthReference) and
+     the percentile from the standard normal distribution
+   - Categories follow CDC: underweight below the 5th percentile, healthy weight
+     up to the 85th, overweight up to the 95th, obese from the 95th
+   - Nothing is calculated under 2 years or when sex is not recorded as female
+     or male, because there is no reference for them
+*/
+
+export type PediatricCategory = 'underweight' | 'healthy' | 'overweight' | 'obese';
+
+export interface BmiForAge {
+  ageMonths: number;
+  zScore: number;
+  percentile: number;
+  category: PediatricCategory;
+}
+
+export const PEDIATRIC_CATEGORY_LABELS: Record<PediatricCategory, string> = {
+  underweight: 'Underweight',
+  healthy: 'Healthy weight',
+  overweight: 'Overweight',
+  obese: 'Obese',
+};
+
+export const ADULT_AGE_MONTHS = 240;
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+const toUtcDay = (value: string) => Date.parse(`${value.slice(0, 10)}T00:00:00Z`);
+
+export const ageInMonths = (dateOfBirth: string, onDate: string): number =>
+  (toUtcDay(onDate) - toUtcDay(dateOfBirth)) / (DAYS_PER_MONTH * 24 * 60 * 60 * 1000);
+
+export const lmsZScore = ({ L, M, S }: LmsParameters, value: number): number =>
+  L === 0 ? Math.log(value / M) / S : (Math.pow(value / M, L) - 1) / (L * S);
+
+/*
+Function: Standard normal cumulative distribution
+Purpose: Turns a z-score into a percentile (0–100). Uses the Abramowitz and
+Stegun approximation of erf, accurate to about 1e-7.
+*/
+export const normalPercentile = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return 50 * (1 + (z < 0 ? -erf : erf));
+};
+
+export const pediatricCategory = (percentile: number): PediatricCategory => {
+  if (percentile < 5) return 'underweight';
+  if (percentile < 85) return 'healthy';
+  if (percentile < 95) return 'overweight';
+  return 'obese';
+};
+
+export const calculateBmiForAge = (
+  bmi: number,
+  sex: Sex | undefined,
+  dateOfBirth: string,
+  visitDate: string
+): BmiForAge | undefined => {
+  const referenceSex = growthReferenceSex(sex);
+  const ageMonths = ageInMonths(dateOfBirth, visitDate);
+  const lms = referenceSex && bmiForAgeLms(referenceSex, ageMonths);
+  if (!lms || !(bmi > 0)) return undefined;
+
+  const zScore = lmsZScore(lms, bmi);
+  const percentile = normalPercentile(zScore);
+  return { ageMonths, zScore, percentile, category: pediatricCategory(percentile) };
+};
+
+const ordinal = (n: number) => {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] || 'th'}`;
+};
+
+/*
+Function: Percentile as shown to staff
+Purpose: Rounded down, so the shown percentile never crosses into the next
+category (84.6 is the 84th, still healthy weight).
+*/
+export const formatPercentile = (percentile: number): string => {
+  if (percentile < 1) return 'below the 1st';
+  if (percentile >= 99) return '99th or above';
+  return ordinal(Math.floor(percentile));
+};
+
+export const formatBmiForAge = (value: BmiForAge): string =>
+  `${formatPercentile(value.percentile)} percentile, z ${value.zScore >= 0 ? '+' : '−'}${Math.abs(value.zScore).toFixed(2)}`;
@@ -0,0 +1,33 @@
+import { classifyBmi } from './bmiStatus';
+
+const child = { dateOfBirth: '2014-03-10', sex: 'Female' as const };
+
+test('uses adult cut-offs from age 20', () => {
+  const adult = { dateOfBirth: '1990-01-01', sex: 'Male' as const };
+  expect(classifyBmi(18, 'who', adult, '2024-03-10')).toMatchObject({ label: 'Underweight' });
+  expect(classifyBmi(25, 'who', adult, '2024-03-10')).toMatchObject({ label: 'Overweight' });
+  expect(classifyBmi(22, 'who')).toMatchObject({ label: 'Normal' });
+});
+
+test('labels adults with the clinic scheme', () => {
+  expect(classifyBmi(31, 'who')).toMatchObject({ label: 'Obese class I', category: 'obese-1' });
+  expect(classifyBmi(24, 'who-asian')).toMatchObject({ label: 'Overweight', category: 'overweight' });
+  expect(classifyBmi(24, 'who')).toMatchObject({ label: 'Normal' });
+});
+
+test('classifies children by percentile instead of raw BMI', () => {
+  const overweight = classifyBmi(21, 'who', child, '2024-03-10');
+  expect(overweight).toMatchObject({ label: 'Overweight', category: 'overweight' });
+  expect(overweight.bmiForAge?.percentile).toBeGreaterThanOrEqual(85);
+
+  expect(classifyBmi(17, 'who', child, '2024-03-10')).toMatchObject({ label: 'Healthy weight', category: 'normal' });
+});
+
+test('falls back to adult cut-offs with a note when there is no reference', () => {
+  const status = classifyBmi(21, 'who', { ...child, sex: 'Other' }, '2024-03-10');
+  expect(status).toMatchObject({ label: 'Normal' });
+  expect(status.bmiForAge).toBeUndefined();
+  expect(status.note).toMatch(/female or male/);
+
+  expect(classifyBmi(17, 'who', { ...child, dateOfBirth: '2023-06-01' }, '2024-03-10').note).toMatch(/under 2 years/);
+});
@@ -0,0 +1,82 @@
+import { Sex } from '../types';
+import { adultBmiCategory, BMI_CATEGORY_LABELS, BmiCategory, BmiScheme } from './bmiClassification';
+import {
+  ADULT_AGE_MONTHS,
+  ageInMonths,
+  BmiForAge,
+  calculateBmiForAge,
+  PEDIATRIC_CATEGORY_LABELS,
+  PediatricCategory,
+} from './bmiForAge';
+import { REFERENCE_AGE_MONTHS } from './growthReference';
+
+/*
+BMI status for adults and children alike. Which assessment follows is decided
+by the clinic's rules (services/assessmentRules).
+
+Adults (20 and over):
+   - Status under the clinic's classification scheme (services/bmiClassification)
+
+Under 20 (services/bmiForAge):
+   - Status by BMI-for-age percentile: Underweight, Healthy weight, Overweight, Obese
+     (shown in the colour of obese class I)
+   - When no percentile can be calculated (under 2 years, or sex not recorded as
+     female or male) the adult rules are used and `note` says why
+
+Without the patient's date of birth and the visit date the adult rules apply.
+*/
+
+export interface BmiStatus {
+  label: string;
+  category: BmiCategory;
+  bmiForAge?: BmiForAge;
+  note?: string;
+}
+
+interface BmiPatient {
+  dateOfBirth: string;
+  sex?: Sex;
+}
+
+const PEDIATRIC_COLOR_CATEGORIES: Record<PediatricCategory, BmiCategory> = {
+  underweight: 'underweight',
+  healthy: 'normal',
+  overweight: 'overweight',
+  obese: 'obese-1',
+};
+
+const adultStatus = (bmi: number, scheme: BmiScheme): BmiStatus => {
+  const category = adultBmiCategory(bmi, scheme);
+  return {
+    label: BMI_CATEGORY_LABELS[category],
+    category,
+  };
+};
+
+const noReferenceNote = (ageMonths: number) =>
+  ageMonths < REFERENCE_AGE_MONTHS.min
+    ? 'No BMI-for-age reference under 2 years; adult cut-offs shown'
+    : 'BMI-for-age needs sex recorded as female or male; adult cut-offs shown';
+
+export const classifyBmi = (
+  bmi: number,
+  scheme: BmiScheme,
+  patient?: BmiPatient | null,
+  visitDate?: string
+): BmiStatus => {
+  if (!patient?.dateOfBirth || !visitDate) return adultStatus(bmi, scheme);
+
+  const ageMonths = ageInMonths(patient.dateOfBirth, visitDate);
+  if (!(ageMonths < ADULT_AGE_MONTHS)) return adultStatus(bmi, scheme);
+
+  const bmiForAge = calculateBmiForAge(bmi, patient.sex, patient.dateOfBirth, visitDate);
+  if (!bmiForAge) {
+    return { ...adultStatus(bmi, scheme), note: noReferenceNote(ageMonths) };
+  }
+
+  return {
+    label: PEDIATRIC_CATEGORY_LABELS[bmiForAge.category],
+    category: PEDIATRIC_COLOR_CATEGORIES[bmiForAge.category],
+    bmiForAge,
+  };
+};
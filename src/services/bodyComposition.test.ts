@@ -0,0 +1,23 @@
+import { waistToHeightRatio, waistToHeightRisk, waistToHipRatio } from './bodyComposition';
+
+test('categorises the waist-to-height ratio', () => {
+  expect(waistToHeightRisk(0.38)).toBe('low');
+  expect(waistToHeightRisk(0.45)).toBe('healthy');
+  expect(waistToHeightRisk(0.5)).toBe('increased');
+  expect(waistToHeightRisk(0.6)).toBe('high');
+});
+
+test('derives the waist-to-height ratio from the measurements', () => {
+  expect(waistToHeightRatio(180, 90)).toEqual({ ratio: 0.5, risk: 'increased' });
+  expect(waistToHeightRatio(180, 89.9)).toEqual({ ratio: 0.5, risk: 'increased' });
+  expect(waistToHeightRatio(180, undefined)).toBeUndefined();
+  expect(waistToHeightRatio(180, NaN)).toBeUndefined();
+});
+
+test('uses sex-specific waist-to-hip thresholds', () => {
+  expect(waistToHipRatio(85, 100, 'Female')).toEqual({ ratio: 0.85, risk: 'increased' });
+  expect(waistToHipRatio(85, 100, 'Male')).toEqual({ ratio: 0.85, risk: 'healthy' });
+  expect(waistToHipRatio(92, 100, 'Male')).toEqual({ ratio: 0.92, risk: 'increased' });
+  expect(waistToHipRatio(85, 100, 'Other')).toEqual({ ratio: 0.85, risk: undefined });
+  expect(waistToHipRatio(85, undefined, 'Female')).toBeUndefined();
+});
@@ -0,0 +1,65 @@
+import { Sex } from '../types';
+import { growthReferenceSex } from './sexGender';
+
+/*
+Waist ratios that complement BMI, which misjudges muscular and older patients
+because it cannot tell fat from muscle or where the fat sits.
+
+Waist-to-height ratio (waist ÷ height, both in cm), the same for everyone:
+   - below 0.4   below the healthy range
+   - 0.4 – 0.49  healthy
+   - 0.5 – 0.59  increased risk
+   - 0.6 and up  high risk
+
+Waist-to-hip ratio (WHO thresholds for abdominal obesity):
+   - women 0.85 and up, men 0.90 and up: increased risk, otherwise healthy
+   - no category when the patient's sex is not recorded as female or male
+
+Ratios are rounded to two decimals before they are categorised, so the shown
+value always matches its category.
+*/
+
+export type BodyRisk = 'low' | 'healthy' | 'increased' | 'high';
+
+export interface BodyRatio {
+  ratio: number;
+  risk?: BodyRisk;
+}
+
+export const BODY_RISK_LABELS: Record<BodyRisk, string> = {
+  low: 'Below healthy range',
+  healthy: 'Healthy',
+  increased: 'Increased risk',
+  high: 'High risk',
+};
+
+const WAIST_TO_HIP_LIMIT = { female: 0.85, male: 0.9 };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const isMeasured = (value: number | undefined): value is number => value !== undefined && value > 0;
+
+export const waistToHeightRisk = (ratio: number): BodyRisk => {
+  if (ratio < 0.4) return 'low';
+  if (ratio < 0.5) return 'healthy';
+  if (ratio < 0.6) return 'increased';
+  return 'high';
+};
+
+export const waistToHipRisk = (ratio: number, sex?: Sex): BodyRisk | undefined => {
+  const referenceSex = growthReferenceSex(sex);
+  if (!referenceSex) return undefined;
+  return ratio >= WAIST_TO_HIP_LIMIT[referenceSex] ? 'increased' : 'healthy';
+};
+
+export const waistToHeightRatio = (height: number, waist?: number): BodyRatio | undefined => {
+  if (!isMeasured(waist) || !isMeasured(height)) return undefined;
+  const ratio = round2(waist / height);
+  return { ratio, risk: waistToHeightRisk(ratio) };
+};
+
+export const waistToHipRatio = (waist?: number, hip?: number, sex?: Sex): BodyRatio | undefined => {
+  if (!isMeasured(waist) || !isMeasured(hip)) return undefined;
+  const ratio = round2(waist / hip);
+  return { ratio, risk: waistToHipRisk(ratio, sex) };
+};
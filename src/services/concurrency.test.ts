@@ -0,0 +1,17 @@
+import { mapWithConcurrency } from './concurrency';
+
+test('never runs more than the limit at once and keeps the input order', async () => {
+  let running = 0;
+  let peak = 0;
+
+  const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay) => {
+    running++;
+    peak = Math.max(peak, running);
+    await new Promise(resolve => setTimeout(resolve, delay));
+    running--;
+    return delay * 2;
+  });
+
+  expect(peak).toBe(2);
+  expect(results).toEqual([60, 20, 40, 10, 30]);
+});
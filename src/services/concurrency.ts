@@ -0,0 +1,25 @@
+/*
+Function: Map over items with a bounded number of requests in flight
+Purpose: Runs `task` for every item but never more than `limit` at a time, so
+a page of 50 patients does not open 150 connections at once. Results keep the
+order of `items`; the first rejection rejects the whole call.
+*/
+export const mapWithConcurrency = async <T, R>(
+  items: readonly T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+};
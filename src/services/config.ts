@@ -0,0 +1,322 @@
+import axios from 'axios';
+import { createLogger, LOG_LEVELS, LogLevel } from './logger';
+import { nationalIdMatcher } from './contactDetails';
+import { DEFAULT_PATIENT_NUMBER_FORMAT, PatientNumberFormat } from './patientNumbers';
+import { BmiScheme, DEFAULT_BMI_SCHEME, isBmiScheme } from './bmiClassification';
+import { AssessmentRule, DEFAULT_ASSESSMENT_RULES, readAssessmentRules } from './assessmentRules';
+
+/*
+Runtime configuration for the web app.
+
+Values are resolved in three layers, later layers winning:
+   1. Built-in defaults (local development against localhost:8000)
+   2. Build-time environment variables (REACT_APP_* in .env files or the shell)
+   3. /config.json fetched at startup, so one build can be deployed to many clinics
+
+Supported settings:
+   - apiBaseUrl:        REACT_APP_API_BASE_URL      / "apiBaseUrl"
+   - requestTimeoutMs:  REACT_APP_API_TIMEOUT_MS    / "requestTimeoutMs"
+   - clinicName:        REACT_APP_CLINIC_NAME       / "clinicName"
+   - features:          REACT_APP_FEATURES (comma separated, "-name" disables) / "features": { name: boolean }
+   - logLevel:          REACT_APP_LOG_LEVEL         / "logLevel" (debug, info, warn, error)
+   - diagnosticsUrl:    REACT_APP_DIAGNOSTICS_URL   / "diagnosticsUrl" (optional log sink)
+   - patientNumberFormat (services/patientNumbers):
+       prefix          REACT_APP_PATIENT_NUMBER_PREFIX       / "patientNumberFormat": { "prefix" }
+       clinicCode      REACT_APP_CLINIC_CODE                 / { "clinicCode" }
+       sequenceDigits  REACT_APP_PATIENT_NUMBER_DIGITS       / { "sequenceDigits" }
+       checkDigit      REACT_APP_PATIENT_NUMBER_CHECK_DIGIT  / { "checkDigit" } (luhn, none)
+   - nationalIdPattern: REACT_APP_NATIONAL_ID_PATTERN / "nationalIdPattern" (regular
+                        expression the whole national ID must match, services/contactDetails)
+   - bmiScheme:         REACT_APP_BMI_SCHEME / "bmiScheme" (who, who-asian, asia-pacific;
+                        adult BMI categories, services/bmiClassification)
+   - assessmentRules:   "assessmentRules" only (which assessments a visit triggers,
+                        services/assessmentRules; an invalid rule discards the list)
+
+loadConfig() must finish before the app renders; afterwards getConfig() returns
+the resolved values synchronously.
+*/
+
+export interface AppConfig {
+  apiBaseUrl: string;
+  requestTimeoutMs: number;
+  clinicName: string;
+  features: Record<string, boolean>;
+  logLevel: LogLevel;
+  diagnosticsUrl?: string;
+  patientNumberFormat: PatientNumberFormat;
+  nationalIdPattern?: string;
+  bmiScheme: BmiScheme;
+  assessmentRules: AssessmentRule[];
+}
+
+const DEFAULT_CONFIG: AppConfig = {
+  apiBaseUrl: 'http://localhost:8000/api',
+  requestTimeoutMs: 15000,
+  clinicName: 'Patient Management',
+  features: {},
+  logLevel: process.env.NODE_ENV === 'production' ? 'warn' : 'debug',
+  patientNumberFormat: DEFAULT_PATIENT_NUMBER_FORMAT,
+  bmiScheme: DEFAULT_BMI_SCHEME,
+  assessmentRules: DEFAULT_ASSESSMENT_RULES,
+};
+
+const log = createLogger('config');
+
+type PartialConfig = Partial<Omit<AppConfig, 'patientNumberFormat'>> & {
+  patientNumberFormat?: Partial<PatientNumberFormat>;
+};
+
+const parseFeatureList = (value: string): Record<string, boolean> => {
+  const features: Record<string, boolean> = {};
+  value.split(',').map(item => item.trim()).filter(Boolean).forEach(item => {
+    if (item.startsWith('-')) {
+      features[item.slice(1)] = false;
+    } else {
+      features[item] = true;
+    }
+  });
+  return features;
+};
+
+const parsePositiveNumber = (value: unknown): number | undefined => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const parseLogLevel = (value: unknown): LogLevel | undefined =>
+  typeof value === 'string' && (LOG_LEVELS as string[]).includes(value.trim().toLowerCase())
+    ? value.trim().toLowerCase() as LogLevel
+    : undefined;
+
+const MAX_SEQUENCE_DIGITS = 12;
+
+const parseCode = (value: unknown): string | undefined =>
+  typeof value === 'string' && /^[A-Za-z0-9]+$/.test(value.trim()) ? value.trim().toUpperCase() : undefined;
+
+const parseSequenceDigits = (value: unknown): number | undefined => {
+  const digits = parsePositiveNumber(value);
+  return digits && Number.isInteger(digits) && digits <= MAX_SEQUENCE_DIGITS ? digits : undefined;
+};
+
+const parsePattern = (value: unknown): string | undefined => {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  try {
+    nationalIdMatcher(value.trim());
+    return value.trim();
+  } catch {
+    return undefined;
+  }
+};
+
+const parseBmiScheme = (value: unknown): BmiScheme | undefined => {
+  const scheme = typeof value === 'string' ? value.trim().toLowerCase() : value;
+  return isBmiScheme(scheme) ? scheme : undefined;
+};
+
+const parseCheckDigit = (value: unknown): PatientNumberFormat['checkDigit'] | undefined =>
+  value === 'luhn' || value === 'none' ? value : undefined;
+
+/*
+Function: Read the patient number settings
+Purpose: Shared by both layers; invalid entries are reported and skipped.
+*/
+const readPatientNumberFormat = (
+  raw: Record<string, unknown>,
+  source: string
+): Partial<PatientNumberFormat> => {
+  const format: Partial<PatientNumberFormat> = {};
+  const readers = {
+    prefix: parseCode,
+    clinicCode: parseCode,
+    sequenceDigits: parseSequenceDigits,
+    checkDigit: parseCheckDigit,
+  };
+
+  (Object.keys(readers) as (keyof typeof readers)[]).forEach(key => {
+    if (raw[key] === undefined || raw[key] === '') return;
+    const value = readers[key](raw[key]);
+    if (value === undefined) {
+      log.warn(`${source}: ignoring invalid patient number "${key}"`);
+    } else {
+      (format as Record<string, unknown>)[key] = value;
+    }
+  });
+  return format;
+};
+
+const readEnvConfig = (): PartialConfig => {
+  const env = process.env;
+  const config: PartialConfig = {};
+
+  if (env.REACT_APP_API_BASE_URL) config.apiBaseUrl = env.REACT_APP_API_BASE_URL;
+  if (env.REACT_APP_CLINIC_NAME) config.clinicName = env.REACT_APP_CLINIC_NAME;
+
+  const timeout = parsePositiveNumber(env.REACT_APP_API_TIMEOUT_MS);
+  if (timeout) config.requestTimeoutMs = timeout;
+
+  if (env.REACT_APP_FEATURES) config.features = parseFeatureList(env.REACT_APP_FEATURES);
+
+  const logLevel = parseLogLevel(env.REACT_APP_LOG_LEVEL);
+  if (logLevel) config.logLevel = logLevel;
+  if (env.REACT_APP_DIAGNOSTICS_URL) config.diagnosticsUrl = env.REACT_APP_DIAGNOSTICS_URL;
+
+  if (env.REACT_APP_NATIONAL_ID_PATTERN) {
+    const pattern = parsePattern(env.REACT_APP_NATIONAL_ID_PATTERN);
+    if (pattern) {
+      config.nationalIdPattern = pattern;
+    } else {
+      log.warn('environment: ignoring invalid national ID pattern');
+    }
+  }
+
+  if (env.REACT_APP_BMI_SCHEME) {
+    const scheme = parseBmiScheme(env.REACT_APP_BMI_SCHEME);
+    if (scheme) {
+      config.bmiScheme = scheme;
+    } else {
+      log.warn('environment: ignoring unknown BMI scheme');
+    }
+  }
+
+  config.patientNumberFormat = readPatientNumberFormat({
+    prefix: env.REACT_APP_PATIENT_NUMBER_PREFIX,
+    clinicCode: env.REACT_APP_CLINIC_CODE,
+    sequenceDigits: env.REACT_APP_PATIENT_NUMBER_DIGITS,
+    checkDigit: env.REACT_APP_PATIENT_NUMBER_CHECK_DIGIT,
+  }, 'environment');
+
+  return config;
+};
+
+/*
+Function: Validate the contents of /config.json
+Purpose: The file is edited by hand on deployment, so unknown or malformed
+entries are reported and skipped rather than breaking startup.
+*/
+const readRuntimeConfig = (data: unknown): PartialConfig => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return {};
+  }
+
+  const raw = data as Record<string, unknown>;
+  const config: PartialConfig = {};
+
+  if (typeof raw.apiBaseUrl === 'string' && raw.apiBaseUrl.trim()) {
+    config.apiBaseUrl = raw.apiBaseUrl.trim();
+  } else if (raw.apiBaseUrl !== undefined) {
+    log.warn('config.json: ignoring invalid "apiBaseUrl"');
+  }
+
+  if (typeof raw.clinicName === 'string' && raw.clinicName.trim()) {
+    config.clinicName = raw.clinicName.trim();
+  } else if (raw.clinicName !== undefined) {
+    log.warn('config.json: ignoring invalid "clinicName"');
+  }
+
+  if (raw.requestTimeoutMs !== undefined) {
+    const timeout = parsePositiveNumber(raw.requestTimeoutMs);
+    if (timeout) {
+      config.requestTimeoutMs = timeout;
+    } else {
+      log.warn('config.json: ignoring invalid "requestTimeoutMs"');
+    }
+  }
+
+  if (typeof raw.features === 'object' && raw.features !== null && !Array.isArray(raw.features)) {
+    const features: Record<string, boolean> = {};
+    Object.entries(raw.features as Record<string, unknown>).forEach(([name, enabled]) => {
+      if (typeof enabled === 'boolean') {
+        features[name] = enabled;
+      } else {
+        log.warn(`config.json: ignoring non-boolean feature "${name}"`);
+      }
+    });
+    config.features = features;
+  }
+
+  if (raw.logLevel !== undefined) {
+    const logLevel = parseLogLevel(raw.logLevel);
+    if (logLevel) {
+      config.logLevel = logLevel;
+    } else {
+      log.warn('config.json: ignoring invalid "logLevel"');
+    }
+  }
+
+  if (typeof raw.diagnosticsUrl === 'string' && raw.diagnosticsUrl.trim()) {
+    config.diagnosticsUrl = raw.diagnosticsUrl.trim();
+  } else if (raw.diagnosticsUrl !== undefined) {
+    log.warn('config.json: ignoring invalid "diagnosticsUrl"');
+  }
+
+  if (raw.nationalIdPattern !== undefined) {
+    const pattern = parsePattern(raw.nationalIdPattern);
+    if (pattern) {
+      config.nationalIdPattern = pattern;
+    } else {
+      log.warn('config.json: ignoring invalid "nationalIdPattern"');
+    }
+  }
+
+  if (raw.bmiScheme !== undefined) {
+    const scheme = parseBmiScheme(raw.bmiScheme);
+    if (scheme) {
+      config.bmiScheme = scheme;
+    } else {
+      log.warn('config.json: ignoring unknown "bmiScheme"');
+    }
+  }
+
+  if (raw.assessmentRules !== undefined) {
+    const { rules, problems } = readAssessmentRules(raw.assessmentRules);
+    if (rules) {
+      config.assessmentRules = rules;
+    } else {
+      problems.forEach(problem => log.warn(`config.json: "assessmentRules" ${problem}`));
+      log.warn('config.json: ignoring invalid "assessmentRules", using the default rules');
+    }
+  }
+
+  if (typeof raw.patientNumberFormat === 'object' && raw.patientNumberFormat !== null) {
+    config.patientNumberFormat = readPatientNumberFormat(
+      raw.patientNumberFormat as Record<string, unknown>,
+      'config.json'
+    );
+  } else if (raw.patientNumberFormat !== undefined) {
+    log.warn('config.json: ignoring invalid "patientNumberFormat"');
+  }
+
+  return config;
+};
+
+const mergeConfig = (base: AppConfig, override: PartialConfig): AppConfig => ({
+  ...base,
+  ...override,
+  apiBaseUrl: (override.apiBaseUrl || base.apiBaseUrl).replace(/\/+$/, ''),
+  features: { ...base.features, ...override.features },
+  patientNumberFormat: { ...base.patientNumberFormat, ...override.patientNumberFormat },
+});
+
+let currentConfig: AppConfig = mergeConfig(DEFAULT_CONFIG, readEnvConfig());
+
+export const getConfig = (): AppConfig => currentConfig;
+
+export const isFeatureEnabled = (name: string): boolean => currentConfig.features[name] === true;
+
+/*
+Function: Load /config.json
+Purpose: Fetch deployment-specific overrides before the app renders.
+A missing or unreadable file is not an error: the build-time values are used.
+*/
+export const loadConfig = async (): Promise<AppConfig> => {
+  try {
+    const response = await axios.get<unknown>(`${process.env.PUBLIC_URL || ''}/config.json`, {
+      headers: { 'Cache-Control': 'no-cache' },
+      timeout: currentConfig.requestTimeoutMs,
+    });
+    currentConfig = mergeConfig(currentConfig, readRuntimeConfig(response.data));
+  } catch (error) {
+    log.info('No runtime config.json found, using build-time configuration');
+  }
+  return currentConfig;
+};
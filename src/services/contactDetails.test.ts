@@ -0,0 +1,54 @@
+import { validateContactDetails, validateEmail, validateNationalId, validatePhone } from './contactDetails';
+import { NewPatient } from '../types';
+
+const patient: NewPatient = {
+  patientNumber: 'PAT-000001-8',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  dateOfBirth: '1990-05-14',
+  sex: 'Female',
+  registrationDate: '2024-01-10',
+};
+
+describe('validatePhone', () => {
+  it('accepts international and local numbers with separators', () => {
+    expect(validatePhone('+44 20 7946 0958')).toBeNull();
+    expect(validatePhone('(020) 7946-0958')).toBeNull();
+  });
+
+  it('rejects letters and numbers of the wrong length', () => {
+    expect(validatePhone('0800 FLOWERS')).not.toBeNull();
+    expect(validatePhone('12345')).not.toBeNull();
+    expect(validatePhone('+1234567890123456')).not.toBeNull();
+  });
+});
+
+describe('validateEmail', () => {
+  it('needs an @ and a dotted domain', () => {
+    expect(validateEmail('jane@example.com')).toBeNull();
+    expect(validateEmail('jane@example')).not.toBeNull();
+  });
+});
+
+describe('validateNationalId', () => {
+  it('uses a generic format when none is configured', () => {
+    expect(validateNationalId('AB 12 34 56 C')).toBeNull();
+    expect(validateNationalId('A1')).not.toBeNull();
+  });
+
+  it('requires the configured pattern to match the whole ID', () => {
+    expect(validateNationalId('123-45-6789', '\\d{3}-\\d{2}-\\d{4}')).toBeNull();
+    expect(validateNationalId('123-45-67890', '\\d{3}-\\d{2}-\\d{4}')).not.toBeNull();
+  });
+});
+
+describe('validateContactDetails', () => {
+  it('accepts a patient without contact details', () => {
+    expect(validateContactDetails(patient)).toEqual({});
+  });
+
+  it('reports each invalid field', () => {
+    const errors = validateContactDetails({ ...patient, phone: 'abc', email: 'jane', nextOfKinPhone: '+44 20 7946 0958' });
+    expect(Object.keys(errors).sort()).toEqual(['email', 'nextOfKinName', 'phone']);
+  });
+});
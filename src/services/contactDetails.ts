@@ -0,0 +1,99 @@
+import { NewPatient, PatientField } from '../types';
+
+/*
+Validation for a patient's contact and identity details.
+
+Every field here is optional; a value that is filled in must be valid:
+   - phone numbers (patient and next of kin): digits with optional "+" and
+     spaces, dashes, dots or brackets as separators, 7 to 15 digits (E.164)
+   - email: one "@" and a dotted domain
+   - national ID: the deployment's pattern (config "nationalIdPattern"),
+     otherwise 4 to 25 letters, digits, spaces or dashes
+   - next of kin: a phone number or relationship needs a name
+
+validateContactDetails returns one message per invalid field, so the form can
+show each next to its input.
+*/
+
+export type ContactField = Extract<PatientField,
+  | 'phone'
+  | 'email'
+  | 'address'
+  | 'nationalId'
+  | 'nextOfKinName'
+  | 'nextOfKinRelationship'
+  | 'nextOfKinPhone'
+  | 'preferredLanguage'>;
+
+export type ContactErrors = Partial<Record<ContactField, string>>;
+
+export const PREFERRED_LANGUAGES = [
+  'English',
+  'Arabic',
+  'Chinese',
+  'French',
+  'German',
+  'Hindi',
+  'Portuguese',
+  'Russian',
+  'Spanish',
+  'Swahili',
+];
+
+const PHONE_SEPARATORS = /[\s().-]/g;
+const PHONE_MIN_DIGITS = 7;
+const PHONE_MAX_DIGITS = 15;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DEFAULT_NATIONAL_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 -]{2,23}[A-Za-z0-9]$/;
+
+export const validatePhone = (value: string): string | null => {
+  const compact = value.trim().replace(PHONE_SEPARATORS, '');
+  if (!/^\+?\d+$/.test(compact)) {
+    return 'Use digits only, optionally starting with +';
+  }
+  const digits = compact.replace('+', '').length;
+  return digits < PHONE_MIN_DIGITS || digits > PHONE_MAX_DIGITS
+    ? `Enter ${PHONE_MIN_DIGITS} to ${PHONE_MAX_DIGITS} digits, e.g. +44 20 7946 0958`
+    : null;
+};
+
+export const validateEmail = (value: string): string | null =>
+  EMAIL_PATTERN.test(value.trim()) ? null : 'Enter an email address like name@example.com';
+
+/*
+Function: Build the national ID matcher
+Purpose: The configured pattern must match the whole value. A pattern that
+does not compile is rejected when the config is read (services/config).
+*/
+export const nationalIdMatcher = (pattern?: string): RegExp =>
+  pattern ? new RegExp(`^(?:${pattern})$`) : DEFAULT_NATIONAL_ID_PATTERN;
+
+export const validateNationalId = (value: string, pattern?: string): string | null =>
+  nationalIdMatcher(pattern).test(value.trim()) ? null : 'National ID is not in the expected format';
+
+export const validateContactDetails = (patient: NewPatient, nationalIdPattern?: string): ContactErrors => {
+  const errors: ContactErrors = {};
+  const filled = (value: string | undefined) => value?.trim() || '';
+
+  const phone = filled(patient.phone);
+  const phoneError = phone && validatePhone(phone);
+  if (phoneError) errors.phone = phoneError;
+
+  const email = filled(patient.email);
+  const emailError = email && validateEmail(email);
+  if (emailError) errors.email = emailError;
+
+  const nationalId = filled(patient.nationalId);
+  const nationalIdError = nationalId && validateNationalId(nationalId, nationalIdPattern);
+  if (nationalIdError) errors.nationalId = nationalIdError;
+
+  const kinPhone = filled(patient.nextOfKinPhone);
+  const kinPhoneError = kinPhone && validatePhone(kinPhone);
+  if (kinPhoneError) errors.nextOfKinPhone = kinPhoneError;
+
+  if (!filled(patient.nextOfKinName) && (kinPhone || filled(patient.nextOfKinRelationship))) {
+    errors.nextOfKinName = 'Enter the name of the next of kin';
+  }
+
+  return errors;
+};
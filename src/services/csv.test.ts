@@ -0,0 +1,31 @@
+import { matchColumns, parseCsv, parseCsvDate, toCsv } from './csv';
+
+test('parses quoted fields with commas, quotes and line breaks', () => {
+  const text = '﻿Name,Address\r\n"Doe, Jane","12 ""High"" St\nSpringfield"\r\n\r\nSmith,\n';
+  expect(parseCsv(text)).toEqual([
+    { line: 1, values: ['Name', 'Address'] },
+    { line: 2, values: ['Doe, Jane', '12 "High" St\nSpringfield'] },
+    { line: 5, values: ['Smith', ''] },
+  ]);
+});
+
+test('writes fields that need it in quotes and reads them back', () => {
+  const rows = [['Row', 'Errors'], ['2', 'Missing sex; "x" is not a date, sorry']];
+  const csv = toCsv(rows);
+  expect(csv).toBe('Row,Errors\r\n2,"Missing sex; ""x"" is not a date, sorry"\r\n');
+  expect(parseCsv(csv).map(record => record.values)).toEqual(rows);
+});
+
+test('reads ISO and day-first dates and rejects impossible ones', () => {
+  expect(parseCsvDate('1990-4-2')).toBe('1990-04-02');
+  expect(parseCsvDate('02/04/1990')).toBe('1990-04-02');
+  expect(parseCsvDate('31/02/1990')).toBeNull();
+  expect(parseCsvDate('April 2nd')).toBeNull();
+});
+
+test('matches each column to at most one field', () => {
+  expect(matchColumns(['Visit Date', 'Height (cm)', 'date'], {
+    visitDate: ['visit_date', 'date'],
+    height: ['height', 'heightcm'],
+  })).toEqual({ visitDate: 0, height: 1 });
+});
@@ -0,0 +1,161 @@
+/*
+Reading and writing CSV files (RFC 4180).
+
+   - Fields are separated by commas, records by CRLF or LF
+   - A field in double quotes may contain commas, line breaks and doubled
+     quotes ("") standing for one quote
+   - A UTF-8 byte order mark, as written by spreadsheet programs, is dropped
+   - Blank lines are skipped
+   - Each record keeps the line of the file it starts on, counting skipped
+     blank lines and line breaks inside quotes, so errors point at the right row
+
+Helpers shared by the import screens (patients, vitals):
+   - matchColumns: find the column for each field by its header
+   - parseCsvDate: read a date cell written as YYYY-MM-DD or DD/MM/YYYY
+   - buildErrorReport: the rejected rows with their problems, written with toCsv
+*/
+
+export interface CsvRecord {
+  line: number;
+  values: string[];
+}
+
+export interface CsvImportRow {
+  rowNumber: number;
+  values: string[];
+  errors: string[];
+}
+
+export const parseCsv = (text: string): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0].trim() !== '') records.push({ line: recordLine, values: row });
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return records;
+};
+
+const escapeField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/*
+Function: Find the column for each field
+Purpose: `names` lists the headers each field may have; case, spaces and
+punctuation are ignored ("Date of birth" matches date_of_birth). Fields are
+matched in the order given and each column is used once.
+*/
+export const matchColumns = <F extends string>(
+  headers: string[],
+  names: Record<F, string[]>
+): Partial<Record<F, number>> => {
+  const mapping: Partial<Record<F, number>> = {};
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+
+  (Object.keys(names) as F[]).forEach(field => {
+    const candidates = names[field].map(normalizeHeader);
+    const column = normalized.findIndex((header, index) => !used.has(index) && candidates.includes(header));
+    if (column >= 0) {
+      mapping[field] = column;
+      used.add(column);
+    }
+  });
+  return mapping;
+};
+
+/*
+Function: Read a date cell
+Purpose: Returns the ISO date, or null for anything that is not a real
+calendar date written as YYYY-MM-DD or DD/MM/YYYY (also with - or .).
+*/
+export const parseCsvDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(trimmed);
+  const dayFirst = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(trimmed);
+  const parts = iso
+    ? { year: iso[1], month: iso[2], day: iso[3] }
+    : dayFirst && { year: dayFirst[3], month: dayFirst[2], day: dayFirst[1] };
+  if (!parts) return null;
+
+  const { year, month, day } = parts;
+  const result = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const date = new Date(`${result}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(result) ? result : null;
+};
+
+/*
+Function: Error report for the rejected rows of an import
+Purpose: The original cells, preceded by the row number in the file and
+followed by the problems, so the file can be fixed and imported again.
+*/
+export const buildErrorReport = (headers: string[], rows: CsvImportRow[]): string[][] => [
+  ['Row', ...headers, 'Errors'],
+  ...rows
+    .filter(row => row.errors.length > 0)
+    .map(row => [
+      String(row.rowNumber),
+      ...headers.map((_, column) => row.values[column] || ''),
+      row.errors.join('; '),
+    ]),
+];
+
+/*
+Function: Offer text as a file download
+Purpose: Builds a temporary object URL and clicks a hidden link, so the report
+is saved without a round trip to the server.
+*/
+export const downloadCsv = (filename: string, content: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
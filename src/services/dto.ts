@@ -0,0 +1,270 @@
+/*
+Wire-format DTOs for the Django REST backend.
+
+These describe the snake_case payloads exactly as they travel over HTTP.
+Components never use them directly: responses are validated and converted to
+the domain types in src/types by services/mappers.ts, and requests are built
+from domain objects by the same module.
+
+Notes on backend quirks:
+   - Decimal fields (height_cm, weight_kg, bmi) may arrive as strings
+   - Vital signs other than height and weight (systolic_bp, diastolic_bp,
+     pulse_bpm, temperature_c, respiratory_rate, spo2_percent, waist_cm, hip_cm,
+     body_fat_percent) are optional and null or missing on older records
+   - Older records expose patient_id instead of patient_number
+   - Overweight assessments may report diet history as diet_history or been_on_diet
+   - Yes/No answers may arrive as booleans or as "Yes"/"No" strings
+   - Contact fields (phone, email, address, national_id, next_of_kin_*,
+     preferred_language) are optional and null or missing on older records
+
+Authentication contract (JWT):
+   POST /auth/token/          { username, password } -> TokenPairDto
+   POST /auth/token/refresh/  { refresh }            -> TokenPairDto (refresh may be omitted)
+   The user's role ("clinician", "nurse", "front_desk") comes from the login
+   response's `role` field or, failing that, the access token's `role` claim.
+
+Patient lookup by date of birth (duplicate detection during registration):
+   GET /patients/?date_of_birth=YYYY-MM-DD -> patients born that day
+
+Patient numbers in the configured format (to suggest the next one; every page
+is read, since text ordering puts PAT-999999-6 above PAT-1000000-8):
+   GET /patients/?patient_number__startswith=<stem>&include_archived=true
+
+Patients by patient number (CSV imports):
+   GET /patients/?patient_number__in=<number>,<number>,...&include_archived=true
+
+Patient edit contract:
+   PUT /patients/<id>/           UpdatePatientRequest, sent with
+                                 If-Match: "<updated_at of the record being edited>"
+                                 -> PatientDto, or 412 when the record changed since
+   POST /patients/<id>/history/  PatientHistoryRequest (who changed which fields)
+
+Patient merge contract (run by the client, step by step):
+   PATCH /vitals/<id>/, /overweight-assessments/<id>/, /general-assessments/<id>/
+         ReassignPatientRequest        -> moves the record to the surviving patient
+   PUT /patients/<survivor id>/        (only when demographics were taken from the duplicate)
+   POST /patients/<duplicate id>/archive/  ArchiveRequest with the merge as the reason
+   POST /patients/<survivor id>/history/  PatientHistoryRequest with action "merge"
+
+Archive contract (records are never deleted from the clinical record):
+   POST /<resource>/<id>/archive/  ArchiveRequest -> the record with archived_at and archive_reason set
+   POST /<resource>/<id>/restore/  ArchiveRequest -> the record with both cleared
+   for patients, vitals, overweight-assessments and general-assessments.
+   Lists leave archived records out unless asked for ?include_archived=true.
+   An archived patient's own vitals and assessments stay as they are.
+
+Patient summary contract:
+   GET /patients/summary/?ids=<id>,<id>,...
+   Answers with one PatientSummaryDto per requested patient (bare list or
+   paginated envelope). Patients without vitals or assessments have null fields.
+   The ratios are those of the latest vitals, null when waist or hip was not measured.
+*/
+
+/*
+`gender` on the wire is administrative sex (U: prefer not to say);
+`gender_identity` is the self-identified gender.
+*/
+export type GenderCode = 'M' | 'F' | 'O' | 'U';
+
+export type GenderIdentityCode = 'woman' | 'man' | 'non_binary' | 'other' | 'undisclosed';
+
+export type YesNo = 'Yes' | 'No';
+
+export interface PatientDto {
+  id: string;
+  patient_number?: string;
+  patient_id?: string;
+  first_name: string;
+  last_name: string;
+  middle_name?: string | null;
+  date_of_birth: string;
+  gender: GenderCode;
+  gender_identity?: GenderIdentityCode | null;
+  registration_date?: string;
+  phone?: string | null;
+  email?: string | null;
+  address?: string | null;
+  national_id?: string | null;
+  next_of_kin_name?: string | null;
+  next_of_kin_relationship?: string | null;
+  next_of_kin_phone?: string | null;
+  preferred_language?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  archived_at?: string | null;
+  archive_reason?: string | null;
+}
+
+export interface CreatePatientRequest {
+  patient_number: string;
+  first_name: string;
+  last_name: string;
+  middle_name?: string;
+  date_of_birth: string;
+  gender: GenderCode;
+  gender_identity?: GenderIdentityCode;
+  registration_date: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  national_id?: string;
+  next_of_kin_name?: string;
+  next_of_kin_relationship?: string;
+  next_of_kin_phone?: string;
+  preferred_language?: string;
+}
+
+/*
+Full replacement of a patient (PUT): optional fields the user cleared are sent
+as null, because a field left out of the body keeps its old value.
+*/
+type OptionalPatientRequestField =
+  | 'middle_name' | 'gender_identity' | 'phone' | 'email' | 'address' | 'national_id'
+  | 'next_of_kin_name' | 'next_of_kin_relationship' | 'next_of_kin_phone' | 'preferred_language';
+
+export interface UpdatePatientRequest extends Omit<CreatePatientRequest, OptionalPatientRequestField> {
+  middle_name: string | null;
+  gender_identity: GenderIdentityCode | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  national_id: string | null;
+  next_of_kin_name: string | null;
+  next_of_kin_relationship: string | null;
+  next_of_kin_phone: string | null;
+  preferred_language: string | null;
+}
+
+export interface PatientFieldChangeDto {
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+}
+
+export interface MovedRecordDto {
+  type: 'vitals' | 'overweight_assessment' | 'general_assessment';
+  id: string;
+}
+
+export interface PatientHistoryRequest {
+  action: 'update' | 'merge';
+  changed_by: string;
+  changes: PatientFieldChangeDto[];
+  merged_patient?: {
+    id: string;
+    patient_number: string;
+  };
+  moved_records?: MovedRecordDto[];
+}
+
+export interface ArchiveRequest {
+  reason: string;
+}
+
+export interface ReassignPatientRequest {
+  patient_id: string;
+}
+
+export interface VitalsDto {
+  id: string;
+  patient?: string;
+  patient_id?: string;
+  visit_date?: string;
+  height_cm: number | string;
+  weight_kg: number | string;
+  bmi: number | string;
+  systolic_bp?: number | string | null;
+  diastolic_bp?: number | string | null;
+  pulse_bpm?: number | string | null;
+  temperature_c?: number | string | null;
+  respiratory_rate?: number | string | null;
+  spo2_percent?: number | string | null;
+  waist_cm?: number | string | null;
+  hip_cm?: number | string | null;
+  body_fat_percent?: number | string | null;
+  created_at?: string;
+  archived_at?: string | null;
+  archive_reason?: string | null;
+}
+
+export interface CreateVitalsRequest {
+  patient_id: string;
+  visit_date: string;
+  height_cm: number;
+  weight_kg: number;
+  bmi: number;
+  systolic_bp?: number;
+  diastolic_bp?: number;
+  pulse_bpm?: number;
+  temperature_c?: number;
+  respiratory_rate?: number;
+  spo2_percent?: number;
+  waist_cm?: number;
+  hip_cm?: number;
+  body_fat_percent?: number;
+}
+
+export interface OverweightAssessmentDto {
+  id: string;
+  patient?: string;
+  patient_id?: string;
+  visit_date?: string;
+  general_health: string;
+  been_on_diet?: boolean | string;
+  diet_history?: boolean | string;
+  comments?: string | null;
+  created_at?: string;
+  archived_at?: string | null;
+  archive_reason?: string | null;
+}
+
+export interface CreateOverweightAssessmentRequest {
+  patient_id: string;
+  visit_date: string;
+  general_health: string;
+  been_on_diet: YesNo;
+  comments: string;
+}
+
+export interface GeneralAssessmentDto {
+  id: string;
+  patient?: string;
+  patient_id?: string;
+  visit_date?: string;
+  general_health: string;
+  currently_using_drugs?: boolean | string;
+  using_drugs?: boolean | string;
+  comments?: string | null;
+  created_at?: string;
+  archived_at?: string | null;
+  archive_reason?: string | null;
+}
+
+export interface CreateGeneralAssessmentRequest {
+  patient_id: string;
+  visit_date: string;
+  general_health: string;
+  currently_using_drugs: YesNo;
+  comments: string;
+}
+
+export interface PatientSummaryDto {
+  patient_id: string;
+  latest_bmi?: number | string | null;
+  latest_waist_to_height_ratio?: number | string | null;
+  latest_waist_to_hip_ratio?: number | string | null;
+  last_vitals_date?: string | null;
+  last_assessment_date?: string | null;
+  last_assessment_type?: 'overweight' | 'general' | null;
+}
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface TokenPairDto {
+  access: string;
+  refresh?: string;
+  role?: string;
+}
@@ -0,0 +1,41 @@
+import { Patient } from '../types';
+import { canSearchDuplicates, findDuplicateMatches, scoreDateOfBirth } from './duplicateMatching';
+
+const patient = (id: string, firstName: string, lastName: string, dateOfBirth: string): Patient => ({
+  id,
+  patientNumber: `PAT00${id}`,
+  firstName,
+  lastName,
+  dateOfBirth,
+  sex: 'Female',
+  registrationDate: '2024-01-05',
+});
+
+const existing = [
+  patient('1', 'Jane', 'Doe', '1990-04-12'),
+  patient('2', 'John', 'Smith', '1985-11-03'),
+  patient('3', 'Janet', 'Dowling', '1990-04-12'),
+  patient('4', 'Jane', 'Doe', '1972-08-30'),
+];
+
+test('finds misspelt and swapped names born on the same day', () => {
+  const misspelt = findDuplicateMatches({ firstName: 'Jayne', lastName: 'Doe', dateOfBirth: '1990-04-12' }, existing);
+  const swapped = findDuplicateMatches({ firstName: 'Smith', lastName: 'John', dateOfBirth: '1985-11-03' }, existing);
+
+  expect(misspelt.map(match => match.patient.id)).toEqual(['1']);
+  expect(misspelt[0].reasons).toEqual(['similar-name', 'same-date-of-birth']);
+  expect(swapped.map(match => match.patient.id)).toEqual(['2']);
+});
+
+test('treats swapped day and month or one wrong digit as a similar date of birth', () => {
+  expect(scoreDateOfBirth('1985-03-11', '1985-11-03')).toBe(0.5);
+  expect(scoreDateOfBirth('1990-04-13', '1990-04-12')).toBe(0.5);
+  expect(scoreDateOfBirth('1991-05-12', '1990-04-12')).toBe(0);
+});
+
+test('needs a near-identical name when no date of birth is entered', () => {
+  expect(findDuplicateMatches({ firstName: 'Jane', lastName: 'Doe' }, existing).map(match => match.patient.id))
+    .toEqual(['1', '4']);
+  expect(findDuplicateMatches({ firstName: 'Jan', lastName: 'Do' }, existing)).toEqual([]);
+  expect(canSearchDuplicates({ firstName: '', lastName: 'D' })).toBe(false);
+});
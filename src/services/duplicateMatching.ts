@@ -0,0 +1,145 @@
+import { Patient } from '../types';
+
+/*
+Fuzzy matching of a patient being registered against existing patients.
+
+Names:
+   - Compared case-, accent- and punctuation-insensitively with a normalized
+     edit distance, so "Jon Smyth" still resembles "John Smith"
+   - First and last name swapped (a common data-entry slip) also counts
+   - Until a first name is entered, only the last name is compared
+
+Date of birth:
+   - Exact match, or "close": day and month swapped, or a single mistyped digit
+
+A candidate is a possible duplicate when the weighted score reaches
+MATCH_THRESHOLD. Without a date of birth only near-identical names match,
+since common names would otherwise flood the list.
+*/
+
+export interface DuplicateCriteria {
+  firstName: string;
+  lastName: string;
+  dateOfBirth?: string;
+}
+
+export type MatchReason = 'same-name' | 'similar-name' | 'same-date-of-birth' | 'similar-date-of-birth';
+
+export interface DuplicateMatch {
+  patient: Patient;
+  score: number;
+  reasons: MatchReason[];
+}
+
+export const MATCH_THRESHOLD = 0.75;
+const NAME_ONLY_THRESHOLD = 0.9;
+const NAME_WEIGHT = 0.6;
+const DATE_WEIGHT = 0.4;
+const SAME_NAME_SCORE = 0.95;
+const SIMILAR_NAME_SCORE = 0.7;
+
+export const normalizeName = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z]/g, '');
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/*
+Function: Similarity of two names
+Purpose: 1 for identical names, 0 for nothing in common; empty names never match.
+*/
+export const nameSimilarity = (a: string, b: string): number => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  return 1 - editDistance(left, right) / Math.max(left.length, right.length);
+};
+
+const scoreNames = (criteria: DuplicateCriteria, patient: Patient): number => {
+  if (!normalizeName(criteria.firstName)) {
+    return Math.max(
+      nameSimilarity(criteria.lastName, patient.lastName),
+      nameSimilarity(criteria.lastName, patient.firstName)
+    );
+  }
+  const inOrder = (nameSimilarity(criteria.firstName, patient.firstName) +
+    nameSimilarity(criteria.lastName, patient.lastName)) / 2;
+  const swapped = (nameSimilarity(criteria.firstName, patient.lastName) +
+    nameSimilarity(criteria.lastName, patient.firstName)) / 2;
+  return Math.max(inOrder, swapped);
+};
+
+/*
+Function: Compare two ISO dates of birth
+Purpose: Returns 1 for the same date, 0.5 for a likely typo of it, else 0.
+*/
+export const scoreDateOfBirth = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const [yearA, monthA, dayA] = a.split('-');
+  const [yearB, monthB, dayB] = b.split('-');
+  if (yearA === yearB && monthA === dayB && dayA === monthB) return 0.5;
+
+  const differingDigits = a.length === b.length
+    ? a.split('').filter((char, index) => char !== b[index]).length
+    : Infinity;
+  return differingDigits === 1 ? 0.5 : 0;
+};
+
+export const matchPatient = (criteria: DuplicateCriteria, patient: Patient): DuplicateMatch | null => {
+  const nameScore = scoreNames(criteria, patient);
+  const dateScore = criteria.dateOfBirth ? scoreDateOfBirth(criteria.dateOfBirth, patient.dateOfBirth) : 0;
+
+  const score = criteria.dateOfBirth
+    ? NAME_WEIGHT * nameScore + DATE_WEIGHT * dateScore
+    : nameScore;
+  if (score < (criteria.dateOfBirth ? MATCH_THRESHOLD : NAME_ONLY_THRESHOLD)) return null;
+
+  const reasons: MatchReason[] = [];
+  if (nameScore >= SAME_NAME_SCORE) reasons.push('same-name');
+  else if (nameScore >= SIMILAR_NAME_SCORE) reasons.push('similar-name');
+  if (dateScore === 1) reasons.push('same-date-of-birth');
+  else if (dateScore > 0) reasons.push('similar-date-of-birth');
+
+  return { patient, score, reasons };
+};
+
+/*
+Function: Rank possible duplicates
+Purpose: Scores every candidate (each patient once) and returns the matches,
+best first.
+*/
+export const findDuplicateMatches = (
+  criteria: DuplicateCriteria,
+  candidates: Patient[],
+  limit = 5
+): DuplicateMatch[] => {
+  const unique = new Map(candidates.map(patient => [patient.id, patient]));
+  return Array.from(unique.values())
+    .map(patient => matchPatient(criteria, patient))
+    .filter((match): match is DuplicateMatch => match !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/*
+Function: Decide whether the form holds enough to look for duplicates
+Purpose: Needs a last name and either a first name or a date of birth.
+*/
+export const canSearchDuplicates = (criteria: DuplicateCriteria): boolean =>
+  normalizeName(criteria.lastName).length >= 2 &&
+  (normalizeName(criteria.firstName).length >= 1 || Boolean(criteria.dateOfBirth));
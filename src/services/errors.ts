@@ -0,0 +1,79 @@
+import { isAxiosError, isCancel } from 'axios';
+import { PatientEditConflictError } from './patientEdits';
+import { PermissionDeniedError } from './permissions';
+import { ApiValidationError } from './validation';
+
+/*
+Turns anything thrown by the API layer into a message that can be shown to the user.
+
+Handles:
+   - ApiValidationError: the backend answered with an unexpected shape
+   - PermissionDeniedError: the signed-in user's role does not allow the action
+   - PatientEditConflictError: someone else saved the patient during an edit
+   - 403 responses without a body: the backend refused the action
+   - DRF field errors: { field: ["message", ...], ... }
+   - DRF detail errors: { detail: "message" }
+   - Plain string bodies
+   - Network failures with no response at all
+*/
+
+const formatErrorBody = (body: unknown): string | null => {
+  if (typeof body === 'string') return body.trim() || null;
+  if (typeof body !== 'object' || body === null) return null;
+
+  const entries = Object.entries(body as Record<string, unknown>);
+  if (entries.length === 0) return null;
+
+  return entries
+    .map(([key, value]) => {
+      const text = Array.isArray(value) ? value.join(', ') : String(value);
+      return key === 'detail' || key === 'non_field_errors' ? text : `${key}: ${text}`;
+    })
+    .join('. ');
+};
+
+export const getApiErrorMessage = (error: unknown, fallback: string): string => {
+  if (
+    error instanceof ApiValidationError ||
+    error instanceof PermissionDeniedError ||
+    error instanceof PatientEditConflictError
+  ) {
+    return error.message;
+  }
+
+  if (isAxiosError(error)) {
+    if (!error.response) {
+      return `${fallback} Please check your connection.`;
+    }
+    if (error.response.status === 403 && !formatErrorBody(error.response.data)) {
+      return 'You do not have permission to perform this action.';
+    }
+    return formatErrorBody(error.response.data) || fallback;
+  }
+
+  return fallback;
+};
+
+/*
+Function: Read the field errors of a failed request
+Purpose: Lets forms react to specific fields (e.g. a clashing patient_number)
+without digging through the axios error themselves.
+*/
+export const getApiFieldErrors = (error: unknown): Record<string, string[]> => {
+  if (!isAxiosError(error) || typeof error.response?.data !== 'object' || error.response.data === null) {
+    return {};
+  }
+
+  const fieldErrors: Record<string, string[]> = {};
+  Object.entries(error.response.data as Record<string, unknown>).forEach(([key, value]) => {
+    fieldErrors[key] = Array.isArray(value) ? value.map(String) : [String(value)];
+  });
+  return fieldErrors;
+};
+
+/*
+Function: Detect cancelled requests
+Purpose: Requests aborted because newer input superseded them (e.g. a debounced
+search) are expected and must not be reported as errors.
+*/
+export const isRequestCancelled = (error: unknown): boolean => isCancel(error);
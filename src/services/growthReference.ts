@@ -0,0 +1,491 @@
+import { GrowthReferenceSex } from './sexGender';
+
+/*
+BMI-for-age reference for children and teenagers (CDC 2000 growth charts,
+2 to 20 years), bundled so percentiles work without a network request.
+
+Each row is [age in months, L, M, S] from the CDC BMI-for-age table
+(bmiagerev): every month from 24 to 240, at the half month as CDC publishes
+it (24, 24.5, 25.5 … 240.5), rounded to 4 decimals (S to 5). M is the median
+BMI. Between rows the parameters are interpolated linearly.
+
+Under 24 months CDC has no BMI-for-age chart (WHO weight-for-length is used
+instead), so no reference is returned there.
+*/
+
+export interface LmsParameters {
+  L: number;
+  M: number;
+  S: number;
+}
+
+type LmsRow = [number, number, number, number];
+
+export const REFERENCE_AGE_MONTHS = { min: 24, max: 240 };
+
+const BMI_FOR_AGE: Record<GrowthReferenceSex, LmsRow[]> = {
+  male: [
+    [24, -2.0114, 16.575, 0.08059],
+    [24.5, -1.9822, 16.5478, 0.08013],
+    [25.5, -1.9244, 16.4944, 0.07923],
+    [26.5, -1.8655, 16.4426, 0.07839],
+    [27.5, -1.8077, 16.3922, 0.07759],
+    [28.5, -1.7504, 16.3433, 0.07685],
+    [29.5, -1.6952, 16.2958, 0.07615],
+    [30.5, -1.6424, 16.2497, 0.0755],
+    [31.5, -1.5921, 16.205, 0.0749],
+    [32.5, -1.5475, 16.1615, 0.07435],
+    [33.5, -1.5073, 16.1193, 0.07385],
+    [34.5, -1.4719, 16.0784, 0.07339],
+    [35.5, -1.4423, 16.0388, 0.07299],
+    [36.5, -1.42, 16.0003, 0.07263],
+    [37.5, -1.4046, 15.963, 0.07233],
+    [38.5, -1.3955, 15.927, 0.07207],
+    [39.5, -1.3951, 15.892, 0.07186],
+    [40.5, -1.4023, 15.8582, 0.07169],
+    [41.5, -1.416, 15.8256, 0.07157],
+    [42.5, -1.4378, 15.7941, 0.07149],
+    [43.5, -1.4681, 15.7636, 0.07146],
+    [44.5, -1.5047, 15.7343, 0.07147],
+    [45.5, -1.5484, 15.7061, 0.07152],
+    [46.5, -1.5984, 15.679, 0.07161],
+    [47.5, -1.6533, 15.6531, 0.07173],
+    [48.5, -1.7147, 15.6282, 0.07189],
+    [49.5, -1.7808, 15.6044, 0.07208],
+    [50.5, -1.8501, 15.5818, 0.07231],
+    [51.5, -1.923, 15.5603, 0.07256],
+    [52.5, -1.9989, 15.5399, 0.07284],
+    [53.5, -2.077, 15.5206, 0.07315],
+    [54.5, -2.1551, 15.5026, 0.07349],
+    [55.5, -2.2343, 15.4857, 0.07385],
+    [56.5, -2.3131, 15.47, 0.07424],
+    [57.5, -2.3911, 15.4555, 0.07464],
+    [58.5, -2.4685, 15.4421, 0.07507],
+    [59.5, -2.5431, 15.43, 0.07552],
+    [60.5, -2.6154, 15.4191, 0.07599],
+    [61.5, -2.6842, 15.4095, 0.07648],
+    [62.5, -2.7515, 15.401, 0.07699],
+    [63.5, -2.8144, 15.3938, 0.07752],
+    [64.5, -2.8743, 15.3878, 0.07807],
+    [65.5, -2.9298, 15.3831, 0.07863],
+    [66.5, -2.9822, 15.3795, 0.07921],
+    [67.5, -3.0296, 15.3772, 0.07981],
+    [68.5, -3.0739, 15.3761, 0.08043],
+    [69.5, -3.1138, 15.3762, 0.08106],
+    [70.5, -3.15, 15.3775, 0.08171],
+    [71.5, -3.183, 15.3799, 0.08237],
+    [72.5, -3.2119, 15.3835, 0.08305],
+    [73.5, -3.2369, 15.3883, 0.08374],
+    [74.5, -3.2589, 15.3942, 0.08445],
+    [75.5, -3.2769, 15.4013, 0.08517],
+    [76.5, -3.2929, 15.4094, 0.0859],
+    [77.5, -3.305, 15.4187, 0.08664],
+    [78.5, -3.315, 15.429, 0.0874],
+    [79.5, -3.3218, 15.4404, 0.08817],
+    [80.5, -3.3263, 15.4529, 0.08894],
+    [81.5, -3.3283, 15.4664, 0.08973],
+    [82.5, -3.3286, 15.4809, 0.09052],
+    [83.5, -3.3267, 15.4964, 0.09132],
+    [84.5, -3.323, 15.5129, 0.09213],
+    [85.5, -3.3179, 15.5303, 0.09295],
+    [86.5, -3.3106, 15.5488, 0.09377],
+    [87.5, -3.3026, 15.5681, 0.09459],
+    [88.5, -3.2931, 15.5884, 0.09542],
+    [89.5, -3.2823, 15.6096, 0.09625],
+    [90.5, -3.2705, 15.6317, 0.09708],
+    [91.5, -3.2576, 15.6547, 0.09792],
+    [92.5, -3.2443, 15.6785, 0.09875],
+    [93.5, -3.2299, 15.7032, 0.09959],
+    [94.5, -3.2146, 15.7288, 0.10042],
+    [95.5, -3.1992, 15.7551, 0.10126],
+    [96.5, -3.1829, 15.7823, 0.10209],
+    [97.5, -3.1665, 15.8103, 0.10292],
+    [98.5, -3.1498, 15.839, 0.10375],
+    [99.5, -3.1324, 15.8686, 0.10457],
+    [100.5, -3.1149, 15.8989, 0.10539],
+    [101.5, -3.0973, 15.9299, 0.1062],
+    [102.5, -3.0793, 15.9617, 0.10701],
+    [103.5, -3.0615, 15.9942, 0.10781],
+    [104.5, -3.0435, 16.0274, 0.10861],
+    [105.5, -3.0253, 16.0613, 0.1094],
+    [106.5, -3.0072, 16.0959, 0.11018],
+    [107.5, -2.9891, 16.1312, 0.11096],
+    [108.5, -2.9711, 16.1671, 0.11172],
+    [109.5, -2.9533, 16.2037, 0.11248],
+    [110.5, -2.9355, 16.2409, 0.11322],
+    [111.5, -2.9176, 16.2788, 0.11396],
+    [112.5, -2.9, 16.3173, 0.11469],
+    [113.5, -2.8825, 16.3564, 0.11541],
+    [114.5, -2.8653, 16.3961, 0.11611],
+    [115.5, -2.8484, 16.4363, 0.11681],
+    [116.5, -2.8313, 16.4772, 0.11749],
+    [117.5, -2.8146, 16.5186, 0.11817],
+    [118.5, -2.798, 16.5606, 0.11883],
+    [119.5, -2.7816, 16.6031, 0.11948],
+    [120.5, -2.7658, 16.6461, 0.12011],
+    [121.5, -2.7498, 16.6897, 0.12074],
+    [122.5, -2.7341, 16.7338, 0.12135],
+    [123.5, -2.7187, 16.7784, 0.12195],
+    [124.5, -2.7036, 16.8235, 0.12253],
+    [125.5, -2.6886, 16.8691, 0.1231],
+    [126.5, -2.674, 16.9151, 0.12366],
+    [127.5, -2.6597, 16.9616, 0.12421],
+    [128.5, -2.6453, 17.0086, 0.12474],
+    [129.5, -2.6312, 17.056, 0.12526],
+    [130.5, -2.6174, 17.1039, 0.12577],
+    [131.5, -2.6038, 17.1522, 0.12626],
+    [132.5, -2.5905, 17.2009, 0.12673],
+    [133.5, -2.5776, 17.25, 0.1272],
+    [134.5, -2.5647, 17.2995, 0.12765],
+    [135.5, -2.552, 17.3494, 0.12808],
+    [136.5, -2.5395, 17.3997, 0.12851],
+    [137.5, -2.5273, 17.4504, 0.12891],
+    [138.5, -2.5153, 17.5014, 0.12931],
+    [139.5, -2.5034, 17.5528, 0.12969],
+    [140.5, -2.4919, 17.6045, 0.13006],
+    [141.5, -2.4806, 17.6565, 0.13041],
+    [142.5, -2.4694, 17.7089, 0.13075],
+    [143.5, -2.4583, 17.7616, 0.13108],
+    [144.5, -2.4475, 17.8146, 0.13139],
+    [145.5, -2.4368, 17.8679, 0.13169],
+    [146.5, -2.4261, 17.9216, 0.13198],
+    [147.5, -2.416, 17.9754, 0.13225],
+    [148.5, -2.4057, 18.0296, 0.13251],
+    [149.5, -2.3957, 18.084, 0.13276],
+    [150.5, -2.3859, 18.1387, 0.13299],
+    [151.5, -2.376, 18.1937, 0.13321],
+    [152.5, -2.3666, 18.2488, 0.13342],
+    [153.5, -2.357, 18.3043, 0.13362],
+    [154.5, -2.3478, 18.3599, 0.13381],
+    [155.5, -2.3386, 18.4157, 0.13398],
+    [156.5, -2.3294, 18.4718, 0.13414],
+    [157.5, -2.3203, 18.5281, 0.13429],
+    [158.5, -2.3116, 18.5845, 0.13443],
+    [159.5, -2.3029, 18.6411, 0.13456],
+    [160.5, -2.2942, 18.6979, 0.13468],
+    [161.5, -2.2855, 18.7549, 0.13478],
+    [162.5, -2.277, 18.812, 0.13488],
+    [163.5, -2.2685, 18.8693, 0.13497],
+    [164.5, -2.2603, 18.9267, 0.13504],
+    [165.5, -2.252, 18.9842, 0.13511],
+    [166.5, -2.2437, 19.0419, 0.13516],
+    [167.5, -2.2355, 19.0997, 0.13521],
+    [168.5, -2.2274, 19.1576, 0.13525],
+    [169.5, -2.2193, 19.2156, 0.13528],
+    [170.5, -2.2111, 19.2737, 0.1353],
+    [171.5, -2.2033, 19.3318, 0.13532],
+    [172.5, -2.1952, 19.3901, 0.13532],
+    [173.5, -2.1873, 19.4484, 0.13532],
+    [174.5, -2.1795, 19.5067, 0.13531],
+    [175.5, -2.1716, 19.5651, 0.13529],
+    [176.5, -2.1637, 19.6236, 0.13527],
+    [177.5, -2.1558, 19.6821, 0.13524],
+    [178.5, -2.1479, 19.7406, 0.1352],
+    [179.5, -2.1402, 19.7991, 0.13516],
+    [180.5, -2.1322, 19.8577, 0.13511],
+    [181.5, -2.1245, 19.9162, 0.13506],
+    [182.5, -2.1168, 19.9747, 0.135],
+    [183.5, -2.109, 20.0332, 0.13493],
+    [184.5, -2.1012, 20.0917, 0.13487],
+    [185.5, -2.0933, 20.1502, 0.1348],
+    [186.5, -2.0855, 20.2086, 0.13472],
+    [187.5, -2.0779, 20.2669, 0.13464],
+    [188.5, -2.0701, 20.3252, 0.13455],
+    [189.5, -2.0621, 20.3835, 0.13447],
+    [190.5, -2.0545, 20.4416, 0.13438],
+    [191.5, -2.0467, 20.4997, 0.13429],
+    [192.5, -2.0391, 20.5576, 0.1342],
+    [193.5, -2.0313, 20.6155, 0.1341],
+    [194.5, -2.0236, 20.6733, 0.13401],
+    [195.5, -2.0159, 20.7309, 0.13391],
+    [196.5, -2.0083, 20.7884, 0.13382],
+    [197.5, -2.0008, 20.8457, 0.13372],
+    [198.5, -1.9933, 20.9029, 0.13362],
+    [199.5, -1.9856, 20.96, 0.13352],
+    [200.5, -1.9782, 21.0169, 0.13343],
+    [201.5, -1.9707, 21.0736, 0.13333],
+    [202.5, -1.9634, 21.1301, 0.13324],
+    [203.5, -1.9562, 21.1864, 0.13315],
+    [204.5, -1.9491, 21.2425, 0.13306],
+    [205.5, -1.942, 21.2984, 0.13297],
+    [206.5, -1.9352, 21.354, 0.13289],
+    [207.5, -1.9284, 21.4094, 0.1328],
+    [208.5, -1.9217, 21.4646, 0.13273],
+    [209.5, -1.9152, 21.5195, 0.13265],
+    [210.5, -1.9088, 21.5742, 0.13259],
+    [211.5, -1.9027, 21.6285, 0.13252],
+    [212.5, -1.8967, 21.6826, 0.13246],
+    [213.5, -1.8908, 21.7364, 0.13241],
+    [214.5, -1.8852, 21.7899, 0.13236],
+    [215.5, -1.8799, 21.843, 0.13232],
+    [216.5, -1.8746, 21.8959, 0.13229],
+    [217.5, -1.8697, 21.9484, 0.13226],
+    [218.5, -1.8651, 22.0005, 0.13224],
+    [219.5, -1.8607, 22.0523, 0.13223],
+    [220.5, -1.8566, 22.1037, 0.13223],
+    [221.5, -1.8527, 22.1548, 0.13223],
+    [222.5, -1.8494, 22.2054, 0.13225],
+    [223.5, -1.8461, 22.2557, 0.13227],
+    [224.5, -1.8434, 22.3055, 0.13231],
+    [225.5, -1.8407, 22.355, 0.13236],
+    [226.5, -1.8385, 22.404, 0.13242],
+    [227.5, -1.8366, 22.4526, 0.13249],
+    [228.5, -1.8352, 22.5007, 0.13257],
+    [229.5, -1.834, 22.5484, 0.13266],
+    [230.5, -1.833, 22.5957, 0.13277],
+    [231.5, -1.8328, 22.6424, 0.13289],
+    [232.5, -1.8327, 22.6887, 0.13302],
+    [233.5, -1.8328, 22.7346, 0.13317],
+    [234.5, -1.8334, 22.7799, 0.13334],
+    [235.5, -1.8344, 22.8247, 0.13352],
+    [236.5, -1.8355, 22.8691, 0.13372],
+    [237.5, -1.8372, 22.9129, 0.13393],
+    [238.5, -1.8389, 22.9563, 0.13416],
+    [239.5, -1.8411, 22.9991, 0.13441],
+    [240.5, -1.8436, 23.0414, 0.13467],
+  ],
+  female: [
+    [24, -0.9865, 16.4234, 0.08545],
+    [24.5, -1.0248, 16.388, 0.08503],
+    [25.5, -1.1024, 16.319, 0.08421],
+    [26.5, -1.1839, 16.2521, 0.08345],
+    [27.5, -1.2685, 16.1873, 0.08275],
+    [28.5, -1.3545, 16.1248, 0.08209],
+    [29.5, -1.4434, 16.0643, 0.08149],
+    [30.5, -1.5348, 16.0059, 0.08093],
+    [31.5, -1.6265, 15.9497, 0.08043],
+    [32.5, -1.7204, 15.8955, 0.07997],
+    [33.5, -1.8143, 15.8434, 0.07956],
+    [34.5, -1.9093, 15.7933, 0.07919],
+    [35.5, -2.003, 15.7453, 0.07888],
+    [36.5, -2.0973, 15.6992, 0.0786],
+    [37.5, -2.1895, 15.6552, 0.07838],
+    [38.5, -2.2802, 15.6132, 0.0782],
+    [39.5, -2.3684, 15.5732, 0.07806],
+    [40.5, -2.4547, 15.5351, 0.07797],
+    [41.5, -2.5386, 15.4989, 0.07791],
+    [42.5, -2.6188, 15.4647, 0.0779],
+    [43.5, -2.6954, 15.4324, 0.07794],
+    [44.5, -2.7688, 15.4019, 0.07801],
+    [45.5, -2.8369, 15.3734, 0.07813],
+    [46.5, -2.9022, 15.3466, 0.07828],
+    [47.5, -2.9624, 15.3217, 0.07848],
+    [48.5, -3.019, 15.2985, 0.07871],
+    [49.5, -3.0698, 15.2772, 0.07899],
+    [50.5, -3.1165, 15.2576, 0.0793],
+    [51.5, -3.1588, 15.2397, 0.07965],
+    [52.5, -3.1968, 15.2235, 0.08003],
+    [53.5, -3.2307, 15.2089, 0.08045],
+    [54.5, -3.259, 15.1961, 0.0809],
+    [55.5, -3.2842, 15.1848, 0.08139],
+    [56.5, -3.305, 15.1751, 0.08191],
+    [57.5, -3.3217, 15.167, 0.08246],
+    [58.5, -3.3345, 15.1605, 0.08305],
+    [59.5, -3.3442, 15.1554, 0.08366],
+    [60.5, -3.35, 15.1519, 0.0843],
+    [61.5, -3.3527, 15.1498, 0.08497],
+    [62.5, -3.3525, 15.1492, 0.08566],
+    [63.5, -3.3501, 15.1499, 0.08638],
+    [64.5, -3.3441, 15.1521, 0.08713],
+    [65.5, -3.3356, 15.1557, 0.08789],
+    [66.5, -3.3255, 15.1606, 0.08868],
+    [67.5, -3.3131, 15.1668, 0.08949],
+    [68.5, -3.2986, 15.1743, 0.09032],
+    [69.5, -3.2827, 15.1831, 0.09116],
+    [70.5, -3.2652, 15.1931, 0.09203],
+    [71.5, -3.246, 15.2044, 0.09291],
+    [72.5, -3.2256, 15.2169, 0.0938],
+    [73.5, -3.204, 15.2306, 0.09471],
+    [74.5, -3.1817, 15.2454, 0.09563],
+    [75.5, -3.1584, 15.2614, 0.09657],
+    [76.5, -3.1345, 15.2785, 0.09751],
+    [77.5, -3.1094, 15.2968, 0.09846],
+    [78.5, -3.0841, 15.3161, 0.09943],
+    [79.5, -3.0587, 15.3364, 0.1004],
+    [80.5, -3.0322, 15.3579, 0.10137],
+    [81.5, -3.0061, 15.3803, 0.10236],
+    [82.5, -2.9797, 15.4037, 0.10334],
+    [83.5, -2.9528, 15.4282, 0.10433],
+    [84.5, -2.9261, 15.4536, 0.10532],
+    [85.5, -2.8995, 15.4799, 0.10632],
+    [86.5, -2.8727, 15.5072, 0.10732],
+    [87.5, -2.8461, 15.5354, 0.10831],
+    [88.5, -2.8198, 15.5644, 0.10931],
+    [89.5, -2.7934, 15.5944, 0.1103],
+    [90.5, -2.7673, 15.6252, 0.11129],
+    [91.5, -2.7417, 15.6568, 0.11228],
+    [92.5, -2.716, 15.6893, 0.11327],
+    [93.5, -2.6906, 15.7226, 0.11425],
+    [94.5, -2.6659, 15.7566, 0.11523],
+    [95.5, -2.6415, 15.7914, 0.11619],
+    [96.5, -2.6172, 15.827, 0.11716],
+    [97.5, -2.5934, 15.8633, 0.11812],
+    [98.5, -2.5702, 15.9003, 0.11906],
+    [99.5, -2.5472, 15.938, 0.12],
+    [100.5, -2.5247, 15.9764, 0.12093],
+    [101.5, -2.5024, 16.0155, 0.12186],
+    [102.5, -2.4809, 16.0552, 0.12277],
+    [103.5, -2.4598, 16.0955, 0.12367],
+    [104.5, -2.4389, 16.1365, 0.12457],
+    [105.5, -2.4188, 16.178, 0.12545],
+    [106.5, -2.3991, 16.2201, 0.12631],
+    [107.5, -2.3799, 16.2628, 0.12717],
+    [108.5, -2.3609, 16.3061, 0.12801],
+    [109.5, -2.3425, 16.3499, 0.12884],
+    [110.5, -2.3246, 16.3942, 0.12966],
+    [111.5, -2.3072, 16.439, 0.13047],
+    [112.5, -2.2903, 16.4843, 0.13126],
+    [113.5, -2.2739, 16.53, 0.13203],
+    [114.5, -2.2577, 16.5763, 0.1328],
+    [115.5, -2.2423, 16.6229, 0.13354],
+    [116.5, -2.2271, 16.67, 0.13428],
+    [117.5, -2.2125, 16.7175, 0.135],
+    [118.5, -2.1983, 16.7654, 0.1357],
+    [119.5, -2.1845, 16.8137, 0.13639],
+    [120.5, -2.1713, 16.8623, 0.13706],
+    [121.5, -2.1584, 16.9113, 0.13771],
+    [122.5, -2.1461, 16.9606, 0.13835],
+    [123.5, -2.134, 17.0103, 0.13898],
+    [124.5, -2.1225, 17.0602, 0.13959],
+    [125.5, -2.1114, 17.1105, 0.14018],
+    [126.5, -2.1007, 17.161, 0.14075],
+    [127.5, -2.0905, 17.2117, 0.14131],
+    [128.5, -2.0805, 17.2628, 0.14186],
+    [129.5, -2.0712, 17.314, 0.14238],
+    [130.5, -2.0621, 17.3655, 0.1429],
+    [131.5, -2.0535, 17.4172, 0.14339],
+    [132.5, -2.0452, 17.4691, 0.14387],
+    [133.5, -2.0374, 17.5211, 0.14433],
+    [134.5, -2.0299, 17.5733, 0.14478],
+    [135.5, -2.0228, 17.6257, 0.14521],
+    [136.5, -2.0161, 17.6782, 0.14562],
+    [137.5, -2.0098, 17.7308, 0.14602],
+    [138.5, -2.0037, 17.7836, 0.1464],
+    [139.5, -1.9981, 17.8364, 0.14677],
+    [140.5, -1.993, 17.8893, 0.14712],
+    [141.5, -1.988, 17.9423, 0.14745],
+    [142.5, -1.9836, 17.9953, 0.14777],
+    [143.5, -1.9793, 18.0484, 0.14807],
+    [144.5, -1.9755, 18.1015, 0.14836],
+    [145.5, -1.972, 18.1546, 0.14864],
+    [146.5, -1.9689, 18.2077, 0.14889],
+    [147.5, -1.9659, 18.2609, 0.14914],
+    [148.5, -1.9636, 18.3139, 0.14937],
+    [149.5, -1.9614, 18.367, 0.14958],
+    [150.5, -1.9595, 18.42, 0.14978],
+    [151.5, -1.958, 18.473, 0.14997],
+    [152.5, -1.9567, 18.5259, 0.15014],
+    [153.5, -1.9558, 18.5787, 0.1503],
+    [154.5, -1.9553, 18.6314, 0.15045],
+    [155.5, -1.9549, 18.684, 0.15058],
+    [156.5, -1.955, 18.7364, 0.15071],
+    [157.5, -1.9553, 18.7888, 0.15081],
+    [158.5, -1.9558, 18.841, 0.15091],
+    [159.5, -1.9568, 18.893, 0.15099],
+    [160.5, -1.9579, 18.9449, 0.15107],
+    [161.5, -1.9593, 18.9966, 0.15113],
+    [162.5, -1.9611, 19.0481, 0.15118],
+    [163.5, -1.9631, 19.0994, 0.15122],
+    [164.5, -1.9654, 19.1505, 0.15124],
+    [165.5, -1.9679, 19.2014, 0.15126],
+    [166.5, -1.9708, 19.252, 0.15127],
+    [167.5, -1.9738, 19.3024, 0.15127],
+    [168.5, -1.9771, 19.3526, 0.15126],
+    [169.5, -1.9807, 19.4024, 0.15124],
+    [170.5, -1.9845, 19.452, 0.15121],
+    [171.5, -1.9884, 19.5014, 0.15117],
+    [172.5, -1.9927, 19.5504, 0.15112],
+    [173.5, -1.9972, 19.5991, 0.15107],
+    [174.5, -2.002, 19.6475, 0.15101],
+    [175.5, -2.007, 19.6955, 0.15094],
+    [176.5, -2.0122, 19.7432, 0.15087],
+    [177.5, -2.0176, 19.7906, 0.15079],
+    [178.5, -2.0232, 19.8376, 0.1507],
+    [179.5, -2.0289, 19.8843, 0.15061],
+    [180.5, -2.0349, 19.9306, 0.15051],
+    [181.5, -2.041, 19.9765, 0.15041],
+    [182.5, -2.0473, 20.022, 0.1503],
+    [183.5, -2.054, 20.067, 0.15019],
+    [184.5, -2.0607, 20.1117, 0.15008],
+    [185.5, -2.0674, 20.156, 0.14996],
+    [186.5, -2.0745, 20.1998, 0.14984],
+    [187.5, -2.0816, 20.2432, 0.14972],
+    [188.5, -2.0889, 20.2861, 0.1496],
+    [189.5, -2.0963, 20.3286, 0.14947],
+    [190.5, -2.1039, 20.3706, 0.14934],
+    [191.5, -2.1114, 20.4122, 0.14922],
+    [192.5, -2.1191, 20.4533, 0.14909],
+    [193.5, -2.127, 20.4938, 0.14896],
+    [194.5, -2.1349, 20.5339, 0.14884],
+    [195.5, -2.1428, 20.5735, 0.14871],
+    [196.5, -2.1508, 20.6126, 0.14859],
+    [197.5, -2.1589, 20.6511, 0.14847],
+    [198.5, -2.1671, 20.6891, 0.14835],
+    [199.5, -2.1751, 20.7266, 0.14823],
+    [200.5, -2.1833, 20.7636, 0.14812],
+    [201.5, -2.1915, 20.7999, 0.14801],
+    [202.5, -2.1996, 20.8358, 0.14791],
+    [203.5, -2.2077, 20.8711, 0.14782],
+    [204.5, -2.2157, 20.9058, 0.14772],
+    [205.5, -2.2237, 20.9399, 0.14764],
+    [206.5, -2.2317, 20.9734, 0.14756],
+    [207.5, -2.2395, 21.0064, 0.14749],
+    [208.5, -2.2473, 21.0387, 0.14742],
+    [209.5, -2.2548, 21.0705, 0.14737],
+    [210.5, -2.2624, 21.1016, 0.14732],
+    [211.5, -2.2697, 21.1322, 0.14729],
+    [212.5, -2.2769, 21.1621, 0.14726],
+    [213.5, -2.284, 21.1913, 0.14725],
+    [214.5, -2.2907, 21.22, 0.14724],
+    [215.5, -2.2973, 21.248, 0.14725],
+    [216.5, -2.3037, 21.2753, 0.14727],
+    [217.5, -2.3098, 21.302, 0.1473],
+    [218.5, -2.3156, 21.3281, 0.14735],
+    [219.5, -2.3212, 21.3534, 0.14741],
+    [220.5, -2.3264, 21.3781, 0.14749],
+    [221.5, -2.3315, 21.4021, 0.14758],
+    [222.5, -2.336, 21.4255, 0.14769],
+    [223.5, -2.3403, 21.4481, 0.14782],
+    [224.5, -2.3442, 21.4701, 0.14796],
+    [225.5, -2.3477, 21.4913, 0.14812],
+    [226.5, -2.3508, 21.5119, 0.1483],
+    [227.5, -2.3535, 21.5317, 0.1485],
+    [228.5, -2.3557, 21.5508, 0.14872],
+    [229.5, -2.3575, 21.5692, 0.14897],
+    [230.5, -2.3588, 21.5869, 0.14923],
+    [231.5, -2.3596, 21.6038, 0.14952],
+    [232.5, -2.3599, 21.62, 0.14983],
+    [233.5, -2.3597, 21.6354, 0.15016],
+    [234.5, -2.3589, 21.6501, 0.15052],
+    [235.5, -2.3577, 21.664, 0.15091],
+    [236.5, -2.3559, 21.6771, 0.15132],
+    [237.5, -2.3535, 21.6895, 0.15175],
+    [238.5, -2.3505, 21.7011, 0.15222],
+    [239.5, -2.347, 21.7119, 0.15272],
+    [240.5, -2.3429, 21.7219, 0.15324],
+  ],
+};
+
+const interpolate = (from: number, to: number, fraction: number) => from + (to - from) * fraction;
+
+/*
+Function: LMS parameters for a sex and an age in months
+Purpose: Returns undefined outside 24–240 months, where the reference does not
+apply.
+*/
+export const bmiForAgeLms = (sex: GrowthReferenceSex, ageMonths: number): LmsParameters | undefined => {
+  if (!(ageMonths >= REFERENCE_AGE_MONTHS.min && ageMonths <= REFERENCE_AGE_MONTHS.max)) return undefined;
+
+  const rows = BMI_FOR_AGE[sex];
+  const upper = rows.findIndex(([age]) => age >= ageMonths);
+  const [ageTo, lTo, mTo, sTo] = rows[upper];
+  if (ageTo === ageMonths || upper === 0) return { L: lTo, M: mTo, S: sTo };
+
+  const [ageFrom, lFrom, mFrom, sFrom] = rows[upper - 1];
+  const fraction = (ageMonths - ageFrom) / (ageTo - ageFrom);
+  return {
+    L: interpolate(lFrom, lTo, fraction),
+    M: interpolate(mFrom, mTo, fraction),
+    S: interpolate(sFrom, sTo, fraction),
+  };
+};
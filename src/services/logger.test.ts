@@ -0,0 +1,59 @@
+import { configureLogger, redact } from './logger';
+import { DEFAULT_PATIENT_NUMBER_FORMAT } from './patientNumbers';
+
+afterEach(() => {
+  configureLogger({ patientNumberFormat: DEFAULT_PATIENT_NUMBER_FORMAT });
+});
+
+test('replaces identifying fields and masks identifiers inside strings', () => {
+  const result = redact({
+    url: '/patients/3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e/vitals/',
+    patient: { first_name: 'Ada', last_name: 'Lovelace' },
+    note: 'Duplicate of PAT00123',
+    count: 3,
+  });
+
+  expect(result).toEqual({
+    url: '/patients/:id/vitals/',
+    patient: '[REDACTED]',
+    note: 'Duplicate of [PATIENT_NUMBER]',
+    count: 3,
+  });
+});
+
+test('reduces errors to their name, message and status', () => {
+  const error = Object.assign(new Error('Request failed for PAT0042'), { response: { status: 404, data: { first_name: 'Ada' } } });
+
+  expect(redact(error)).toEqual({ name: 'Error', message: 'Request failed for [PATIENT_NUMBER]', status: 404 });
+});
+
+test('masks patient numbers with a clinic code and the configured prefix', () => {
+  expect(redact('Merged PAT-RIV-000123-0 into PAT-000124-8 (PAT-NOR-000009-1 untouched)'))
+    .toBe('Merged [PATIENT_NUMBER] into [PATIENT_NUMBER] ([PATIENT_NUMBER] untouched)');
+
+  configureLogger({ patientNumberFormat: { prefix: 'MRN', clinicCode: 'RIV', sequenceDigits: 6, checkDigit: 'luhn' } });
+  expect(redact({ url: '/patients/?search=MRN-RIV-000123-0', note: 'was PAT00123, 3 visits' }))
+    .toEqual({ url: '/patients/?search=[PATIENT_NUMBER]', note: 'was [PATIENT_NUMBER], 3 visits' });
+});
+
+test('replaces contact details, national ID and next of kin in both key styles', () => {
+  expect(redact({
+    phone: '555 0100',
+    email: 'ada@example.org',
+    address: '12 St James\'s Square',
+    national_id: 'AB123456C',
+    nextOfKinName: 'Byron',
+    next_of_kin_phone: '555 0199',
+    nextOfKinRelationship: 'Father',
+    sex: 'Female',
+  })).toEqual({
+    phone: '[REDACTED]',
+    email: '[REDACTED]',
+    address: '[REDACTED]',
+    national_id: '[REDACTED]',
+    nextOfKinName: '[REDACTED]',
+    next_of_kin_phone: '[REDACTED]',
+    nextOfKinRelationship: '[REDACTED]',
+    sex: 'Female',
+  });
+});
@@ -0,0 +1,212 @@
+/*
+Structured logging without patient data.
+
+Levels:
+   - debug < info < warn < error; events below the configured level are dropped
+   - The level comes from the runtime configuration (logLevel); until
+     configureLogger() runs it is "debug" in development and "warn" in production
+
+Redaction (applied to every message and context before it leaves this module):
+   - Values under identifying keys (names, date of birth, patient number, patient
+     id, contact details, national ID, next of kin, comments, credentials,
+     tokens) are replaced with "[REDACTED]"
+   - UUIDs and patient numbers inside strings and URLs are masked; patient
+     numbers are recognised by the configured prefix (services/patientNumbers),
+     with or without a clinic code, plus the default PAT prefix
+   - Request/response bodies should still not be logged; log counts and flags instead
+
+Diagnostics sink (optional):
+   - When a sink URL is configured, events at or above the sink level are queued
+     and POSTed in batches, on a timer, when the batch is full, and when the page
+     is hidden (via sendBeacon so the last batch survives navigation)
+
+Usage:
+   const log = createLogger('VitalsForm');
+   log.info('Vitals saved', { bmi: 27.1 });
+   log.error('Saving vitals failed', error);
+*/
+
+import { DEFAULT_PATIENT_NUMBER_FORMAT, PatientNumberFormat, patientNumberSearchPattern } from './patientNumbers';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEvent {
+  level: LogLevel;
+  scope: string;
+  message: string;
+  context?: unknown;
+  timestamp: string;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  sinkUrl?: string;
+  sinkLevel?: LogLevel;
+  batchSize?: number;
+  flushIntervalMs?: number;
+  patientNumberFormat?: PatientNumberFormat;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const REDACTED = '[REDACTED]';
+
+const SENSITIVE_KEYS = new Set([
+  'first_name', 'firstname',
+  'last_name', 'lastname',
+  'middle_name', 'middlename',
+  'name', 'full_name', 'fullname',
+  'date_of_birth', 'dateofbirth', 'dob',
+  'patient_number', 'patientnumber',
+  'patient_id', 'patientid', 'patient',
+  'phone', 'email', 'address',
+  'national_id', 'nationalid',
+  'next_of_kin_name', 'nextofkinname',
+  'next_of_kin_relationship', 'nextofkinrelationship',
+  'next_of_kin_phone', 'nextofkinphone',
+  'comments',
+  'username', 'password',
+  'access', 'refresh', 'accesstoken', 'refreshtoken', 'authorization',
+]);
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+const DEFAULT_PATIENT_NUMBER_PATTERN = patientNumberSearchPattern(DEFAULT_PATIENT_NUMBER_FORMAT);
+let patientNumberPatterns = [DEFAULT_PATIENT_NUMBER_PATTERN];
+
+const MAX_DEPTH = 5;
+
+const redactString = (value: string): string =>
+  patientNumberPatterns.reduce(
+    (text, pattern) => text.replace(pattern, '[PATIENT_NUMBER]'),
+    value.replace(UUID_PATTERN, ':id')
+  );
+
+/*
+Function: Redact a value for logging
+Purpose: Returns a copy that is safe to print or send: identifying fields are
+replaced, identifiers inside strings are masked and Errors are reduced to
+their name and (redacted) message.
+*/
+export const redact = (value: unknown, depth = 0): unknown => {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+
+  if (value instanceof Error) {
+    const status = (value as { response?: { status?: number } }).response?.status;
+    return status === undefined
+      ? { name: value.name, message: redactString(value.message) }
+      : { name: value.name, message: redactString(value.message), status };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+    result[key] = SENSITIVE_KEYS.has(key.toLowerCase()) ? REDACTED : redact(item, depth + 1);
+  });
+  return result;
+};
+
+const defaultLevel = (): LogLevel => (process.env.NODE_ENV === 'production' ? 'warn' : 'debug');
+
+let options: Required<Omit<LoggerOptions, 'sinkUrl' | 'patientNumberFormat'>> & { sinkUrl?: string } = {
+  level: defaultLevel(),
+  sinkLevel: 'warn',
+  batchSize: 20,
+  flushIntervalMs: 10000,
+};
+
+let queue: LogEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const isEnabled = (level: LogLevel, threshold: LogLevel) =>
+  LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+
+/*
+Function: Send queued events to the diagnostics endpoint
+Purpose: Uses fetch rather than the api client so that diagnostics never go
+through its interceptors (and never log themselves).
+*/
+export const flushLogs = (useBeacon = false) => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (!options.sinkUrl || queue.length === 0) return;
+
+  const body = JSON.stringify({ events: queue });
+  queue = [];
+
+  if (useBeacon && typeof navigator !== 'undefined' && navigator.sendBeacon) {
+    navigator.sendBeacon(options.sinkUrl, new Blob([body], { type: 'application/json' }));
+    return;
+  }
+
+  fetch(options.sinkUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+    keepalive: true,
+  }).catch(() => undefined);
+};
+
+const enqueue = (event: LogEvent) => {
+  queue.push(event);
+  if (queue.length >= options.batchSize) {
+    flushLogs();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(() => flushLogs(), options.flushIntervalMs);
+  }
+};
+
+const write = (level: LogLevel, scope: string, message: string, context?: unknown) => {
+  const shouldPrint = isEnabled(level, options.level);
+  const shouldSend = Boolean(options.sinkUrl) && isEnabled(level, options.sinkLevel);
+  if (!shouldPrint && !shouldSend) return;
+
+  const event: LogEvent = {
+    level,
+    scope,
+    message: redactString(message),
+    context: context === undefined ? undefined : redact(context),
+    timestamp: new Date().toISOString(),
+  };
+
+  if (shouldPrint) {
+    const args: unknown[] = [`[${event.scope}] ${event.message}`];
+    if (event.context !== undefined) args.push(event.context);
+    console[level](...args);
+  }
+
+  if (shouldSend) {
+    enqueue(event);
+  }
+};
+
+const handlePageHide = () => flushLogs(true);
+
+export const configureLogger = ({ patientNumberFormat, ...next }: LoggerOptions) => {
+  options = { ...options, ...next };
+  if (patientNumberFormat) {
+    patientNumberPatterns = patientNumberFormat.prefix === DEFAULT_PATIENT_NUMBER_FORMAT.prefix
+      ? [DEFAULT_PATIENT_NUMBER_PATTERN]
+      : [patientNumberSearchPattern(patientNumberFormat), DEFAULT_PATIENT_NUMBER_PATTERN];
+  }
+
+  if (typeof window !== 'undefined') {
+    window.removeEventListener('pagehide', handlePageHide);
+    if (options.sinkUrl) window.addEventListener('pagehide', handlePageHide);
+  }
+};
+
+export const createLogger = (scope: string) => ({
+  debug: (message: string, context?: unknown) => write('debug', scope, message, context),
+  info: (message: string, context?: unknown) => write('info', scope, message, context),
+  warn: (message: string, context?: unknown) => write('warn', scope, message, context),
+  error: (message: string, context?: unknown) => write('error', scope, message, context),
+});
+
+export type Logger = ReturnType<typeof createLogger>;
@@ -0,0 +1,148 @@
+import {
+  toAuthTokens,
+  toCreateOverweightAssessmentRequest,
+  toOverweightAssessment,
+  toPatient,
+  toPatientListParams,
+  toUpdatePatientRequest,
+  toVitals,
+} from './mappers';
+import { ApiValidationError } from './validation';
+
+test('maps a patient payload to the domain type', () => {
+  const patient = toPatient({
+    id: 'a1b2',
+    patient_number: 'PAT001',
+    first_name: 'Jane',
+    last_name: 'Doe',
+    middle_name: null,
+    date_of_birth: '1990-04-12',
+    gender: 'F',
+    registration_date: '2024-01-01',
+  });
+
+  expect(patient).toEqual({
+    id: 'a1b2',
+    patientNumber: 'PAT001',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    middleName: undefined,
+    dateOfBirth: '1990-04-12',
+    sex: 'Female',
+    registrationDate: '2024-01-01',
+    createdAt: undefined,
+  });
+});
+
+test('reads administrative sex and gender identity separately', () => {
+  const patient = toPatient({
+    id: 'a1b2',
+    first_name: 'Sam',
+    last_name: 'Doe',
+    date_of_birth: '1990-04-12',
+    gender: 'U',
+    gender_identity: 'non_binary',
+  });
+
+  expect(patient.sex).toBe('Undisclosed');
+  expect(patient.genderIdentity).toBe('NonBinary');
+});
+
+test('parses decimal strings in vitals', () => {
+  const vitals = toVitals({
+    id: 'v1',
+    patient: 'a1b2',
+    visit_date: '2024-02-01',
+    height_cm: '170.50',
+    weight_kg: '70.00',
+    bmi: '24.1',
+  });
+
+  expect(vitals.height).toBe(170.5);
+  expect(vitals.weight).toBe(70);
+  expect(vitals.bmi).toBe(24.1);
+  expect(vitals.patientId).toBe('a1b2');
+});
+
+test('reads the optional vital signs', () => {
+  const vitals = toVitals({
+    id: 'v1',
+    patient: 'a1b2',
+    visit_date: '2024-02-01',
+    height_cm: 170,
+    weight_kg: 70,
+    bmi: 24.2,
+    systolic_bp: '128',
+    diastolic_bp: 84,
+    temperature_c: '36.8',
+    spo2_percent: null,
+  });
+
+  expect(vitals.systolic).toBe(128);
+  expect(vitals.diastolic).toBe(84);
+  expect(vitals.temperature).toBe(36.8);
+  expect(vitals.spo2).toBeUndefined();
+  expect(vitals.pulse).toBeUndefined();
+});
+
+test('accepts either diet history alias', () => {
+  const base = { id: 'o1', patient: 'a1b2', visit_date: '2024-02-01', general_health: 'Good' };
+
+  expect(toOverweightAssessment({ ...base, diet_history: true }).beenOnDiet).toBe(true);
+  expect(toOverweightAssessment({ ...base, been_on_diet: 'No' }).beenOnDiet).toBe(false);
+});
+
+test('rejects payloads with missing required fields', () => {
+  const payload = { id: 'v1', patient: 'a1b2', visit_date: '2024-02-01', height_cm: 170, weight_kg: 70 };
+
+  expect(() => toVitals(payload)).toThrow(ApiValidationError);
+  expect(() => toVitals(payload)).toThrow(/"bmi" should be a number but was missing/);
+});
+
+test('builds the overweight assessment request body', () => {
+  expect(toCreateOverweightAssessmentRequest({
+    patientId: 'a1b2',
+    visitDate: '2024-02-01',
+    generalHealth: 'Poor',
+    beenOnDiet: true,
+    comments: '  follow up  ',
+  })).toEqual({
+    patient_id: 'a1b2',
+    visit_date: '2024-02-01',
+    general_health: 'Poor',
+    been_on_diet: 'Yes',
+    comments: 'follow up',
+  });
+});
+
+test('sends cleared optional patient fields as null when updating', () => {
+  const request = toUpdatePatientRequest({
+    patientNumber: 'PAT-000001-8',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    middleName: '  ',
+    dateOfBirth: '1990-04-12',
+    sex: 'Female',
+    registrationDate: '2024-01-05',
+    phone: '555 0100',
+  });
+
+  expect(request).toMatchObject({ gender: 'F', phone: '555 0100', middle_name: null, email: null, next_of_kin_name: null });
+  expect(JSON.parse(JSON.stringify(request))).toHaveProperty('preferred_language', null);
+});
+
+test('translates a patient list query into DRF parameters', () => {
+  expect(toPatientListParams({ page: 2, pageSize: 25, search: '  jane ', visitDate: '', sortBy: 'age', sortDirection: 'desc' }))
+    .toEqual({ page: 2, page_size: 25, search: 'jane', ordering: 'date_of_birth' });
+
+  expect(toPatientListParams({ page: 1, pageSize: 10, sortBy: 'name', sortDirection: 'desc' }).ordering)
+    .toBe('-last_name,-first_name');
+});
+
+test('keeps the current refresh token when a refresh response omits it', () => {
+  expect(toAuthTokens({ access: 'new-access' }, 'old-refresh')).toEqual({
+    accessToken: 'new-access',
+    refreshToken: 'old-refresh',
+  });
+  expect(() => toAuthTokens({ access: 'new-access' })).toThrow(ApiValidationError);
+});
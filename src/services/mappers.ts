@@ -0,0 +1,397 @@
+import {
+  Assessment,
+  AuthTokens,
+  GeneralAssessment,
+  GenderIdentity,
+  NewGeneralAssessment,
+  NewOverweightAssessment,
+  NewPatient,
+  NewVitals,
+  OverweightAssessment,
+  MovedRecord,
+  Patient,
+  PatientChange,
+  PatientField,
+  PatientMergeRecord,
+  PatientListQuery,
+  PatientSortField,
+  PatientSummary,
+  Role,
+  Sex,
+  Vitals,
+} from '../types';
+import {
+  CreateGeneralAssessmentRequest,
+  CreateOverweightAssessmentRequest,
+  CreatePatientRequest,
+  CreateVitalsRequest,
+  GenderCode,
+  GenderIdentityCode,
+  MovedRecordDto,
+  PatientHistoryRequest,
+  UpdatePatientRequest,
+  YesNo,
+} from './dto';
+import { QueryParams } from './pagination';
+import { ApiValidationError, createReader } from './validation';
+
+/*
+The single mapping layer between the snake_case wire format and the camelCase
+domain types in src/types.
+
+Response mappers (toPatient, toVitals, ...):
+   - Validate the raw payload with services/validation
+   - Resolve legacy field aliases in one place
+   - Parse decimal strings into numbers
+
+Request mappers (toCreatePatientRequest, toUpdatePatientRequest, ...):
+   - Build the exact DTO the backend expects from a domain object
+   - toPatientHistoryRequest / toPatientMergeHistoryRequest name changed patient
+     fields by their wire names
+
+Query mappers (toPatientListParams):
+   - Translate list queries into DRF query parameters (page, page_size, search,
+     ordering, include_archived)
+*/
+
+const SEX_FROM_CODE: Record<GenderCode, Sex> = {
+  M: 'Male',
+  F: 'Female',
+  O: 'Other',
+  U: 'Undisclosed',
+};
+
+const SEX_TO_CODE: Record<Sex, GenderCode> = {
+  Male: 'M',
+  Female: 'F',
+  Other: 'O',
+  Undisclosed: 'U',
+};
+
+const GENDER_IDENTITY_FROM_CODE: Record<GenderIdentityCode, GenderIdentity> = {
+  woman: 'Woman',
+  man: 'Man',
+  non_binary: 'NonBinary',
+  other: 'Other',
+  undisclosed: 'Undisclosed',
+};
+
+const GENDER_IDENTITY_TO_CODE: Record<GenderIdentity, GenderIdentityCode> = {
+  Woman: 'woman',
+  Man: 'man',
+  NonBinary: 'non_binary',
+  Other: 'other',
+  Undisclosed: 'undisclosed',
+};
+
+const toYesNo = (value: boolean): YesNo => (value ? 'Yes' : 'No');
+
+const readSex = (value: string): Sex | undefined => {
+  const upper = value.trim().toUpperCase();
+  if (upper in SEX_FROM_CODE) return SEX_FROM_CODE[upper as GenderCode];
+  return (Object.keys(SEX_TO_CODE) as Sex[]).find(s => s.toUpperCase() === upper);
+};
+
+const readGenderIdentity = (value: string | undefined): GenderIdentity | undefined => {
+  const code = value?.trim().toLowerCase();
+  return code && code in GENDER_IDENTITY_FROM_CODE
+    ? GENDER_IDENTITY_FROM_CODE[code as GenderIdentityCode]
+    : undefined;
+};
+
+/*
+Function: Read the archive fields every record carries
+Purpose: archived_at is null (or absent) for records in use.
+*/
+const readArchive = (r: ReturnType<typeof createReader>) => ({
+  archivedAt: r.optionalString('archived_at'),
+  archiveReason: r.optionalString('archive_reason'),
+});
+
+export const toPatient = (data: unknown): Patient => {
+  const r = createReader(data, 'patient');
+  const rawSex = r.string('gender');
+  const sex = readSex(rawSex);
+  if (!sex) {
+    throw new ApiValidationError('patient', 'gender', 'one of M, F, O, U', rawSex);
+  }
+
+  return {
+    id: r.string('id'),
+    patientNumber: r.optionalString(r.firstPresent('patient_number', 'patient_id')) || '',
+    firstName: r.string('first_name'),
+    lastName: r.string('last_name'),
+    middleName: r.optionalString('middle_name'),
+    dateOfBirth: r.string('date_of_birth'),
+    sex,
+    genderIdentity: readGenderIdentity(r.optionalString('gender_identity')),
+    registrationDate: r.optionalString(r.firstPresent('registration_date', 'created_at')) || '',
+    phone: r.optionalString('phone'),
+    email: r.optionalString('email'),
+    address: r.optionalString('address'),
+    nationalId: r.optionalString('national_id'),
+    nextOfKinName: r.optionalString('next_of_kin_name'),
+    nextOfKinRelationship: r.optionalString('next_of_kin_relationship'),
+    nextOfKinPhone: r.optionalString('next_of_kin_phone'),
+    preferredLanguage: r.optionalString('preferred_language'),
+    createdAt: r.optionalString('created_at'),
+    updatedAt: r.optionalString('updated_at'),
+    ...readArchive(r),
+  };
+};
+
+export const toVitals = (data: unknown): Vitals => {
+  const r = createReader(data, 'vitals');
+  return {
+    id: r.string('id'),
+    patientId: r.string(r.firstPresent('patient', 'patient_id')),
+    visitDate: r.string(r.firstPresent('visit_date', 'created_at')),
+    height: r.number('height_cm'),
+    weight: r.number('weight_kg'),
+    bmi: r.number('bmi'),
+    systolic: r.optionalNumber('systolic_bp'),
+    diastolic: r.optionalNumber('diastolic_bp'),
+    pulse: r.optionalNumber('pulse_bpm'),
+    temperature: r.optionalNumber('temperature_c'),
+    respiratoryRate: r.optionalNumber('respiratory_rate'),
+    spo2: r.optionalNumber('spo2_percent'),
+    waist: r.optionalNumber('waist_cm'),
+    hip: r.optionalNumber('hip_cm'),
+    bodyFat: r.optionalNumber('body_fat_percent'),
+    createdAt: r.optionalString('created_at'),
+    ...readArchive(r),
+  };
+};
+
+export const toOverweightAssessment = (data: unknown): OverweightAssessment => {
+  const r = createReader(data, 'overweight assessment');
+  return {
+    id: r.string('id'),
+    type: 'overweight',
+    patientId: r.string(r.firstPresent('patient', 'patient_id')),
+    visitDate: r.string(r.firstPresent('visit_date', 'created_at')),
+    generalHealth: r.oneOf('general_health', ['Good', 'Poor'] as const),
+    beenOnDiet: r.optionalYesNo(r.firstPresent('diet_history', 'been_on_diet')),
+    comments: r.optionalString('comments') || '',
+    createdAt: r.optionalString('created_at'),
+    ...readArchive(r),
+  };
+};
+
+export const toGeneralAssessment = (data: unknown): GeneralAssessment => {
+  const r = createReader(data, 'general assessment');
+  return {
+    id: r.string('id'),
+    type: 'general',
+    patientId: r.string(r.firstPresent('patient', 'patient_id')),
+    visitDate: r.string(r.firstPresent('visit_date', 'created_at')),
+    generalHealth: r.oneOf('general_health', ['Good', 'Poor'] as const),
+    usingDrugs: r.optionalYesNo(r.firstPresent('currently_using_drugs', 'using_drugs')),
+    comments: r.optionalString('comments') || '',
+    createdAt: r.optionalString('created_at'),
+    ...readArchive(r),
+  };
+};
+
+export const toPatientSummary = (data: unknown): PatientSummary => {
+  const r = createReader(data, 'patient summary');
+  const lastAssessmentType = r.optionalString('last_assessment_type');
+  return {
+    patientId: r.string(r.firstPresent('patient_id', 'patient', 'id')),
+    lastBmi: r.optionalNumber('latest_bmi'),
+    lastWaistToHeight: r.optionalNumber('latest_waist_to_height_ratio'),
+    lastWaistToHip: r.optionalNumber('latest_waist_to_hip_ratio'),
+    lastVitalsDate: r.optionalString('last_vitals_date'),
+    lastAssessmentDate: r.optionalString('last_assessment_date'),
+    lastAssessmentType: lastAssessmentType
+      ? r.oneOf('last_assessment_type', ['overweight', 'general'] as const)
+      : undefined,
+  };
+};
+
+/*
+Function: Read a token response
+Purpose: A refresh response may omit the refresh token when the backend does
+not rotate it; the one already held is kept in that case.
+*/
+export const toAuthTokens = (data: unknown, currentRefreshToken?: string): AuthTokens => {
+  const r = createReader(data, 'token response');
+  const refreshToken = r.optionalString('refresh') || currentRefreshToken;
+  return {
+    accessToken: r.string('access'),
+    refreshToken: refreshToken || r.string('refresh'),
+  };
+};
+
+const ROLE_FROM_WIRE: Record<string, Role> = {
+  clinician: 'clinician',
+  nurse: 'nurse',
+  'front-desk': 'front-desk',
+  front_desk: 'front-desk',
+  frontdesk: 'front-desk',
+};
+
+export const toRole = (value: unknown): Role => {
+  const role = typeof value === 'string' ? ROLE_FROM_WIRE[value.trim().toLowerCase()] : undefined;
+  if (!role) {
+    throw new ApiValidationError('session', 'role', 'one of clinician, nurse, front-desk', value);
+  }
+  return role;
+};
+
+export const toAssessment = (data: unknown, type: Assessment['type']): Assessment =>
+  type === 'overweight' ? toOverweightAssessment(data) : toGeneralAssessment(data);
+
+export const toCreatePatientRequest = (patient: NewPatient): CreatePatientRequest => ({
+  patient_number: patient.patientNumber.trim(),
+  first_name: patient.firstName.trim(),
+  last_name: patient.lastName.trim(),
+  middle_name: patient.middleName?.trim() || undefined,
+  date_of_birth: patient.dateOfBirth,
+  gender: SEX_TO_CODE[patient.sex],
+  gender_identity: patient.genderIdentity && GENDER_IDENTITY_TO_CODE[patient.genderIdentity],
+  registration_date: patient.registrationDate,
+  phone: patient.phone?.trim() || undefined,
+  email: patient.email?.trim() || undefined,
+  address: patient.address?.trim() || undefined,
+  national_id: patient.nationalId?.trim() || undefined,
+  next_of_kin_name: patient.nextOfKinName?.trim() || undefined,
+  next_of_kin_relationship: patient.nextOfKinRelationship?.trim() || undefined,
+  next_of_kin_phone: patient.nextOfKinPhone?.trim() || undefined,
+  preferred_language: patient.preferredLanguage?.trim() || undefined,
+});
+
+/*
+Function: Build the body of a patient PUT
+Purpose: Same fields as registration, but a cleared optional field is sent as
+null so the backend clears it too instead of keeping the old value.
+*/
+export const toUpdatePatientRequest = (patient: NewPatient): UpdatePatientRequest => {
+  const request = toCreatePatientRequest(patient);
+  return {
+    ...request,
+    middle_name: request.middle_name ?? null,
+    gender_identity: request.gender_identity ?? null,
+    phone: request.phone ?? null,
+    email: request.email ?? null,
+    address: request.address ?? null,
+    national_id: request.national_id ?? null,
+    next_of_kin_name: request.next_of_kin_name ?? null,
+    next_of_kin_relationship: request.next_of_kin_relationship ?? null,
+    next_of_kin_phone: request.next_of_kin_phone ?? null,
+    preferred_language: request.preferred_language ?? null,
+  };
+};
+
+const PATIENT_FIELD_TO_WIRE: Record<PatientField, keyof CreatePatientRequest> = {
+  patientNumber: 'patient_number',
+  firstName: 'first_name',
+  lastName: 'last_name',
+  middleName: 'middle_name',
+  dateOfBirth: 'date_of_birth',
+  sex: 'gender',
+  genderIdentity: 'gender_identity',
+  registrationDate: 'registration_date',
+  phone: 'phone',
+  email: 'email',
+  address: 'address',
+  nationalId: 'national_id',
+  nextOfKinName: 'next_of_kin_name',
+  nextOfKinRelationship: 'next_of_kin_relationship',
+  nextOfKinPhone: 'next_of_kin_phone',
+  preferredLanguage: 'preferred_language',
+};
+
+export const toPatientHistoryRequest = (changes: PatientChange[], changedBy: string): PatientHistoryRequest => ({
+  action: 'update',
+  changed_by: changedBy,
+  changes: changes.map(change => ({
+    field: PATIENT_FIELD_TO_WIRE[change.field],
+    old_value: change.from ?? null,
+    new_value: change.to ?? null,
+  })),
+});
+
+const MOVED_RECORD_TYPE_TO_WIRE: Record<MovedRecord['type'], MovedRecordDto['type']> = {
+  vitals: 'vitals',
+  overweight: 'overweight_assessment',
+  general: 'general_assessment',
+};
+
+export const toPatientMergeHistoryRequest = (merge: PatientMergeRecord, changedBy: string): PatientHistoryRequest => ({
+  ...toPatientHistoryRequest(merge.changes, changedBy),
+  action: 'merge',
+  merged_patient: {
+    id: merge.duplicate.id,
+    patient_number: merge.duplicate.patientNumber,
+  },
+  moved_records: merge.movedRecords.map(record => ({ type: MOVED_RECORD_TYPE_TO_WIRE[record.type], id: record.id })),
+});
+
+export const toCreateVitalsRequest = (vitals: NewVitals): CreateVitalsRequest => ({
+  patient_id: vitals.patientId,
+  visit_date: vitals.visitDate,
+  height_cm: vitals.height,
+  weight_kg: vitals.weight,
+  bmi: vitals.bmi,
+  systolic_bp: vitals.systolic,
+  diastolic_bp: vitals.diastolic,
+  pulse_bpm: vitals.pulse,
+  temperature_c: vitals.temperature,
+  respiratory_rate: vitals.respiratoryRate,
+  spo2_percent: vitals.spo2,
+  waist_cm: vitals.waist,
+  hip_cm: vitals.hip,
+  body_fat_percent: vitals.bodyFat,
+});
+
+export const toCreateOverweightAssessmentRequest = (
+  assessment: NewOverweightAssessment
+): CreateOverweightAssessmentRequest => ({
+  patient_id: assessment.patientId,
+  visit_date: assessment.visitDate,
+  general_health: assessment.generalHealth,
+  been_on_diet: toYesNo(assessment.beenOnDiet),
+  comments: assessment.comments.trim(),
+});
+
+export const toCreateGeneralAssessmentRequest = (
+  assessment: NewGeneralAssessment
+): CreateGeneralAssessmentRequest => ({
+  patient_id: assessment.patientId,
+  visit_date: assessment.visitDate,
+  general_health: assessment.generalHealth,
+  currently_using_drugs: toYesNo(assessment.usingDrugs),
+  comments: assessment.comments.trim(),
+});
+
+/*
+Ascending order for each sortable column. Age ascending means youngest first,
+which is the latest date of birth first.
+*/
+const PATIENT_ORDERING: Record<PatientSortField, string[]> = {
+  name: ['last_name', 'first_name'],
+  age: ['-date_of_birth'],
+  registrationDate: ['registration_date'],
+};
+
+const invertOrdering = (field: string): string =>
+  field.startsWith('-') ? field.slice(1) : `-${field}`;
+
+export const toPatientListParams = (query: PatientListQuery): QueryParams => {
+  const params: QueryParams = {
+    page: query.page,
+    page_size: query.pageSize,
+  };
+
+  if (query.search?.trim()) params.search = query.search.trim();
+  if (query.visitDate) params.visit_date = query.visitDate;
+  if (query.includeArchived) params.include_archived = true;
+
+  if (query.sortBy) {
+    const fields = PATIENT_ORDERING[query.sortBy];
+    params.ordering = (query.sortDirection === 'desc' ? fields.map(invertOrdering) : fields).join(',');
+  }
+
+  return params;
+};
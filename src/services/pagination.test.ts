@@ -0,0 +1,58 @@
+import { AxiosInstance } from 'axios';
+import { fetchAllPages, iteratePages, parsePage } from './pagination';
+import { ApiValidationError } from './validation';
+
+const identity = (item: unknown) => item as number;
+
+const fakeClient = (responses: Record<string, unknown>) => {
+  const requested: string[] = [];
+  const client = {
+    get: async (url: string) => {
+      requested.push(url);
+      return { data: responses[url] };
+    },
+  } as unknown as AxiosInstance;
+  return { client, requested };
+};
+
+test('treats a bare array as a single complete page', () => {
+  expect(parsePage([1, 2, 3], 'numbers', identity)).toEqual({
+    results: [1, 2, 3],
+    count: 3,
+    next: null,
+    previous: null,
+  });
+});
+
+test('reads the DRF envelope', () => {
+  const page = parsePage(
+    { count: 25, next: 'http://api/items/?page=2', previous: null, results: [1, 2] },
+    'numbers',
+    identity
+  );
+
+  expect(page.count).toBe(25);
+  expect(page.next).toBe('http://api/items/?page=2');
+  expect(page.results).toEqual([1, 2]);
+});
+
+test('rejects payloads that are not lists', () => {
+  expect(() => parsePage({ detail: 'Not found.' }, 'numbers', identity)).toThrow(ApiValidationError);
+  expect(() => parsePage({ count: 'many', results: [] }, 'numbers', identity)).toThrow(ApiValidationError);
+});
+
+test('follows next links only as pages are consumed', async () => {
+  const { client, requested } = fakeClient({
+    '/items/': { count: 4, next: '/items/?page=2', previous: null, results: [1, 2] },
+    '/items/?page=2': { count: 4, next: null, previous: '/items/', results: [3, 4] },
+  });
+
+  const pages = iteratePages(client, '/items/', undefined, 'numbers', identity);
+  const first = await pages.next();
+
+  expect(first.value?.results).toEqual([1, 2]);
+  expect(requested).toEqual(['/items/']);
+
+  const all = await fetchAllPages(client, '/items/', undefined, 'numbers', identity);
+  expect(all).toEqual({ results: [1, 2, 3, 4], count: 4 });
+});
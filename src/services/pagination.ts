@@ -0,0 +1,113 @@
+import { AxiosInstance } from 'axios';
+import { ApiValidationError } from './validation';
+
+/*
+The one place that understands list responses from the backend.
+
+List endpoints answer either with a bare array or with a DRF-style envelope:
+   { "count": 42, "next": "http://.../patients/?page=2", "previous": null, "results": [...] }
+
+This module normalizes both into a Page<T>, maps every item through the given
+domain mapper, and can walk the `next` links lazily so callers only fetch the
+pages they actually consume.
+
+Usage:
+   const page = await fetchPage(api, '/patients/', { page: 1 }, 'patient list', toPatient);
+   for await (const page of iteratePages(api, '/vitals/', params, 'vitals list', toVitals)) { ... }
+   const { results, count } = await fetchAllPages(api, '/vitals/', params, 'vitals list', toVitals);
+*/
+
+export interface Page<T> {
+  results: T[];
+  count: number;
+  next: string | null;
+  previous: string | null;
+}
+
+export type QueryParams = Record<string, string | number | boolean | undefined>;
+
+const readLink = (envelope: Record<string, unknown>, field: 'next' | 'previous', resource: string) => {
+  const value = envelope[field];
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'string') return value;
+  throw new ApiValidationError(resource, field, 'a URL or null', value);
+};
+
+export const parsePage = <T>(data: unknown, resource: string, mapItem: (item: unknown) => T): Page<T> => {
+  if (Array.isArray(data)) {
+    return { results: data.map(mapItem), count: data.length, next: null, previous: null };
+  }
+
+  if (typeof data !== 'object' || data === null || !Array.isArray((data as Record<string, unknown>).results)) {
+    throw new ApiValidationError(resource, '(root)', 'a list or a paginated envelope', data);
+  }
+
+  const envelope = data as Record<string, unknown>;
+  const results = (envelope.results as unknown[]).map(mapItem);
+  const count = envelope.count === undefined ? results.length : envelope.count;
+  if (typeof count !== 'number' || count < 0) {
+    throw new ApiValidationError(resource, 'count', 'a non-negative number', envelope.count);
+  }
+
+  return {
+    results,
+    count,
+    next: readLink(envelope, 'next', resource),
+    previous: readLink(envelope, 'previous', resource),
+  };
+};
+
+export const fetchPage = async <T>(
+  client: AxiosInstance,
+  url: string,
+  params: QueryParams | undefined,
+  resource: string,
+  mapItem: (item: unknown) => T,
+  signal?: AbortSignal
+): Promise<Page<T>> => {
+  const response = await client.get<unknown>(url, { params, signal });
+  return parsePage(response.data, resource, mapItem);
+};
+
+/*
+Function: Iterate pages lazily
+Purpose: Yields one page at a time, following the server's `next` links.
+The next request is only sent when the consumer asks for the next page, so
+breaking out of a `for await` loop stops fetching.
+*/
+export async function* iteratePages<T>(
+  client: AxiosInstance,
+  url: string,
+  params: QueryParams | undefined,
+  resource: string,
+  mapItem: (item: unknown) => T,
+  signal?: AbortSignal
+): AsyncGenerator<Page<T>> {
+  let page = await fetchPage(client, url, params, resource, mapItem, signal);
+  yield page;
+
+  while (page.next) {
+    // `next` already carries the query string, so the original params are not resent
+    page = await fetchPage(client, page.next, undefined, resource, mapItem, signal);
+    yield page;
+  }
+}
+
+export const fetchAllPages = async <T>(
+  client: AxiosInstance,
+  url: string,
+  params: QueryParams | undefined,
+  resource: string,
+  mapItem: (item: unknown) => T,
+  signal?: AbortSignal
+): Promise<{ results: T[]; count: number }> => {
+  const results: T[] = [];
+  let count = 0;
+
+  for await (const page of iteratePages(client, url, params, resource, mapItem, signal)) {
+    results.push(...page.results);
+    count = page.count;
+  }
+
+  return { results, count: Math.max(count, results.length) };
+};
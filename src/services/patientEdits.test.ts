@@ -0,0 +1,50 @@
+import { Patient } from '../types';
+import { diffPatient, isSameVersion, rebaseEdits, toEditablePatient, validatePatient } from './patientEdits';
+
+const patient: Patient = {
+  id: 'p1',
+  patientNumber: 'PAT001',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  dateOfBirth: '1990-04-12',
+  sex: 'Female',
+  registrationDate: '2024-01-05',
+  updatedAt: '2024-01-05T10:00:00Z',
+};
+
+test('reports only the fields that changed, ignoring surrounding whitespace', () => {
+  const edited = { ...toEditablePatient(patient), firstName: ' Jane ', lastName: 'Smith', middleName: '' };
+
+  expect(diffPatient(toEditablePatient(patient), edited)).toEqual([
+    { field: 'lastName', from: 'Doe', to: 'Smith' },
+  ]);
+});
+
+test('keeps only the fields this user changed when rebasing onto a newer version', () => {
+  const base = toEditablePatient(patient);
+  const edited = { ...base, lastName: 'Smith', phone: '' };
+  const current = { ...base, firstName: 'Janet', phone: '555 0100', email: 'jane@example.org' };
+
+  expect(rebaseEdits({ ...base, phone: '555 0100' }, edited, current)).toEqual({
+    ...current,
+    lastName: 'Smith',
+    phone: '',
+  });
+  expect(rebaseEdits(base, edited, current).firstName).toBe('Janet');
+});
+
+test('compares versions by updated_at, or field by field without it', () => {
+  expect(isSameVersion(patient, { ...patient, updatedAt: '2024-02-01T09:00:00Z' })).toBe(false);
+  expect(isSameVersion({ ...patient, updatedAt: undefined }, { ...patient, updatedAt: undefined })).toBe(true);
+  expect(isSameVersion({ ...patient, updatedAt: undefined }, { ...patient, firstName: 'Janet', updatedAt: undefined })).toBe(false);
+});
+
+test('rejects dates that cannot be right', () => {
+  const valid = toEditablePatient(patient);
+
+  expect(validatePatient(valid, '2024-06-01')).toBeNull();
+  expect(validatePatient({ ...valid, lastName: '  ' }, '2024-06-01')).toBe('Please fill in all required fields');
+  expect(validatePatient({ ...valid, dateOfBirth: '2024-07-01' }, '2024-06-01')).toBe('Date of birth cannot be in the future');
+  expect(validatePatient({ ...valid, registrationDate: '1989-01-01' }, '2024-06-01'))
+    .toBe('Registration date cannot be before the date of birth');
+});
@@ -0,0 +1,149 @@
+import { GenderIdentity, NewPatient, Patient, PatientChange, PatientField, Sex } from '../types';
+import { GENDER_IDENTITY_LABELS, SEX_LABELS } from './sexGender';
+
+/*
+Rules for editing an existing patient's demographics.
+
+   - validatePatient: the checks every registration or edit must pass
+   - diffPatient: which fields an edit actually changes (the audit record)
+   - rebaseEdits: carry an edit over onto a newer version after a conflict
+   - isSameVersion / PatientEditConflictError: detect that someone else saved
+     the patient while this edit was open, so their change is not overwritten
+   - PatientHistoryAuditError: the edit was saved but not its history entry
+
+Values are compared after trimming, so stray whitespace is not reported as a change.
+*/
+
+export const PATIENT_FIELD_LABELS: Record<PatientField, string> = {
+  patientNumber: 'Patient number',
+  firstName: 'First name',
+  lastName: 'Last name',
+  middleName: 'Middle name',
+  dateOfBirth: 'Date of birth',
+  sex: 'Sex',
+  genderIdentity: 'Gender identity',
+  registrationDate: 'Registration date',
+  phone: 'Phone',
+  email: 'Email',
+  address: 'Address',
+  nationalId: 'National ID',
+  nextOfKinName: 'Next of kin',
+  nextOfKinRelationship: 'Next of kin relationship',
+  nextOfKinPhone: 'Next of kin phone',
+  preferredLanguage: 'Preferred language',
+};
+
+export const PATIENT_FIELDS = Object.keys(PATIENT_FIELD_LABELS) as PatientField[];
+
+/*
+Function: Show a stored field value to the user
+Purpose: Sex and gender identity are stored as codes; everything else is shown as is.
+*/
+export const formatPatientFieldValue = (field: PatientField, value: string | undefined): string | undefined => {
+  if (!value) return value;
+  if (field === 'sex') return SEX_LABELS[value as Sex] ?? value;
+  if (field === 'genderIdentity') return GENDER_IDENTITY_LABELS[value as GenderIdentity] ?? value;
+  return value;
+};
+
+export class PatientEditConflictError extends Error {
+  readonly current: Patient;
+
+  constructor(current: Patient) {
+    super('This patient was changed by someone else while you were editing.');
+    this.name = 'PatientEditConflictError';
+    this.current = current;
+    Object.setPrototypeOf(this, PatientEditConflictError.prototype);
+  }
+}
+
+/*
+The patient was saved but the change history entry (who changed which fields)
+could not be written after several attempts. `changes` holds the entry to write
+again (services/queries#retryPatientHistory).
+*/
+export class PatientHistoryAuditError extends Error {
+  readonly saved: Patient;
+  readonly changes: PatientChange[];
+
+  constructor(saved: Patient, changes: PatientChange[]) {
+    super('The changes were saved, but could not be written to the change history.');
+    this.name = 'PatientHistoryAuditError';
+    this.saved = saved;
+    this.changes = changes;
+    Object.setPrototypeOf(this, PatientHistoryAuditError.prototype);
+  }
+}
+
+export const toEditablePatient = (patient: Patient): NewPatient => ({
+  patientNumber: patient.patientNumber,
+  firstName: patient.firstName,
+  lastName: patient.lastName,
+  middleName: patient.middleName,
+  dateOfBirth: patient.dateOfBirth,
+  sex: patient.sex,
+  genderIdentity: patient.genderIdentity,
+  registrationDate: patient.registrationDate,
+  phone: patient.phone,
+  email: patient.email,
+  address: patient.address,
+  nationalId: patient.nationalId,
+  nextOfKinName: patient.nextOfKinName,
+  nextOfKinRelationship: patient.nextOfKinRelationship,
+  nextOfKinPhone: patient.nextOfKinPhone,
+  preferredLanguage: patient.preferredLanguage,
+});
+
+const normalize = (value: string | undefined): string | undefined => value?.trim() || undefined;
+
+export const diffPatient = (before: NewPatient, after: NewPatient): PatientChange[] =>
+  PATIENT_FIELDS
+    .filter(field => normalize(before[field]) !== normalize(after[field]))
+    .map(field => ({ field, from: normalize(before[field]), to: normalize(after[field]) }));
+
+/*
+Function: Carry an edit over onto a newer version
+Purpose: Applies only the fields the user changed (from `base` to `edited`) to
+`current`, so keeping one's changes after a conflict never reverts what the
+other editor changed in fields this user did not touch.
+*/
+export const rebaseEdits = (base: NewPatient, edited: NewPatient, current: NewPatient): NewPatient =>
+  diffPatient(base, edited).reduce<NewPatient>(
+    (rebased, { field }) => ({ ...rebased, [field]: edited[field] }),
+    { ...current }
+  );
+
+/*
+Function: Compare two copies of a patient record
+Purpose: Uses the server's updated_at when both copies have it; older backends
+without it are compared field by field.
+*/
+export const isSameVersion = (a: Patient, b: Patient): boolean =>
+  a.updatedAt && b.updatedAt
+    ? a.updatedAt === b.updatedAt
+    : diffPatient(toEditablePatient(a), toEditablePatient(b)).length === 0;
+
+const todayIso = () => new Date().toISOString().split('T')[0];
+
+/*
+Function: Validate patient demographics
+Purpose: Returns the first problem as a message for the form, or null when
+the patient can be saved. Dates are ISO (YYYY-MM-DD) strings, so they compare
+as text.
+*/
+export const validatePatient = (patient: NewPatient, today: string = todayIso()): string | null => {
+  if (!normalize(patient.firstName) || !normalize(patient.lastName) || !patient.dateOfBirth ||
+      !patient.sex || !normalize(patient.patientNumber) || !patient.registrationDate) {
+    return 'Please fill in all required fields';
+  }
+  if (patient.dateOfBirth > today) {
+    return 'Date of birth cannot be in the future';
+  }
+  if (patient.registrationDate > today) {
+    return 'Registration date cannot be in the future';
+  }
+  if (patient.registrationDate < patient.dateOfBirth) {
+    return 'Registration date cannot be before the date of birth';
+  }
+  return null;
+};
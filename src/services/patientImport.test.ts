@@ -0,0 +1,101 @@
+import { buildErrorReport, parseCsv } from './csv';
+import { guessColumnMapping, markExistingNumbers, prepareImportRows } from './patientImport';
+import { DEFAULT_PATIENT_NUMBER_FORMAT, formatPatientNumber } from './patientNumbers';
+
+const headers = ['Patient No', 'First Name', 'Surname', 'DOB', 'Gender', 'Phone'];
+const options = {
+  format: DEFAULT_PATIENT_NUMBER_FORMAT,
+  today: '2024-06-01',
+  nextNumber: formatPatientNumber(DEFAULT_PATIENT_NUMBER_FORMAT, 10),
+};
+const records = (rows: string[][]) => rows.map((values, index) => ({ line: index + 2, values }));
+
+test('guesses columns from common header names', () => {
+  expect(guessColumnMapping(headers)).toEqual({
+    patientNumber: 0,
+    firstName: 1,
+    lastName: 2,
+    dateOfBirth: 3,
+    sex: 4,
+    phone: 5,
+  });
+});
+
+describe('prepareImportRows', () => {
+  const mapping = guessColumnMapping(headers);
+
+  it('fills in patient numbers and the registration date', () => {
+    const [row] = prepareImportRows(records([['', 'Jane', 'Doe', '14/05/1990', 'F', '']]), mapping, options);
+    expect(row.errors).toEqual([]);
+    expect(row.patient).toMatchObject({
+      patientNumber: formatPatientNumber(DEFAULT_PATIENT_NUMBER_FORMAT, 10),
+      dateOfBirth: '1990-05-14',
+      sex: 'Female',
+      registrationDate: '2024-06-01',
+    });
+  });
+
+  it('applies the registration rules to every row', () => {
+    const rows = prepareImportRows(records([
+      ['', 'Jane', '', '1990-05-14', 'F', ''],
+      ['', 'John', 'Doe', '2030-01-01', 'M', ''],
+      ['', 'Sam', 'Doe', '1990-05-14', 'X', 'abc'],
+      ['PAT-1', 'Ann', 'Doe', '1990-05-14', 'F', ''],
+    ]), mapping, options);
+
+    expect(rows[0].errors).toEqual(['Missing last name']);
+    expect(rows[1].errors).toEqual(['Date of birth cannot be in the future']);
+    expect(rows[2].errors).toHaveLength(2);
+    expect(rows[3].errors).toHaveLength(1);
+  });
+
+  it('rejects a patient number used twice in the file or already registered', () => {
+    const number = formatPatientNumber(DEFAULT_PATIENT_NUMBER_FORMAT, 3);
+    const rows = prepareImportRows(records([
+      [number, 'Jane', 'Doe', '1990-05-14', 'F', ''],
+      [number, 'John', 'Doe', '1991-05-14', 'M', ''],
+    ]), mapping, options);
+    expect(rows[0].errors).toEqual([]);
+    expect(rows[1].errors).toEqual([`Patient number ${number} appears earlier in the file`]);
+
+    const checked = markExistingNumbers(rows, new Set([number]));
+    expect(checked[0].errors).toEqual([`Patient number ${number} is already registered`]);
+  });
+
+  it('skips numbers given explicitly later in the file when filling in numbers', () => {
+    const taken = formatPatientNumber(DEFAULT_PATIENT_NUMBER_FORMAT, 10);
+    const rows = prepareImportRows(records([
+      ['', 'Jane', 'Doe', '1990-05-14', 'F', ''],
+      [taken, 'John', 'Doe', '1991-05-14', 'M', ''],
+    ]), mapping, options);
+
+    expect(rows[0].patient?.patientNumber).toBe(formatPatientNumber(DEFAULT_PATIENT_NUMBER_FORMAT, 11));
+    expect(rows.map(row => row.errors)).toEqual([[], []]);
+  });
+});
+
+test('error report lists only rejected rows with their problems', () => {
+  const rows = prepareImportRows(records([
+    ['', 'Jane', 'Doe', '1990-05-14', 'F', ''],
+    ['', 'John', '', '1991-05-14', 'M', ''],
+  ]), guessColumnMapping(headers), options);
+
+  expect(buildErrorReport(headers, rows)).toEqual([
+    ['Row', ...headers, 'Errors'],
+    ['3', '', 'John', '', '1991-05-14', 'M', '', 'Missing last name'],
+  ]);
+});
+
+test('numbers rows by the line they start on in the file', () => {
+  const [header, ...data] = parseCsv([
+    'Patient No,First Name,Surname,DOB,Gender,Address',
+    ',Jane,Doe,1990-05-14,F,"12 High St',
+    'Springfield"',
+    '',
+    ',John,,1991-05-14,M,',
+  ].join('\r\n'));
+
+  const rows = prepareImportRows(data, guessColumnMapping(header.values), options);
+  expect(rows.map(row => row.rowNumber)).toEqual([2, 5]);
+  expect(rows[0].patient?.address).toBe('12 High St\r\nSpringfield');
+});
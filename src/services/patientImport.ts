@@ -0,0 +1,183 @@
+import { GenderIdentity, NewPatient, PatientField, Sex } from '../types';
+import { validateContactDetails } from './contactDetails';
+import { CsvImportRow, CsvRecord, matchColumns, parseCsvDate } from './csv';
+import { PATIENT_FIELD_LABELS, PATIENT_FIELDS, validatePatient } from './patientEdits';
+import { formatPatientNumber, parsePatientNumber, PatientNumberFormat, validatePatientNumber } from './patientNumbers';
+
+/*
+Turning the rows of a spreadsheet export into patients to register.
+
+   1. guessColumnMapping: match the file's header row to patient fields
+   2. prepareImportRows: read every row through the mapping, fill in what
+      registration would fill in (next patient number, today's registration
+      date) and check it with the same rules as the registration form
+   3. markExistingNumbers: reject rows whose patient number is already taken,
+      once the backend has been asked (services/queries#previewPatientImport)
+   4. services/csv#buildErrorReport: the rejected rows with their problems
+
+Dates are accepted as YYYY-MM-DD or DD/MM/YYYY; sex and gender identity as
+their labels or the usual one-letter codes.
+*/
+
+export type ColumnMapping = Partial<Record<PatientField, number>>;
+
+export interface ImportRow extends CsvImportRow {
+  patient?: NewPatient;
+  registeredId?: string;
+}
+
+export interface ImportOptions {
+  format: PatientNumberFormat;
+  nationalIdPattern?: string;
+  today: string;
+  nextNumber?: string;
+}
+
+export const REQUIRED_IMPORT_FIELDS: PatientField[] = ['firstName', 'lastName', 'dateOfBirth', 'sex'];
+
+const HEADER_ALIASES: Partial<Record<PatientField, string[]>> = {
+  patientNumber: ['patientno', 'patientid', 'mrn', 'number'],
+  firstName: ['givenname', 'forename'],
+  lastName: ['surname', 'familyname'],
+  dateOfBirth: ['dob', 'birthdate'],
+  sex: ['gender'],
+  registrationDate: ['registered', 'dateregistered'],
+  phone: ['phonenumber', 'telephone', 'mobile'],
+  email: ['emailaddress'],
+  nationalId: ['idnumber'],
+  nextOfKinName: ['nextofkinname', 'nok'],
+  nextOfKinPhone: ['nokphone'],
+  preferredLanguage: ['language'],
+};
+
+const normalizeValue = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/*
+Function: Guess which column holds which field
+Purpose: A header matches a field by its label ("Date of birth"), its name
+(dateOfBirth, date_of_birth) or a common alias (DOB).
+*/
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const names = {} as Record<PatientField, string[]>;
+  PATIENT_FIELDS.forEach(field => {
+    names[field] = [field, PATIENT_FIELD_LABELS[field], ...(HEADER_ALIASES[field] || [])];
+  });
+  return matchColumns(headers, names);
+};
+
+export const missingRequiredFields = (mapping: ColumnMapping): PatientField[] =>
+  REQUIRED_IMPORT_FIELDS.filter(field => mapping[field] === undefined);
+
+const SEX_VALUES: Record<string, Sex> = {
+  f: 'Female', female: 'Female',
+  m: 'Male', male: 'Male',
+  o: 'Other', other: 'Other',
+  u: 'Undisclosed', unknown: 'Undisclosed', undisclosed: 'Undisclosed', prefernottosay: 'Undisclosed',
+};
+
+const GENDER_IDENTITY_VALUES: Record<string, GenderIdentity> = {
+  woman: 'Woman', female: 'Woman',
+  man: 'Man', male: 'Man',
+  nonbinary: 'NonBinary',
+  other: 'Other',
+  undisclosed: 'Undisclosed', prefernottosay: 'Undisclosed',
+};
+
+/*
+Function: Read one data row through the mapping
+Purpose: Returns the patient as far as it could be read, a message for every
+cell that could not be understood and the required fields left empty.
+*/
+const readRow = (values: string[], mapping: ColumnMapping, today: string) => {
+  const errors: string[] = [];
+  const cell = (field: PatientField) => {
+    const column = mapping[field];
+    return column === undefined ? '' : (values[column] || '').trim();
+  };
+  const date = (field: 'dateOfBirth' | 'registrationDate') => {
+    const raw = cell(field);
+    if (!raw) return '';
+    const parsed = parseCsvDate(raw);
+    if (!parsed) errors.push(`${PATIENT_FIELD_LABELS[field]} "${raw}" is not a date (use YYYY-MM-DD or DD/MM/YYYY)`);
+    return parsed || '';
+  };
+
+  const rawSex = cell('sex');
+  const sex = SEX_VALUES[normalizeValue(rawSex)];
+  if (rawSex && !sex) errors.push(`Sex "${rawSex}" is not one of Female, Male, Other, Prefer not to say`);
+
+  const rawIdentity = cell('genderIdentity');
+  const genderIdentity = GENDER_IDENTITY_VALUES[normalizeValue(rawIdentity)];
+  if (rawIdentity && !genderIdentity) errors.push(`Gender identity "${rawIdentity}" is not recognised`);
+
+  const optional = (field: PatientField) => cell(field) || undefined;
+  const patient: NewPatient = {
+    patientNumber: cell('patientNumber').toUpperCase(),
+    firstName: cell('firstName'),
+    lastName: cell('lastName'),
+    middleName: optional('middleName'),
+    dateOfBirth: date('dateOfBirth'),
+    sex: sex as Sex,
+    genderIdentity,
+    registrationDate: date('registrationDate') || (cell('registrationDate') ? '' : today),
+    phone: optional('phone'),
+    email: optional('email'),
+    address: optional('address'),
+    nationalId: optional('nationalId'),
+    nextOfKinName: optional('nextOfKinName'),
+    nextOfKinRelationship: optional('nextOfKinRelationship'),
+    nextOfKinPhone: optional('nextOfKinPhone'),
+    preferredLanguage: optional('preferredLanguage'),
+  };
+  const missing = REQUIRED_IMPORT_FIELDS.filter(field => !cell(field));
+  return { patient, errors, missing };
+};
+
+/*
+Function: Read and check every data row
+Purpose: Rows without a patient number get the next free numbers in file
+order, starting at `nextNumber` and skipping numbers other rows of the file
+give explicitly. A number used twice in the file rejects every row after the
+first that uses it.
+*/
+export const prepareImportRows = (records: CsvRecord[], mapping: ColumnMapping, options: ImportOptions): ImportRow[] => {
+  const { format, nationalIdPattern, today, nextNumber } = options;
+  let sequence = nextNumber ? parsePatientNumber(format, nextNumber) : null;
+  const seenNumbers = new Set<string>();
+  const rows = records.map(({ line, values }) => ({ line, values, ...readRow(values, mapping, today) }));
+  const explicitNumbers = new Set(rows.map(({ patient }) => patient.patientNumber).filter(Boolean));
+
+  return rows.map(({ line, values, patient, errors, missing }) => {
+    while (!patient.patientNumber && sequence !== null) {
+      const generated = formatPatientNumber(format, sequence++);
+      if (!explicitNumbers.has(generated)) patient.patientNumber = generated;
+    }
+
+    if (missing.length > 0) {
+      errors.push(`Missing ${missing.map(field => PATIENT_FIELD_LABELS[field].toLowerCase()).join(', ')}`);
+    } else if (errors.length === 0) {
+      const registrationError = validatePatient(patient, today);
+      if (registrationError) errors.push(registrationError);
+    }
+    const numberError = patient.patientNumber && validatePatientNumber(format, patient.patientNumber);
+    if (numberError) errors.push(numberError);
+    Object.entries(validateContactDetails(patient, nationalIdPattern)).forEach(([field, message]) => {
+      errors.push(`${PATIENT_FIELD_LABELS[field as PatientField]}: ${message}`);
+    });
+
+    if (patient.patientNumber && seenNumbers.has(patient.patientNumber)) {
+      errors.push(`Patient number ${patient.patientNumber} appears earlier in the file`);
+    }
+    seenNumbers.add(patient.patientNumber);
+
+    return { rowNumber: line, values, patient, errors };
+  });
+};
+
+export const markExistingNumbers = (rows: ImportRow[], existingNumbers: Set<string>): ImportRow[] =>
+  rows.map(row => row.patient && existingNumbers.has(row.patient.patientNumber)
+    ? { ...row, errors: [...row.errors, `Patient number ${row.patient.patientNumber} is already registered`] }
+    : row);
+
+export const isReadyToImport = (row: ImportRow): boolean =>
+  row.errors.length === 0 && Boolean(row.patient) && !row.registeredId;
@@ -0,0 +1,42 @@
+import { Patient } from '../types';
+import { buildMergedPatient, defaultMergeChoices, differingFields } from './patientMerge';
+
+const survivor: Patient = {
+  id: 'a',
+  patientNumber: 'PAT-000002-4',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  dateOfBirth: '1990-04-12',
+  sex: 'Female',
+  registrationDate: '2024-03-01',
+};
+
+const duplicate: Patient = {
+  ...survivor,
+  id: 'b',
+  patientNumber: 'PAT-000001-8',
+  firstName: 'Jayne',
+  middleName: 'Ann',
+  registrationDate: '2023-11-20',
+};
+
+test('keeps the survivor by default but fills gaps and keeps the earlier registration', () => {
+  const choices = defaultMergeChoices(survivor, duplicate);
+
+  expect(buildMergedPatient(survivor, duplicate, choices)).toEqual({
+    patientNumber: 'PAT-000002-4',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    middleName: 'Ann',
+    dateOfBirth: '1990-04-12',
+    sex: 'Female',
+    registrationDate: '2023-11-20',
+  });
+});
+
+test('takes the values picked from the duplicate', () => {
+  const choices = { ...defaultMergeChoices(survivor, duplicate), patientNumber: 'duplicate' as const };
+
+  expect(differingFields(survivor, duplicate)).toEqual(['patientNumber', 'firstName', 'middleName', 'registrationDate']);
+  expect(buildMergedPatient(survivor, duplicate, choices).patientNumber).toBe('PAT-000001-8');
+});
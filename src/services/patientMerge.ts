@@ -0,0 +1,74 @@
+import { NewPatient, Patient, PatientField, PatientMergeRecord } from '../types';
+import { diffPatient, PATIENT_FIELDS, toEditablePatient } from './patientEdits';
+
+/*
+Planning a merge of two records that belong to the same person.
+
+Terms:
+   - survivor:  the record that is kept; every vital and assessment ends up here
+   - duplicate: the record that is folded into the survivor and then archived,
+                with the merge as the reason (never deleted)
+
+For each demographic field the user picks which record's value survives.
+The defaults keep the survivor's values, except that an empty survivor field
+takes the duplicate's value and the earlier registration date is kept (the
+person has been a patient since then).
+
+Running the merge lives in services/queries#mergePatients.
+*/
+
+export type MergeSide = 'survivor' | 'duplicate';
+
+export type MergeChoices = Record<PatientField, MergeSide>;
+
+export const defaultMergeChoices = (survivor: Patient, duplicate: Patient): MergeChoices => {
+  const kept = toEditablePatient(survivor);
+  const other = toEditablePatient(duplicate);
+
+  const choices = {} as MergeChoices;
+  PATIENT_FIELDS.forEach(field => {
+    choices[field] = !kept[field]?.trim() && other[field]?.trim() ? 'duplicate' : 'survivor';
+  });
+  if (other.registrationDate && kept.registrationDate && other.registrationDate < kept.registrationDate) {
+    choices.registrationDate = 'duplicate';
+  }
+  return choices;
+};
+
+export const buildMergedPatient = (survivor: Patient, duplicate: Patient, choices: MergeChoices): NewPatient => {
+  const kept = toEditablePatient(survivor);
+  const other = toEditablePatient(duplicate);
+
+  const merged = { ...kept };
+  PATIENT_FIELDS.forEach(field => {
+    if (choices[field] === 'duplicate') {
+      (merged as Record<PatientField, string | undefined>)[field] = other[field];
+    }
+  });
+  return merged;
+};
+
+/*
+The records were merged but the audit entry of the merge could not be written
+after several attempts. The merge is not finished until it is: `merge` holds
+the entry to write again (services/queries#retryMergeAudit).
+*/
+export class PatientMergeAuditError extends Error {
+  readonly survivor: Patient;
+  readonly merge: PatientMergeRecord;
+
+  constructor(survivor: Patient, merge: PatientMergeRecord) {
+    super('The records were merged, but the merge could not be written to the change history.');
+    this.name = 'PatientMergeAuditError';
+    this.survivor = survivor;
+    this.merge = merge;
+    Object.setPrototypeOf(this, PatientMergeAuditError.prototype);
+  }
+}
+
+/*
+Function: Fields on which the two records disagree
+Purpose: Only these need a choice; identical fields are shown once.
+*/
+export const differingFields = (survivor: Patient, duplicate: Patient): PatientField[] =>
+  diffPatient(toEditablePatient(survivor), toEditablePatient(duplicate)).map(change => change.field);
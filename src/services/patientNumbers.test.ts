@@ -0,0 +1,39 @@
+import {
+  formatPatientNumber,
+  luhnCheckDigit,
+  nextPatientNumber,
+  PatientNumberFormat,
+  validatePatientNumber,
+} from './patientNumbers';
+
+const format: PatientNumberFormat = { prefix: 'PAT', clinicCode: 'RIV', sequenceDigits: 6, checkDigit: 'luhn' };
+
+test('computes the standard Luhn check digit', () => {
+  expect(luhnCheckDigit('7992739871')).toBe(3);
+  expect(luhnCheckDigit('000123')).toBe(0);
+});
+
+test('formats and continues the sequence', () => {
+  expect(formatPatientNumber(format, 42)).toBe('PAT-RIV-000042-2');
+  expect(formatPatientNumber({ ...format, clinicCode: undefined, checkDigit: 'none' }, 7)).toBe('PAT-000007');
+  expect(nextPatientNumber(format, ['PAT-RIV-000042-2'])).toBe('PAT-RIV-000043-0');
+  expect(nextPatientNumber(format, [])).toBe('PAT-RIV-000001-8');
+});
+
+test('continues past a sequence longer than its padding', () => {
+  const existing = [
+    formatPatientNumber(format, 999999),
+    formatPatientNumber(format, 1000000),
+    formatPatientNumber(format, 999998),
+    'PAT-RIV-9999999',
+    'OLD-2000000',
+  ];
+  expect(nextPatientNumber(format, existing)).toBe(formatPatientNumber(format, 1000001));
+  expect(formatPatientNumber(format, 1000001)).toBe('PAT-RIV-1000001-6');
+});
+
+test('catches typos in entered numbers', () => {
+  expect(validatePatientNumber(format, 'pat-riv-000042-2')).toBeNull();
+  expect(validatePatientNumber(format, 'PAT-RIV-000024-2')).toMatch(/check digit/);
+  expect(validatePatientNumber(format, 'PAT001')).toBe('Patient number should look like PAT-RIV-000123-0');
+});
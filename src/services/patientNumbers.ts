@@ -0,0 +1,123 @@
+/*
+Patient number format, generation and validation.
+
+A patient number is built from:
+   <prefix>-[<clinic code>-]<zero-padded sequence>[-<check digit>]
+   e.g. PAT-000123-0, or PAT-RIV-000123-0 with clinic code RIV
+
+The check digit is the Luhn digit of the padded sequence, so a single mistyped
+digit or two swapped neighbouring digits are caught when a number is typed in.
+
+The format comes from the runtime configuration (services/config); the next
+sequence number is worked out from the highest number already registered
+(services/queries#suggestPatientNumber), compared as a number.
+*/
+
+export type CheckDigitScheme = 'luhn' | 'none';
+
+export interface PatientNumberFormat {
+  prefix: string;
+  clinicCode?: string;
+  sequenceDigits: number;
+  checkDigit: CheckDigitScheme;
+}
+
+export const DEFAULT_PATIENT_NUMBER_FORMAT: PatientNumberFormat = {
+  prefix: 'PAT',
+  sequenceDigits: 6,
+  checkDigit: 'luhn',
+};
+
+const SEPARATOR = '-';
+
+/*
+Function: Compute a Luhn check digit
+Purpose: Standard mod-10 Luhn over a string of digits: every second digit from
+the right (starting with the rightmost) is doubled.
+*/
+export const luhnCheckDigit = (digits: string): number => {
+  const sum = digits
+    .split('')
+    .reverse()
+    .reduce((total, char, index) => {
+      let value = Number(char);
+      if (index % 2 === 0) {
+        value *= 2;
+        if (value > 9) value -= 9;
+      }
+      return total + value;
+    }, 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+/*
+Function: The fixed start of every number in this format
+Purpose: Also used to look up the highest existing number.
+*/
+export const patientNumberStem = (format: PatientNumberFormat): string =>
+  [format.prefix, format.clinicCode].filter(Boolean).map(part => `${part}${SEPARATOR}`).join('');
+
+export const formatPatientNumber = (format: PatientNumberFormat, sequence: number): string => {
+  const padded = String(sequence).padStart(format.sequenceDigits, '0');
+  const check = format.checkDigit === 'luhn' ? `${SEPARATOR}${luhnCheckDigit(padded)}` : '';
+  return `${patientNumberStem(format)}${padded}${check}`;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const numberPattern = (format: PatientNumberFormat) => new RegExp(
+  `^${escapeRegExp(patientNumberStem(format))}(\\d{${format.sequenceDigits},})` +
+  (format.checkDigit === 'luhn' ? `${SEPARATOR}(\\d)$` : '$'),
+  'i'
+);
+
+/*
+Function: Read the sequence out of a patient number
+Purpose: Returns null when the number does not follow the format (e.g. older
+hand-made numbers) or its check digit is wrong.
+*/
+export const parsePatientNumber = (format: PatientNumberFormat, value: string): number | null => {
+  const match = numberPattern(format).exec(value.trim());
+  if (!match) return null;
+  if (format.checkDigit === 'luhn' && luhnCheckDigit(match[1]) !== Number(match[2])) return null;
+  return Number(match[1]);
+};
+
+/*
+Function: Validate a patient number as it is typed
+Purpose: Returns a message for the form, or null when the number is valid.
+*/
+export const validatePatientNumber = (format: PatientNumberFormat, value: string): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return 'Patient number is required';
+
+  const match = numberPattern(format).exec(trimmed);
+  if (!match) return `Patient number should look like ${formatPatientNumber(format, 123)}`;
+  if (format.checkDigit === 'luhn' && luhnCheckDigit(match[1]) !== Number(match[2])) {
+    return 'Patient number check digit does not match; please check it for typos';
+  }
+  return null;
+};
+
+/*
+Function: Find patient numbers inside free text
+Purpose: Used to mask them in logs. Matches the format's prefix with any clinic
+code (or none), so numbers from other clinics and older hand-made numbers with
+the same prefix (PAT00123) are caught as well.
+*/
+export const patientNumberSearchPattern = (format: PatientNumberFormat): RegExp => new RegExp(
+  `\\b${escapeRegExp(format.prefix)}[-_]?(?:[A-Z0-9]+[-_])?\\d+[A-Z0-9]*(?:${SEPARATOR}\\d)?\\b`,
+  'gi'
+);
+
+/*
+Function: The number after the highest existing one
+Purpose: Compares sequences as numbers, so a sequence that has grown past its
+padding (PAT-1000000-8) counts as higher than PAT-999999-6. Numbers not in the
+format are ignored.
+*/
+export const nextPatientNumber = (format: PatientNumberFormat, existing: string[]): string =>
+  formatPatientNumber(
+    format,
+    existing.reduce((highest, value) => Math.max(highest, parsePatientNumber(format, value) || 0), 0) + 1
+  );
@@ -0,0 +1,72 @@
+import { assessmentApi, patientApi, vitalsApi } from './api';
+import { loadPatientSummaries } from './patientSummaries';
+
+jest.mock('axios', () => ({ isAxiosError: (error: { isAxiosError?: boolean }) => Boolean(error?.isAxiosError) }));
+jest.mock('./api', () => ({
+  patientApi: { getPatientSummaries: jest.fn() },
+  vitalsApi: { getVitals: jest.fn() },
+  assessmentApi: {
+    getPatientOverweightAssessments: jest.fn(),
+    getPatientGeneralAssessments: jest.fn(),
+  },
+}));
+
+const api = {
+  patient: patientApi as jest.Mocked<typeof patientApi>,
+  vitals: vitalsApi as jest.Mocked<typeof vitalsApi>,
+  assessment: assessmentApi as jest.Mocked<typeof assessmentApi>,
+};
+
+const notFound = Object.assign(new Error('Not Found'), { isAxiosError: true, response: { status: 404 } });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  api.vitals.getVitals.mockImplementation(async patientId => [
+    { id: `${patientId}-old`, patientId, visitDate: '2024-01-01', height: 170, weight: 70, bmi: 24.2 },
+    { id: `${patientId}-new`, patientId, visitDate: '2024-03-01', height: 170, weight: 75, bmi: 26 },
+  ] as never);
+  api.assessment.getPatientOverweightAssessments.mockResolvedValue([]);
+  api.assessment.getPatientGeneralAssessments.mockResolvedValue([
+    { id: 'g1', type: 'general', visitDate: '2024-03-01' },
+  ] as never);
+});
+
+test('uses the summary endpoint while the backend has it', async () => {
+  api.patient.getPatientSummaries.mockResolvedValue([{ patientId: 'p1', lastBmi: 22 }]);
+
+  expect(await loadPatientSummaries(['p1'])).toEqual({ p1: { patientId: 'p1', lastBmi: 22 } });
+  expect(api.vitals.getVitals).not.toHaveBeenCalled();
+});
+
+test('falls back to the record lists after a 404 and does not ask the endpoint again', async () => {
+  api.patient.getPatientSummaries.mockRejectedValue(notFound);
+
+  const summaries = await loadPatientSummaries(['p1', 'p2']);
+  expect(summaries.p2).toEqual(expect.objectContaining({
+    patientId: 'p2',
+    lastBmi: 26,
+    lastVitalsDate: '2024-03-01',
+    lastAssessmentType: 'general',
+  }));
+
+  await loadPatientSummaries(['p3']);
+  expect(api.patient.getPatientSummaries).toHaveBeenCalledTimes(1);
+});
+
+test('fails the load when one patient\'s records cannot be fetched', async () => {
+  api.assessment.getPatientOverweightAssessments.mockImplementation(async patientId => {
+    if (patientId === 'p2') throw new Error('Network Error');
+    return [];
+  });
+
+  await expect(loadPatientSummaries(['p1', 'p2', 'p3'])).rejects.toThrow('Network Error');
+});
+
+test('passes the query\'s signal to every fallback request', async () => {
+  const controller = new AbortController();
+
+  await loadPatientSummaries(['p1'], controller.signal);
+  expect(api.vitals.getVitals).toHaveBeenCalledWith('p1', false, controller.signal);
+  expect(api.assessment.getPatientOverweightAssessments).toHaveBeenCalledWith('p1', false, controller.signal);
+  expect(api.assessment.getPatientGeneralAssessments).toHaveBeenCalledWith('p1', false, controller.signal);
+});
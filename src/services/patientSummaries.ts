@@ -0,0 +1,102 @@
+import { isAxiosError } from 'axios';
+import { Assessment, PatientSummary, Vitals } from '../types';
+import { assessmentApi, patientApi, vitalsApi } from './api';
+import { waistToHeightRatio, waistToHipRatio } from './bodyComposition';
+import { mapWithConcurrency } from './concurrency';
+
+/*
+Latest BMI and waist ratios, last vitals date and last assessment for a set of patients.
+
+Preferred path:
+   - One request to /patients/summary/ for the whole page of patients
+
+Fallback (backends without the summary endpoint):
+   - Vitals and both assessment lists are fetched per patient, in parallel for
+     that patient, with at most FALLBACK_CONCURRENCY patients in flight; they are
+     cancelled with the query like the summary request
+   - Once the endpoint has answered 404/405/501 it is not asked again until
+     the page is reloaded
+   - A failed request for any patient fails the whole load, so the listing
+     shows its error and retry instead of a blank BMI that looks like "no vitals"
+*/
+
+const FALLBACK_CONCURRENCY = 4;
+
+const UNAVAILABLE_STATUSES = [404, 405, 501];
+
+let summaryEndpointAvailable = true;
+
+const isEndpointUnavailable = (error: unknown): boolean =>
+  isAxiosError(error) && UNAVAILABLE_STATUSES.includes(error.response?.status ?? 0);
+
+const newestFirst = (a: { visitDate: string }, b: { visitDate: string }) =>
+  new Date(b.visitDate).getTime() - new Date(a.visitDate).getTime();
+
+/*
+Function: Summarize one patient from full record lists
+Purpose: Produces the same shape the summary endpoint returns, so callers
+cannot tell which path was used.
+*/
+export const summarizeRecords = (
+  patientId: string,
+  vitals: Vitals[],
+  assessments: Assessment[]
+): PatientSummary => {
+  const [latestVitals] = [...vitals].sort(newestFirst);
+  const [latestAssessment] = [...assessments].sort(newestFirst);
+
+  return {
+    patientId,
+    lastBmi: latestVitals?.bmi,
+    lastWaistToHeight: latestVitals && waistToHeightRatio(latestVitals.height, latestVitals.waist)?.ratio,
+    lastWaistToHip: latestVitals && waistToHipRatio(latestVitals.waist, latestVitals.hip)?.ratio,
+    lastVitalsDate: latestVitals?.visitDate,
+    lastAssessmentDate: latestAssessment?.visitDate,
+    lastAssessmentType: latestAssessment?.type,
+  };
+};
+
+const loadSummaryFromRecords = async (patientId: string, signal?: AbortSignal): Promise<PatientSummary> => {
+  const [vitals, overweight, general] = await Promise.all([
+    vitalsApi.getVitals(patientId, false, signal),
+    assessmentApi.getPatientOverweightAssessments(patientId, false, signal),
+    assessmentApi.getPatientGeneralAssessments(patientId, false, signal),
+  ]);
+
+  return summarizeRecords(patientId, vitals, [...overweight, ...general]);
+};
+
+/*
+Function: Load summaries for a page of patients
+Purpose: Returns a summary keyed by patient id for every requested patient,
+using the summary endpoint when the backend has it.
+*/
+export const loadPatientSummaries = async (
+  patientIds: string[],
+  signal?: AbortSignal
+): Promise<Record<string, PatientSummary>> => {
+  const byId: Record<string, PatientSummary> = {};
+  if (patientIds.length === 0) return byId;
+
+  let summaries: PatientSummary[] | null = null;
+
+  if (summaryEndpointAvailable) {
+    try {
+      summaries = await patientApi.getPatientSummaries(patientIds, signal);
+    } catch (error) {
+      if (!isEndpointUnavailable(error)) throw error;
+      summaryEndpointAvailable = false;
+    }
+  }
+
+  if (!summaries) {
+    summaries = await mapWithConcurrency(patientIds, FALLBACK_CONCURRENCY, (patientId) =>
+      signal?.aborted ? Promise.resolve({ patientId }) : loadSummaryFromRecords(patientId, signal)
+    );
+  }
+
+  summaries.forEach(summary => {
+    byId[summary.patientId] = summary;
+  });
+  return byId;
+};
@@ -0,0 +1,13 @@
+import { roleHasPermission } from './permissions';
+
+jest.mock('./auth', () => ({ getSession: () => null }));
+
+test('grants each role only its own actions', () => {
+  expect(roleHasPermission('front-desk', 'patients:register')).toBe(true);
+  expect(roleHasPermission('front-desk', 'assessments:view-comments')).toBe(false);
+  expect(roleHasPermission('nurse', 'vitals:record')).toBe(true);
+  expect(roleHasPermission('nurse', 'assessments:create')).toBe(false);
+  expect(roleHasPermission('clinician', 'records:archive')).toBe(true);
+  expect(roleHasPermission('clinician', 'records:delete')).toBe(false);
+  expect(roleHasPermission(undefined, 'patients:view')).toBe(false);
+});
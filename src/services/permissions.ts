@@ -0,0 +1,70 @@
+import { Permission, Role } from '../types';
+import { getSession } from './auth';
+
+/*
+Role-based permission model.
+
+   front-desk:  view and register patients; assessment comments are hidden
+   nurse:       front-desk permissions + record vitals and read assessment comments
+   clinician:   everything, including assessments, merging duplicate patients
+                and archiving or restoring records
+
+No role may hard-delete records (records:delete): patients, vitals and
+assessments are archived instead, and a merged duplicate is archived too.
+
+Consumers:
+   - Routes: RequirePermission shows the "not permitted" screen
+   - Buttons: usePermissions().can(...) hides actions the user cannot take
+   - API client: requirePermission() refuses the request before it is sent, so
+     a missed check in the UI still cannot reach the backend
+
+The backend remains the authority; these checks keep the UI honest.
+*/
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  'front-desk': ['patients:view', 'patients:register'],
+  nurse: ['patients:view', 'patients:register', 'vitals:record', 'assessments:view-comments'],
+  clinician: [
+    'patients:view',
+    'patients:register',
+    'patients:merge',
+    'vitals:record',
+    'assessments:create',
+    'assessments:view-comments',
+    'records:archive',
+  ],
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  clinician: 'Clinician',
+  nurse: 'Nurse',
+  'front-desk': 'Front desk',
+};
+
+export class PermissionDeniedError extends Error {
+  permission: Permission;
+
+  constructor(permission: Permission) {
+    super(`You do not have permission to perform this action (${permission}).`);
+    this.name = 'PermissionDeniedError';
+    this.permission = permission;
+    Object.setPrototypeOf(this, PermissionDeniedError.prototype);
+  }
+}
+
+export const roleHasPermission = (role: Role | undefined, permission: Permission): boolean =>
+  role !== undefined && ROLE_PERMISSIONS[role].includes(permission);
+
+export const hasPermission = (permission: Permission): boolean =>
+  roleHasPermission(getSession()?.role, permission);
+
+/*
+Function: Guard an API call
+Purpose: Throws a PermissionDeniedError when the signed-in user lacks the
+permission, so the request is never sent.
+*/
+export const requirePermission = (permission: Permission): void => {
+  if (!hasPermission(permission)) {
+    throw new PermissionDeniedError(permission);
+  }
+};
@@ -0,0 +1,53 @@
+import { createLogger } from './logger';
+import { isUnitPreference, METRIC_UNITS, UnitPreference } from './units';
+
+/*
+Display preferences of each user, kept on this device.
+
+   - The units a user records vitals in are stored in localStorage under their
+     username, so people sharing a workstation each keep their own
+   - Signed-out screens and users who never chose get metric
+   - Preferences survive signing out; they hold no patient data
+   - Components follow them through useUnitPreference (subscribeToPreferences)
+*/
+
+const STORAGE_PREFIX = 'patient-app.units.';
+
+const log = createLogger('preferences');
+
+const cache = new Map<string, UnitPreference>();
+const listeners = new Set<() => void>();
+
+export const getUnitPreference = (username: string | undefined): UnitPreference => {
+  if (!username) return METRIC_UNITS;
+
+  const cached = cache.get(username);
+  if (cached) return cached;
+
+  let preference = METRIC_UNITS;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + username);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    if (isUnitPreference(parsed)) preference = { height: parsed.height, weight: parsed.weight };
+  } catch (error) {
+    log.warn('Ignoring unreadable unit preference');
+  }
+  cache.set(username, preference);
+  return preference;
+};
+
+export const setUnitPreference = (username: string, preference: UnitPreference) => {
+  const current = getUnitPreference(username);
+  if (current.height === preference.height && current.weight === preference.weight) return;
+
+  cache.set(username, preference);
+  window.localStorage.setItem(STORAGE_PREFIX + username, JSON.stringify(preference));
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToPreferences = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
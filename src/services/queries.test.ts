@@ -0,0 +1,162 @@
+import { Patient } from '../types';
+import { assessmentApi, patientApi, vitalsApi } from './api';
+import { PatientEditConflictError, PatientHistoryAuditError, toEditablePatient } from './patientEdits';
+import { PatientMergeAuditError } from './patientMerge';
+import {
+  mergePatients,
+  previewVitalsImport,
+  retryMergeAudit,
+  retryPatientHistory,
+  savePatientEdits,
+  suggestPatientNumber,
+} from './queries';
+
+jest.mock('axios', () => ({ isAxiosError: () => false, isCancel: () => false }));
+jest.mock('./api', () => ({
+  getApiErrorMessage: (_error: unknown, fallback: string) => fallback,
+  patientApi: {
+    getPatient: jest.fn(),
+    updatePatient: jest.fn(),
+    archivePatient: jest.fn(),
+    deletePatient: jest.fn(),
+    recordPatientMerge: jest.fn(),
+    recordPatientHistory: jest.fn(),
+    getPatientNumbers: jest.fn(),
+    getPatientsByNumbers: jest.fn(),
+  },
+  vitalsApi: { getVitals: jest.fn(), reassignVital: jest.fn() },
+  assessmentApi: {
+    getPatientOverweightAssessments: jest.fn(),
+    getPatientGeneralAssessments: jest.fn(),
+    reassignAssessment: jest.fn(),
+  },
+}));
+jest.mock('./config', () => ({
+  getConfig: () => ({
+    patientNumberFormat: { prefix: 'PAT', sequenceDigits: 6, checkDigit: 'luhn' },
+    bmiScheme: 'who',
+    assessmentRules: [],
+  }),
+}));
+
+const api = {
+  patient: patientApi as jest.Mocked<typeof patientApi>,
+  vitals: vitalsApi as jest.Mocked<typeof vitalsApi>,
+  assessment: assessmentApi as jest.Mocked<typeof assessmentApi>,
+};
+
+const patient = (id: string, patientNumber: string, extra: Partial<Patient> = {}): Patient => ({
+  id,
+  patientNumber,
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  dateOfBirth: '1990-01-01',
+  sex: 'Female',
+  registrationDate: '2024-01-01',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...extra,
+});
+
+const survivor = patient('s', 'PAT-000001-8');
+const duplicate = patient('d', 'PAT-000002-6');
+const merged = { ...survivor, phone: '555 0100' };
+
+let calls: string[];
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  calls = [];
+  const track = <T,>(name: string, result: T) => async () => {
+    calls.push(name);
+    return result;
+  };
+
+  api.patient.getPatient.mockImplementation(async id => (id === survivor.id ? survivor : duplicate));
+  api.vitals.getVitals.mockResolvedValue([{ id: 'v1' }] as never);
+  api.assessment.getPatientOverweightAssessments.mockResolvedValue([{ id: 'a1', type: 'overweight' }] as never);
+  api.assessment.getPatientGeneralAssessments.mockResolvedValue([]);
+  api.vitals.reassignVital.mockImplementation(track('reassign vitals', {} as never));
+  api.assessment.reassignAssessment.mockImplementation(track('reassign assessment', {} as never));
+  api.patient.updatePatient.mockImplementation(track('update survivor', { ...survivor, phone: '555 0100' }));
+  api.patient.archivePatient.mockImplementation(track('archive duplicate', { ...duplicate, archivedAt: '2024-02-01' }));
+  api.patient.recordPatientMerge.mockImplementation(track('record merge', undefined));
+});
+
+test('moves the records, saves the survivor, then archives the duplicate and records the merge', async () => {
+  const saved = await mergePatients(survivor, duplicate, merged);
+
+  expect(saved.phone).toBe('555 0100');
+  expect(calls).toEqual(['reassign vitals', 'reassign assessment', 'update survivor', 'archive duplicate', 'record merge']);
+  expect(api.patient.archivePatient).toHaveBeenCalledWith('d', 'Merged into PAT-000001-8');
+  expect(api.patient.deletePatient).not.toHaveBeenCalled();
+  expect(api.patient.recordPatientMerge).toHaveBeenCalledWith(expect.objectContaining({
+    survivorId: 's',
+    movedRecords: [{ type: 'vitals', id: 'v1' }, { type: 'overweight', id: 'a1' }],
+  }));
+});
+
+test('refuses to merge a record changed since it was reviewed', async () => {
+  api.patient.getPatient.mockImplementation(async id =>
+    id === survivor.id ? { ...survivor, updatedAt: '2024-03-01T00:00:00Z' } : duplicate
+  );
+
+  await expect(mergePatients(survivor, duplicate, merged)).rejects.toBeInstanceOf(PatientEditConflictError);
+  expect(calls).toEqual([]);
+});
+
+test('keeps the duplicate when saving the survivor fails', async () => {
+  api.patient.updatePatient.mockRejectedValue(new PatientEditConflictError(survivor));
+
+  await expect(mergePatients(survivor, duplicate, merged)).rejects.toBeInstanceOf(PatientEditConflictError);
+  expect(calls).toEqual(['reassign vitals', 'reassign assessment']);
+  expect(api.patient.archivePatient).not.toHaveBeenCalled();
+  expect(api.patient.recordPatientMerge).not.toHaveBeenCalled();
+});
+
+test('retries the audit entry and reports the merge unfinished until it is written', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  api.patient.recordPatientMerge.mockRejectedValue(new Error('Network Error'));
+
+  const failure = await mergePatients(survivor, duplicate, merged).catch(error => error);
+  expect(failure).toBeInstanceOf(PatientMergeAuditError);
+  expect(api.patient.recordPatientMerge).toHaveBeenCalledTimes(3);
+
+  api.patient.recordPatientMerge.mockResolvedValue(undefined);
+  const saved = await retryMergeAudit(failure);
+  expect(saved.id).toBe('s');
+  expect(api.patient.recordPatientMerge).toHaveBeenLastCalledWith(failure.merge);
+});
+
+test('suggests the number after the highest sequence, not the highest text', async () => {
+  api.patient.getPatientNumbers.mockResolvedValue(['PAT-999999-6', 'PAT-1000000-8', 'PAT-999998-8']);
+
+  expect(await suggestPatientNumber(new AbortController().signal)).toBe('PAT-1000001-6');
+  expect(api.patient.getPatientNumbers).toHaveBeenCalledWith('PAT-', expect.anything());
+});
+
+test('retries the change history of an edit and reports the edit unfinished until it is written', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  api.patient.recordPatientHistory.mockRejectedValue(new Error('Network Error'));
+  const edited = { ...toEditablePatient(survivor), phone: '555 0100' };
+
+  const failure = await savePatientEdits(survivor, edited).catch(error => error);
+  expect(failure).toBeInstanceOf(PatientHistoryAuditError);
+  expect(calls).toEqual(['update survivor']);
+  expect(api.patient.recordPatientHistory).toHaveBeenCalledTimes(3);
+
+  api.patient.recordPatientHistory.mockResolvedValue(undefined);
+  expect((await retryPatientHistory(failure)).phone).toBe('555 0100');
+  expect(api.patient.recordPatientHistory).toHaveBeenLastCalledWith('s', [{ field: 'phone', from: undefined, to: '555 0100' }]);
+});
+
+test('refuses imported vitals on a date held by an archived visit', async () => {
+  api.patient.getPatientsByNumbers.mockResolvedValue([survivor]);
+  api.vitals.getVitals.mockResolvedValue([{ id: 'v1', visitDate: '2024-03-01', archivedAt: '2024-04-01' }] as never);
+
+  const [row] = await previewVitalsImport(
+    [{ line: 2, values: [survivor.patientNumber, '2024-03-01', '170', '70'] }],
+    { patientNumber: 0, visitDate: 1, height: 2, weight: 3 }
+  );
+  expect(api.vitals.getVitals).toHaveBeenCalledWith('s', true);
+  expect(row.errors).toEqual(['Vitals already recorded for this date']);
+});
@@ -0,0 +1,557 @@
+import {
+  Assessment,
+  GeneralAssessment,
+  MovedRecord,
+  NewGeneralAssessment,
+  NewOverweightAssessment,
+  NewPatient,
+  NewVitals,
+  OverweightAssessment,
+  Patient,
+  PatientChange,
+  PatientListQuery,
+  PatientMergeRecord,
+  PatientSummary,
+  Vitals,
+} from '../types';
+import { assessmentApi, getApiErrorMessage, patientApi, vitalsApi } from './api';
+import { waistToHeightRatio, waistToHipRatio } from './bodyComposition';
+import { mapWithConcurrency } from './concurrency';
+import { CsvRecord } from './csv';
+import { DuplicateCriteria, DuplicateMatch, findDuplicateMatches } from './duplicateMatching';
+import { getConfig } from './config';
+import { createLogger } from './logger';
+import { Page } from './pagination';
+import {
+  PatientEditConflictError,
+  PatientHistoryAuditError,
+  diffPatient,
+  isSameVersion,
+  toEditablePatient,
+} from './patientEdits';
+import { nextPatientNumber, patientNumberStem } from './patientNumbers';
+import { PatientMergeAuditError } from './patientMerge';
+import { ColumnMapping, ImportRow, isReadyToImport, markExistingNumbers, prepareImportRows } from './patientImport';
+import { loadPatientSummaries } from './patientSummaries';
+import { getTodayDate, visitDay } from './vitals';
+import {
+  isVitalsRowReady,
+  normalizePatientNumber,
+  prepareVitalsImportRows,
+  VitalsColumnMapping,
+  VitalsImportRow,
+  vitalsImportPatientNumbers,
+} from './vitalsImport';
+import { QueryKey, queryCache } from './queryCache';
+
+/*
+Cache keys, loaders and cache-aware mutations for patient data.
+
+Keys:
+   - Every key starts with its resource, then the patient id where there is one,
+     so invalidateQueries(['vitals', id]) reaches exactly one patient's vitals
+     (including the variant with archived records)
+
+Mutations (recordVitals, recordOverweightAssessment, recordGeneralAssessment):
+   - Optimistically update the patient's row in every cached listing page, so
+     the latest BMI / last assessment change before the server answers
+   - Roll the rows back if the request fails
+   - Invalidate the affected patient's vitals, assessments and listing pages
+     once the record is saved
+
+registerPatient:
+   - Creates the patient, then refreshes the listing and the suggested patient number
+
+previewPatientImport / importPatients, previewVitalsImport / importVitals:
+   - Dry run of a CSV import (nothing is saved), then saving the rows that
+     passed, each on its own so one rejected row does not stop the rest
+
+savePatientEdits:
+   - Refuses to overwrite a patient someone else changed since the edit began
+   - Stores the saved record in the cache and records who changed which fields
+     (retried like the merge audit; an edit is not reported as done until it is
+     recorded)
+
+archive* / restore*:
+   - Archive or restore a patient, vitals record or assessment with a reason and
+     refresh everything that shows it (history, latest BMI, listing)
+
+mergePatients:
+   - Moves every vital and assessment of the duplicate to the survivor, applies
+     the chosen demographics, archives the duplicate with the merge as the reason
+     and records the merge in the change history (retried; a merge is not
+     reported as done until it is recorded)
+*/
+
+export interface PatientListingPage {
+  page: Page<Patient>;
+  summaries: Record<string, PatientSummary>;
+}
+
+export const queryKeys = {
+  patient: (patientId: string): QueryKey => ['patient', patientId],
+  vitals: (patientId: string, includeArchived = false): QueryKey =>
+    includeArchived ? ['vitals', patientId, 'with-archived'] : ['vitals', patientId],
+  assessments: (patientId: string, includeArchived = false): QueryKey =>
+    includeArchived ? ['assessments', patientId, 'with-archived'] : ['assessments', patientId],
+  patientPages: (): QueryKey => ['patients', 'page'],
+  patientPage: (query: PatientListQuery): QueryKey => ['patients', 'page', query],
+  duplicateMatches: (criteria: DuplicateCriteria): QueryKey => ['patients', 'duplicates', criteria],
+  nextPatientNumber: (): QueryKey => ['patients', 'next-number'],
+};
+
+const newestFirst = (a: { visitDate: string }, b: { visitDate: string }) =>
+  new Date(b.visitDate).getTime() - new Date(a.visitDate).getTime();
+
+export const fetchPatientVitals = async (patientId: string, includeArchived = false): Promise<Vitals[]> =>
+  (await vitalsApi.getVitals(patientId, includeArchived)).sort(newestFirst);
+
+export const fetchPatientAssessments = async (patientId: string, includeArchived = false): Promise<Assessment[]> => {
+  const [overweightList, generalList] = await Promise.all([
+    assessmentApi.getPatientOverweightAssessments(patientId, includeArchived),
+    assessmentApi.getPatientGeneralAssessments(patientId, includeArchived),
+  ]);
+  return [...overweightList, ...generalList].sort(newestFirst);
+};
+
+export const fetchPatientListingPage = async (
+  query: PatientListQuery,
+  signal: AbortSignal
+): Promise<PatientListingPage> => {
+  const page = await patientApi.getPatientPage(query, signal);
+  const summaries = await loadPatientSummaries(page.results.map(p => p.id), signal);
+  return { page, summaries };
+};
+
+const DUPLICATE_SEARCH_PREFIX_LENGTH = 3;
+
+/*
+Function: Find existing patients that may be the one being registered
+Purpose: Collects candidates born on the given day (which catches misspelt
+names) and candidates whose name contains the start of the last name (which
+catches mistyped dates), then ranks them with services/duplicateMatching.
+*/
+export const fetchDuplicateMatches = async (
+  criteria: DuplicateCriteria,
+  signal: AbortSignal
+): Promise<DuplicateMatch[]> => {
+  const [sameBirthday, similarName] = await Promise.all([
+    criteria.dateOfBirth ? patientApi.getPatientsByDateOfBirth(criteria.dateOfBirth, signal) : Promise.resolve([]),
+    patientApi.getPatientPage(
+      { page: 1, pageSize: 50, search: criteria.lastName.trim().slice(0, DUPLICATE_SEARCH_PREFIX_LENGTH) },
+      signal
+    ),
+  ]);
+  return findDuplicateMatches(criteria, [...sameBirthday, ...similarName.results]);
+};
+
+/*
+Function: Suggest the next patient number
+Purpose: One past the highest number already registered in the configured
+format. Two desks registering at the same moment can get the same suggestion;
+the backend's unique patient_number rejects the second and the form then
+fetches a fresh suggestion.
+*/
+export const suggestPatientNumber = async (signal: AbortSignal): Promise<string> => {
+  const format = getConfig().patientNumberFormat;
+  const existing = await patientApi.getPatientNumbers(patientNumberStem(format), signal);
+  return nextPatientNumber(format, existing);
+};
+
+const isOnOrAfter = (date: string, current: string | undefined) =>
+  !current || new Date(date).getTime() >= new Date(current).getTime();
+
+/*
+Function: Update one patient's summary in every cached listing page
+Purpose: Returns an undo function that restores the pages exactly as they were.
+*/
+const updateCachedSummary = (
+  patientId: string,
+  update: (summary: PatientSummary) => PatientSummary
+): (() => void) => {
+  const previous = new Map<PatientListingPage, PatientSummary>();
+
+  queryCache.setQueriesData<PatientListingPage>(queryKeys.patientPages(), listing => {
+    const summary = listing.summaries[patientId];
+    if (!summary && !listing.page.results.some(p => p.id === patientId)) return listing;
+
+    const current = summary || { patientId };
+    const updated = { ...listing, summaries: { ...listing.summaries, [patientId]: update(current) } };
+    previous.set(updated, current);
+    return updated;
+  });
+
+  return () => {
+    queryCache.setQueriesData<PatientListingPage>(queryKeys.patientPages(), listing => {
+      const summary = previous.get(listing);
+      return summary ? { ...listing, summaries: { ...listing.summaries, [patientId]: summary } } : listing;
+    });
+  };
+};
+
+/*
+Function: Run a mutation with an optimistic listing update
+Purpose: Shared by the record* mutations below.
+*/
+const mutateWithOptimisticSummary = async <T>(
+  patientId: string,
+  optimisticUpdate: (summary: PatientSummary) => PatientSummary,
+  request: () => Promise<T>,
+  affectedKeys: QueryKey[]
+): Promise<T> => {
+  const rollback = updateCachedSummary(patientId, optimisticUpdate);
+
+  let saved: T;
+  try {
+    saved = await request();
+  } catch (error) {
+    rollback();
+    throw error;
+  }
+
+  affectedKeys.forEach(key => queryCache.invalidateQueries(key));
+  queryCache.invalidateQueries(queryKeys.patientPages());
+  return saved;
+};
+
+const log = createLogger('queries');
+
+export const registerPatient = async (patient: NewPatient): Promise<Patient> => {
+  const created = await patientApi.createPatient(patient);
+  queryCache.invalidateQueries(queryKeys.patientPages());
+  queryCache.invalidateQueries(queryKeys.nextPatientNumber());
+  return created;
+};
+
+const IMPORT_NUMBER_CHECK_BATCH = 50;
+const IMPORT_CONCURRENCY = 4;
+
+const fetchPatientsByNumbers = async (patientNumbers: string[]): Promise<Patient[]> => {
+  const batches: string[][] = [];
+  for (let i = 0; i < patientNumbers.length; i += IMPORT_NUMBER_CHECK_BATCH) {
+    batches.push(patientNumbers.slice(i, i + IMPORT_NUMBER_CHECK_BATCH));
+  }
+  const found = await mapWithConcurrency(batches, IMPORT_CONCURRENCY, batch => patientApi.getPatientsByNumbers(batch));
+  return found.flat();
+};
+
+/*
+Function: Dry run of a patient import
+Purpose: Checks every row with the registration rules and asks the backend
+which of the file's patient numbers are already taken. Nothing is saved.
+*/
+export const previewPatientImport = async (records: CsvRecord[], mapping: ColumnMapping): Promise<ImportRow[]> => {
+  const { patientNumberFormat, nationalIdPattern } = getConfig();
+  const registered = await patientApi.getPatientNumbers(patientNumberStem(patientNumberFormat));
+  const rows = prepareImportRows(records, mapping, {
+    format: patientNumberFormat,
+    nationalIdPattern,
+    today: new Date().toISOString().split('T')[0],
+    nextNumber: nextPatientNumber(patientNumberFormat, registered),
+  });
+
+  const numbers = Array.from(new Set(rows.map(row => row.patient?.patientNumber).filter((n): n is string => Boolean(n))));
+  const existing = await fetchPatientsByNumbers(numbers);
+  return markExistingNumbers(rows, new Set(existing.map(patient => patient.patientNumber)));
+};
+
+/*
+Function: Register the rows that passed the preview
+Purpose: Returns every row again: registered rows carry the new patient's id,
+rows the backend refused carry its message. `onProgress` is called with the
+number of rows finished so far.
+*/
+export const importPatients = async (
+  rows: ImportRow[],
+  onProgress?: (done: number) => void
+): Promise<ImportRow[]> => {
+  let done = 0;
+  const results = await mapWithConcurrency(rows, IMPORT_CONCURRENCY, async (row): Promise<ImportRow> => {
+    if (!isReadyToImport(row) || !row.patient) return row;
+    try {
+      const created = await patientApi.createPatient(row.patient);
+      return { ...row, registeredId: created.id };
+    } catch (error) {
+      return { ...row, errors: [getApiErrorMessage(error, 'Registration failed.')] };
+    } finally {
+      onProgress?.(++done);
+    }
+  });
+
+  const registered = results.filter(row => row.registeredId).length;
+  log.info('Patient import finished', { registered, rejected: results.length - registered });
+  queryCache.invalidateQueries(queryKeys.patientPages());
+  queryCache.invalidateQueries(queryKeys.nextPatientNumber());
+  return results;
+};
+
+/*
+Function: Dry run of a vitals import
+Purpose: Finds the patients named in the file and the visit dates they already
+have vitals for (archived ones included, they still hold the date), then checks
+every row against today's local date, as VitalsForm does. Nothing is saved.
+*/
+export const previewVitalsImport = async (
+  records: CsvRecord[],
+  mapping: VitalsColumnMapping
+): Promise<VitalsImportRow[]> => {
+  const patients = await fetchPatientsByNumbers(vitalsImportPatientNumbers(records, mapping));
+  const visitDays = await mapWithConcurrency(patients, IMPORT_CONCURRENCY, async patient =>
+    new Set((await vitalsApi.getVitals(patient.id, true)).map(vitals => visitDay(vitals.visitDate)))
+  );
+
+  return prepareVitalsImportRows(records, mapping, {
+    patients: new Map(patients.map(patient => [normalizePatientNumber(patient.patientNumber), patient])),
+    existingVisitDays: new Map(patients.map((patient, index) => [patient.id, visitDays[index]])),
+    today: getTodayDate(),
+  });
+};
+
+/*
+Function: Save the vitals rows that passed the preview
+Purpose: Returns every row again: saved rows carry the new record's id, rows
+the backend refused carry its message.
+*/
+export const importVitals = async (
+  rows: VitalsImportRow[],
+  onProgress?: (done: number) => void
+): Promise<VitalsImportRow[]> => {
+  let done = 0;
+  const results = await mapWithConcurrency(rows, IMPORT_CONCURRENCY, async (row): Promise<VitalsImportRow> => {
+    if (!isVitalsRowReady(row) || !row.vitals) return row;
+    try {
+      const saved = await vitalsApi.createVitals(row.vitals);
+      return { ...row, savedId: saved.id };
+    } catch (error) {
+      return { ...row, errors: [getApiErrorMessage(error, 'Saving failed.')] };
+    } finally {
+      onProgress?.(++done);
+    }
+  });
+
+  const saved = results.filter(row => row.savedId);
+  log.info('Vitals import finished', { saved: saved.length, rejected: results.length - saved.length });
+  new Set(saved.map(row => row.vitals?.patientId)).forEach(patientId => {
+    if (patientId) queryCache.invalidateQueries(queryKeys.vitals(patientId));
+  });
+  queryCache.invalidateQueries(queryKeys.patientPages());
+  return results;
+};
+
+/*
+Function: Save edits to a patient's demographics
+Purpose: `original` is the record the form was filled from. Before saving, the
+current record is fetched and compared with it; the update itself is also sent
+version-checked, so a save racing another one still fails with a
+PatientEditConflictError instead of overwriting it. Returns the saved patient
+(or `original` untouched when nothing changed).
+*/
+export const savePatientEdits = async (original: Patient, edited: NewPatient): Promise<Patient> => {
+  const changes = diffPatient(toEditablePatient(original), edited);
+  if (changes.length === 0) return original;
+
+  const current = await patientApi.getPatient(original.id);
+  if (!isSameVersion(original, current)) {
+    queryCache.setQueryData(queryKeys.patient(original.id), current);
+    throw new PatientEditConflictError(current);
+  }
+
+  const saved = await patientApi.updatePatient(original.id, edited, original.updatedAt);
+  queryCache.setQueryData(queryKeys.patient(saved.id), saved);
+  queryCache.invalidateQueries(queryKeys.patientPages());
+
+  return recordPatientHistory(saved, changes);
+};
+
+const AUDIT_ATTEMPTS = 3;
+const AUDIT_RETRY_MS = 500;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/*
+Function: Write a change history entry
+Purpose: Tried a few times, since the change it records has already been saved
+by then. Returns false when every attempt failed.
+*/
+const writeAuditEntry = async (entry: string, write: () => Promise<void>): Promise<boolean> => {
+  for (let attempt = 1; attempt <= AUDIT_ATTEMPTS; attempt++) {
+    try {
+      await write();
+      return true;
+    } catch (error) {
+      log.error(`Recording ${entry} failed (attempt ${attempt})`, error);
+      if (attempt < AUDIT_ATTEMPTS) await wait(AUDIT_RETRY_MS * attempt);
+    }
+  }
+  return false;
+};
+
+/*
+Function: Write who changed which fields of a patient
+Purpose: Still failing after the retries, it throws a PatientHistoryAuditError
+for the screen to show and retry with retryPatientHistory.
+*/
+const recordPatientHistory = async (saved: Patient, changes: PatientChange[]): Promise<Patient> => {
+  if (await writeAuditEntry('patient change history', () => patientApi.recordPatientHistory(saved.id, changes))) {
+    return saved;
+  }
+  throw new PatientHistoryAuditError(saved, changes);
+};
+
+export const retryPatientHistory = (error: PatientHistoryAuditError): Promise<Patient> =>
+  recordPatientHistory(error.saved, error.changes);
+
+const MERGE_CONCURRENCY = 4;
+
+/*
+Function: Write the audit entry of a merge
+Purpose: Still failing after the retries, it throws a PatientMergeAuditError
+for the screen to show and retry with retryMergeAudit.
+*/
+const recordMergeAudit = async (survivor: Patient, merge: PatientMergeRecord): Promise<Patient> => {
+  if (await writeAuditEntry('patient merge history', () => patientApi.recordPatientMerge(merge))) {
+    return survivor;
+  }
+  throw new PatientMergeAuditError(survivor, merge);
+};
+
+export const retryMergeAudit = (error: PatientMergeAuditError): Promise<Patient> =>
+  recordMergeAudit(error.survivor, error.merge);
+
+/*
+Function: Merge a duplicate patient into the surviving record
+Purpose: `merged` holds the demographics chosen for the survivor
+(services/patientMerge). Both records are checked for concurrent edits first.
+The steps are ordered so that a merge interrupted half way can simply be run
+again: records already moved no longer belong to the duplicate, and the
+duplicate is only archived once every record has moved and the survivor has
+been saved, so a conflicting survivor update leaves both records in place.
+Nothing is deleted. Returns the surviving patient once the merge is recorded.
+*/
+export const mergePatients = async (survivor: Patient, duplicate: Patient, merged: NewPatient): Promise<Patient> => {
+  const [currentSurvivor, currentDuplicate] = await Promise.all([
+    patientApi.getPatient(survivor.id),
+    patientApi.getPatient(duplicate.id),
+  ]);
+  if (!isSameVersion(survivor, currentSurvivor)) throw new PatientEditConflictError(currentSurvivor);
+  if (!isSameVersion(duplicate, currentDuplicate)) throw new PatientEditConflictError(currentDuplicate);
+
+  const [vitals, assessments] = await Promise.all([
+    fetchPatientVitals(duplicate.id, true),
+    fetchPatientAssessments(duplicate.id, true),
+  ]);
+  const movedRecords: MovedRecord[] = [
+    ...vitals.map(v => ({ type: 'vitals' as const, id: v.id })),
+    ...assessments.map(a => ({ type: a.type, id: a.id })),
+  ];
+
+  try {
+    await mapWithConcurrency(movedRecords, MERGE_CONCURRENCY, async (record): Promise<void> => {
+      if (record.type === 'vitals') {
+        await vitalsApi.reassignVital(record.id, survivor.id);
+      } else {
+        await assessmentApi.reassignAssessment(record.id, record.type, survivor.id);
+      }
+    });
+  } finally {
+    [survivor.id, duplicate.id].forEach(id => {
+      queryCache.invalidateQueries(queryKeys.vitals(id));
+      queryCache.invalidateQueries(queryKeys.assessments(id));
+    });
+    queryCache.invalidateQueries(queryKeys.patientPages());
+  }
+
+  const changes = diffPatient(toEditablePatient(survivor), merged);
+  const saved = changes.length > 0
+    ? await patientApi.updatePatient(survivor.id, merged, survivor.updatedAt)
+    : survivor;
+  queryCache.setQueryData(queryKeys.patient(saved.id), saved);
+
+  const archived = await patientApi.archivePatient(
+    duplicate.id,
+    `Merged into ${saved.patientNumber || 'another patient record'}`
+  );
+  queryCache.setQueryData(queryKeys.patient(archived.id), archived);
+  queryCache.invalidateQueries(queryKeys.patientPages());
+
+  return recordMergeAudit(saved, { survivorId: saved.id, duplicate, changes, movedRecords });
+};
+
+export const archivePatient = async (patient: Patient, reason: string): Promise<Patient> => {
+  const saved = await patientApi.archivePatient(patient.id, reason);
+  queryCache.setQueryData(queryKeys.patient(saved.id), saved);
+  queryCache.invalidateQueries(['patients']);
+  return saved;
+};
+
+export const restorePatient = async (patient: Patient, reason: string): Promise<Patient> => {
+  const saved = await patientApi.restorePatient(patient.id, reason);
+  queryCache.setQueryData(queryKeys.patient(saved.id), saved);
+  queryCache.invalidateQueries(['patients']);
+  return saved;
+};
+
+const afterRecordArchiveChange = (key: QueryKey) => {
+  queryCache.invalidateQueries(key);
+  queryCache.invalidateQueries(queryKeys.patientPages());
+};
+
+export const archiveVitals = async (vitals: Vitals, reason: string): Promise<Vitals> => {
+  const saved = await vitalsApi.archiveVital(vitals.id, reason);
+  afterRecordArchiveChange(queryKeys.vitals(vitals.patientId));
+  return saved;
+};
+
+export const restoreVitals = async (vitals: Vitals, reason: string): Promise<Vitals> => {
+  const saved = await vitalsApi.restoreVital(vitals.id, reason);
+  afterRecordArchiveChange(queryKeys.vitals(vitals.patientId));
+  return saved;
+};
+
+export const archiveAssessment = async (assessment: Assessment, reason: string): Promise<Assessment> => {
+  const saved = await assessmentApi.archiveAssessment(assessment.id, assessment.type, reason);
+  afterRecordArchiveChange(queryKeys.assessments(assessment.patientId));
+  return saved;
+};
+
+export const restoreAssessment = async (assessment: Assessment, reason: string): Promise<Assessment> => {
+  const saved = await assessmentApi.restoreAssessment(assessment.id, assessment.type, reason);
+  afterRecordArchiveChange(queryKeys.assessments(assessment.patientId));
+  return saved;
+};
+
+export const recordVitals = (vitals: NewVitals): Promise<Vitals> =>
+  mutateWithOptimisticSummary(
+    vitals.patientId,
+    summary => isOnOrAfter(vitals.visitDate, summary.lastVitalsDate)
+      ? {
+          ...summary,
+          lastBmi: vitals.bmi,
+          lastWaistToHeight: waistToHeightRatio(vitals.height, vitals.waist)?.ratio,
+          lastWaistToHip: waistToHipRatio(vitals.waist, vitals.hip)?.ratio,
+          lastVitalsDate: vitals.visitDate,
+        }
+      : summary,
+    () => vitalsApi.createVitals(vitals),
+    [queryKeys.vitals(vitals.patientId)]
+  );
+
+export const recordOverweightAssessment = (assessment: NewOverweightAssessment): Promise<OverweightAssessment> =>
+  mutateWithOptimisticSummary(
+    assessment.patientId,
+    summary => isOnOrAfter(assessment.visitDate, summary.lastAssessmentDate)
+      ? { ...summary, lastAssessmentDate: assessment.visitDate, lastAssessmentType: 'overweight' }
+      : summary,
+    () => assessmentApi.createOverweightAssessment(assessment),
+    [queryKeys.assessments(assessment.patientId)]
+  );
+
+export const recordGeneralAssessment = (assessment: NewGeneralAssessment): Promise<GeneralAssessment> =>
+  mutateWithOptimisticSummary(
+    assessment.patientId,
+    summary => isOnOrAfter(assessment.visitDate, summary.lastAssessmentDate)
+      ? { ...summary, lastAssessmentDate: assessment.visitDate, lastAssessmentType: 'general' }
+      : summary,
+    () => assessmentApi.createGeneralAssessment(assessment),
+    [queryKeys.assessments(assessment.patientId)]
+  );
@@ -0,0 +1,53 @@
+import { createQueryCache } from './queryCache';
+
+const counter = () => {
+  let calls = 0;
+  const fetcher = async () => ++calls;
+  return { fetcher, calls: () => calls };
+};
+
+test('serves fresh data from the cache and shares in-flight requests', async () => {
+  const cache = createQueryCache(60000);
+  const { fetcher, calls } = counter();
+
+  const [first, second] = await Promise.all([
+    cache.fetchQuery(['vitals', 'p1'], fetcher),
+    cache.fetchQuery(['vitals', 'p1'], fetcher),
+  ]);
+  const third = await cache.fetchQuery(['vitals', 'p1'], fetcher);
+
+  expect([first, second, third]).toEqual([1, 1, 1]);
+  expect(calls()).toBe(1);
+});
+
+test('invalidation refetches watched entries under the prefix only', async () => {
+  const cache = createQueryCache(60000);
+  const p1 = counter();
+  const p2 = counter();
+
+  await cache.fetchQuery(['vitals', 'p1'], p1.fetcher);
+  await cache.fetchQuery(['vitals', 'p2'], p2.fetcher);
+  const unsubscribe = cache.subscribe(['vitals', 'p1'], () => undefined);
+
+  cache.invalidateQueries(['vitals', 'p1']);
+  expect(cache.getQueryState(['vitals', 'p1']).isFetching).toBe(true);
+  expect(cache.getQueryState(['vitals', 'p1']).data).toBe(1);
+
+  await cache.fetchQuery(['vitals', 'p1'], p1.fetcher);
+  expect(cache.getQueryData(['vitals', 'p1'])).toBe(2);
+  expect(p2.calls()).toBe(1);
+  unsubscribe();
+});
+
+test('setQueriesData updates every cached entry under a prefix', async () => {
+  const cache = createQueryCache();
+  cache.setQueryData(['patients', 'page', { page: 1 }], 10);
+  cache.setQueryData(['patients', 'page', { page: 2 }], 20);
+  cache.setQueryData(['patient', 'p1'], 30);
+
+  cache.setQueriesData<number>(['patients', 'page'], value => value + 1);
+
+  expect(cache.getQueryData(['patients', 'page', { page: 1 }])).toBe(11);
+  expect(cache.getQueryData(['patients', 'page', { page: 2 }])).toBe(21);
+  expect(cache.getQueryData(['patient', 'p1'])).toBe(30);
+});
@@ -0,0 +1,215 @@
+/*
+A small in-memory query cache shared by every screen.
+
+Entries are keyed by resource and patient, e.g.
+   ['patient', id]            -> one patient record
+   ['vitals', patientId]      -> the patient's vitals history
+   ['patients', 'page', ...]  -> one page of the patient listing
+
+Behaviour:
+   - Stale-while-revalidate: cached data is returned immediately; if it is older
+     than the stale time it is refetched in the background
+   - Concurrent requests for the same key share one request
+   - invalidateQueries(prefix) marks every matching entry stale and refetches
+     the ones a mounted screen is currently showing
+   - setQueryData / setQueriesData write data directly, which is how
+     optimistic updates are applied (see services/queries)
+   - When the last screen stops watching an entry, its in-flight request is aborted
+   - removeQueries(prefix) drops entries for records that no longer exist
+*/
+
+export type QueryKey = readonly unknown[];
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  isFetching: boolean;
+  isStale: boolean;
+}
+
+interface Entry {
+  key: QueryKey;
+  data?: unknown;
+  error?: unknown;
+  updatedAt: number;
+  invalidated: boolean;
+  fetcher?: QueryFetcher<unknown>;
+  promise?: Promise<unknown>;
+  controller?: AbortController;
+  listeners: Set<() => void>;
+}
+
+export const DEFAULT_STALE_TIME_MS = 30000;
+
+export const hashKey = (key: QueryKey): string => JSON.stringify(key);
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey): boolean =>
+  prefix.length <= key.length && prefix.every((part, index) => hashKey([part]) === hashKey([key[index]]));
+
+export const createQueryCache = (staleTimeMs: number = DEFAULT_STALE_TIME_MS) => {
+  const entries = new Map<string, Entry>();
+
+  const getEntry = (key: QueryKey): Entry => {
+    const hash = hashKey(key);
+    let entry = entries.get(hash);
+    if (!entry) {
+      entry = { key, updatedAt: 0, invalidated: false, listeners: new Set() };
+      entries.set(hash, entry);
+    }
+    return entry;
+  };
+
+  const notify = (entry: Entry) => {
+    entry.listeners.forEach(listener => listener());
+  };
+
+  const isStale = (entry: Entry): boolean =>
+    entry.invalidated || entry.updatedAt === 0 || Date.now() - entry.updatedAt > staleTimeMs;
+
+  const cancel = (entry: Entry) => {
+    entry.controller?.abort();
+    entry.controller = undefined;
+    entry.promise = undefined;
+  };
+
+  const startFetch = (entry: Entry, fetcher: QueryFetcher<unknown>): Promise<unknown> => {
+    const controller = new AbortController();
+    const promise = fetcher(controller.signal).then(
+      (data) => {
+        if (entry.promise === promise) {
+          entry.data = data;
+          entry.error = undefined;
+          entry.updatedAt = Date.now();
+          entry.invalidated = false;
+        }
+        return data;
+      },
+      (error) => {
+        if (entry.promise === promise && !controller.signal.aborted) {
+          entry.error = error;
+        }
+        throw error;
+      }
+    );
+
+    entry.fetcher = fetcher;
+    entry.controller = controller;
+    entry.promise = promise;
+    notify(entry);
+
+    promise
+      .catch(() => undefined)
+      .then(() => {
+        if (entry.promise !== promise) return;
+        entry.promise = undefined;
+        entry.controller = undefined;
+        notify(entry);
+      });
+
+    return promise;
+  };
+
+  /*
+  Function: Fetch a query through the cache
+  Purpose: Resolves with fresh cached data without a request, joins a request
+  already in flight, or starts a new one. With `force` the cached data is
+  ignored and always refetched.
+  */
+  const fetchQuery = <T>(key: QueryKey, fetcher: QueryFetcher<T>, force = false): Promise<T> => {
+    const entry = getEntry(key);
+    if (entry.promise && !force) return entry.promise as Promise<T>;
+    if (!force && entry.data !== undefined && !isStale(entry)) return Promise.resolve(entry.data as T);
+    if (entry.promise) cancel(entry);
+    return startFetch(entry, fetcher as QueryFetcher<unknown>) as Promise<T>;
+  };
+
+  const getQueryState = <T>(key: QueryKey): QueryState<T> => {
+    const entry = entries.get(hashKey(key));
+    if (!entry) return { data: undefined, error: undefined, isFetching: false, isStale: true };
+    return {
+      data: entry.data as T | undefined,
+      error: entry.error,
+      isFetching: Boolean(entry.promise),
+      isStale: isStale(entry),
+    };
+  };
+
+  const getQueryData = <T>(key: QueryKey): T | undefined => entries.get(hashKey(key))?.data as T | undefined;
+
+  const setQueryData = <T>(key: QueryKey, updater: T | undefined | ((previous: T | undefined) => T | undefined)) => {
+    const entry = getEntry(key);
+    entry.data = typeof updater === 'function'
+      ? (updater as (previous: T | undefined) => T | undefined)(entry.data as T | undefined)
+      : updater;
+    entry.error = undefined;
+    notify(entry);
+  };
+
+  const setQueriesData = <T>(prefix: QueryKey, updater: (previous: T) => T) => {
+    entries.forEach(entry => {
+      if (entry.data === undefined || !matchesPrefix(entry.key, prefix)) return;
+      entry.data = updater(entry.data as T);
+      notify(entry);
+    });
+  };
+
+  /*
+  Function: Invalidate cached queries
+  Purpose: Marks every entry under `prefix` stale. Entries a screen is
+  watching are refetched right away (keeping their current data on screen
+  meanwhile); the rest are refetched the next time they are used.
+  */
+  const invalidateQueries = (prefix: QueryKey) => {
+    entries.forEach(entry => {
+      if (!matchesPrefix(entry.key, prefix)) return;
+      entry.invalidated = true;
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        if (entry.promise) cancel(entry);
+        startFetch(entry, entry.fetcher).catch(() => undefined);
+      }
+    });
+  };
+
+  const removeQueries = (prefix: QueryKey) => {
+    entries.forEach((entry, hash) => {
+      if (!matchesPrefix(entry.key, prefix)) return;
+      cancel(entry);
+      entries.delete(hash);
+    });
+  };
+
+  const subscribe = (key: QueryKey, listener: () => void) => {
+    const entry = getEntry(key);
+    entry.listeners.add(listener);
+
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0 && entry.promise) {
+        cancel(entry);
+      }
+    };
+  };
+
+  const clear = () => {
+    entries.forEach(cancel);
+    entries.clear();
+  };
+
+  return {
+    fetchQuery,
+    getQueryState,
+    getQueryData,
+    setQueryData,
+    setQueriesData,
+    invalidateQueries,
+    removeQueries,
+    subscribe,
+    clear,
+  };
+};
+
+export type QueryCache = ReturnType<typeof createQueryCache>;
+
+export const queryCache = createQueryCache();
@@ -0,0 +1,19 @@
+import { formatSex, formatSexAndGender, growthReferenceSex } from './sexGender';
+
+test('formats sex with "Prefer not to say" for undisclosed', () => {
+  expect(formatSex('Female')).toBe('Female');
+  expect(formatSex('Undisclosed')).toBe('Prefer not to say');
+  expect(formatSex(undefined)).toBe('Unknown');
+});
+
+test('shows the gender identity only when recorded', () => {
+  expect(formatSexAndGender({ sex: 'Male' })).toBe('Male');
+  expect(formatSexAndGender({ sex: 'Male', genderIdentity: 'NonBinary' })).toBe('Male (gender: Non-binary)');
+});
+
+test('picks a growth reference only for female and male', () => {
+  expect(growthReferenceSex('Female')).toBe('female');
+  expect(growthReferenceSex('Male')).toBe('male');
+  expect(growthReferenceSex('Other')).toBeUndefined();
+  expect(growthReferenceSex('Undisclosed')).toBeUndefined();
+});
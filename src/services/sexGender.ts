@@ -0,0 +1,61 @@
+import { GenderIdentity, Patient, Sex } from '../types';
+
+/*
+The one model for a patient's sex and gender.
+
+Two separate facts are recorded:
+   - sex: administrative sex, required; also selects the growth reference
+     for BMI-for-age
+   - genderIdentity: how the patient describes their gender, optional
+
+Both offer "Other" and "Prefer not to say". Components show them through the
+labels and formatters here instead of their own switch statements; the wire
+codes live in services/mappers.
+*/
+
+export const SEX_LABELS: Record<Sex, string> = {
+  Female: 'Female',
+  Male: 'Male',
+  Other: 'Other',
+  Undisclosed: 'Prefer not to say',
+};
+
+export const GENDER_IDENTITY_LABELS: Record<GenderIdentity, string> = {
+  Woman: 'Woman',
+  Man: 'Man',
+  NonBinary: 'Non-binary',
+  Other: 'Other',
+  Undisclosed: 'Prefer not to say',
+};
+
+export const SEX_OPTIONS = Object.keys(SEX_LABELS) as Sex[];
+
+export const GENDER_IDENTITY_OPTIONS = Object.keys(GENDER_IDENTITY_LABELS) as GenderIdentity[];
+
+export const formatSex = (sex: Sex | undefined): string => (sex ? SEX_LABELS[sex] : 'Unknown');
+
+export const formatGenderIdentity = (identity: GenderIdentity | undefined): string =>
+  identity ? GENDER_IDENTITY_LABELS[identity] : 'Not recorded';
+
+/*
+Function: One-line sex and gender for listings and headers
+Purpose: Shows the gender identity only when one was recorded.
+*/
+export const formatSexAndGender = (patient: Pick<Patient, 'sex' | 'genderIdentity'>): string =>
+  patient.genderIdentity
+    ? `${formatSex(patient.sex)} (gender: ${GENDER_IDENTITY_LABELS[patient.genderIdentity]})`
+    : formatSex(patient.sex);
+
+export type GrowthReferenceSex = 'female' | 'male';
+
+/*
+Function: Growth reference for BMI-for-age
+Purpose: Pediatric reference charts exist for female and male only; other
+values return undefined and the caller has to say the percentile is unavailable.
+Sex-specific adult thresholds (waist circumference) use the same mapping.
+*/
+export const growthReferenceSex = (sex: Sex | undefined): GrowthReferenceSex | undefined => {
+  if (sex === 'Female') return 'female';
+  if (sex === 'Male') return 'male';
+  return undefined;
+};
@@ -0,0 +1,54 @@
+import {
+  cmToFeetInches,
+  cmToHeightInput,
+  EMPTY_HEIGHT_INPUT,
+  EMPTY_WEIGHT_INPUT,
+  feetInchesToCm,
+  formatHeightDual,
+  formatWeightDual,
+  heightInputToCm,
+  isUnitPreference,
+  kgToStonesPounds,
+  kgToWeightInput,
+  METRIC_UNITS,
+  weightInputToKg,
+} from './units';
+
+test('converts feet and inches to centimetres and back', () => {
+  expect(feetInchesToCm(5, 7)).toBe(170.2);
+  expect(cmToFeetInches(170.2)).toEqual({ feet: 5, inches: 7 });
+  expect(cmToFeetInches(182.8)).toEqual({ feet: 6, inches: 0 });
+});
+
+test('reads the typed height in the chosen unit', () => {
+  expect(heightInputToCm('cm', { ...EMPTY_HEIGHT_INPUT, cm: '170' })).toBe(170);
+  expect(heightInputToCm('ftin', { ...EMPTY_HEIGHT_INPUT, feet: '6' })).toBe(182.9);
+  expect(heightInputToCm('ftin', { ...EMPTY_HEIGHT_INPUT, inches: '70' })).toBe(177.8);
+  expect(heightInputToCm('ftin', EMPTY_HEIGHT_INPUT)).toBeNaN();
+});
+
+test('reads the typed weight in kg, pounds or stones and pounds', () => {
+  expect(weightInputToKg('kg', { ...EMPTY_WEIGHT_INPUT, kg: '72.5' })).toBe(72.5);
+  expect(weightInputToKg('lb', { ...EMPTY_WEIGHT_INPUT, lb: '160' })).toBe(72.6);
+  expect(weightInputToKg('st', { ...EMPTY_WEIGHT_INPUT, stones: '11', stonePounds: '6' })).toBe(72.6);
+  expect(weightInputToKg('lb', EMPTY_WEIGHT_INPUT)).toBeNaN();
+});
+
+test('fills every field when the unit is switched', () => {
+  expect(cmToHeightInput(170.2)).toEqual({ cm: '170.2', feet: '5', inches: '7' });
+  expect(kgToWeightInput(72.6)).toEqual({ kg: '72.6', lb: '160.1', stones: '11', stonePounds: '6.1' });
+  expect(kgToStonesPounds(6.35)).toEqual({ stones: 1, pounds: 0 });
+  expect(cmToHeightInput(NaN)).toBe(EMPTY_HEIGHT_INPUT);
+});
+
+test('shows the preferred unit first and the other system second', () => {
+  expect(formatHeightDual(170.2, METRIC_UNITS)).toEqual(['170.2 cm', '5 ft 7 in']);
+  expect(formatWeightDual(72.6, METRIC_UNITS)).toEqual(['72.6 kg', '160.1 lb']);
+  expect(formatWeightDual(72.6, { height: 'ftin', weight: 'st' })).toEqual(['11 st 6.1 lb', '72.6 kg']);
+});
+
+test('accepts only known units as a stored preference', () => {
+  expect(isUnitPreference({ height: 'ftin', weight: 'lb' })).toBe(true);
+  expect(isUnitPreference({ height: 'in', weight: 'lb' })).toBe(false);
+  expect(isUnitPreference(null)).toBe(false);
+});
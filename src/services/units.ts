@@ -0,0 +1,165 @@
+/*
+Height and weight in the units staff measure in.
+
+Vitals are always stored in centimetres and kilograms; these helpers convert
+what is typed in feet and inches, pounds, or stones and pounds, and show stored
+values in both systems.
+
+   - 1 in = 2.54 cm, 1 lb = 0.45359237 kg, 1 st = 14 lb (exact definitions)
+   - Converted values are stored to one decimal, like values typed in metric
+   - Imperial values are shown to one decimal; 12 in carry into a foot and
+     14 lb into a stone after rounding
+*/
+
+export type HeightUnit = 'cm' | 'ftin';
+export type WeightUnit = 'kg' | 'lb' | 'st';
+
+export interface UnitPreference {
+  height: HeightUnit;
+  weight: WeightUnit;
+}
+
+export const METRIC_UNITS: UnitPreference = { height: 'cm', weight: 'kg' };
+
+export const HEIGHT_UNIT_LABELS: Record<HeightUnit, string> = {
+  cm: 'cm',
+  ftin: 'ft / in',
+};
+
+export const WEIGHT_UNIT_LABELS: Record<WeightUnit, string> = {
+  kg: 'kg',
+  lb: 'lb',
+  st: 'st / lb',
+};
+
+export const HEIGHT_UNITS = Object.keys(HEIGHT_UNIT_LABELS) as HeightUnit[];
+export const WEIGHT_UNITS = Object.keys(WEIGHT_UNIT_LABELS) as WeightUnit[];
+
+const CM_PER_INCH = 2.54;
+const KG_PER_POUND = 0.45359237;
+const POUNDS_PER_STONE = 14;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/* The height and weight fields of the vitals form, as typed. */
+export interface HeightInput {
+  cm: string;
+  feet: string;
+  inches: string;
+}
+
+export interface WeightInput {
+  kg: string;
+  lb: string;
+  stones: string;
+  stonePounds: string;
+}
+
+export const EMPTY_HEIGHT_INPUT: HeightInput = { cm: '', feet: '', inches: '' };
+export const EMPTY_WEIGHT_INPUT: WeightInput = { kg: '', lb: '', stones: '', stonePounds: '' };
+
+const readNumber = (value: string): number => (value.trim() === '' ? NaN : Number(value));
+
+/*
+Function: Split a length into feet and inches
+Purpose: Inches are rounded to one decimal first, so 5 ft 11.96 in is shown as
+6 ft 0 in rather than 5 ft 12 in.
+*/
+export const cmToFeetInches = (cm: number): { feet: number; inches: number } => {
+  const totalInches = round1(cm / CM_PER_INCH);
+  const feet = Math.floor(totalInches / 12);
+  return { feet, inches: round1(totalInches - feet * 12) };
+};
+
+export const feetInchesToCm = (feet: number, inches: number): number =>
+  round1((feet * 12 + inches) * CM_PER_INCH);
+
+export const kgToPounds = (kg: number): number => round1(kg / KG_PER_POUND);
+
+export const poundsToKg = (pounds: number): number => round1(pounds * KG_PER_POUND);
+
+export const kgToStonesPounds = (kg: number): { stones: number; pounds: number } => {
+  const totalPounds = kgToPounds(kg);
+  const stones = Math.floor(totalPounds / POUNDS_PER_STONE);
+  return { stones, pounds: round1(totalPounds - stones * POUNDS_PER_STONE) };
+};
+
+export const stonesPoundsToKg = (stones: number, pounds: number): number =>
+  poundsToKg(stones * POUNDS_PER_STONE + pounds);
+
+/*
+Function: The height typed in the form, in centimetres
+Purpose: NaN when nothing usable is typed. In feet and inches either part may
+be left empty (6 ft, or 70 in).
+*/
+export const heightInputToCm = (unit: HeightUnit, input: HeightInput): number => {
+  if (unit === 'cm') return readNumber(input.cm);
+
+  const feet = readNumber(input.feet);
+  const inches = readNumber(input.inches);
+  if (isNaN(feet) && isNaN(inches)) return NaN;
+  return feetInchesToCm(isNaN(feet) ? 0 : feet, isNaN(inches) ? 0 : inches);
+};
+
+export const weightInputToKg = (unit: WeightUnit, input: WeightInput): number => {
+  if (unit === 'kg') return readNumber(input.kg);
+  if (unit === 'lb') {
+    const pounds = readNumber(input.lb);
+    return isNaN(pounds) ? NaN : poundsToKg(pounds);
+  }
+
+  const stones = readNumber(input.stones);
+  const pounds = readNumber(input.stonePounds);
+  if (isNaN(stones) && isNaN(pounds)) return NaN;
+  return stonesPoundsToKg(isNaN(stones) ? 0 : stones, isNaN(pounds) ? 0 : pounds);
+};
+
+/*
+Function: Fill every height or weight field from a stored value
+Purpose: Used when the unit is switched, so what was typed carries over.
+*/
+export const cmToHeightInput = (cm: number): HeightInput => {
+  if (isNaN(cm)) return EMPTY_HEIGHT_INPUT;
+  const { feet, inches } = cmToFeetInches(cm);
+  return { cm: String(cm), feet: String(feet), inches: String(inches) };
+};
+
+export const kgToWeightInput = (kg: number): WeightInput => {
+  if (isNaN(kg)) return EMPTY_WEIGHT_INPUT;
+  const { stones, pounds } = kgToStonesPounds(kg);
+  return { kg: String(kg), lb: String(kgToPounds(kg)), stones: String(stones), stonePounds: String(pounds) };
+};
+
+export const formatHeight = (cm: number, unit: HeightUnit): string => {
+  if (unit === 'cm') return `${cm} cm`;
+  const { feet, inches } = cmToFeetInches(cm);
+  return `${feet} ft ${inches} in`;
+};
+
+export const formatWeight = (kg: number, unit: WeightUnit): string => {
+  if (unit === 'kg') return `${kg} kg`;
+  if (unit === 'lb') return `${kgToPounds(kg)} lb`;
+  const { stones, pounds } = kgToStonesPounds(kg);
+  return `${stones} st ${pounds} lb`;
+};
+
+/*
+Function: A stored measurement in both systems
+Purpose: The preferred unit comes first. Users who prefer metric see feet and
+inches and pounds second.
+*/
+export const formatHeightDual = (cm: number, preference: UnitPreference): [string, string] =>
+  preference.height === 'cm'
+    ? [formatHeight(cm, 'cm'), formatHeight(cm, 'ftin')]
+    : [formatHeight(cm, preference.height), formatHeight(cm, 'cm')];
+
+export const formatWeightDual = (kg: number, preference: UnitPreference): [string, string] =>
+  preference.weight === 'kg'
+    ? [formatWeight(kg, 'kg'), formatWeight(kg, 'lb')]
+    : [formatWeight(kg, preference.weight), formatWeight(kg, 'kg')];
+
+export const isUnitPreference = (value: unknown): value is UnitPreference => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { height, weight } = value as Record<string, unknown>;
+  return HEIGHT_UNITS.includes(height as HeightUnit) && WEIGHT_UNITS.includes(weight as WeightUnit);
+};
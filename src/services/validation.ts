@@ -0,0 +1,116 @@
+/*
+Runtime validation for backend responses.
+
+TypeScript types disappear at runtime, so every payload coming back from the API
+is checked here before it is mapped to a domain object. When the backend returns
+something unexpected we fail loudly with an ApiValidationError that names the
+resource and the offending field, instead of letting `undefined` leak into the UI.
+
+Usage:
+   const r = createReader(response.data, 'patient');
+   const id = r.string('id');
+   const middleName = r.optionalString('middle_name');
+*/
+
+export class ApiValidationError extends Error {
+  readonly resource: string;
+  readonly field: string;
+  readonly received: unknown;
+
+  constructor(resource: string, field: string, expected: string, received: unknown) {
+    super(
+      `Unexpected ${resource} data from the server: "${field}" should be ${expected} ` +
+      `but was ${describeValue(received)}.`
+    );
+    this.name = 'ApiValidationError';
+    this.resource = resource;
+    this.field = field;
+    this.received = received;
+    Object.setPrototypeOf(this, ApiValidationError.prototype);
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+const describeValue = (value: unknown): string => {
+  if (value === undefined) return 'missing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  return typeof value;
+};
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const YES_VALUES = ['yes', 'true', '1'];
+const NO_VALUES = ['no', 'false', '0'];
+
+export const createReader = (value: unknown, resource: string) => {
+  if (!isObject(value)) {
+    throw new ApiValidationError(resource, '(root)', 'an object', value);
+  }
+  const data = value;
+
+  const fail = (field: string, expected: string): never => {
+    throw new ApiValidationError(resource, field, expected, data[field]);
+  };
+
+  const string = (field: string): string => {
+    const raw = data[field];
+    if (typeof raw === 'string' && raw.trim() !== '') return raw;
+    if (typeof raw === 'number') return String(raw);
+    return fail(field, 'a non-empty string');
+  };
+
+  const optionalString = (field: string): string | undefined => {
+    const raw = data[field];
+    if (raw === undefined || raw === null || raw === '') return undefined;
+    return string(field);
+  };
+
+  const number = (field: string): number => {
+    const raw = data[field];
+    const parsed = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+    if (typeof parsed === 'number' && isFinite(parsed)) return parsed;
+    return fail(field, 'a number');
+  };
+
+  const optionalNumber = (field: string): number | undefined => {
+    const raw = data[field];
+    if (raw === undefined || raw === null || raw === '') return undefined;
+    return number(field);
+  };
+
+  const optionalYesNo = (field: string): boolean | undefined => {
+    const raw = data[field];
+    if (raw === undefined || raw === null || raw === '') return undefined;
+    if (typeof raw === 'boolean') return raw;
+    if (typeof raw === 'string') {
+      const normalized = raw.trim().toLowerCase();
+      if (YES_VALUES.includes(normalized)) return true;
+      if (NO_VALUES.includes(normalized)) return false;
+    }
+    return fail(field, 'a yes/no value');
+  };
+
+  const oneOf = <T extends string>(field: string, allowed: readonly T[]): T => {
+    const raw = string(field);
+    const match = allowed.find(option => option.toLowerCase() === raw.toLowerCase());
+    if (match) return match;
+    return fail(field, `one of ${allowed.join(', ')}`);
+  };
+
+  /*
+  Function: Pick the first field that is present
+  Purpose: Several backend fields have legacy aliases (patient/patient_id,
+  diet_history/been_on_diet); this returns the first alias that has a value
+  so the caller can read it with the usual typed helpers.
+  */
+  const firstPresent = (...fields: string[]): string => {
+    const found = fields.find(field => data[field] !== undefined && data[field] !== null);
+    return found || fields[0];
+  };
+
+  return { string, optionalString, number, optionalNumber, optionalYesNo, oneOf, firstPresent };
+};
@@ -0,0 +1,68 @@
+import {
+  EMPTY_VITAL_SIGN_INPUTS,
+  bloodPressureFlag,
+  formatBloodPressure,
+  readVitalSignInputs,
+  validateVitalSigns,
+  vitalSignFlag,
+} from './vitalSigns';
+
+test('reads only the vital signs that were typed', () => {
+  expect(readVitalSignInputs({ ...EMPTY_VITAL_SIGN_INPUTS, pulse: ' 72 ', temperature: '36.6' }))
+    .toEqual({ pulse: 72, temperature: 36.6 });
+  expect(readVitalSignInputs({ ...EMPTY_VITAL_SIGN_INPUTS, spo2: 'abc' }).spo2).toBeNaN();
+});
+
+test('refuses implausible values', () => {
+  expect(validateVitalSigns({ pulse: 300, temperature: 29, spo2: 101 })).toEqual({
+    pulse: 'Pulse must be between 20 and 250 bpm',
+    temperature: 'Temperature must be between 30 and 45 °C',
+    spo2: 'SpO2 must be between 50 and 100 %',
+  });
+  expect(validateVitalSigns({ respiratoryRate: NaN })).toEqual({
+    respiratoryRate: 'Please enter a valid respiratory rate',
+  });
+  expect(validateVitalSigns({})).toEqual({});
+});
+
+test('needs both blood pressure values, systolic above diastolic', () => {
+  expect(validateVitalSigns({ systolic: 120 })).toEqual({
+    diastolic: 'Enter the diastolic pressure with the systolic',
+  });
+  expect(validateVitalSigns({ systolic: 80, diastolic: 90 })).toEqual({
+    systolic: 'Systolic pressure must be higher than diastolic',
+  });
+  expect(validateVitalSigns({ systolic: 120, diastolic: 80 })).toEqual({});
+  expect(formatBloodPressure({ systolic: 120, diastolic: 80 })).toBe('120/80');
+});
+
+test('flags values outside the reference range', () => {
+  expect(vitalSignFlag('systolic', 145)).toBe('high');
+  expect(vitalSignFlag('systolic', 120)).toBeNull();
+  expect(vitalSignFlag('pulse', 48)).toBe('low');
+  expect(vitalSignFlag('temperature', 38)).toBe('high');
+  expect(vitalSignFlag('spo2', 92)).toBe('low');
+  expect(vitalSignFlag('spo2', 100)).toBeNull();
+  expect(vitalSignFlag('pulse', undefined)).toBeNull();
+});
+
+test('flags a blood pressure reading by its worse value', () => {
+  expect(bloodPressureFlag({ systolic: 150, diastolic: 55 })).toBe('high');
+  expect(bloodPressureFlag({ systolic: 85, diastolic: 70 })).toBe('low');
+  expect(bloodPressureFlag({ systolic: 120, diastolic: 80 })).toBeNull();
+  expect(bloodPressureFlag({})).toBeNull();
+});
+
+test('flags body fat against the sex-specific range', () => {
+  expect(vitalSignFlag('bodyFat', 33, 'Female')).toBe('high');
+  expect(vitalSignFlag('bodyFat', 8, 'Female')).toBe('low');
+  expect(vitalSignFlag('bodyFat', 28, 'Male')).toBe('high');
+  expect(vitalSignFlag('bodyFat', 28, 'Other')).toBeNull();
+  expect(vitalSignFlag('hip', 140, 'Female')).toBeNull();
+});
+
+test('flags waist circumference by sex', () => {
+  expect(vitalSignFlag('waist', 95, 'Female')).toBe('high');
+  expect(vitalSignFlag('waist', 95, 'Male')).toBeNull();
+  expect(vitalSignFlag('waist', 110, 'Undisclosed')).toBeNull();
+});
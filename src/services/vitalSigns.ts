@@ -0,0 +1,141 @@
+import { Sex, VitalSign, VitalSigns } from '../types';
+import { growthReferenceSex, GrowthReferenceSex } from './sexGender';
+
+/*
+Plausibility checks and abnormal-value flags for the vital signs recorded with
+height and weight (blood pressure, pulse, temperature, respiratory rate, SpO2,
+waist and hip circumference, body fat).
+
+   - Values outside the plausible range are refused as typing mistakes
+   - Plausible values outside the adult reference range are flagged low or high,
+     for the clinician to look at; they are saved as entered
+   - Blood pressure is recorded as a pair, and systolic must be above diastolic
+   - Waist circumference is flagged against the sex-specific thresholds for
+     abdominal obesity (women > 88 cm, men > 102 cm) and body fat against the
+     sex-specific healthy ranges (women 10–31 %, men 2–24 %); neither is flagged
+     when the patient's sex is not recorded as female or male
+   - Hip circumference is not flagged on its own; services/bodyComposition
+     derives the waist ratios
+*/
+
+export type VitalSignFlag = 'low' | 'high';
+
+interface Range {
+  min?: number;
+  max?: number;
+}
+
+interface VitalSignDefinition {
+  label: string;
+  shortLabel: string;
+  unit: string;
+  step: string;
+  plausible: { min: number; max: number };
+  normal: Range;
+}
+
+export const VITAL_SIGNS: Record<VitalSign, VitalSignDefinition> = {
+  systolic: { label: 'Systolic BP', shortLabel: 'Systolic', unit: 'mmHg', step: '1', plausible: { min: 50, max: 300 }, normal: { min: 90, max: 139 } },
+  diastolic: { label: 'Diastolic BP', shortLabel: 'Diastolic', unit: 'mmHg', step: '1', plausible: { min: 20, max: 200 }, normal: { min: 60, max: 89 } },
+  pulse: { label: 'Pulse', shortLabel: 'Pulse', unit: 'bpm', step: '1', plausible: { min: 20, max: 250 }, normal: { min: 60, max: 100 } },
+  temperature: { label: 'Temperature', shortLabel: 'Temp', unit: '°C', step: '0.1', plausible: { min: 30, max: 45 }, normal: { min: 35, max: 37.9 } },
+  respiratoryRate: { label: 'Respiratory rate', shortLabel: 'Resp. rate', unit: '/min', step: '1', plausible: { min: 4, max: 80 }, normal: { min: 12, max: 20 } },
+  spo2: { label: 'SpO2', shortLabel: 'SpO2', unit: '%', step: '1', plausible: { min: 50, max: 100 }, normal: { min: 94 } },
+  waist: { label: 'Waist circumference', shortLabel: 'Waist', unit: 'cm', step: '0.1', plausible: { min: 30, max: 250 }, normal: {} },
+  hip: { label: 'Hip circumference', shortLabel: 'Hip', unit: 'cm', step: '0.1', plausible: { min: 40, max: 250 }, normal: {} },
+  bodyFat: { label: 'Body fat', shortLabel: 'Body fat', unit: '%', step: '0.1', plausible: { min: 2, max: 75 }, normal: {} },
+};
+
+export const VITAL_SIGN_FIELDS = Object.keys(VITAL_SIGNS) as VitalSign[];
+
+const SEX_SPECIFIC_RANGES: Partial<Record<VitalSign, Record<GrowthReferenceSex, Range>>> = {
+  waist: { female: { max: 88 }, male: { max: 102 } },
+  bodyFat: { female: { min: 10, max: 31 }, male: { min: 2, max: 24 } },
+};
+
+export type VitalSignErrors = Partial<Record<VitalSign, string>>;
+
+/* The vital sign fields of the vitals form, as typed. */
+export type VitalSignInputs = Record<VitalSign, string>;
+
+export const EMPTY_VITAL_SIGN_INPUTS = Object.fromEntries(
+  VITAL_SIGN_FIELDS.map(sign => [sign, ''])
+) as VitalSignInputs;
+
+/*
+Function: The vital signs typed in the form
+Purpose: Empty fields are left out; anything else that is not a number becomes
+NaN, which validateVitalSigns refuses.
+*/
+export const readVitalSignInputs = (inputs: VitalSignInputs): VitalSigns => {
+  const signs: VitalSigns = {};
+  VITAL_SIGN_FIELDS.forEach(sign => {
+    const raw = inputs[sign].trim();
+    if (raw !== '') signs[sign] = Number(raw);
+  });
+  return signs;
+};
+
+const normalRange = (sign: VitalSign, sex?: Sex): Range => {
+  const bySex = SEX_SPECIFIC_RANGES[sign];
+  if (!bySex) return VITAL_SIGNS[sign].normal;
+  const referenceSex = growthReferenceSex(sex);
+  return referenceSex ? bySex[referenceSex] : {};
+};
+
+export const vitalSignFlag = (sign: VitalSign, value: number | undefined, sex?: Sex): VitalSignFlag | null => {
+  if (value === undefined || isNaN(value)) return null;
+  const { min, max } = normalRange(sign, sex);
+  if (min !== undefined && value < min) return 'low';
+  if (max !== undefined && value > max) return 'high';
+  return null;
+};
+
+/*
+Function: Flag for a blood pressure reading
+Purpose: High when either pressure is high, otherwise low when either is low.
+*/
+export const bloodPressureFlag = (signs: VitalSigns): VitalSignFlag | null => {
+  const flags = [vitalSignFlag('systolic', signs.systolic), vitalSignFlag('diastolic', signs.diastolic)];
+  if (flags.includes('high')) return 'high';
+  return flags.includes('low') ? 'low' : null;
+};
+
+export const validateVitalSign = (sign: VitalSign, value: number): string | null => {
+  const { label, unit, plausible } = VITAL_SIGNS[sign];
+  if (isNaN(value)) return `Please enter a valid ${label.toLowerCase()}`;
+  return value < plausible.min || value > plausible.max
+    ? `${label} must be between ${plausible.min} and ${plausible.max} ${unit}`
+    : null;
+};
+
+/*
+Function: Check every vital sign that was entered
+Purpose: Signs left out are skipped; only half a blood pressure reading, or a
+systolic value not above the diastolic one, is an error.
+*/
+export const validateVitalSigns = (signs: VitalSigns): VitalSignErrors => {
+  const errors: VitalSignErrors = {};
+  VITAL_SIGN_FIELDS.forEach(sign => {
+    const value = signs[sign];
+    if (value === undefined) return;
+    const error = validateVitalSign(sign, value);
+    if (error) errors[sign] = error;
+  });
+
+  const { systolic, diastolic } = signs;
+  if (systolic === undefined && diastolic !== undefined) {
+    errors.systolic = errors.systolic || 'Enter the systolic pressure with the diastolic';
+  } else if (diastolic === undefined && systolic !== undefined) {
+    errors.diastolic = errors.diastolic || 'Enter the diastolic pressure with the systolic';
+  } else if (systolic !== undefined && diastolic !== undefined && !errors.systolic && !errors.diastolic && systolic <= diastolic) {
+    errors.systolic = 'Systolic pressure must be higher than diastolic';
+  }
+  return errors;
+};
+
+export const formatVitalSign = (sign: VitalSign, value: number | undefined): string =>
+  value === undefined ? '—' : `${value} ${VITAL_SIGNS[sign].unit}`;
+
+export const formatBloodPressure = (signs: VitalSigns): string =>
+  signs.systolic === undefined || signs.diastolic === undefined ? '—' : `${signs.systolic}/${signs.diastolic}`;
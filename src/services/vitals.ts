@@ -0,0 +1,54 @@
+/*
+Rules for a height and weight measurement, shared by VitalsForm and the vitals
+import so a measurement is accepted or refused the same way in both.
+
+   - height 50–250 cm, weight 2–300 kg
+   - BMI = weight / height², rounded to one decimal
+   - one vitals record per patient per visit date
+*/
+
+export const HEIGHT_RANGE_CM = { min: 50, max: 250 };
+export const WEIGHT_RANGE_KG = { min: 2, max: 300 };
+
+export const calculateBMI = (height: number, weight: number): number => {
+  const heightInMeters = height / 100;
+  const bmi = weight / (heightInMeters * heightInMeters);
+  return parseFloat(bmi.toFixed(1));
+};
+
+export const validateHeight = (height: number): string | null => {
+  if (isNaN(height)) return 'Please enter a valid height';
+  return height < HEIGHT_RANGE_CM.min || height > HEIGHT_RANGE_CM.max
+    ? `Height must be between ${HEIGHT_RANGE_CM.min}cm and ${HEIGHT_RANGE_CM.max}cm`
+    : null;
+};
+
+export const validateWeight = (weight: number): string | null => {
+  if (isNaN(weight)) return 'Please enter a valid weight';
+  return weight < WEIGHT_RANGE_KG.min || weight > WEIGHT_RANGE_KG.max
+    ? `Weight must be between ${WEIGHT_RANGE_KG.min}kg and ${WEIGHT_RANGE_KG.max}kg`
+    : null;
+};
+
+/*
+Function: Today's date in the user's time zone
+Purpose: The latest visit date allowed, as YYYY-MM-DD. Local rather than UTC,
+so a visit recorded in the evening is not dated tomorrow (or refused as future).
+*/
+export const getTodayDate = (): string => {
+  const today = new Date();
+  const year = today.getFullYear();
+  const month = String(today.getMonth() + 1).padStart(2, '0');
+  const day = String(today.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/*
+Function: The calendar day of a stored visit date
+Purpose: The backend may answer with a date or a timestamp; duplicates are
+compared per day.
+*/
+export const visitDay = (visitDate: string): string => {
+  const date = new Date(visitDate);
+  return isNaN(date.getTime()) ? visitDate : date.toISOString().split('T')[0];
+};
@@ -0,0 +1,71 @@
+import { Patient } from '../types';
+import { parseCsv } from './csv';
+import { guessVitalsColumnMapping, prepareVitalsImportRows } from './vitalsImport';
+
+const jane: Patient = {
+  id: 'p1',
+  patientNumber: 'PAT-000001-8',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  dateOfBirth: '1990-05-14',
+  sex: 'Female',
+  registrationDate: '2020-01-10',
+};
+
+const headers = ['Patient Number', 'Visit Date', 'Height (cm)', 'Weight (kg)'];
+const mapping = guessVitalsColumnMapping(headers);
+const context = {
+  patients: new Map([[jane.patientNumber, jane]]),
+  existingVisitDays: new Map([[jane.id, new Set(['2023-03-01'])]]),
+  today: '2024-06-01',
+};
+const records = (rows: string[][]) => rows.map((values, index) => ({ line: index + 2, values }));
+
+test('guesses the vitals columns', () => {
+  expect(mapping).toEqual({ patientNumber: 0, visitDate: 1, height: 2, weight: 3 });
+});
+
+test('calculates BMI like the vitals form', () => {
+  const [row] = prepareVitalsImportRows(records([['pat-000001-8', '02/01/2022', '170', '72,5']]), mapping, context);
+  expect(row.errors).toEqual([]);
+  expect(row.vitals).toEqual({ patientId: 'p1', visitDate: '2022-01-02', height: 170, weight: 72.5, bmi: 25.1 });
+});
+
+test('rejects unknown patients and out-of-range measurements', () => {
+  const rows = prepareVitalsImportRows(records([
+    ['PAT-999999-2', '2022-01-02', '170', '70'],
+    [jane.patientNumber, '2022-01-02', '45', '301'],
+    [jane.patientNumber, '2030-01-02', '170', '70'],
+  ]), mapping, context);
+
+  expect(rows[0].errors).toEqual(['No patient with number PAT-999999-2']);
+  expect(rows[1].errors).toEqual(['Height must be between 50cm and 250cm', 'Weight must be between 2kg and 300kg']);
+  expect(rows[2].errors).toEqual(['Visit date cannot be in the future']);
+});
+
+test('rejects a visit date the patient already has vitals for', () => {
+  const rows = prepareVitalsImportRows(records([
+    [jane.patientNumber, '2023-03-01', '170', '70'],
+    [jane.patientNumber, '2022-01-02', '170', '70'],
+    [jane.patientNumber, '2022-01-02', '171', '70'],
+  ]), mapping, context);
+
+  expect(rows.map(row => row.errors)).toEqual([
+    ['Vitals already recorded for this date'],
+    [],
+    ['The file has another row for this patient on this date'],
+  ]);
+});
+
+test('numbers rows by the line they start on in the file', () => {
+  const [, ...data] = parseCsv([
+    headers.join(','),
+    '',
+    `"${jane.patientNumber}\n",2022-01-02,170,70`,
+    `${jane.patientNumber},2030-01-02,170,70`,
+  ].join('\n'));
+
+  const rows = prepareVitalsImportRows(data, mapping, context);
+  expect(rows.map(row => row.rowNumber)).toEqual([3, 5]);
+  expect(rows[1].errors).toEqual(['Visit date cannot be in the future']);
+});
@@ -0,0 +1,122 @@
+import { NewVitals, Patient } from '../types';
+import { CsvImportRow, CsvRecord, matchColumns, parseCsvDate } from './csv';
+import { calculateBMI, validateHeight, validateWeight } from './vitals';
+
+/*
+Turning the rows of a spreadsheet of past measurements into vitals records.
+
+Each row names the patient by patient number and holds one visit's height
+and weight. Rows are checked with the rules VitalsForm uses (services/vitals):
+height and weight ranges, no visit in the future and at most one record per
+patient per visit date, counting the records already saved and the rows
+earlier in the file. BMI is calculated, never read from the file.
+
+Loading the patients and their saved visit dates, and saving the rows, live
+in services/queries (previewVitalsImport, importVitals).
+*/
+
+export type VitalsImportField = 'patientNumber' | 'visitDate' | 'height' | 'weight';
+
+export type VitalsColumnMapping = Partial<Record<VitalsImportField, number>>;
+
+export interface VitalsImportRow extends CsvImportRow {
+  patientNumber: string;
+  patient?: Patient;
+  vitals?: NewVitals;
+  savedId?: string;
+}
+
+export interface VitalsImportContext {
+  patients: Map<string, Patient>;
+  existingVisitDays: Map<string, Set<string>>;
+  today: string;
+}
+
+export const VITALS_IMPORT_FIELD_LABELS: Record<VitalsImportField, string> = {
+  patientNumber: 'Patient number',
+  visitDate: 'Visit date',
+  height: 'Height (cm)',
+  weight: 'Weight (kg)',
+};
+
+export const VITALS_IMPORT_FIELDS = Object.keys(VITALS_IMPORT_FIELD_LABELS) as VitalsImportField[];
+
+export const guessVitalsColumnMapping = (headers: string[]): VitalsColumnMapping =>
+  matchColumns<VitalsImportField>(headers, {
+    patientNumber: ['patient_number', 'patientnumber', 'patientno', 'patientid', 'mrn'],
+    visitDate: ['visit_date', 'visitdate', 'date', 'measured', 'measuredon'],
+    height: ['height', 'heightcm', 'height_cm'],
+    weight: ['weight', 'weightkg', 'weight_kg'],
+  });
+
+export const missingVitalsFields = (mapping: VitalsColumnMapping): VitalsImportField[] =>
+  VITALS_IMPORT_FIELDS.filter(field => mapping[field] === undefined);
+
+export const normalizePatientNumber = (value: string): string => value.trim().toUpperCase();
+
+const cellOf = (values: string[], column: number | undefined) =>
+  column === undefined ? '' : (values[column] || '').trim();
+
+export const vitalsImportPatientNumbers = (records: CsvRecord[], mapping: VitalsColumnMapping): string[] =>
+  Array.from(new Set(
+    records.map(({ values }) => normalizePatientNumber(cellOf(values, mapping.patientNumber))).filter(Boolean)
+  ));
+
+const parseMeasurement = (value: string): number =>
+  value === '' ? NaN : Number(value.replace(',', '.'));
+
+export const prepareVitalsImportRows = (
+  records: CsvRecord[],
+  mapping: VitalsColumnMapping,
+  context: VitalsImportContext
+): VitalsImportRow[] => {
+  const seen = new Set<string>();
+
+  return records.map(({ line, values }) => {
+    const errors: string[] = [];
+    const patientNumber = normalizePatientNumber(cellOf(values, mapping.patientNumber));
+    const patient = patientNumber ? context.patients.get(patientNumber) : undefined;
+
+    if (!patientNumber) {
+      errors.push('Missing patient number');
+    } else if (!patient) {
+      errors.push(`No patient with number ${patientNumber}`);
+    } else if (patient.archivedAt) {
+      errors.push(`Patient ${patientNumber} is archived`);
+    }
+
+    const rawDate = cellOf(values, mapping.visitDate);
+    const visitDate = parseCsvDate(rawDate);
+    if (!visitDate) {
+      errors.push(rawDate ? `Visit date "${rawDate}" is not a date (use YYYY-MM-DD or DD/MM/YYYY)` : 'Missing visit date');
+    } else if (visitDate > context.today) {
+      errors.push('Visit date cannot be in the future');
+    }
+
+    const height = parseMeasurement(cellOf(values, mapping.height));
+    const weight = parseMeasurement(cellOf(values, mapping.weight));
+    const heightError = validateHeight(height);
+    const weightError = validateWeight(weight);
+    if (heightError) errors.push(heightError);
+    if (weightError) errors.push(weightError);
+
+    if (patient && visitDate) {
+      const key = `${patient.id}|${visitDate}`;
+      if (context.existingVisitDays.get(patient.id)?.has(visitDate)) {
+        errors.push('Vitals already recorded for this date');
+      } else if (seen.has(key)) {
+        errors.push('The file has another row for this patient on this date');
+      }
+      seen.add(key);
+    }
+
+    const vitals = patient && visitDate && !heightError && !weightError
+      ? { patientId: patient.id, visitDate, height, weight, bmi: calculateBMI(height, weight) }
+      : undefined;
+
+    return { rowNumber: line, values, patientNumber, patient, vitals, errors };
+  });
+};
+
+export const isVitalsRowReady = (row: VitalsImportRow): boolean =>
+  row.errors.length === 0 && Boolean(row.vitals) && !row.savedId;
@@ -1,19 +1,201 @@
-export interface Patient {
+/*
+Administrative sex and self-identified gender are recorded separately,
+see services/sexGender.
+*/
+export type Sex = 'Female' | 'Male' | 'Other' | 'Undisclosed';
+
+export type GenderIdentity = 'Woman' | 'Man' | 'NonBinary' | 'Other' | 'Undisclosed';
+
+export type GeneralHealth = 'Good' | 'Poor';
+
+export type AssessmentType = 'overweight' | 'general';
+
+export interface Archivable {
+  archivedAt?: string;
+  archiveReason?: string;
+}
+
+export interface Patient extends Archivable {
   id: string;
+  patientNumber: string;
+  firstName: string;
+  lastName: string;
+  middleName?: string;
+  dateOfBirth: string;
+  sex: Sex;
+  genderIdentity?: GenderIdentity;
+  registrationDate: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  nationalId?: string;
+  nextOfKinName?: string;
+  nextOfKinRelationship?: string;
+  nextOfKinPhone?: string;
+  preferredLanguage?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/*
+Measurements taken at the same visit as height and weight. Each may be left
+out: blood pressure in mmHg, pulse in beats/min, temperature in °C,
+respiratory rate in breaths/min, SpO2 in %, waist and hip circumference in cm,
+body fat in %.
+*/
+export interface VitalSigns {
+  systolic?: number;
+  diastolic?: number;
+  pulse?: number;
+  temperature?: number;
+  respiratoryRate?: number;
+  spo2?: number;
+  waist?: number;
+  hip?: number;
+  bodyFat?: number;
+}
+
+export type VitalSign = keyof VitalSigns;
+
+export interface Vitals extends Archivable, VitalSigns {
+  id: string;
+  patientId: string;
+  visitDate: string;
+  height: number;
+  weight: number;
+  bmi: number;
+  createdAt?: string;
+}
+
+export interface OverweightAssessment extends Archivable {
+  id: string;
+  type: 'overweight';
+  patientId: string;
+  visitDate: string;
+  generalHealth: GeneralHealth;
+  beenOnDiet?: boolean;
+  comments: string;
+  createdAt?: string;
+}
+
+export interface GeneralAssessment extends Archivable {
+  id: string;
+  type: 'general';
+  patientId: string;
+  visitDate: string;
+  generalHealth: GeneralHealth;
+  usingDrugs?: boolean;
+  comments: string;
+  createdAt?: string;
+}
+
+export type Assessment = OverweightAssessment | GeneralAssessment;
+
+export interface PatientSummary {
   patientId: string;
+  lastBmi?: number;
+  lastWaistToHeight?: number;
+  lastWaistToHip?: number;
+  lastVitalsDate?: string;
+  lastAssessmentDate?: string;
+  lastAssessmentType?: AssessmentType;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export type PatientSortField = 'name' | 'age' | 'registrationDate';
+
+export interface PatientListQuery {
+  page: number;
+  pageSize: number;
+  search?: string;
+  visitDate?: string;
+  sortBy?: PatientSortField;
+  sortDirection?: SortDirection;
+  includeArchived?: boolean;
+}
+
+export interface NewPatient {
+  patientNumber: string;
   firstName: string;
   lastName: string;
   middleName?: string;
   dateOfBirth: string;
-  gender: 'Male' | 'Female';
+  sex: Sex;
+  genderIdentity?: GenderIdentity;
   registrationDate: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  nationalId?: string;
+  nextOfKinName?: string;
+  nextOfKinRelationship?: string;
+  nextOfKinPhone?: string;
+  preferredLanguage?: string;
+}
+
+export type PatientField = keyof NewPatient;
+
+export interface PatientChange {
+  field: PatientField;
+  from?: string;
+  to?: string;
 }
 
-export interface Vitals {
+export interface MovedRecord {
+  type: 'vitals' | AssessmentType;
   id: string;
+}
+
+export interface PatientMergeRecord {
+  survivorId: string;
+  duplicate: Patient;
+  changes: PatientChange[];
+  movedRecords: MovedRecord[];
+}
+
+export interface NewVitals extends VitalSigns {
   patientId: string;
   visitDate: string;
   height: number;
   weight: number;
   bmi: number;
 }
+
+export interface NewOverweightAssessment {
+  patientId: string;
+  visitDate: string;
+  generalHealth: GeneralHealth;
+  beenOnDiet: boolean;
+  comments: string;
+}
+
+export interface NewGeneralAssessment {
+  patientId: string;
+  visitDate: string;
+  generalHealth: GeneralHealth;
+  usingDrugs: boolean;
+  comments: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export type Role = 'clinician' | 'nurse' | 'front-desk';
+
+export type Permission =
+  | 'patients:view'
+  | 'patients:register'
+  | 'patients:merge'
+  | 'vitals:record'
+  | 'assessments:create'
+  | 'assessments:view-comments'
+  | 'records:archive'
+  | 'records:delete';
+
+export interface AuthSession extends AuthTokens {
+  username: string;
+  role: Role;
+}